@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Cycle" ADD COLUMN     "bidAmount" DOUBLE PRECISION,
+ADD COLUMN     "rotationId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Rotation" (
+    "id" SERIAL NOT NULL,
+    "groupId" INTEGER NOT NULL,
+    "strategy" TEXT NOT NULL,
+    "seed" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "createdById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Rotation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Rotation_groupId_idx" ON "Rotation"("groupId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Cycle_rotationId_recipientUserId_key" ON "Cycle"("rotationId", "recipientUserId");
+
+-- AddForeignKey
+ALTER TABLE "Cycle" ADD CONSTRAINT "Cycle_rotationId_fkey" FOREIGN KEY ("rotationId") REFERENCES "Rotation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Rotation" ADD CONSTRAINT "Rotation_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "Group"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Rotation" ADD CONSTRAINT "Rotation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Cycle" ADD COLUMN     "dueDate" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Group" ADD COLUMN     "anchorDay" INTEGER,
+ADD COLUMN     "dueOffsetDays" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "holidays" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "intervalCount" INTEGER,
+ADD COLUMN     "intervalUnit" TEXT,
+ADD COLUMN     "scheduleRule" TEXT,
+ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- Backfill typed schedules for groups that used one of the preset frequencies
+UPDATE "Group" SET "intervalUnit" = 'week', "intervalCount" = 1 WHERE lower("frequency") = 'weekly';
+UPDATE "Group" SET "intervalUnit" = 'week', "intervalCount" = 2 WHERE lower("frequency") = 'bi-weekly';
+UPDATE "Group" SET "intervalUnit" = 'month', "intervalCount" = 1 WHERE lower("frequency") = 'monthly';
+UPDATE "Group" SET "intervalUnit" = 'month', "intervalCount" = 3 WHERE lower("frequency") = 'quarterly';
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Cycle" ALTER COLUMN "status" SET DEFAULT 'scheduled';
+
+-- Map the old free-form statuses onto the lifecycle
+UPDATE "Cycle" SET "status" = 'closed' WHERE "status" = 'completed';
+UPDATE "Cycle" SET "status" = 'scheduled' WHERE "status" = 'active' AND "startDate" > CURRENT_TIMESTAMP;
+UPDATE "Cycle" SET "status" = 'collecting' WHERE "status" NOT IN ('scheduled', 'collecting', 'ready_for_payout', 'paid_out', 'closed', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "CycleTransition" (
+    "id" SERIAL NOT NULL,
+    "cycleId" INTEGER NOT NULL,
+    "fromStatus" TEXT NOT NULL,
+    "toStatus" TEXT NOT NULL,
+    "reason" TEXT,
+    "actorId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CycleTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CycleTransition_cycleId_idx" ON "CycleTransition"("cycleId");
+
+-- AddForeignKey
+ALTER TABLE "CycleTransition" ADD CONSTRAINT "CycleTransition_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "Cycle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CycleTransition" ADD CONSTRAINT "CycleTransition_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
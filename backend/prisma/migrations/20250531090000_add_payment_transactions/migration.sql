@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "amountPaid" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'unpaid';
+
+-- CreateTable
+CREATE TABLE "PaymentTransaction" (
+    "id" SERIAL NOT NULL,
+    "paymentId" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "method" TEXT NOT NULL,
+    "reference" TEXT,
+    "recordedById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "voidedAt" TIMESTAMP(3),
+    "voidedById" INTEGER,
+    "voidReason" TEXT,
+
+    CONSTRAINT "PaymentTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- Carry payments already marked paid over as a single transaction for the full amount
+INSERT INTO "PaymentTransaction" ("paymentId", "amount", "method", "createdAt")
+SELECT "id", "amount", 'other', COALESCE("paidAt", CURRENT_TIMESTAMP) FROM "Payment" WHERE "paid" = true;
+
+UPDATE "Payment" SET "amountPaid" = "amount", "status" = 'paid' WHERE "paid" = true;
+
+-- AlterTable
+ALTER TABLE "Payment" DROP COLUMN "paid";
+
+-- CreateIndex
+CREATE INDEX "PaymentTransaction_paymentId_idx" ON "PaymentTransaction"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_voidedById_fkey" FOREIGN KEY ("voidedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "PaymentDeclaration" (
+    "id" SERIAL NOT NULL,
+    "paymentId" INTEGER NOT NULL,
+    "declaredById" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "method" TEXT NOT NULL,
+    "reference" TEXT,
+    "note" TEXT,
+    "receiptKey" TEXT,
+    "receiptContentType" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "reviewedById" INTEGER,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "transactionId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentDeclaration_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentDeclaration_transactionId_key" ON "PaymentDeclaration"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "PaymentDeclaration_paymentId_idx" ON "PaymentDeclaration"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentDeclaration" ADD CONSTRAINT "PaymentDeclaration_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentDeclaration" ADD CONSTRAINT "PaymentDeclaration_declaredById_fkey" FOREIGN KEY ("declaredById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentDeclaration" ADD CONSTRAINT "PaymentDeclaration_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentDeclaration" ADD CONSTRAINT "PaymentDeclaration_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "PaymentTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Group" ADD COLUMN     "penaltyCap" DOUBLE PRECISION,
+ADD COLUMN     "penaltyGraceDays" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "penaltyRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "penaltyType" TEXT NOT NULL DEFAULT 'none';
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "penaltyTotal" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "PaymentPenalty" (
+    "id" SERIAL NOT NULL,
+    "paymentId" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "daysLate" INTEGER NOT NULL,
+    "assessedOn" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "waivedAt" TIMESTAMP(3),
+    "waivedById" INTEGER,
+    "waiveReason" TEXT,
+
+    CONSTRAINT "PaymentPenalty_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentPenalty_paymentId_assessedOn_key" ON "PaymentPenalty"("paymentId", "assessedOn");
+
+-- AddForeignKey
+ALTER TABLE "PaymentPenalty" ADD CONSTRAINT "PaymentPenalty_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentPenalty" ADD CONSTRAINT "PaymentPenalty_waivedById_fkey" FOREIGN KEY ("waivedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Group" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ALTER COLUMN "contribution" SET DATA TYPE DECIMAL(14,2),
+ALTER COLUMN "payoutFeeFixed" SET DATA TYPE DECIMAL(14,2),
+ALTER COLUMN "penaltyRate" SET DATA TYPE DECIMAL(14,2),
+ALTER COLUMN "penaltyCap" SET DATA TYPE DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "Cycle" ALTER COLUMN "bidAmount" SET DATA TYPE DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "Payout" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(14,2),
+ALTER COLUMN "fee" SET DATA TYPE DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "Payment" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(14,2),
+ALTER COLUMN "amountPaid" SET DATA TYPE DECIMAL(14,2),
+ALTER COLUMN "penaltyTotal" SET DATA TYPE DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "PaymentPenalty" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "PaymentTransaction" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "PaymentDeclaration" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(14,2);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Membership" ADD COLUMN     "customAmount" DECIMAL(14,2),
+ADD COLUMN     "shares" DECIMAL(5,2) NOT NULL DEFAULT 1;
@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "Cycle_rotationId_recipientUserId_key";
+
+-- CreateIndex
+CREATE INDEX "Cycle_rotationId_recipientUserId_idx" ON "Cycle"("rotationId", "recipientUserId");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "cycleId" INTEGER,
+ADD COLUMN     "deepLink" TEXT,
+ADD COLUMN     "event" TEXT,
+ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'text';
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "Cycle"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "lastReminderAt" TIMESTAMP(3);
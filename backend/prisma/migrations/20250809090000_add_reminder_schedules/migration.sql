@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Cycle" ADD COLUMN     "remindersPlannedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Group" ADD COLUMN     "reminderDaysBefore" INTEGER[] DEFAULT ARRAY[3, 0]::INTEGER[],
+ADD COLUMN     "reminderHour" INTEGER NOT NULL DEFAULT 9,
+ADD COLUMN     "reminderMaxCount" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN     "reminderOverdueEvery" INTEGER NOT NULL DEFAULT 2;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "quietHoursEnd" INTEGER,
+ADD COLUMN     "quietHoursStart" INTEGER,
+ADD COLUMN     "timeZone" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReminderSchedule" (
+    "id" SERIAL NOT NULL,
+    "paymentId" INTEGER NOT NULL,
+    "dayOffset" INTEGER NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReminderSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReminderSchedule_status_scheduledFor_idx" ON "ReminderSchedule"("status", "scheduledFor");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReminderSchedule_paymentId_dayOffset_key" ON "ReminderSchedule"("paymentId", "dayOffset");
+
+-- AddForeignKey
+ALTER TABLE "ReminderSchedule" ADD CONSTRAINT "ReminderSchedule_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Membership" ADD COLUMN     "notificationPreferences" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "notificationsMuted" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "notificationPreferences" JSONB NOT NULL DEFAULT '{}';
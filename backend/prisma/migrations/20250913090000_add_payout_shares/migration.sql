@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "PayoutShare" (
+    "id" SERIAL NOT NULL,
+    "cycleId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "amount" DECIMAL(14,2) NOT NULL,
+
+    CONSTRAINT "PayoutShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayoutShare_cycleId_userId_key" ON "PayoutShare"("cycleId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "PayoutShare" ADD CONSTRAINT "PayoutShare_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "Cycle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayoutShare" ADD CONSTRAINT "PayoutShare_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -1,139 +1,80 @@
 // src/cronJobs.ts
 import cron from 'node-cron';
-import { PrismaClient } from '@prisma/client';
-import { Expo } from 'expo-server-sdk';
+import { CycleService } from './services/cycleService';
+import { PenaltyService } from './services/penaltyService';
+import { NotificationService } from './services/notificationService';
+import { EmailService } from './services/emailService';
+import { ReminderService } from './services/reminderService';
 
-const prisma = new PrismaClient();
-const expo = new Expo();
-
-// Direct implementation of notification functionality
-async function sendPushNotification(token: string, title: string, body: string, data = {}) {
+// Payment reminder job: plan reminders for new cycles from their group's
+// policy, then send the ones that are due
+cron.schedule('*/15 * * * *', async () => {
   try {
-    if (!Expo.isExpoPushToken(token)) {
-      console.error(`Invalid Expo push token: ${token}`);
-      return false;
+    await ReminderService.planDue();
+    const sent = await ReminderService.sendDue();
+    if (sent > 0) {
+      console.log(`Sent ${sent} payment reminder(s)`);
     }
-    
-    const message = {
-      to: token,
-      sound: 'default',
-      title,
-      body,
-      data
-    };
-    
-    const chunks = expo.chunkPushNotifications([message]);
-    
-    for (const chunk of chunks) {
-      try {
-        await expo.sendPushNotificationsAsync(chunk);
-        console.log('Push notification sent successfully');
-      } catch (error) {
-        console.error('Error sending push notification:', error);
-      }
+  } catch (error) {
+    console.error('Error sending payment reminders:', error);
+  }
+});
+
+// Cycle lifecycle job: start cycles whose start date arrived, move fully paid
+// cycles to payout and close paid-out cycles that have ended
+cron.schedule('*/15 * * * *', async () => {
+  try {
+    const advanced = await CycleService.advanceDueCycles();
+    if (advanced > 0) {
+      console.log(`Advanced ${advanced} cycle(s) to their next status`);
     }
-    
-    return true;
   } catch (error) {
-    console.error('Error in sendPushNotification:', error);
-    return false;
+    console.error('Error advancing cycles:', error);
   }
-}
+});
 
-// Example cron job for payment reminders
-cron.schedule('0 9 * * *', async () => {
-  console.log('Cron job running: Checking for unpaid payments...');
+// Nightly late-fee job: charge payments past their due date and grace period
+cron.schedule('0 1 * * *', async () => {
   try {
-    const unpaidPayments = await prisma.payment.findMany({
-      where: { 
-        paid: false 
-      },
-      include: {
-        user: true,
-        cycle: {
-          include: { group: true },
-        },
-      },
-    });
+    const assessed = await PenaltyService.assessDuePenalties();
+    if (assessed > 0) {
+      console.log(`Assessed late fees on ${assessed} payment(s)`);
+    }
+  } catch (error) {
+    console.error('Error assessing penalties:', error);
+  }
+});
 
-    // For each unpaid payment, if user has pushToken => send a reminder
-    for (const payment of unpaidPayments) {
-      if (payment.user.pushToken) {
-        console.log(`Sending push to user ${payment.user.id} for payment ID ${payment.id}`);
-        const groupName = payment.cycle.group.name;
-        const msgTitle = 'Tontine Payment Reminder';
-        const msgBody = `You owe ${payment.amount} for cycle #${payment.cycle.cycleIndex} in ${groupName}.`;
-        
-        await sendPushNotification(
-          payment.user.pushToken, 
-          msgTitle, 
-          msgBody,
-          {
-            type: 'payment_reminder',
-            cycleId: payment.cycle.id,
-            groupId: payment.cycle.groupId,
-            paymentId: payment.id
-          }
-        );
-      } else {
-        console.log(`User ${payment.user.id} has no push token. Skipping...`);
-      }
+// Notification delivery jobs: retry failed sends once their backoff is over
+// and collect Expo's push receipts
+cron.schedule('*/5 * * * *', async () => {
+  try {
+    const retried = await NotificationService.retryDue();
+    if (retried > 0) {
+      console.log(`Retried ${retried} notification(s)`);
     }
   } catch (error) {
-    console.error('Error in cron job:', error);
+    console.error('Error retrying notifications:', error);
   }
 });
 
-// End-of-cycle reminder job
-cron.schedule('0 */12 * * *', async () => {
-  console.log('Checking for cycles ending soon...');
+cron.schedule('*/15 * * * *', async () => {
   try {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    
-    const endingSoonCycles = await prisma.cycle.findMany({
-      where: {
-        status: 'active',
-        endDate: {
-          gte: new Date(),
-          lte: tomorrow
-        }
-      },
-      include: {
-        group: true
-      }
-    });
-    
-    for (const cycle of endingSoonCycles) {
-      // Get all unpaid payments for this cycle
-      const unpaidPayments = await prisma.payment.findMany({
-        where: {
-          cycleId: cycle.id,
-          paid: false
-        },
-        include: {
-          user: true
-        }
-      });
-      
-      // Send urgent reminders for each unpaid payment
-      for (const payment of unpaidPayments) {
-        if (payment.user.pushToken) {
-          await sendPushNotification(
-            payment.user.pushToken,
-            'Urgent Payment Reminder',
-            `Your payment for ${cycle.group.name} (Cycle #${cycle.cycleIndex}) is due within 24 hours.`,
-            {
-              type: 'urgent_payment_reminder',
-              cycleId: cycle.id,
-              groupName: cycle.group.name,
-              amount: payment.amount
-            }
-          );
-        }
-      }
+    await NotificationService.checkReceipts();
+  } catch (error) {
+    console.error('Error checking push receipts:', error);
+  }
+});
+
+// Mail queue job: send emails again that SMTP refused or the server went down
+// before sending
+cron.schedule('*/5 * * * *', async () => {
+  try {
+    const retried = await EmailService.retryDue();
+    if (retried > 0) {
+      console.log(`Retried ${retried} queued email(s)`);
     }
   } catch (error) {
-    console.error('Error checking for cycles ending soon:', error);
+    console.error('Error retrying queued emails:', error);
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,117 @@
+import { Translation } from './types';
+
+export const ar: Translation = {
+  locale: 'ar',
+  dir: 'rtl',
+  labelSeparator: ': ',
+  greeting: (name) => (name ? `مرحبًا ${name}،` : 'مرحبًا،'),
+  signOff: ['شكرًا لك،', 'فريق تطبيق تونتين'],
+
+  templates: {
+    payment_reminder: (data, format, appUrl) => {
+      const amount = format.money(data.amount, data.currency);
+      const dueDate = data.dueDate ? format.date(data.dueDate, data.timeZone) : null;
+      const cycle = `${data.groupName} (الدورة رقم ${data.cycleIndex})`;
+
+      return {
+        subject: `${data.overdue ? 'دفعة متأخرة' : 'تذكير بالدفع'}: ${data.groupName} - الدورة رقم ${data.cycleIndex}`,
+        heading: data.overdue ? 'دفعة متأخرة' : 'تذكير بالدفع',
+        bad: data.overdue,
+        paragraphs: [
+          data.overdue
+            ? `كانت دفعتك البالغة ${amount} لمجموعة ${cycle} مستحقة ${dueDate ? `في ${dueDate}` : 'في نهاية الدورة'} ولم تُسدَّد بعد.`
+            : `نذكّرك بأن دفعتك البالغة ${amount} لمجموعة ${cycle} مستحقة ${dueDate ? `قبل ${dueDate}` : 'قبل نهاية الدورة'}.`,
+          'يرجى تسجيل الدخول إلى تطبيق تونتين لإتمام الدفع.',
+        ],
+        details: [
+          ['المجموعة', data.groupName],
+          ['الدورة', `رقم ${data.cycleIndex}`],
+          ['المبلغ المستحق', amount],
+          ...(dueDate ? [['تاريخ الاستحقاق', dueDate] as [string, string]] : []),
+        ],
+        action: { label: 'فتح تطبيق تونتين', url: appUrl },
+        note: 'إذا كنت قد سددت هذه الدفعة بالفعل، يرجى تجاهل هذه الرسالة.',
+      };
+    },
+
+    invite: (data, format) => ({
+      subject: `${data.inviterName} يدعوك للانضمام إلى ${data.groupName} على تطبيق تونتين`,
+      heading: 'لقد تمت دعوتك',
+      paragraphs: [
+        `يدعوك ${data.inviterName} للانضمام إلى ${data.groupName}، وهي مجموعة ادخار على تطبيق تونتين.`,
+        'افتح الرابط أدناه على هاتفك لعرض المجموعة والانضمام إليها.',
+      ],
+      action: { label: 'عرض الدعوة', url: data.inviteUrl },
+      note: data.expiresAt ? `تنتهي صلاحية هذه الدعوة في ${format.date(data.expiresAt, data.timeZone)}.` : undefined,
+    }),
+
+    payout_notice: (data, format, appUrl) => {
+      const amount = format.money(data.amount, data.currency);
+
+      return {
+        subject: `تم إرسال الدفعة: ${data.groupName} - الدورة رقم ${data.cycleIndex}`,
+        heading: 'تم إرسال الدفعة',
+        paragraphs: [
+          `تم صرف ${amount} لك من ${data.groupName} (الدورة رقم ${data.cycleIndex}).`,
+          'يرجى تأكيد الاستلام في تطبيق تونتين فور وصول المبلغ إليك.',
+        ],
+        details: [
+          ['المجموعة', data.groupName],
+          ['الدورة', `رقم ${data.cycleIndex}`],
+          ['المبلغ', amount],
+        ],
+        action: { label: 'فتح تطبيق تونتين', url: appUrl },
+      };
+    },
+
+    password_reset: (data) => ({
+      subject: 'إعادة تعيين كلمة مرور تطبيق تونتين',
+      heading: 'إعادة تعيين كلمة المرور',
+      paragraphs: [
+        'تلقينا طلبًا لإعادة تعيين كلمة المرور لحسابك في تطبيق تونتين.',
+        'افتح الرابط التالي على هاتفك لاختيار كلمة مرور جديدة.',
+      ],
+      action: { label: 'اختيار كلمة مرور جديدة', url: data.resetLink },
+      note: 'تنتهي صلاحية هذا الرابط خلال ساعة واحدة ولا يمكن استخدامه إلا مرة واحدة. إذا لم تطلب إعادة التعيين، يمكنك تجاهل هذه الرسالة.',
+    }),
+
+    email_verification: (data) => ({
+      subject: 'أكّد بريدك الإلكتروني لتطبيق تونتين',
+      heading: 'تأكيد البريد الإلكتروني',
+      paragraphs: [
+        'مرحبًا بك في تطبيق تونتين! يرجى تأكيد عنوان بريدك الإلكتروني لتبدأ بالانضمام إلى مجموعات التونتين.',
+      ],
+      action: { label: 'تأكيد البريد الإلكتروني', url: data.verifyLink },
+      note: 'تنتهي صلاحية هذا الرابط خلال 3 أيام. إذا لم تنشئ حسابًا، يمكنك تجاهل هذه الرسالة.',
+    }),
+
+    join_request_decision: (data, format, appUrl) => ({
+      subject: data.approved ? `تم قبولك في ${data.groupName}` : `طلبك للانضمام إلى ${data.groupName}`,
+      heading: data.approved ? 'تم قبول الطلب' : 'تم رفض الطلب',
+      bad: !data.approved,
+      paragraphs: [
+        data.approved
+          ? `تم قبول طلبك للانضمام إلى ${data.groupName}. يمكنك الآن رؤية المجموعة ودوراتها في تطبيق تونتين.`
+          : `لم يتم قبول طلبك للانضمام إلى ${data.groupName}.`,
+      ],
+      details: data.reason ? [['السبب', data.reason]] : undefined,
+      action: data.approved ? { label: 'فتح تطبيق تونتين', url: appUrl } : undefined,
+    }),
+
+    cycle_summary: (data, format, appUrl) => ({
+      subject: `ملخص الدورة رقم ${data.cycleIndex}: ${data.groupName}`,
+      heading: 'ملخص الدورة',
+      paragraphs: [
+        data.recipientName
+          ? `تم صرف الدورة رقم ${data.cycleIndex} من ${data.groupName} إلى ${data.recipientName}.`
+          : `اكتملت الدورة رقم ${data.cycleIndex} من ${data.groupName}.`,
+      ],
+      details: [
+        ['المبلغ المُحصَّل', `${format.money(data.collected, data.currency)} من ${format.money(data.expected, data.currency)}`],
+        ['الأعضاء الذين دفعوا', `${data.paidCount} من ${data.memberCount}`],
+        ...(data.recipientName ? [['المستفيد', data.recipientName] as [string, string]] : []),
+      ],
+      action: { label: 'فتح تطبيق تونتين', url: appUrl },
+    }),
+  },
+};
@@ -0,0 +1,117 @@
+import { Translation } from './types';
+
+export const en: Translation = {
+  locale: 'en-US',
+  dir: 'ltr',
+  labelSeparator: ': ',
+  greeting: (name) => (name ? `Hello ${name},` : 'Hello,'),
+  signOff: ['Thank you,', 'The Tontine App Team'],
+
+  templates: {
+    payment_reminder: (data, format, appUrl) => {
+      const amount = format.money(data.amount, data.currency);
+      const dueDate = data.dueDate ? format.date(data.dueDate, data.timeZone) : null;
+      const cycle = `${data.groupName} (Cycle #${data.cycleIndex})`;
+
+      return {
+        subject: `${data.overdue ? 'Overdue Payment' : 'Payment Reminder'}: ${data.groupName} Cycle #${data.cycleIndex}`,
+        heading: data.overdue ? 'Payment Overdue' : 'Payment Reminder',
+        bad: data.overdue,
+        paragraphs: [
+          data.overdue
+            ? `Your payment of ${amount} for ${cycle} was due ${dueDate ? `on ${dueDate}` : 'at the end of the cycle'} and is still outstanding.`
+            : `This is a reminder that your payment of ${amount} for ${cycle} is due ${dueDate ? `by ${dueDate}` : 'before the end of the cycle'}.`,
+          'Please log in to the Tontine App to make your payment.',
+        ],
+        details: [
+          ['Group', data.groupName],
+          ['Cycle', `#${data.cycleIndex}`],
+          ['Amount Due', amount],
+          ...(dueDate ? [['Due By', dueDate] as [string, string]] : []),
+        ],
+        action: { label: 'Open Tontine App', url: appUrl },
+        note: "If you've already made this payment, please disregard this message.",
+      };
+    },
+
+    invite: (data, format) => ({
+      subject: `${data.inviterName} invited you to join ${data.groupName} on Tontine App`,
+      heading: "You're Invited",
+      paragraphs: [
+        `${data.inviterName} has invited you to join ${data.groupName}, a savings group on the Tontine App.`,
+        'Open the link below on your phone to see the group and join it.',
+      ],
+      action: { label: 'View Invitation', url: data.inviteUrl },
+      note: data.expiresAt ? `This invitation expires on ${format.date(data.expiresAt, data.timeZone)}.` : undefined,
+    }),
+
+    payout_notice: (data, format, appUrl) => {
+      const amount = format.money(data.amount, data.currency);
+
+      return {
+        subject: `Payout Sent: ${data.groupName} Cycle #${data.cycleIndex}`,
+        heading: 'Payout Sent',
+        paragraphs: [
+          `${amount} has been paid out to you for ${data.groupName} (Cycle #${data.cycleIndex}).`,
+          'Please confirm in the Tontine App once you receive it.',
+        ],
+        details: [
+          ['Group', data.groupName],
+          ['Cycle', `#${data.cycleIndex}`],
+          ['Amount', amount],
+        ],
+        action: { label: 'Open Tontine App', url: appUrl },
+      };
+    },
+
+    password_reset: (data) => ({
+      subject: 'Reset your Tontine App password',
+      heading: 'Reset Your Password',
+      paragraphs: [
+        'We received a request to reset the password for your Tontine App account.',
+        'Open the following link on your phone to choose a new password.',
+      ],
+      action: { label: 'Choose a New Password', url: data.resetLink },
+      note: "This link expires in 1 hour and can only be used once. If you didn't request a reset, you can ignore this email.",
+    }),
+
+    email_verification: (data) => ({
+      subject: 'Confirm your email for Tontine App',
+      heading: 'Confirm Your Email',
+      paragraphs: [
+        'Welcome to the Tontine App! Please confirm your email address to start joining tontine groups.',
+      ],
+      action: { label: 'Confirm Email', url: data.verifyLink },
+      note: "This link expires in 3 days. If you didn't create an account, you can ignore this email.",
+    }),
+
+    join_request_decision: (data, format, appUrl) => ({
+      subject: data.approved ? `You're in: ${data.groupName}` : `Your request to join ${data.groupName}`,
+      heading: data.approved ? 'Request Approved' : 'Request Declined',
+      bad: !data.approved,
+      paragraphs: [
+        data.approved
+          ? `Your request to join ${data.groupName} has been approved. You can now see the group and its cycles in the Tontine App.`
+          : `Your request to join ${data.groupName} was not approved.`,
+      ],
+      details: data.reason ? [['Reason', data.reason]] : undefined,
+      action: data.approved ? { label: 'Open Tontine App', url: appUrl } : undefined,
+    }),
+
+    cycle_summary: (data, format, appUrl) => ({
+      subject: `Cycle #${data.cycleIndex} Summary: ${data.groupName}`,
+      heading: 'Cycle Summary',
+      paragraphs: [
+        data.recipientName
+          ? `Cycle #${data.cycleIndex} of ${data.groupName} has been paid out to ${data.recipientName}.`
+          : `Cycle #${data.cycleIndex} of ${data.groupName} is complete.`,
+      ],
+      details: [
+        ['Collected', `${format.money(data.collected, data.currency)} of ${format.money(data.expected, data.currency)}`],
+        ['Members Paid', `${data.paidCount} of ${data.memberCount}`],
+        ...(data.recipientName ? [['Recipient', data.recipientName] as [string, string]] : []),
+      ],
+      action: { label: 'Open Tontine App', url: appUrl },
+    }),
+  },
+};
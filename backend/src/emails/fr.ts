@@ -0,0 +1,117 @@
+import { Translation } from './types';
+
+export const fr: Translation = {
+  locale: 'fr-FR',
+  dir: 'ltr',
+  labelSeparator: ' : ',
+  greeting: (name) => (name ? `Bonjour ${name},` : 'Bonjour,'),
+  signOff: ['Merci,', "L'équipe Tontine App"],
+
+  templates: {
+    payment_reminder: (data, format, appUrl) => {
+      const amount = format.money(data.amount, data.currency);
+      const dueDate = data.dueDate ? format.date(data.dueDate, data.timeZone) : null;
+      const cycle = `${data.groupName} (cycle n° ${data.cycleIndex})`;
+
+      return {
+        subject: `${data.overdue ? 'Paiement en retard' : 'Rappel de paiement'} : ${data.groupName}, cycle n° ${data.cycleIndex}`,
+        heading: data.overdue ? 'Paiement en retard' : 'Rappel de paiement',
+        bad: data.overdue,
+        paragraphs: [
+          data.overdue
+            ? `Votre paiement de ${amount} pour ${cycle} était dû ${dueDate ? `le ${dueDate}` : 'à la fin du cycle'} et n'a pas encore été réglé.`
+            : `Nous vous rappelons que votre paiement de ${amount} pour ${cycle} est dû ${dueDate ? `au plus tard le ${dueDate}` : 'avant la fin du cycle'}.`,
+          'Connectez-vous à Tontine App pour effectuer votre paiement.',
+        ],
+        details: [
+          ['Groupe', data.groupName],
+          ['Cycle', `n° ${data.cycleIndex}`],
+          ['Montant dû', amount],
+          ...(dueDate ? [['Échéance', dueDate] as [string, string]] : []),
+        ],
+        action: { label: 'Ouvrir Tontine App', url: appUrl },
+        note: 'Si vous avez déjà effectué ce paiement, vous pouvez ignorer ce message.',
+      };
+    },
+
+    invite: (data, format) => ({
+      subject: `${data.inviterName} vous invite à rejoindre ${data.groupName} sur Tontine App`,
+      heading: 'Vous êtes invité',
+      paragraphs: [
+        `${data.inviterName} vous invite à rejoindre ${data.groupName}, un groupe d'épargne sur Tontine App.`,
+        'Ouvrez le lien ci-dessous sur votre téléphone pour découvrir le groupe et le rejoindre.',
+      ],
+      action: { label: "Voir l'invitation", url: data.inviteUrl },
+      note: data.expiresAt ? `Cette invitation expire le ${format.date(data.expiresAt, data.timeZone)}.` : undefined,
+    }),
+
+    payout_notice: (data, format, appUrl) => {
+      const amount = format.money(data.amount, data.currency);
+
+      return {
+        subject: `Versement effectué : ${data.groupName}, cycle n° ${data.cycleIndex}`,
+        heading: 'Versement effectué',
+        paragraphs: [
+          `${amount} vous a été versé pour ${data.groupName} (cycle n° ${data.cycleIndex}).`,
+          'Merci de confirmer la réception dans Tontine App dès que vous aurez reçu la somme.',
+        ],
+        details: [
+          ['Groupe', data.groupName],
+          ['Cycle', `n° ${data.cycleIndex}`],
+          ['Montant', amount],
+        ],
+        action: { label: 'Ouvrir Tontine App', url: appUrl },
+      };
+    },
+
+    password_reset: (data) => ({
+      subject: 'Réinitialisez votre mot de passe Tontine App',
+      heading: 'Réinitialisation du mot de passe',
+      paragraphs: [
+        'Nous avons reçu une demande de réinitialisation du mot de passe de votre compte Tontine App.',
+        'Ouvrez le lien suivant sur votre téléphone pour choisir un nouveau mot de passe.',
+      ],
+      action: { label: 'Choisir un nouveau mot de passe', url: data.resetLink },
+      note: "Ce lien expire dans 1 heure et ne peut être utilisé qu'une seule fois. Si vous n'avez pas demandé de réinitialisation, vous pouvez ignorer cet e-mail.",
+    }),
+
+    email_verification: (data) => ({
+      subject: 'Confirmez votre adresse e-mail pour Tontine App',
+      heading: 'Confirmez votre adresse e-mail',
+      paragraphs: [
+        'Bienvenue sur Tontine App ! Confirmez votre adresse e-mail pour commencer à rejoindre des groupes de tontine.',
+      ],
+      action: { label: "Confirmer l'adresse e-mail", url: data.verifyLink },
+      note: "Ce lien expire dans 3 jours. Si vous n'avez pas créé de compte, vous pouvez ignorer cet e-mail.",
+    }),
+
+    join_request_decision: (data, format, appUrl) => ({
+      subject: data.approved ? `Bienvenue dans ${data.groupName}` : `Votre demande pour rejoindre ${data.groupName}`,
+      heading: data.approved ? 'Demande acceptée' : 'Demande refusée',
+      bad: !data.approved,
+      paragraphs: [
+        data.approved
+          ? `Votre demande pour rejoindre ${data.groupName} a été acceptée. Vous pouvez désormais voir le groupe et ses cycles dans Tontine App.`
+          : `Votre demande pour rejoindre ${data.groupName} n'a pas été acceptée.`,
+      ],
+      details: data.reason ? [['Motif', data.reason]] : undefined,
+      action: data.approved ? { label: 'Ouvrir Tontine App', url: appUrl } : undefined,
+    }),
+
+    cycle_summary: (data, format, appUrl) => ({
+      subject: `Bilan du cycle n° ${data.cycleIndex} : ${data.groupName}`,
+      heading: 'Bilan du cycle',
+      paragraphs: [
+        data.recipientName
+          ? `Le cycle n° ${data.cycleIndex} de ${data.groupName} a été versé à ${data.recipientName}.`
+          : `Le cycle n° ${data.cycleIndex} de ${data.groupName} est terminé.`,
+      ],
+      details: [
+        ['Collecté', `${format.money(data.collected, data.currency)} sur ${format.money(data.expected, data.currency)}`],
+        ['Membres à jour', `${data.paidCount} sur ${data.memberCount}`],
+        ...(data.recipientName ? [['Bénéficiaire', data.recipientName] as [string, string]] : []),
+      ],
+      action: { label: 'Ouvrir Tontine App', url: appUrl },
+    }),
+  },
+};
@@ -0,0 +1,102 @@
+import { Prisma } from '@prisma/client';
+
+export type Language = 'en' | 'fr' | 'ar';
+
+export const LANGUAGES: Language[] = ['en', 'fr', 'ar'];
+
+// A rendered email, ready to send to any address
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// What each template needs to be rendered. Dates are formatted in timeZone.
+export interface EmailTemplateData {
+  payment_reminder: {
+    name: string | null;
+    groupName: string;
+    cycleIndex: number;
+    amount: Prisma.Decimal.Value;
+    currency: string;
+    dueDate: Date | null;
+    timeZone: string;
+    overdue: boolean;
+  };
+  invite: {
+    inviterName: string;
+    groupName: string;
+    inviteUrl: string;
+    expiresAt: Date | null;
+    timeZone: string;
+  };
+  payout_notice: {
+    name: string | null;
+    groupName: string;
+    cycleIndex: number;
+    amount: Prisma.Decimal.Value;
+    currency: string;
+  };
+  password_reset: {
+    name: string | null;
+    resetLink: string;
+  };
+  email_verification: {
+    name: string | null;
+    verifyLink: string;
+  };
+  join_request_decision: {
+    name: string | null;
+    groupName: string;
+    approved: boolean;
+    reason: string | null;
+  };
+  cycle_summary: {
+    name: string | null;
+    groupName: string;
+    cycleIndex: number;
+    currency: string;
+    collected: Prisma.Decimal.Value;
+    expected: Prisma.Decimal.Value;
+    paidCount: number;
+    memberCount: number;
+    recipientName: string | null;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+/**
+ * The parts of an email a translation fills in. The layout escapes them and
+ * lays them out the same way for the text and HTML versions.
+ */
+export interface EmailBody {
+  subject: string;
+  heading: string;
+  // Headings are green, or red for bad news
+  bad?: boolean;
+  paragraphs: string[];
+  // Label and value pairs shown in a box
+  details?: [string, string][];
+  action?: { label: string; url: string };
+  // Small print under the action
+  note?: string;
+}
+
+// Formatting in the translation's locale, so output only depends on the input
+export interface Formatters {
+  money: (amount: Prisma.Decimal.Value, currency: string) => string;
+  date: (date: Date, timeZone: string) => string;
+}
+
+export interface Translation {
+  locale: string;
+  dir: 'ltr' | 'rtl';
+  // Put between a detail's label and its value
+  labelSeparator: string;
+  greeting: (name: string | null) => string;
+  signOff: string[];
+  templates: {
+    [T in EmailTemplateName]: (data: EmailTemplateData[T], format: Formatters, appUrl: string) => EmailBody;
+  };
+}
@@ -2,15 +2,35 @@ import express, { Request, Response, NextFunction, RequestHandler } from 'expres
 import cors from 'cors';
 import dotenv from 'dotenv';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { authMiddleware } from './middleware/authMiddleware';
-import { PrismaClient, Membership } from '@prisma/client';
+import { PasswordService } from './services/passwordService';
+import { SessionService } from './services/sessionService';
+import { AccountTokenService } from './services/accountTokenService';
+import { EmailService } from './services/emailService';
+import { InvitationService } from './services/invitationService';
+import { RotationService, RotationStrategy } from './services/rotationService';
+import { ScheduleService } from './services/scheduleService';
+import { CycleService, CycleStatus, OPEN_CYCLE_STATUSES } from './services/cycleService';
+import { PayoutService, PAYOUT_METHODS, PayoutMethod } from './services/payoutService';
+import { PaymentService, PaymentStatus, OUTSTANDING_PAYMENT_STATUSES } from './services/paymentService';
+import { StorageService } from './services/storageService';
+import { PenaltyService } from './services/penaltyService';
+import { BalanceService } from './services/balanceService';
+import { ShareService } from './services/shareService';
+import { ChatService, ChatEvent } from './services/chatService';
+import { DirectMessageService } from './services/directMessageService';
+import { GroupEventService } from './services/groupEventService';
+import { ReminderService } from './services/reminderService';
+import { NotificationService } from './services/notificationService';
+import { NotificationPreferenceService, NOTIFICATION_EVENTS, PREFERENCE_CHANNELS } from './services/notificationPreferenceService';
+import { EmailTemplateService, EMAIL_TEMPLATES } from './services/emailTemplateService';
+import { LANGUAGES } from './emails/types';
+import { CurrencyService, CURRENCY_CODES } from './services/currencyService';
+import { PrismaClient, Prisma, Membership, Group, Payment } from '@prisma/client';
 import './cronJobs';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import * as Sentry from '@sentry/node';
-import { Expo } from 'expo-server-sdk';
-const expo = new Expo();
 
 Sentry.init({
   dsn: process.env.SENTRY_DSN, // Set this in your environment variables
@@ -23,9 +43,16 @@ const app = express();
 const prisma = new PrismaClient();
 
 app.use(cors());
+// Payment declarations carry a base64 receipt image
+app.use('/payments/:paymentId/declarations', express.json({ limit: '8mb' }));
 app.use(express.json());
 app.use(helmet());
 app.use(morgan('combined'));
+// Money is stored as Decimal, which serializes to a string by default. The
+// app reads amounts as numbers; they always fit exactly at two decimals.
+app.set('json replacer', function (this: any, key: string, value: unknown) {
+  return Prisma.Decimal.isDecimal(this[key]) ? this[key].toNumber() : value;
+});
 
 // Simple route to test
 app.get('/', (req, res) => {
@@ -40,20 +67,39 @@ app.get('/', (req, res) => {
 // Create a new user
 app.post('/users', async (req, res) => {
   try {
-    const { email, password, name, phone } = req.body;
-    // For simplicity, storing plain text (testing only)
+    const { email, password, name, phone, language } = req.body;
+
+    if (!email || !password) {
+      res.status(400).json({ error: 'Email and password are required' });
+      return;
+    }
+
+    if (language !== undefined && !EmailTemplateService.isLanguage(language)) {
+      res.status(400).json({ error: `language must be one of: ${LANGUAGES.join(', ')}` });
+      return;
+    }
+
     // Optionally, normalize email here as well:
     const normalizedEmail = email.toLowerCase();
+    const passwordHash = await PasswordService.hashPassword(password);
 
     const user = await prisma.user.create({
       data: {
         email: normalizedEmail,
-        password,
+        password: passwordHash,
         name,
         phone,
+        language,
       },
     });
     
+    // Send the verification link; the account can't log in until it is confirmed
+    const verificationToken = await AccountTokenService.issueToken(user.id, 'email_verification');
+    const emailSent = await EmailService.sendEmailVerification(user, verificationToken);
+    if (!emailSent) {
+      console.warn(`Verification email could not be sent to user ${user.id}`);
+    }
+    
     // Don't send the password back
     const { password: _, ...userWithoutPassword } = user;
     res.status(201).json(userWithoutPassword);
@@ -81,6 +127,7 @@ app.get('/users/:userId', authMiddleware, async (req: Request, res: Response): P
         name: true,
         email: true,
         phone: true,
+        language: true,
         // Don't include password in the response
       },
     });
@@ -96,6 +143,20 @@ app.get('/users/:userId', authMiddleware, async (req: Request, res: Response): P
   }
 });
 
+// The signed-in user's standing in each of their groups
+app.get('/users/me/balances', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    
+    const balances = await BalanceService.getUserBalances(userId);
+    
+    res.json(balances);
+  } catch (error) {
+    console.error('Error fetching user balances:', error);
+    res.status(500).json({ error: 'Failed to fetch balances' });
+  }
+});
+
 // Search users by email (for adding members)
 app.get('/users', authMiddleware, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -149,18 +210,21 @@ app.get('/users', authMiddleware, async (req: Request, res: Response): Promise<v
   }
 });
 
+// Create an invitation to a group
 app.post('/invites', authMiddleware, async (req: Request, res: Response): Promise<void> => {
   try {
-    const { phone, groupId } = req.body;
+    const { phone, email, groupId, maxUses, expiresInDays } = req.body;
     
-    if (!phone || !groupId) {
-      res.status(400).json({ error: 'Phone number and group ID are required' });
+    if (!groupId) {
+      res.status(400).json({ error: 'Group ID is required' });
       return;
     }
     
+    const groupIdNum = parseInt(groupId.toString(), 10);
+    
     // Check if the group exists
     const group = await prisma.group.findUnique({
-      where: { id: parseInt(groupId.toString(), 10) },
+      where: { id: groupIdNum },
     });
     
     if (!group) {
@@ -174,7 +238,7 @@ app.post('/invites', authMiddleware, async (req: Request, res: Response): Promis
       where: {
         userId_groupId: {
           userId,
-          groupId: parseInt(groupId.toString(), 10),
+          groupId: groupIdNum,
         },
       },
     });
@@ -184,19 +248,184 @@ app.post('/invites', authMiddleware, async (req: Request, res: Response): Promis
       return;
     }
     
-    // In a production app, here you would:
-    // 1. Store the invitation in a database
-    // 2. Send a WhatsApp message via a service like Twilio
+    // Only admins may hand out links that can be used by several people
+    if (maxUses && parseInt(maxUses.toString(), 10) > 1 && membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can create multi-use invitations' });
+      return;
+    }
+    
+    const invitation = await InvitationService.createInvitation({
+      groupId: groupIdNum,
+      invitedById: userId,
+      phone: phone ? phone.toString() : undefined,
+      email: email ? email.toString() : undefined,
+      maxUses: maxUses ? parseInt(maxUses.toString(), 10) : undefined,
+      expiresInDays: expiresInDays ? parseInt(expiresInDays.toString(), 10) : undefined,
+    });
+    const inviteUrl = InvitationService.buildInviteUrl(invitation.token);
+    
+    // Email the invitation, in the invitee's language if they already have an account
+    let emailSent = false;
+    if (invitation.targetEmail) {
+      const [inviter, invitee] = await Promise.all([
+        prisma.user.findUnique({ where: { id: userId } }),
+        prisma.user.findUnique({ where: { email: invitation.targetEmail.toLowerCase() } }),
+      ]);
+      const content = EmailTemplateService.render('invite', invitee?.language || inviter?.language || 'en', {
+        inviterName: inviter?.name || inviter?.email || 'A member',
+        groupName: group.name,
+        inviteUrl,
+        expiresAt: invitation.expiresAt,
+        timeZone: group.timeZone,
+      });
+      emailSent = await EmailService.sendEmail({ to: invitation.targetEmail, ...content });
+    }
     
-    // For this example, we'll just return success
-    res.status(200).json({ 
+    res.status(201).json({ 
       success: true, 
-      message: 'Invitation sent successfully',
-      inviteUrl: `https://tontine-app.com/invite?group=${groupId}`
+      message: 'Invitation created successfully',
+      invitation,
+      inviteUrl,
+      emailSent
+    });
+  } catch (error) {
+    console.error('Error creating invitation:', error);
+    res.status(500).json({ error: 'Failed to create invitation' });
+  }
+});
+
+// Preview an invitation before accepting it
+app.get('/invites/:token', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invitation = await prisma.invitation.findUnique({
+      where: { token: req.params.token },
+      include: {
+        group: {
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            contribution: true,
+            frequency: true,
+          },
+        },
+        invitedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+    
+    if (!invitation) {
+      res.status(404).json({ error: 'Invitation not found' });
+      return;
+    }
+    
+    const invalidReason = InvitationService.getInvalidReason(invitation, (req as any).user.email);
+    
+    res.json({
+      groupId: invitation.groupId,
+      group: invitation.group,
+      invitedBy: invitation.invitedBy,
+      expiresAt: invitation.expiresAt,
+      valid: invalidReason === null,
+      reason: invalidReason,
+    });
+  } catch (error) {
+    console.error('Error fetching invitation:', error);
+    res.status(500).json({ error: 'Failed to fetch invitation' });
+  }
+});
+
+// List the invitations of a group (admins only)
+app.get('/groups/:groupId/invites', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    
+    const userId = (req as any).user.userId;
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId,
+        },
+      },
+    });
+    
+    if (!membership || membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can view invitations' });
+      return;
+    }
+    
+    const invitations = await prisma.invitation.findMany({
+      where: { groupId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        invitedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+    
+    res.json(invitations);
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    res.status(500).json({ error: 'Failed to fetch invitations' });
+  }
+});
+
+// Revoke an invitation (admins only)
+app.put('/invites/:inviteId/revoke', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const inviteId = parseInt(req.params.inviteId, 10);
+    
+    const invitation = await prisma.invitation.findUnique({
+      where: { id: inviteId },
+    });
+    
+    if (!invitation) {
+      res.status(404).json({ error: 'Invitation not found' });
+      return;
+    }
+    
+    const userId = (req as any).user.userId;
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: invitation.groupId,
+        },
+      },
+    });
+    
+    if (!membership || membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can revoke invitations' });
+      return;
+    }
+    
+    if (invitation.status !== 'pending') {
+      res.status(400).json({ error: `Invitation is already ${invitation.status}` });
+      return;
+    }
+    
+    const revokedInvitation = await prisma.invitation.update({
+      where: { id: inviteId },
+      data: {
+        status: 'revoked',
+        revokedAt: new Date(),
+      },
     });
+    
+    res.json(revokedInvitation);
   } catch (error) {
-    console.error('Error sending invitation:', error);
-    res.status(500).json({ error: 'Failed to send invitation' });
+    console.error('Error revoking invitation:', error);
+    res.status(500).json({ error: 'Failed to revoke invitation' });
   }
 });
 
@@ -244,6 +473,12 @@ app.put('/users/:userId/password', authMiddleware, async (req: Request, res: Res
     const requesterId = (req as any).user.userId;
     if (userId !== requesterId) {
       res.status(403).json({ error: 'You can only update your own password' });
+      return;
+    }
+
+    if (!current_password || !new_password) {
+      res.status(400).json({ error: 'Current and new password are required' });
+      return;
     }
     
     // Get the user
@@ -253,25 +488,29 @@ app.put('/users/:userId/password', authMiddleware, async (req: Request, res: Res
     
     if (!user) {
       res.status(404).json({ error: 'User not found' });
+      return;
     }
     
     // Check if current password matches
-    // In a real app, you would use bcrypt to compare passwords
-    if (!user || current_password !== user.password) {
+    const { valid } = await PasswordService.verifyPassword(current_password, user.password);
+    if (!valid) {
       res.status(401).json({ error: 'Current password is incorrect' });
+      return;
     }
     
     // Update the password
-    // In a real app, you would hash the new password with bcrypt
-    const updatedUser = await prisma.user.update({
+    await prisma.user.update({
       where: { id: userId },
       data: {
-        password: new_password,
+        password: await PasswordService.hashPassword(new_password),
       },
       select: {
         id: true,
       },
     });
+
+    // Sign out every other device now that the old password is no longer valid
+    await SessionService.revokeAllSessions(userId, (req as any).user.sessionId);
     
     res.json({ message: 'Password updated successfully' });
   } catch (error) {
@@ -280,6 +519,49 @@ app.put('/users/:userId/password', authMiddleware, async (req: Request, res: Res
   }
 });
 
+// The user's notification settings: channel switches, quiet hours, choices by
+// event and channel with defaults filled in, and their settings for each group
+app.get('/users/:userId/notification-settings', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = parseInt(req.params.userId, 10);
+    
+    const requesterId = (req as any).user.userId;
+    if (userId !== requesterId) {
+      res.status(403).json({ error: 'You can only view your own settings' });
+      return;
+    }
+    
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: { memberships: { include: { group: { select: { id: true, name: true } } } } },
+    });
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    
+    res.json({
+      emailReminders: user.emailRemindersEnabled,
+      pushReminders: user.pushRemindersEnabled,
+      timeZone: user.timeZone,
+      quietHoursStart: user.quietHoursStart,
+      quietHoursEnd: user.quietHoursEnd,
+      events: NOTIFICATION_EVENTS,
+      channels: PREFERENCE_CHANNELS,
+      preferences: NotificationPreferenceService.resolve(user.notificationPreferences),
+      groups: user.memberships.map((membership) => ({
+        groupId: membership.groupId,
+        groupName: membership.group.name,
+        muted: membership.notificationsMuted,
+        preferences: membership.notificationPreferences,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching notification settings:', error);
+    res.status(500).json({ error: 'Failed to fetch notification settings' });
+  }
+});
+
 // Update notification settings endpoint
 app.put('/users/:userId/notification-settings', authMiddleware, async (req: Request, res: Response) => {
   try {
@@ -293,12 +575,34 @@ app.put('/users/:userId/notification-settings', authMiddleware, async (req: Requ
       return;
     }
     
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    
+    const quietHours = ReminderService.parseQuietHours(req.body, user);
+    if (typeof quietHours === 'string') {
+      res.status(400).json({ error: quietHours });
+      return;
+    }
+    
+    const preferences = req.body.preferences !== undefined
+      ? NotificationPreferenceService.parsePreferences(req.body.preferences, user.notificationPreferences)
+      : undefined;
+    if (typeof preferences === 'string') {
+      res.status(400).json({ error: preferences });
+      return;
+    }
+    
     // Update user preferences
     await prisma.user.update({
       where: { id: userId },
       data: {
         emailRemindersEnabled: emailReminders !== undefined ? emailReminders : undefined,
-        pushRemindersEnabled: pushReminders !== undefined ? pushReminders : undefined
+        pushRemindersEnabled: pushReminders !== undefined ? pushReminders : undefined,
+        notificationPreferences: preferences,
+        ...quietHours
       }
     });
     
@@ -309,12 +613,13 @@ app.put('/users/:userId/notification-settings', authMiddleware, async (req: Requ
   }
 });
 
-// Simplified manual reminder endpoint
-app.post('/payments/:paymentId/send-reminder', authMiddleware, async (req: Request, res: Response) => {
+// Let a group admin remind a member about a payment they still owe. Goes out
+// by push and email as the member chose, at most once a day per payment.
+app.post('/payments/:paymentId/send-reminder', authMiddleware, async (req: Request, res: Response): Promise<void> => {
   try {
     const paymentId = parseInt(req.params.paymentId, 10);
+    const userId = (req as any).user.userId;
     
-    // Get the payment
     const payment = await prisma.payment.findUnique({
       where: { id: paymentId },
       include: {
@@ -330,14 +635,68 @@ app.post('/payments/:paymentId/send-reminder', authMiddleware, async (req: Reque
       return;
     }
     
-    // For now, just log the reminder request
-    console.log(`REMINDER REQUEST: Payment ID ${paymentId}, User ID ${payment.userId}`);
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: payment.cycle.groupId
+        }
+      }
+    });
+    
+    if (!membership || membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can send payment reminders' });
+      return;
+    }
+    
+    if (!OUTSTANDING_PAYMENT_STATUSES.includes(payment.status as PaymentStatus)) {
+      res.status(400).json({ error: 'This payment has already been paid' });
+      return;
+    }
+    
+    if (!OPEN_CYCLE_STATUSES.includes(payment.cycle.status as CycleStatus)) {
+      res.status(400).json({ error: `Reminders can't be sent on a ${payment.cycle.status} cycle` });
+      return;
+    }
+    
+    const now = new Date();
+    const nextReminderAt = PaymentService.getNextReminderAt(payment, now);
+    if (nextReminderAt) {
+      res.status(429).json({ error: 'A reminder was already sent for this payment today', nextReminderAt });
+      return;
+    }
+    
+    if (!(await PaymentService.claimReminder(payment, now))) {
+      res.status(409).json({ error: 'A reminder was just sent for this payment' });
+      return;
+    }
+    
+    const dueDate = payment.cycle.dueDate || payment.cycle.endDate;
+    const overdue = dueDate !== null && dueDate < now;
+    const result = await NotificationService.notifyUser(
+      payment.userId,
+      NotificationService.buildPaymentReminder(payment, overdue)
+    );
+    const channels = NotificationService.getChannelsUsed(result);
+    
+    // Nothing went out, so don't hold the cooldown against the next try
+    if (channels.length === 0) {
+      await PaymentService.releaseReminder(payment, now);
+      res.status(422).json({
+        error: `${payment.user.name || 'This member'} can't be reached: they turned off reminders or haven't set up notifications`,
+        ...result,
+      });
+      return;
+    }
     
-    // Return success without actually sending a notification
-    res.json({ message: 'Payment reminder logged successfully' });
+    res.json({
+      channels,
+      ...result,
+      nextReminderAt: PaymentService.getNextReminderAt({ ...payment, lastReminderAt: now }, now),
+    });
   } catch (error) {
-    console.error('Error processing reminder request:', error);
-    res.status(500).json({ error: 'Failed to process reminder request' });
+    console.error('Error sending payment reminder:', error);
+    res.status(500).json({ error: 'Failed to send payment reminder' });
   }
 });
 
@@ -381,7 +740,7 @@ app.delete('/users/:userId', authMiddleware, async (req: Request, res: Response)
 app.put('/users/:userId/settings', authMiddleware, async (req: Request, res: Response): Promise<void> => {
   try {
     const userId = parseInt(req.params.userId, 10);
-    const { notifications_enabled } = req.body;
+    const { notifications_enabled, language } = req.body;
     
     // Check if the user is updating their own settings
     const requesterId = (req as any).user.userId;
@@ -389,9 +748,23 @@ app.put('/users/:userId/settings', authMiddleware, async (req: Request, res: Res
       res.status(403).json({ error: 'You can only update your own settings' });
       return;
     }
+
+    if (language !== undefined && !EmailTemplateService.isLanguage(language)) {
+      res.status(400).json({ error: `language must be one of: ${LANGUAGES.join(', ')}` });
+      return;
+    }
+    
+    if (notifications_enabled !== undefined && typeof notifications_enabled !== 'boolean') {
+      res.status(400).json({ error: 'notifications_enabled must be true or false' });
+      return;
+    }
+    
+    // notifications_enabled is the app's push switch
+    await prisma.user.update({
+      where: { id: userId },
+      data: { language, pushRemindersEnabled: notifications_enabled },
+    });
     
-    // In a complete app, you would store these settings in a user_settings table
-    // For now, we'll just return a success message
     res.json({ message: 'Settings updated successfully' });
   } catch (error) {
     console.error('Error updating settings:', error);
@@ -426,7 +799,11 @@ app.put(
 export const loginHandler: RequestHandler = async (req, res, next) => {
   try {
     const { email, password } = req.body;
-    console.log('Login attempt:', { email, password }); // Debug: log input
+
+    if (!email || !password) {
+      res.status(400).json({ error: 'Email and password are required' });
+      return;
+    }
 
     // Normalize the email to lowercase (optional)
     const normalizedEmail = email.toLowerCase();
@@ -434,30 +811,43 @@ export const loginHandler: RequestHandler = async (req, res, next) => {
     const user = await prisma.user.findUnique({
       where: { email: normalizedEmail },
     });
-    console.log('User from DB:', user); // Debug: log user object
 
-    if (!user) {
-      console.log('User not found for email:', normalizedEmail);
+    // Verify even when the user is missing so both failures take the same time
+    const { valid, needsRehash } = await PasswordService.verifyPassword(password, user?.password);
+
+    if (!user || !valid) {
       res.status(401).json({ error: 'Invalid email or password' });
       return;
     }
 
-    // Since we're using plain text for now:
-    if (password !== user.password) {
-      console.log('Password mismatch. Input:', password, 'Stored:', user.password);
-      res.status(401).json({ error: 'Invalid email or password' });
+    if (!user.emailVerifiedAt) {
+      res.status(403).json({
+        error: 'Please verify your email address before logging in',
+        code: 'EMAIL_NOT_VERIFIED',
+      });
       return;
     }
 
-    const token = jwt.sign(
-      { userId: user.id, email: user.email },
-      process.env.JWT_SECRET as string,
-      { expiresIn: '7d' }
-    );
+    // Upgrade legacy plain-text (or weaker) credentials on first successful login
+    if (needsRehash) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { password: await PasswordService.hashPassword(password) },
+      });
+      console.log('Upgraded stored credential for user:', user.id);
+    }
+
+    const { token, refreshToken, expiresIn } = await SessionService.createSession(user, {
+      deviceName: req.body.deviceName,
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
     console.log('Login successful for user:', user.id);
     
     res.json({
       token,
+      refreshToken,
+      expiresIn,
       user: {
         id: user.id,
         email: user.email,
@@ -475,48 +865,336 @@ export const loginHandler: RequestHandler = async (req, res, next) => {
 // Then use the handler:
 app.post('/auth/login', loginHandler);
 
-// =============================================
-// GROUP RELATED ENDPOINTS
-// =============================================
+// Exchange a refresh token for a new access/refresh token pair
+app.post('/auth/refresh', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
 
-// Create a new group
-app.post('/groups', authMiddleware, async (req, res) => {
-  const { name, description, contribution, frequency, maxMembers } = req.body;
-  const userId = (req as any).user.userId;
+    if (!refreshToken) {
+      res.status(400).json({ error: 'Refresh token is required' });
+      return;
+    }
 
-  try {
-    // Create the group
-    const newGroup = await prisma.group.create({
-      data: {
-        name,
-        description,
-        contribution: contribution ? parseFloat(contribution) : null,
-        frequency,
-        maxMembers: maxMembers ? parseInt(maxMembers, 10) : null,
-      },
+    const tokens = await SessionService.rotateRefreshToken(refreshToken.toString());
+    if (!tokens) {
+      res.status(401).json({ error: 'Invalid or expired refresh token' });
+      return;
+    }
+
+    res.json({
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
     });
+  } catch (error) {
+    console.error('Error refreshing token:', error);
+    res.status(500).json({ error: 'Failed to refresh token' });
+  }
+});
 
-    // Add the creator as an admin member
-    await prisma.membership.create({
-      data: {
-        userId: userId,
-        groupId: newGroup.id,
-        role: 'admin',
-      },
+// Request a password reset link by email
+app.post('/auth/forgot-password', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      res.status(400).json({ error: 'Email is required' });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toString().toLowerCase() },
     });
 
-    res.status(201).json(newGroup);
+    // Only send when the account exists, but always answer the same way
+    // so this endpoint can't be used to discover registered emails
+    if (user) {
+      const token = await AccountTokenService.issueToken(user.id, 'password_reset');
+      await EmailService.sendPasswordReset(user, token);
+    }
+
+    res.json({ message: 'If an account exists for this email, a reset link has been sent' });
   } catch (error) {
-    console.error('Error creating group:', error);
-    res.status(500).json({ error: 'Failed to create group' });
+    console.error('Error requesting password reset:', error);
+    res.status(500).json({ error: 'Failed to request password reset' });
   }
 });
 
-// Get all groups the user is a member of
-app.get('/groups', authMiddleware, async (req, res) => {
+// Set a new password using a reset token
+app.post('/auth/reset-password', async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = (req as any).user.userId;
-    
+    const { token, new_password } = req.body;
+
+    if (!token || !new_password) {
+      res.status(400).json({ error: 'Token and new password are required' });
+      return;
+    }
+
+    const userId = await AccountTokenService.consumeToken(token.toString(), 'password_reset');
+    if (!userId) {
+      res.status(400).json({ error: 'This reset link is invalid or has expired' });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: await PasswordService.hashPassword(new_password),
+        // Receiving the reset email proves ownership of the address
+        emailVerifiedAt: new Date(),
+      },
+    });
+
+    // Whoever knew the old password must not stay logged in
+    await SessionService.revokeAllSessions(userId);
+
+    res.json({ message: 'Password has been reset successfully' });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// Confirm an email address using a verification token
+app.post('/auth/verify-email', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      res.status(400).json({ error: 'Token is required' });
+      return;
+    }
+
+    const userId = await AccountTokenService.consumeToken(token.toString(), 'email_verification');
+    if (!userId) {
+      res.status(400).json({ error: 'This verification link is invalid or has expired' });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    res.json({ message: 'Email verified successfully' });
+  } catch (error) {
+    console.error('Error verifying email:', error);
+    res.status(500).json({ error: 'Failed to verify email' });
+  }
+});
+
+// Send a fresh verification link to an unverified account
+app.post('/auth/resend-verification', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      res.status(400).json({ error: 'Email is required' });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toString().toLowerCase() },
+    });
+
+    if (user && !user.emailVerifiedAt) {
+      const token = await AccountTokenService.issueToken(user.id, 'email_verification');
+      await EmailService.sendEmailVerification(user, token);
+    }
+
+    res.json({ message: 'If this account needs verification, a new link has been sent' });
+  } catch (error) {
+    console.error('Error resending verification email:', error);
+    res.status(500).json({ error: 'Failed to resend verification email' });
+  }
+});
+
+// Log out of the current session
+app.post('/auth/logout', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId, sessionId } = (req as any).user;
+    await SessionService.revokeSession(userId, sessionId);
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Error logging out:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
+// List the active sessions of the logged-in user
+app.get('/auth/sessions', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId, sessionId } = (req as any).user;
+    const sessions = await SessionService.listActiveSessions(userId);
+
+    res.json(sessions.map(session => ({
+      ...session,
+      current: session.id === sessionId,
+    })));
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+// Revoke all sessions (pass ?exceptCurrent=true to stay logged in here)
+app.delete('/auth/sessions', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId, sessionId } = (req as any).user;
+    const exceptCurrent = req.query.exceptCurrent === 'true';
+
+    const revoked = await SessionService.revokeAllSessions(userId, exceptCurrent ? sessionId : undefined);
+
+    res.json({ message: 'Sessions revoked successfully', revoked });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+// Revoke a single session (remote logout)
+app.delete('/auth/sessions/:sessionId', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const targetSessionId = parseInt(req.params.sessionId, 10);
+
+    const revoked = await SessionService.revokeSession(userId, targetSessionId);
+    if (!revoked) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+// =============================================
+// GROUP RELATED ENDPOINTS
+// =============================================
+
+// Validate the payout fee fields of a group body. Missing fields stay undefined.
+const parsePayoutFees = (
+  body: any,
+  currency: string
+): { payoutFeePercent?: number; payoutFeeFixed?: Prisma.Decimal } | string => {
+  const fees: { payoutFeePercent?: number; payoutFeeFixed?: Prisma.Decimal } = {};
+
+  if (body.payoutFeePercent !== undefined && body.payoutFeePercent !== null && body.payoutFeePercent !== '') {
+    fees.payoutFeePercent = parseFloat(body.payoutFeePercent);
+    if (!(fees.payoutFeePercent >= 0 && fees.payoutFeePercent <= 100)) {
+      return 'payoutFeePercent must be between 0 and 100';
+    }
+  }
+  if (body.payoutFeeFixed !== undefined && body.payoutFeeFixed !== null && body.payoutFeeFixed !== '') {
+    const fixed = CurrencyService.parseAmount(body.payoutFeeFixed, currency, 'payoutFeeFixed');
+    if (typeof fixed === 'string') {
+      return fixed;
+    }
+    if (fixed.lt(0)) {
+      return 'payoutFeeFixed must be zero or more';
+    }
+    fees.payoutFeeFixed = fixed;
+  }
+
+  return fees;
+};
+
+// Read a group's contribution in its currency. Blank clears it.
+const parseContribution = (value: unknown, currency: string): Prisma.Decimal | null | string => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const contribution = CurrencyService.parseAmount(value, currency, 'contribution');
+  if (typeof contribution !== 'string' && contribution.lte(0)) {
+    return 'contribution must be greater than zero';
+  }
+  return contribution;
+};
+
+// Create a new group
+app.post('/groups', authMiddleware, async (req, res) => {
+  const { name, description, maxMembers, requiresApproval } = req.body;
+  const userId = (req as any).user.userId;
+  const currency = req.body.currency || 'USD';
+
+  try {
+    if (!CurrencyService.isCurrencyCode(currency)) {
+      res.status(400).json({ error: `currency must be one of: ${CURRENCY_CODES.join(', ')}` });
+      return;
+    }
+
+    const contribution = parseContribution(req.body.contribution, currency);
+    if (typeof contribution === 'string') {
+      res.status(400).json({ error: contribution });
+      return;
+    }
+
+    const schedule = ScheduleService.parseSchedule(req.body);
+    if (typeof schedule === 'string') {
+      res.status(400).json({ error: schedule });
+      return;
+    }
+
+    const fees = parsePayoutFees(req.body, currency);
+    if (typeof fees === 'string') {
+      res.status(400).json({ error: fees });
+      return;
+    }
+
+    const penalties = PenaltyService.parseRules(req.body, currency);
+    if (typeof penalties === 'string') {
+      res.status(400).json({ error: penalties });
+      return;
+    }
+
+    const reminders = ReminderService.parsePolicy(req.body);
+    if (typeof reminders === 'string') {
+      res.status(400).json({ error: reminders });
+      return;
+    }
+
+    // Create the group
+    const newGroup = await prisma.group.create({
+      data: {
+        name,
+        description,
+        contribution,
+        currency,
+        frequency: ScheduleService.describe(schedule),
+        maxMembers: maxMembers ? parseInt(maxMembers, 10) : null,
+        requiresApproval: Boolean(requiresApproval),
+        ...schedule,
+        ...fees,
+        ...penalties,
+        ...reminders,
+      },
+    });
+
+    // Add the creator as an admin member
+    await prisma.membership.create({
+      data: {
+        userId: userId,
+        groupId: newGroup.id,
+        role: 'admin',
+      },
+    });
+
+    res.status(201).json(newGroup);
+  } catch (error) {
+    console.error('Error creating group:', error);
+    res.status(500).json({ error: 'Failed to create group' });
+  }
+});
+
+// Get all groups the user is a member of
+app.get('/groups', authMiddleware, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    
     // Find all groups where the user is a member
     const memberships = await prisma.membership.findMany({
       where: { userId },
@@ -533,11 +1211,17 @@ app.get('/groups', authMiddleware, async (req, res) => {
   }
 });
 
-// Join a group via invitation
+// Join a group via an invitation token
 app.post('/groups/:groupId/join', authMiddleware, async (req: Request, res: Response): Promise<void> => {
   try {
     const groupId = parseInt(req.params.groupId, 10);
     const userId = (req as any).user.userId;
+    const { token } = req.body;
+    
+    if (!token) {
+      res.status(400).json({ error: 'An invitation token is required to join this group' });
+      return;
+    }
     
     // Check if the group exists
     const group = await prisma.group.findUnique({
@@ -549,6 +1233,22 @@ app.post('/groups/:groupId/join', authMiddleware, async (req: Request, res: Resp
       return;
     }
     
+    // Check the invitation belongs to this group and is still usable
+    const invitation = await prisma.invitation.findUnique({
+      where: { token: token.toString() },
+    });
+    
+    if (!invitation || invitation.groupId !== groupId) {
+      res.status(403).json({ error: 'Invalid invitation' });
+      return;
+    }
+    
+    const invalidReason = InvitationService.getInvalidReason(invitation, (req as any).user.email);
+    if (invalidReason) {
+      res.status(403).json({ error: invalidReason });
+      return;
+    }
+    
     // Check if the user is already a member
     const existingMembership = await prisma.membership.findUnique({
       where: {
@@ -576,14 +1276,42 @@ app.post('/groups/:groupId/join', authMiddleware, async (req: Request, res: Resp
       }
     }
     
-    // Add the user to the group
-    const membership = await prisma.membership.create({
-      data: {
-        userId,
-        groupId,
-        role: 'member',
-      },
-    });
+    // Groups that vet new members get a join request instead of a membership
+    if (group.requiresApproval) {
+      const pendingRequest = await prisma.joinRequest.findFirst({
+        where: { groupId, userId, status: 'pending' },
+      });
+      
+      if (pendingRequest) {
+        res.status(400).json({ error: 'You already have a pending request to join this group' });
+        return;
+      }
+      
+      const joinRequest = await InvitationService.requestToJoin(invitation, userId);
+      
+      if (!joinRequest) {
+        res.status(409).json({ error: 'This invitation has already been used' });
+        return;
+      }
+      
+      await notifyJoinRequestReceived(joinRequest.id);
+      
+      res.status(202).json({
+        message: 'Your request to join has been sent to the group admins',
+        joinRequest,
+      });
+      return;
+    }
+    
+    // Add the user to the group, consuming one use of the invitation
+    const membership = await InvitationService.acceptInvitation(invitation, userId);
+    
+    if (!membership) {
+      res.status(409).json({ error: 'This invitation has already been used' });
+      return;
+    }
+    
+    GroupEventService.publish({ type: 'member_joined', groupId: membership.groupId, userId });
     
     res.status(201).json({
       message: 'Successfully joined the group',
@@ -595,12 +1323,65 @@ app.post('/groups/:groupId/join', authMiddleware, async (req: Request, res: Resp
   }
 });
 
-// Get a specific group by ID
-app.get('/groups/:groupId', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+// Let the group's admins know someone is waiting to be let in
+const notifyJoinRequestReceived = async (joinRequestId: number) => {
+  const joinRequest = await prisma.joinRequest.findUnique({
+    where: { id: joinRequestId },
+    include: { user: true, group: { include: { memberships: { where: { role: 'admin' } } } } },
+  });
+  
+  if (!joinRequest) {
+    return;
+  }
+  
+  const { user, group } = joinRequest;
+  
+  for (const admin of group.memberships) {
+    await NotificationService.notifyUser(admin.userId, {
+      type: 'join_request_received',
+      title: 'New Join Request',
+      body: `${user.name || user.email} asked to join ${group.name}.`,
+      data: { groupId: group.id, joinRequestId },
+    });
+  }
+};
+
+// Let the requester know the outcome of their join request by push and email
+const notifyJoinRequestDecision = async (joinRequestId: number) => {
+  const joinRequest = await prisma.joinRequest.findUnique({
+    where: { id: joinRequestId },
+    include: { user: true, group: true },
+  });
+  
+  if (!joinRequest) {
+    return;
+  }
+  
+  const approved = joinRequest.status === 'approved';
+  const { user, group } = joinRequest;
+  
+  await NotificationService.notifyUser(user.id, {
+    type: approved ? 'join_request_approved' : 'join_request_rejected',
+    title: approved ? 'Join Request Approved' : 'Join Request Declined',
+    body: approved
+      ? `You are now a member of ${group.name}.`
+      : `Your request to join ${group.name} was declined.${joinRequest.reason ? ` Reason: ${joinRequest.reason}` : ''}`,
+    data: { groupId: group.id },
+    email: EmailTemplateService.render('join_request_decision', user.language, {
+      name: user.name,
+      groupName: group.name,
+      approved,
+      reason: joinRequest.reason,
+    }),
+  });
+};
+
+// List join requests for a group (admins only), pending ones by default
+app.get('/groups/:groupId/join-requests', authMiddleware, async (req: Request, res: Response): Promise<void> => {
   try {
     const groupId = parseInt(req.params.groupId, 10);
+    const status = req.query.status ? req.query.status.toString() : 'pending';
     
-    // Check if the user is a member of this group
     const userId = (req as any).user.userId;
     const membership = await prisma.membership.findUnique({
       where: {
@@ -611,81 +1392,329 @@ app.get('/groups/:groupId', authMiddleware, async (req: Request, res: Response):
       },
     });
     
-    if (!membership) {
-      res.status(403).json({ error: 'You are not a member of this group' });
+    if (!membership || membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can view join requests' });
       return;
     }
     
-    const group = await prisma.group.findUnique({
-      where: { id: groupId },
+    const joinRequests = await prisma.joinRequest.findMany({
+      where: {
+        groupId,
+        ...(status !== 'all' ? { status } : {}),
+      },
+      orderBy: { createdAt: 'asc' },
       include: {
-        memberships: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-              },
-            },
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
           },
         },
       },
     });
     
-    if (!group) {
-      res.status(404).json({ error: 'Group not found' });
-      return;
-    }
-    
-    res.json(group);
+    res.json(joinRequests);
   } catch (error) {
-    console.error('Error fetching group:', error);
-    res.status(500).json({ error: 'Failed to fetch group' });
+    console.error('Error fetching join requests:', error);
+    res.status(500).json({ error: 'Failed to fetch join requests' });
   }
 });
 
-// Update a group
-app.put('/groups/:groupId', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+// Approve a join request (admins only)
+app.put('/join-requests/:requestId/approve', authMiddleware, async (req: Request, res: Response): Promise<void> => {
   try {
-    const groupId = parseInt(req.params.groupId, 10);
-    const { name, description, contribution, frequency, maxMembers } = req.body;
+    const requestId = parseInt(req.params.requestId, 10);
+    
+    const joinRequest = await prisma.joinRequest.findUnique({
+      where: { id: requestId },
+      include: { group: true },
+    });
+    
+    if (!joinRequest) {
+      res.status(404).json({ error: 'Join request not found' });
+      return;
+    }
     
-    // Check if the user is an admin of this group
     const userId = (req as any).user.userId;
     const membership = await prisma.membership.findUnique({
       where: {
         userId_groupId: {
           userId,
-          groupId,
+          groupId: joinRequest.groupId,
         },
       },
     });
     
     if (!membership || membership.role !== 'admin') {
-      res.status(403).json({ error: 'Only group admins can update the group' });
+      res.status(403).json({ error: 'Only group admins can approve join requests' });
       return;
     }
     
-    const updatedGroup = await prisma.group.update({
-      where: { id: groupId },
-      data: {
-        name,
-        description,
-        contribution: contribution ? parseFloat(contribution) : null,
-        frequency,
-        maxMembers: maxMembers ? parseInt(maxMembers, 10) : null,
-      },
-    });
+    if (joinRequest.status !== 'pending') {
+      res.status(400).json({ error: `Join request is already ${joinRequest.status}` });
+      return;
+    }
     
-    res.json(updatedGroup);
-  } catch (error) {
-    console.error('Error updating group:', error);
-    res.status(500).json({ error: 'Failed to update group' });
-  }
-});
-
-// Delete a group
+    // The group may have filled up since the request was made
+    if (joinRequest.group.maxMembers) {
+      const memberCount = await prisma.membership.count({
+        where: { groupId: joinRequest.groupId },
+      });
+      
+      if (memberCount >= joinRequest.group.maxMembers) {
+        res.status(400).json({ error: 'This group has reached its maximum member limit' });
+        return;
+      }
+    }
+    
+    const [updatedRequest, newMembership] = await prisma.$transaction([
+      prisma.joinRequest.update({
+        where: { id: requestId },
+        data: {
+          status: 'approved',
+          reviewedById: userId,
+          reviewedAt: new Date(),
+        },
+      }),
+      prisma.membership.upsert({
+        where: {
+          userId_groupId: {
+            userId: joinRequest.userId,
+            groupId: joinRequest.groupId,
+          },
+        },
+        update: {},
+        create: {
+          userId: joinRequest.userId,
+          groupId: joinRequest.groupId,
+          role: 'member',
+        },
+      }),
+    ]);
+    
+    await notifyJoinRequestDecision(requestId);
+    GroupEventService.publish({ type: 'member_joined', groupId: newMembership.groupId, userId: newMembership.userId });
+    
+    res.json({ joinRequest: updatedRequest, membership: newMembership });
+  } catch (error) {
+    console.error('Error approving join request:', error);
+    res.status(500).json({ error: 'Failed to approve join request' });
+  }
+});
+
+// Reject a join request with an optional reason (admins only)
+app.put('/join-requests/:requestId/reject', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const requestId = parseInt(req.params.requestId, 10);
+    const { reason } = req.body;
+    
+    const joinRequest = await prisma.joinRequest.findUnique({
+      where: { id: requestId },
+    });
+    
+    if (!joinRequest) {
+      res.status(404).json({ error: 'Join request not found' });
+      return;
+    }
+    
+    const userId = (req as any).user.userId;
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: joinRequest.groupId,
+        },
+      },
+    });
+    
+    if (!membership || membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can reject join requests' });
+      return;
+    }
+    
+    if (joinRequest.status !== 'pending') {
+      res.status(400).json({ error: `Join request is already ${joinRequest.status}` });
+      return;
+    }
+    
+    const updatedRequest = await prisma.joinRequest.update({
+      where: { id: requestId },
+      data: {
+        status: 'rejected',
+        reason: reason ? reason.toString().trim() : null,
+        reviewedById: userId,
+        reviewedAt: new Date(),
+      },
+    });
+    
+    await notifyJoinRequestDecision(requestId);
+    
+    res.json(updatedRequest);
+  } catch (error) {
+    console.error('Error rejecting join request:', error);
+    res.status(500).json({ error: 'Failed to reject join request' });
+  }
+});
+
+// Get a specific group by ID
+app.get('/groups/:groupId', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    
+    // Check if the user is a member of this group
+    const userId = (req as any).user.userId;
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId,
+        },
+      },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    const group = await prisma.group.findUnique({
+      where: { id: groupId },
+      include: {
+        memberships: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+          },
+        },
+      },
+    });
+    
+    if (!group) {
+      res.status(404).json({ error: 'Group not found' });
+      return;
+    }
+    
+    res.json(group);
+  } catch (error) {
+    console.error('Error fetching group:', error);
+    res.status(500).json({ error: 'Failed to fetch group' });
+  }
+});
+
+// Update a group
+app.put('/groups/:groupId', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    const { name, description, maxMembers, requiresApproval } = req.body;
+    
+    // Check if the user is an admin of this group
+    const userId = (req as any).user.userId;
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId,
+        },
+      },
+    });
+    
+    if (!membership || membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can update the group' });
+      return;
+    }
+    
+    const group = await prisma.group.findUnique({
+      where: { id: groupId },
+    });
+    
+    if (!group) {
+      res.status(404).json({ error: 'Group not found' });
+      return;
+    }
+    
+    const currency = req.body.currency || group.currency;
+    if (!CurrencyService.isCurrencyCode(currency)) {
+      res.status(400).json({ error: `currency must be one of: ${CURRENCY_CODES.join(', ')}` });
+      return;
+    }
+    
+    // Existing payments were made in the old currency, so it can only change
+    // before the first cycle
+    if (currency !== group.currency) {
+      const cycleCount = await prisma.cycle.count({ where: { groupId } });
+      if (cycleCount > 0) {
+        res.status(409).json({ error: `This group already has cycles in ${group.currency}; its currency can't be changed` });
+        return;
+      }
+    }
+    
+    const contribution = parseContribution(req.body.contribution, currency);
+    if (typeof contribution === 'string') {
+      res.status(400).json({ error: contribution });
+      return;
+    }
+    
+    // Fields missing from the body keep the group's current schedule
+    const schedule = ScheduleService.parseSchedule(req.body, ScheduleService.fromGroup(group));
+    if (typeof schedule === 'string') {
+      res.status(400).json({ error: schedule });
+      return;
+    }
+    
+    const fees = parsePayoutFees(req.body, currency);
+    if (typeof fees === 'string') {
+      res.status(400).json({ error: fees });
+      return;
+    }
+    
+    const penalties = PenaltyService.parseRules(req.body, currency, PenaltyService.fromGroup(group));
+    if (typeof penalties === 'string') {
+      res.status(400).json({ error: penalties });
+      return;
+    }
+    
+    const reminders = ReminderService.parsePolicy(req.body, ReminderService.fromGroup(group));
+    if (typeof reminders === 'string') {
+      res.status(400).json({ error: reminders });
+      return;
+    }
+    
+    const updatedGroup = await prisma.group.update({
+      where: { id: groupId },
+      data: {
+        name,
+        description,
+        contribution,
+        currency,
+        frequency: ScheduleService.describe(schedule),
+        maxMembers: maxMembers ? parseInt(maxMembers, 10) : null,
+        requiresApproval: requiresApproval !== undefined ? Boolean(requiresApproval) : undefined,
+        ...schedule,
+        ...fees,
+        ...penalties,
+        ...reminders,
+      },
+    });
+    
+    if (ReminderService.needsReplan(group, updatedGroup)) {
+      await ReminderService.replanGroup(groupId);
+    }
+    
+    res.json(updatedGroup);
+  } catch (error) {
+    console.error('Error updating group:', error);
+    res.status(500).json({ error: 'Failed to update group' });
+  }
+});
+
+// Delete a group
 app.delete('/groups/:groupId', authMiddleware, async (req: Request, res: Response): Promise<void> => {
   try {
     const groupId = parseInt(req.params.groupId, 10);
@@ -760,6 +1789,7 @@ app.post('/memberships', async (req, res) => {
         role: role || 'member',
       },
     });
+    GroupEventService.publish({ type: 'member_joined', groupId: membership.groupId, userId: membership.userId });
     res.status(201).json(membership);
   } catch (error) {
     console.error('Error creating membership:', error);
@@ -795,14 +1825,15 @@ app.get('/memberships', async (req, res) => {
   }
 });
 
-// Update a membership (change role)
+// Update a membership: its role, shares or custom amount. Fields missing from
+// the body are left as they are.
 app.put('/memberships/:membershipId', authMiddleware, async (req: Request, res: Response): Promise<void> => {
   try {
     const membershipId = parseInt(req.params.membershipId, 10);
     const { role } = req.body;
     
     // Validate role
-    if (role !== 'admin' && role !== 'member') {
+    if (role !== undefined && role !== 'admin' && role !== 'member') {
       res.status(400).json({ error: 'Invalid role. Must be "admin" or "member"' });
       return;
     }
@@ -830,14 +1861,21 @@ app.put('/memberships/:membershipId', authMiddleware, async (req: Request, res:
     });
     
     if (!userMembership || userMembership.role !== 'admin') {
-      res.status(403).json({ error: 'Only group admins can update membership roles' });
+      res.status(403).json({ error: 'Only group admins can update memberships' });
+      return;
+    }
+    
+    // New shares apply to cycles created from now on
+    const shares = ShareService.parseShares(req.body, membership.group.currency, membership);
+    if (typeof shares === 'string') {
+      res.status(400).json({ error: shares });
       return;
     }
     
     // Update the membership
     const updatedMembership = await prisma.membership.update({
       where: { id: membershipId },
-      data: { role },
+      data: { role, ...shares },
       include: {
         user: {
           select: {
@@ -850,6 +1888,17 @@ app.put('/memberships/:membershipId', authMiddleware, async (req: Request, res:
       },
     });
     
+    if (role !== undefined && role !== membership.role) {
+      await NotificationService.notifyUser(membership.userId, {
+        type: 'role_changed',
+        title: role === 'admin' ? 'You Are Now an Admin' : 'Admin Role Removed',
+        body: role === 'admin'
+          ? `You are now an admin of ${membership.group.name}.`
+          : `You are no longer an admin of ${membership.group.name}.`,
+        data: { groupId: membership.groupId, role },
+      });
+    }
+    
     res.json(updatedMembership);
   } catch (error) {
     console.error('Error updating membership:', error);
@@ -908,6 +1957,15 @@ app.delete('/memberships/:membershipId', authMiddleware, async (req: Request, re
       where: { id: membershipId },
     });
     
+    // Close their chat stream and let the others know
+    ChatService.publish(ChatService.getGroupChannel(membership.groupId), { type: 'member_removed', userId: membership.userId });
+    GroupEventService.publish({
+      type: 'member_removed',
+      groupId: membership.groupId,
+      userId: membership.userId,
+      actorId: userId,
+    });
+    
     res.json({ message: 'Member removed successfully' });
   } catch (error) {
     console.error('Error removing member:', error);
@@ -919,86 +1977,456 @@ app.delete('/memberships/:membershipId', authMiddleware, async (req: Request, re
 // CYCLE RELATED ENDPOINTS
 // =============================================
 
-// Create a cycle for a group
-app.post(
-  '/groups/:groupId/cycles',
-  authMiddleware,
-  async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { groupId } = req.params;
-      const { cycleIndex, startDate, endDate, recipientUserId, status } = req.body;
-      const groupIdNum = parseInt(groupId, 10);
+// Dates for the next cycle of a group. An explicit start date is kept as is;
+// otherwise the cycle follows on from the latest one, or starts today.
+const getNextCycleDates = async (group: Group, startDate: Date | null, period: number = 0) => {
+  const schedule = ScheduleService.fromGroup(group);
 
-      // 1) Check if the logged-in user is an admin in this group
-      const userId = (req as any).user.userId;
+  if (startDate) {
+    return ScheduleService.getCycleDates({ ...schedule, anchorDay: null }, startDate, period);
+  }
 
-      // Attempt to find the membership record for this (user, group)
-      const membership: Membership | null = await prisma.membership.findUnique({
-        where: {
-          userId_groupId: {
-            userId,
-            groupId: groupIdNum,
-          },
-        },
-      });
+  const lastCycle = await prisma.cycle.findFirst({
+    where: { groupId: group.id, startDate: { not: null } },
+    orderBy: { startDate: 'desc' },
+  });
 
-      // If no membership record or the role isn't 'admin', deny access
-      if (!membership) {
-        res.status(403).json({ error: 'You are not a member of this group.' });
-        return; 
-      }
-      if (membership.role !== 'admin') {
-        res.status(403).json({ error: 'Only admins can create cycles.' });
-        return; 
-      }
+  return lastCycle
+    ? ScheduleService.getCycleDates(schedule, lastCycle.startDate!, period + 1)
+    : ScheduleService.getCycleDates(schedule, new Date(), period);
+};
 
-      // 2) Create the cycle
-      const newCycle = await prisma.cycle.create({
-        data: {
-          groupId: groupIdNum,
-          cycleIndex: Number(cycleIndex),
-          startDate: startDate ? new Date(startDate) : null,
-          endDate: endDate ? new Date(endDate) : null,
-          recipientUserId: recipientUserId ? Number(recipientUserId) : null,
-          status: status || 'active',
+// What each member has paid, received and still owes across the group's cycles
+app.get('/groups/:groupId/balances', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    const userId = (req as any).user.userId;
+    
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId,
         },
-      });
-
-      // 3) Retrieve all memberships for that group
-      const memberships = await prisma.membership.findMany({
-        where: { groupId: groupIdNum },
-      });
-
-      // 4) Retrieve the group to check its default contribution
-      const theGroup = await prisma.group.findUnique({
-        where: { id: groupIdNum },
-      });
-      const groupContribution = theGroup?.contribution || 100;
-
-      // 5) Create Payment records for each membership in that group
-      const paymentsData = memberships.map((member) => ({
-        cycleId: newCycle.id,
-        userId: member.userId,
-        amount: groupContribution,
-      }));
-
-      await prisma.payment.createMany({
-        data: paymentsData,
-      });
-
-      // 6) Return success
-      res.status(201).json({
-        cycle: newCycle,
-        message: 'Cycle and payment records created successfully.',
-      });
-    } catch (error) {
-      console.error('Error creating cycle:', error);
-      res.status(500).json({ error: 'Failed to create cycle' });
+      },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
     }
+    
+    const balances = await BalanceService.getGroupBalances(groupId);
+    
+    res.json(balances);
+  } catch (error) {
+    console.error('Error fetching group balances:', error);
+    res.status(500).json({ error: 'Failed to fetch group balances' });
   }
-);
+});
 
-// Get all cycles for a group
+// The caller's notification settings for this group: mute it, or choose by
+// event and channel over their own preferences (null goes back to those)
+app.put('/groups/:groupId/notification-settings', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    const userId = (req as any).user.userId;
+    const { muted } = req.body;
+    
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId,
+        },
+      },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    if (muted !== undefined && typeof muted !== 'boolean') {
+      res.status(400).json({ error: 'muted must be true or false' });
+      return;
+    }
+    
+    const preferences = req.body.preferences !== undefined
+      ? NotificationPreferenceService.parsePreferences(req.body.preferences, membership.notificationPreferences)
+      : undefined;
+    if (typeof preferences === 'string') {
+      res.status(400).json({ error: preferences });
+      return;
+    }
+    
+    const updated = await prisma.membership.update({
+      where: { id: membership.id },
+      data: { notificationsMuted: muted, notificationPreferences: preferences },
+    });
+    
+    res.json({ groupId, muted: updated.notificationsMuted, preferences: updated.notificationPreferences });
+  } catch (error) {
+    console.error('Error updating group notification settings:', error);
+    res.status(500).json({ error: 'Failed to update group notification settings' });
+  }
+});
+
+// Render an email template with made up data in the group's name and currency,
+// in the admin's language unless ?language= says otherwise (admins only)
+app.get('/groups/:groupId/email-templates/:template/preview', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    const { template } = req.params;
+    const userId = (req as any).user.userId;
+    
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId,
+        },
+      },
+      include: { user: true, group: true },
+    });
+    
+    if (!membership || membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can preview emails' });
+      return;
+    }
+    
+    if (!EmailTemplateService.isTemplateName(template)) {
+      res.status(400).json({ error: `template must be one of: ${EMAIL_TEMPLATES.join(', ')}` });
+      return;
+    }
+    
+    const language = req.query.language ? req.query.language.toString() : membership.user.language;
+    if (!EmailTemplateService.isLanguage(language)) {
+      res.status(400).json({ error: `language must be one of: ${LANGUAGES.join(', ')}` });
+      return;
+    }
+    
+    const data = EmailTemplateService.getSampleData(template, membership.group, membership.user.name || membership.user.email);
+    const content = EmailTemplateService.render(template, language, data);
+    
+    res.json({ template, language, ...content });
+  } catch (error) {
+    console.error('Error previewing email template:', error);
+    res.status(500).json({ error: 'Failed to preview email template' });
+  }
+});
+
+// Preview the dates of the group's upcoming cycles
+app.get('/groups/:groupId/schedule', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    const userId = (req as any).user.userId;
+    const count = Math.min(Math.max(parseInt((req.query.count as string) || '1', 10) || 1, 1), 52);
+
+    const membership = await prisma.membership.findUnique({
+      where: { userId_groupId: { userId, groupId } },
+    });
+
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+
+    const group = await prisma.group.findUnique({
+      where: { id: groupId },
+    });
+
+    if (!group) {
+      res.status(404).json({ error: 'Group not found' });
+      return;
+    }
+
+    const from = req.query.from ? new Date(req.query.from as string) : null;
+    if (from && isNaN(from.getTime())) {
+      res.status(400).json({ error: 'from must be a valid date' });
+      return;
+    }
+
+    const upcoming = [];
+    for (let period = 0; period < count; period++) {
+      upcoming.push(await getNextCycleDates(group, from, period));
+    }
+
+    res.json({
+      schedule: ScheduleService.fromGroup(group),
+      upcoming,
+    });
+  } catch (error) {
+    console.error('Error fetching schedule:', error);
+    res.status(500).json({ error: 'Failed to fetch schedule' });
+  }
+});
+
+// Create a cycle for a group
+app.post(
+  '/groups/:groupId/cycles',
+  authMiddleware,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { groupId } = req.params;
+      const { cycleIndex, startDate, endDate, recipientUserId } = req.body;
+      const groupIdNum = parseInt(groupId, 10);
+
+      // 1) Check if the logged-in user is an admin in this group
+      const userId = (req as any).user.userId;
+
+      // Attempt to find the membership record for this (user, group)
+      const membership: Membership | null = await prisma.membership.findUnique({
+        where: {
+          userId_groupId: {
+            userId,
+            groupId: groupIdNum,
+          },
+        },
+      });
+
+      // If no membership record or the role isn't 'admin', deny access
+      if (!membership) {
+        res.status(403).json({ error: 'You are not a member of this group.' });
+        return; 
+      }
+      if (membership.role !== 'admin') {
+        res.status(403).json({ error: 'Only admins can create cycles.' });
+        return; 
+      }
+
+      // 2) Retrieve the group for its schedule and default contribution
+      const theGroup = await prisma.group.findUnique({
+        where: { id: groupIdNum },
+      });
+
+      if (!theGroup) {
+        res.status(404).json({ error: 'Group not found' });
+        return;
+      }
+
+      // 3) Every member needs an amount to owe: their own or the group's contribution
+      const memberships = await prisma.membership.findMany({
+        where: { groupId: groupIdNum },
+      });
+
+      const missingAmount = ShareService.getMissingAmountReason(memberships, theGroup);
+      if (missingAmount) {
+        res.status(400).json({ error: missingAmount });
+        return;
+      }
+
+      // 4) Work out the dates the admin didn't pick from the group's schedule
+      const dates = await getNextCycleDates(theGroup, startDate ? new Date(startDate) : null);
+
+      // 5) Create the cycle with a Payment record for each membership, sized by
+      // their shares. One transaction, so reminder planning never sees the
+      // cycle without its payments.
+      const newCycle = await prisma.$transaction(async (tx) => {
+        const cycle = await tx.cycle.create({
+          data: {
+            groupId: groupIdNum,
+            cycleIndex: Number(cycleIndex),
+            startDate: dates.startDate,
+            endDate: endDate ? new Date(endDate) : dates.endDate,
+            dueDate: dates.dueDate,
+            recipientUserId: recipientUserId ? Number(recipientUserId) : null,
+            status: CycleService.initialStatus(dates.startDate),
+          },
+        });
+
+        await tx.payment.createMany({
+          data: memberships.map((member) => ({
+            cycleId: cycle.id,
+            userId: member.userId,
+            amount: ShareService.getPaymentAmount(member, theGroup)!,
+          })),
+        });
+
+        return cycle;
+      });
+
+      GroupEventService.publish({ type: 'cycle_created', groupId: groupIdNum, cycleId: newCycle.id, actorId: userId });
+
+      // 6) Return success
+      res.status(201).json({
+        cycle: newCycle,
+        message: 'Cycle and payment records created successfully.',
+      });
+    } catch (error) {
+      console.error('Error creating cycle:', error);
+      res.status(500).json({ error: 'Failed to create cycle' });
+    }
+  }
+);
+
+// Generate the full payout rotation for a group: one cycle per payout slot.
+// Send preview: true to get the schedule back without creating anything.
+app.post('/groups/:groupId/rotations', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    const userId = (req as any).user.userId;
+    const { strategy, startDate, seed, order, bids, preview } = req.body;
+
+    const membership = await prisma.membership.findUnique({
+      where: { userId_groupId: { userId, groupId } },
+    });
+
+    if (!membership || membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can generate a rotation' });
+      return;
+    }
+
+    const group = await prisma.group.findUnique({
+      where: { id: groupId },
+      include: { memberships: true },
+    });
+
+    if (!group) {
+      res.status(404).json({ error: 'Group not found' });
+      return;
+    }
+
+    const missingAmount = ShareService.getMissingAmountReason(group.memberships, group);
+    if (missingAmount) {
+      res.status(400).json({ error: missingAmount });
+      return;
+    }
+
+    const mismatch = CurrencyService.getMismatchReason(group.currency, req.body.currency);
+    if (mismatch) {
+      res.status(400).json({ error: mismatch });
+      return;
+    }
+
+    // Bids are money too, so they must fit the group's currency
+    const bidAmounts = Array.isArray(bids)
+      ? bids.map((bid: any) => CurrencyService.parseAmount(bid.amount, group.currency, 'Bid amount'))
+      : [];
+    const invalidBid = bidAmounts.find((amount): amount is string => typeof amount === 'string');
+    if (invalidBid) {
+      res.status(400).json({ error: invalidBid });
+      return;
+    }
+
+    const options = {
+      strategy: (strategy || 'join_order') as RotationStrategy,
+      startDate: startDate ? new Date(startDate) : new Date(),
+      seed: seed ? String(seed) : undefined,
+      order: Array.isArray(order)
+        ? order.map((entry: any) =>
+            Array.isArray(entry) ? entry.map((id: any) => parseInt(id, 10)) : parseInt(entry, 10)
+          )
+        : undefined,
+      bids: Array.isArray(bids)
+        ? bids.map((bid: any, i: number) => ({
+            userId: parseInt(bid.userId, 10),
+            amount: (bidAmounts[i] as Prisma.Decimal).toNumber(),
+          }))
+        : undefined,
+    };
+
+    const invalidReason = RotationService.getInvalidReason(options, group.memberships, group);
+    if (invalidReason) {
+      res.status(400).json({ error: invalidReason });
+      return;
+    }
+
+    // Don't start a new round while the previous one still has cycles to run
+    const unfinishedCycles = await prisma.cycle.count({
+      where: { groupId, rotationId: { not: null }, status: { in: OPEN_CYCLE_STATUSES } },
+    });
+
+    if (unfinishedCycles > 0) {
+      res.status(409).json({ error: 'The current rotation must finish before a new one is generated' });
+      return;
+    }
+
+    const lastCycle = await prisma.cycle.findFirst({
+      where: { groupId },
+      orderBy: { cycleIndex: 'desc' },
+    });
+
+    const plan = RotationService.planRotation(
+      options,
+      group.memberships,
+      group,
+      ScheduleService.fromGroup(group),
+      lastCycle ? lastCycle.cycleIndex + 1 : 1
+    );
+
+    if (preview) {
+      res.json({ rotation: plan });
+      return;
+    }
+
+    const rotation = await RotationService.createRotation(group, userId, plan, group.memberships);
+
+    const created = await prisma.rotation.findUnique({
+      where: { id: rotation.id },
+      include: {
+        cycles: {
+          orderBy: { cycleIndex: 'asc' },
+          include: { recipient: { select: { id: true, name: true, email: true } }, payoutShares: true },
+        },
+      },
+    });
+
+    if (created && created.cycles.length > 0) {
+      GroupEventService.publish({
+        type: 'rotation_created',
+        groupId,
+        cycleId: created.cycles[0].id,
+        cycleCount: created.cycles.length,
+        actorId: userId,
+      });
+    }
+
+    res.status(201).json({
+      rotation: created,
+      message: 'Rotation and payment records created successfully.',
+    });
+  } catch (error) {
+    console.error('Error generating rotation:', error);
+    res.status(500).json({ error: 'Failed to generate rotation' });
+  }
+});
+
+// List the rotations generated for a group, newest first
+app.get('/groups/:groupId/rotations', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    const userId = (req as any).user.userId;
+
+    const membership = await prisma.membership.findUnique({
+      where: { userId_groupId: { userId, groupId } },
+    });
+
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+
+    const rotations = await prisma.rotation.findMany({
+      where: { groupId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        cycles: {
+          orderBy: { cycleIndex: 'asc' },
+          include: { recipient: { select: { id: true, name: true, email: true } }, payoutShares: true },
+        },
+      },
+    });
+
+    res.json(rotations);
+  } catch (error) {
+    console.error('Error fetching rotations:', error);
+    res.status(500).json({ error: 'Failed to fetch rotations' });
+  }
+});
+
+// Get all cycles for a group
 app.get(
   '/groups/:groupId/cycles',
   authMiddleware,
@@ -1033,6 +2461,7 @@ app.get(
               email: true,
             },
           },
+          payoutShares: true,
         },
       });
 
@@ -1060,6 +2489,7 @@ app.get('/cycles/:cycleId', authMiddleware, async (req: Request, res: Response):
             email: true,
           },
         },
+        payoutShares: true,
       },
     });
     
@@ -1091,16 +2521,18 @@ app.get('/cycles/:cycleId', authMiddleware, async (req: Request, res: Response):
   }
 });
 
-// Update a cycle (e.g., assign recipient, change status)
+// Update a cycle (e.g., assign recipient, change status).
+// Status changes must follow the cycle lifecycle; settling a cycle with
+// unpaid payments needs a reason.
 app.put('/cycles/:cycleId', authMiddleware, async (req: Request, res: Response): Promise<void> => {
   try {
     const cycleId = parseInt(req.params.cycleId, 10);
-    const { recipientUserId, status } = req.body;
+    const { recipientUserId, status, reason } = req.body;
     
     // Get the cycle
     const cycle = await prisma.cycle.findUnique({
       where: { id: cycleId },
-      include: { group: true },
+      include: { group: true, payoutShares: true },
     });
     
     if (!cycle) {
@@ -1124,6 +2556,20 @@ app.put('/cycles/:cycleId', authMiddleware, async (req: Request, res: Response):
       return;
     }
     
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      res.status(400).json({ error: 'reason must be text' });
+      return;
+    }
+    
+    // A shared payout is collected by one of the members sharing it
+    if (recipientUserId !== undefined && cycle.payoutShares.length > 0) {
+      const sharers = cycle.payoutShares.map((share) => share.userId);
+      if (!recipientUserId || !sharers.includes(parseInt(recipientUserId.toString(), 10))) {
+        res.status(400).json({ error: 'This payout is shared by part-share members, so one of them has to collect it' });
+        return;
+      }
+    }
+    
     // If assigning a recipient, check if they are a member of the group
     if (recipientUserId) {
       const recipientMembership = await prisma.membership.findUnique({
@@ -1139,15 +2585,88 @@ app.put('/cycles/:cycleId', authMiddleware, async (req: Request, res: Response):
         res.status(400).json({ error: 'Recipient must be a member of the group' });
         return;
       }
+
+      // Within a rotation every member is paid out on their own once per
+      // whole contribution they pay
+      if (cycle.rotationId && cycle.payoutShares.length === 0) {
+        const existingPayouts = await prisma.cycle.count({
+          where: {
+            rotationId: cycle.rotationId,
+            recipientUserId: recipientMembership.userId,
+            payoutShares: { none: {} },
+            id: { not: cycleId },
+          },
+        });
+
+        const payoutSlots = ShareService.getPayoutSlots(recipientMembership, cycle.group);
+        if (existingPayouts >= payoutSlots) {
+          res.status(400).json({ error: 'This member already receives all their payouts in this rotation' });
+          return;
+        }
+      }
     }
     
-    // Update the cycle
-    const updatedCycle = await prisma.cycle.update({
-      where: { id: cycleId },
-      data: {
-        recipientUserId: recipientUserId ? parseInt(recipientUserId.toString(), 10) : null,
-        status: status || undefined,
-      },
+    const statusChange = status !== undefined && status !== cycle.status;
+    if (statusChange && status === 'paid_out') {
+      res.status(400).json({ error: 'Record the payout to mark this cycle as paid out' });
+      return;
+    }
+    if (statusChange) {
+      const invalidReason = await CycleService.getInvalidReason(cycle, status, reason);
+      if (invalidReason) {
+        res.status(400).json({ error: invalidReason });
+        return;
+      }
+    }
+    
+    // Only touch the recipient when the request mentions it
+    const newRecipientId = recipientUserId ? parseInt(recipientUserId.toString(), 10) : null;
+    
+    // The status change goes first so that if it loses a race nothing is
+    // written, the recipient included
+    const applied = await prisma.$transaction(async (tx) => {
+      if (statusChange && !(await CycleService.transitionWithin(tx, cycle, status, userId, reason))) {
+        return false;
+      }
+      
+      if (recipientUserId !== undefined) {
+        await tx.cycle.update({
+          where: { id: cycleId },
+          data: {
+            recipientUserId: newRecipientId,
+          },
+        });
+      }
+      return true;
+    });
+    
+    if (!applied) {
+      res.status(409).json({ error: 'The cycle status changed in the meantime. Please refresh and try again' });
+      return;
+    }
+    
+    if (newRecipientId && newRecipientId !== cycle.recipientUserId) {
+      GroupEventService.publish({
+        type: 'recipient_assigned',
+        groupId: cycle.groupId,
+        cycleId,
+        recipientUserId: newRecipientId,
+        actorId: userId,
+      });
+    }
+    if (statusChange) {
+      GroupEventService.publish({
+        type: 'cycle_status_changed',
+        groupId: cycle.groupId,
+        cycleId,
+        from: cycle.status as CycleStatus,
+        to: status,
+        actorId: userId,
+      });
+    }
+    
+    const updatedCycle = await prisma.cycle.findUnique({
+      where: { id: cycleId },
       include: {
         group: true,
         recipient: {
@@ -1167,6 +2686,294 @@ app.put('/cycles/:cycleId', authMiddleware, async (req: Request, res: Response):
   }
 });
 
+// Get the status history of a cycle
+app.get('/cycles/:cycleId/transitions', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const cycleId = parseInt(req.params.cycleId, 10);
+    
+    const cycle = await prisma.cycle.findUnique({
+      where: { id: cycleId },
+    });
+    
+    if (!cycle) {
+      res.status(404).json({ error: 'Cycle not found' });
+      return;
+    }
+    
+    const userId = (req as any).user.userId;
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: cycle.groupId,
+        },
+      },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    const transitions = await prisma.cycleTransition.findMany({
+      where: { cycleId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        actor: { select: { id: true, name: true } },
+      },
+    });
+    
+    res.json(transitions);
+  } catch (error) {
+    console.error('Error fetching cycle transitions:', error);
+    res.status(500).json({ error: 'Failed to fetch cycle history' });
+  }
+});
+
+// Get the payout of a cycle, or what it is expected to be if it hasn't been made yet
+app.get('/cycles/:cycleId/payout', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const cycleId = parseInt(req.params.cycleId, 10);
+    
+    const cycle = await prisma.cycle.findUnique({
+      where: { id: cycleId },
+      include: { group: true },
+    });
+    
+    if (!cycle) {
+      res.status(404).json({ error: 'Cycle not found' });
+      return;
+    }
+    
+    const userId = (req as any).user.userId;
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: cycle.groupId,
+        },
+      },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    const payout = await prisma.payout.findUnique({
+      where: { cycleId },
+      include: {
+        recipient: { select: { id: true, name: true } },
+        disbursedBy: { select: { id: true, name: true } },
+      },
+    });
+    
+    res.json({
+      payout,
+      expected: await PayoutService.getExpectedPayout(cycle, cycle.group),
+    });
+  } catch (error) {
+    console.error('Error fetching payout:', error);
+    res.status(500).json({ error: 'Failed to fetch payout' });
+  }
+});
+
+// Let the recipient know so they can confirm receipt, and send everyone else
+// a summary of the cycle, each in their own language
+const notifyPayoutRecorded = async (cycleId: number, amount: Prisma.Decimal) => {
+  const cycle = await prisma.cycle.findUnique({
+    where: { id: cycleId },
+    include: { group: true, recipient: true, payments: { include: { user: true } } },
+  });
+  
+  if (!cycle || !cycle.recipient) {
+    return;
+  }
+  
+  const { group, recipient, payments } = cycle;
+  
+  await NotificationService.notifyUser(recipient.id, {
+    type: 'payout_recorded',
+    title: 'Payout Sent',
+    body: `${CurrencyService.format(amount, group.currency)} has been paid out to you for ${group.name} (Cycle #${cycle.cycleIndex}). Please confirm once you receive it.`,
+    data: { cycleId: cycle.id, groupId: cycle.groupId },
+    email: EmailTemplateService.render('payout_notice', recipient.language, {
+      name: recipient.name,
+      groupName: group.name,
+      cycleIndex: cycle.cycleIndex,
+      amount,
+      currency: group.currency,
+    }),
+  });
+  
+  const collected = payments.reduce((sum, payment) => sum.plus(payment.amountPaid), new Prisma.Decimal(0));
+  const expected = payments.reduce((sum, payment) => sum.plus(payment.amount), new Prisma.Decimal(0));
+  const paidCount = payments.filter((payment) => payment.status === 'paid' || payment.status === 'overpaid').length;
+  const recipientName = recipient.name || recipient.email;
+  
+  for (const { user } of payments) {
+    if (user.id === recipient.id) {
+      continue;
+    }
+    
+    await NotificationService.notifyUser(user.id, {
+      type: 'cycle_summary',
+      title: `Cycle #${cycle.cycleIndex} Paid Out`,
+      body: `${group.name} paid out cycle #${cycle.cycleIndex} to ${recipientName}.`,
+      data: { cycleId: cycle.id, groupId: cycle.groupId },
+      email: EmailTemplateService.render('cycle_summary', user.language, {
+        name: user.name,
+        groupName: group.name,
+        cycleIndex: cycle.cycleIndex,
+        currency: group.currency,
+        collected,
+        expected,
+        paidCount,
+        memberCount: payments.length,
+        recipientName,
+      }),
+    });
+  }
+};
+
+// Record the payout to a cycle's recipient (admin only). Moves the cycle to paid_out.
+app.post('/cycles/:cycleId/payout', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const cycleId = parseInt(req.params.cycleId, 10);
+    const { amount, method, reference, reason } = req.body;
+    
+    const cycle = await prisma.cycle.findUnique({
+      where: { id: cycleId },
+      include: { group: true, payout: true },
+    });
+    
+    if (!cycle) {
+      res.status(404).json({ error: 'Cycle not found' });
+      return;
+    }
+    
+    const userId = (req as any).user.userId;
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: cycle.groupId,
+        },
+      },
+    });
+    
+    if (!membership || membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can record payouts' });
+      return;
+    }
+    
+    if (cycle.payout) {
+      res.status(409).json({ error: 'A payout has already been recorded for this cycle' });
+      return;
+    }
+    
+    if (!cycle.recipientUserId) {
+      res.status(400).json({ error: 'Assign a recipient before recording the payout' });
+      return;
+    }
+    
+    if (!PAYOUT_METHODS.includes(method)) {
+      res.status(400).json({ error: `Method must be one of: ${PAYOUT_METHODS.join(', ')}` });
+      return;
+    }
+    
+    if (reference !== undefined && reference !== null && typeof reference !== 'string') {
+      res.status(400).json({ error: 'reference must be text' });
+      return;
+    }
+    
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      res.status(400).json({ error: 'reason must be text' });
+      return;
+    }
+    
+    const invalidReason = await CycleService.getInvalidReason(cycle, 'paid_out', reason);
+    if (invalidReason) {
+      res.status(400).json({ error: invalidReason });
+      return;
+    }
+    
+    const mismatch = CurrencyService.getMismatchReason(cycle.group.currency, req.body.currency);
+    if (mismatch) {
+      res.status(400).json({ error: mismatch });
+      return;
+    }
+    
+    const expected = await PayoutService.getExpectedPayout(cycle, cycle.group);
+    const payoutAmount = amount !== undefined && amount !== null && amount !== ''
+      ? CurrencyService.parseAmount(amount, cycle.group.currency)
+      : expected.amount;
+    
+    if (typeof payoutAmount === 'string') {
+      res.status(400).json({ error: payoutAmount });
+      return;
+    }
+    
+    if (payoutAmount.lte(0)) {
+      res.status(400).json({ error: 'Payout amount must be greater than zero' });
+      return;
+    }
+    
+    const payout = await PayoutService.recordPayout(cycle, expected, {
+      amount: payoutAmount,
+      method: method as PayoutMethod,
+      reference,
+      disbursedById: userId,
+      reason,
+    });
+    
+    if (!payout) {
+      res.status(409).json({ error: 'The cycle status changed in the meantime. Please refresh and try again' });
+      return;
+    }
+    
+    await notifyPayoutRecorded(cycle.id, payout.amount);
+    
+    res.status(201).json({ payout, expected });
+  } catch (error) {
+    console.error('Error recording payout:', error);
+    res.status(500).json({ error: 'Failed to record payout' });
+  }
+});
+
+// Recipient confirms they received the payout
+app.put('/payouts/:payoutId/confirm', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const payoutId = parseInt(req.params.payoutId, 10);
+    const userId = (req as any).user.userId;
+    
+    const payout = await prisma.payout.findUnique({
+      where: { id: payoutId },
+    });
+    
+    if (!payout) {
+      res.status(404).json({ error: 'Payout not found' });
+      return;
+    }
+    
+    if (payout.recipientId !== userId) {
+      res.status(403).json({ error: 'Only the recipient can confirm this payout' });
+      return;
+    }
+    
+    const confirmed = await PayoutService.confirmPayout(payoutId);
+    if (!confirmed) {
+      res.status(409).json({ error: 'This payout has already been confirmed' });
+      return;
+    }
+    
+    res.json(confirmed);
+  } catch (error) {
+    console.error('Error confirming payout:', error);
+    res.status(500).json({ error: 'Failed to confirm payout' });
+  }
+});
+
 // Delete a cycle
 app.delete('/cycles/:cycleId', authMiddleware, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -1220,89 +3027,1207 @@ app.delete('/cycles/:cycleId', authMiddleware, async (req: Request, res: Respons
 // PAYMENT RELATED ENDPOINTS
 // =============================================
 
-// Mark a payment as paid
+// Group admins and the cycle's recipient are the ones who can vouch that money arrived
+const canConfirmPayments = async (userId: number, cycle: { groupId: number; recipientUserId: number | null }) => {
+  if (cycle.recipientUserId === userId) {
+    return true;
+  }
+
+  const membership = await prisma.membership.findUnique({
+    where: {
+      userId_groupId: {
+        userId,
+        groupId: cycle.groupId,
+      },
+    },
+  });
+
+  return membership?.role === 'admin';
+};
+
+// Tell the group when a payment goes from owing money to settled
+const publishIfPaid = (before: Payment, after: Payment, groupId: number, actorId: number) => {
+  const wasOutstanding = OUTSTANDING_PAYMENT_STATUSES.includes(before.status as PaymentStatus);
+  const isOutstanding = OUTSTANDING_PAYMENT_STATUSES.includes(after.status as PaymentStatus);
+
+  if (wasOutstanding && !isOutstanding) {
+    GroupEventService.publish({ type: 'payment_paid', groupId, cycleId: after.cycleId, paymentId: after.id, actorId });
+  }
+};
+
+// Mark a payment as paid by recording whatever is still owed as one transaction.
+// Members declare their own payments instead (see /payments/:paymentId/declarations).
 app.put(
   '/payments/:paymentId/pay',
   authMiddleware,
   async (req: Request, res: Response): Promise<void> => {
     try {
       const paymentIdNum = parseInt(req.params.paymentId, 10);
+      const userId = (req as any).user.userId;
 
-      // Optional: verify the payment belongs to the authenticated user
-      // const userId = (req as any).user.userId;
-      // const paymentRecord = await prisma.payment.findUnique({ where: { id: paymentIdNum } });
-      // if (paymentRecord?.userId !== userId) {
-      //   res.status(403).json({ error: 'Cannot mark someone else's payment' });
-      //   return;
-      // }
-
-      const updatedPayment = await prisma.payment.update({
+      const paymentRecord = await prisma.payment.findUnique({
         where: { id: paymentIdNum },
-        data: {
-          paid: true,
-          paidAt: new Date(),
-        },
+        include: { cycle: true },
       });
 
-      res.json(updatedPayment);
-    } catch (error) {
-      console.error('Error marking payment as paid:', error);
-      res.status(500).json({ error: 'Failed to mark payment as paid' });
-    }
-  }
-);
-
-// Get all payments for a cycle
-app.get(
-  '/cycles/:cycleId/payments',
-  authMiddleware,
-  async (req: Request, res: Response): Promise<void> => {
-    try {
-      const cycleIdNum = parseInt(req.params.cycleId, 10);
+      if (!paymentRecord) {
+        res.status(404).json({ error: 'Payment not found' });
+        return;
+      }
 
-      // Get the cycle to check the group
-      const cycle = await prisma.cycle.findUnique({
-        where: { id: cycleIdNum },
-        select: { groupId: true },
-      });
+      if (!(await canConfirmPayments(userId, paymentRecord.cycle))) {
+        res.status(403).json({ error: 'Only group admins or the cycle recipient can mark payments as paid' });
+        return;
+      }
 
-      if (!cycle) {
-        res.status(404).json({ error: 'Cycle not found' });
+      if (!OPEN_CYCLE_STATUSES.includes(paymentRecord.cycle.status as CycleStatus)) {
+        res.status(400).json({ error: `Payments can't be recorded on a ${paymentRecord.cycle.status} cycle` });
         return;
       }
 
-      // Check if the user is a member of this group
-      const userId = (req as any).user.userId;
-      const membership = await prisma.membership.findUnique({
-        where: {
-          userId_groupId: {
-            userId,
-            groupId: cycle.groupId,
-          },
-        },
+      const { cycle, ...payment } = paymentRecord;
+
+      const updatedPayment = await PaymentService.payOutstanding(payment, {
+        method: 'other',
+        recordedById: userId,
       });
 
-      if (!membership) {
-        res.status(403).json({ error: 'You are not a member of this group' });
+      if (!updatedPayment) {
+        res.status(409).json({ error: 'This payment has already been paid' });
         return;
       }
 
-      const payments = await prisma.payment.findMany({
-        where: { cycleId: cycleIdNum },
-        include: {
-          user: true,  // fetch user info
-          cycle: true, // fetch cycle info
-        },
-      });
+      // The last payment in moves the cycle on to payout
+      await CycleService.advanceIfFullyPaid(updatedPayment.cycleId);
+      publishIfPaid(payment, updatedPayment, cycle.groupId, userId);
 
-      res.json(payments);
+      res.json(updatedPayment);
     } catch (error) {
-      console.error('Error fetching payments:', error);
-      res.status(500).json({ error: 'Failed to fetch payments' });
+      console.error('Error marking payment as paid:', error);
+      res.status(500).json({ error: 'Failed to mark payment as paid' });
     }
   }
 );
 
+// Member declares they paid, optionally with a photo of the receipt. It
+// counts once an admin or the cycle's recipient confirms it.
+app.post('/payments/:paymentId/declarations', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const paymentId = parseInt(req.params.paymentId, 10);
+    const userId = (req as any).user.userId;
+    const { method, reference, note, receipt } = req.body;
+    
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { cycle: { include: { group: true } } },
+    });
+    
+    if (!payment) {
+      res.status(404).json({ error: 'Payment not found' });
+      return;
+    }
+    
+    if (payment.userId !== userId) {
+      res.status(403).json({ error: 'You can only declare your own payments' });
+      return;
+    }
+    
+    if (!OPEN_CYCLE_STATUSES.includes(payment.cycle.status as CycleStatus)) {
+      res.status(400).json({ error: `Payments can't be declared on a ${payment.cycle.status} cycle` });
+      return;
+    }
+    
+    const pending = await prisma.paymentDeclaration.findFirst({
+      where: { paymentId, status: 'pending' },
+    });
+    if (pending) {
+      res.status(409).json({ error: 'You already have a payment waiting to be confirmed' });
+      return;
+    }
+    
+    // Default to whatever is still owed
+    const outstanding = PaymentService.getOutstanding(payment);
+    const amount = req.body.amount !== undefined && req.body.amount !== null && req.body.amount !== ''
+      ? req.body.amount
+      : outstanding.toString();
+    
+    const parsed = PaymentService.parseBody(
+      { amount, method, reference, currency: req.body.currency },
+      payment.cycle.group.currency
+    );
+    if (typeof parsed === 'string') {
+      res.status(400).json({ error: parsed });
+      return;
+    }
+    
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      res.status(400).json({ error: 'note must be text' });
+      return;
+    }
+    
+    if (receipt) {
+      const invalidReceipt = StorageService.getInvalidImageReason(receipt);
+      if (invalidReceipt) {
+        res.status(400).json({ error: invalidReceipt });
+        return;
+      }
+    }
+    
+    const stored = receipt ? await StorageService.saveImage('receipts', receipt) : null;
+    
+    const { cycle, ...paymentRecord } = payment;
+    const declaration = await PaymentService.declarePayment(paymentRecord, userId, {
+      amount: parsed.amount,
+      method: parsed.method,
+      reference,
+      note,
+      receiptKey: stored?.key,
+      receiptContentType: stored?.contentType,
+    });
+    
+    // Ask the people who can confirm it to take a look
+    const admins = await prisma.membership.findMany({
+      where: { groupId: cycle.groupId, role: 'admin' },
+      select: { userId: true },
+    });
+    const reviewerIds = new Set(admins.map((admin) => admin.userId));
+    if (cycle.recipientUserId) {
+      reviewerIds.add(cycle.recipientUserId);
+    }
+    reviewerIds.delete(userId);
+    
+    const declarer = await prisma.user.findUnique({ where: { id: userId } });
+    for (const reviewerId of reviewerIds) {
+      await NotificationService.notifyUser(reviewerId, {
+        type: 'payment_declared',
+        title: 'Payment to Confirm',
+        body: `${declarer?.name || 'A member'} says they paid ${CurrencyService.format(declaration.amount, cycle.group.currency)} for ${cycle.group.name} (Cycle #${cycle.cycleIndex}).`,
+        data: { cycleId: cycle.id, groupId: cycle.groupId, paymentId },
+      });
+    }
+    
+    res.status(201).json(declaration);
+  } catch (error) {
+    console.error('Error declaring payment:', error);
+    res.status(500).json({ error: 'Failed to declare payment' });
+  }
+});
+
+// List the declarations made against a payment
+app.get('/payments/:paymentId/declarations', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const paymentId = parseInt(req.params.paymentId, 10);
+    const userId = (req as any).user.userId;
+    
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { cycle: { select: { groupId: true } } },
+    });
+    
+    if (!payment) {
+      res.status(404).json({ error: 'Payment not found' });
+      return;
+    }
+    
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: payment.cycle.groupId,
+        },
+      },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    const declarations = await PaymentService.listDeclarations(paymentId);
+    
+    res.json(declarations);
+  } catch (error) {
+    console.error('Error fetching payment declarations:', error);
+    res.status(500).json({ error: 'Failed to fetch payment declarations' });
+  }
+});
+
+// Fetch the receipt attached to a declaration, base64 encoded
+app.get('/payment-declarations/:declarationId/receipt', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const declarationId = parseInt(req.params.declarationId, 10);
+    const userId = (req as any).user.userId;
+    
+    const declaration = await prisma.paymentDeclaration.findUnique({
+      where: { id: declarationId },
+      include: { payment: { include: { cycle: { select: { groupId: true } } } } },
+    });
+    
+    if (!declaration) {
+      res.status(404).json({ error: 'Declaration not found' });
+      return;
+    }
+    
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: declaration.payment.cycle.groupId,
+        },
+      },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    const data = declaration.receiptKey ? await StorageService.read(declaration.receiptKey) : null;
+    if (!data) {
+      res.status(404).json({ error: 'No receipt was attached to this declaration' });
+      return;
+    }
+    
+    res.json({
+      contentType: declaration.receiptContentType,
+      data: data.toString('base64'),
+    });
+  } catch (error) {
+    console.error('Error fetching receipt:', error);
+    res.status(500).json({ error: 'Failed to fetch receipt' });
+  }
+});
+
+// Confirm or dispute a declaration (group admins and the cycle's recipient)
+const reviewDeclaration = (decision: 'confirm' | 'dispute') => async (req: Request, res: Response): Promise<void> => {
+  try {
+    const declarationId = parseInt(req.params.declarationId, 10);
+    const userId = (req as any).user.userId;
+    const { note } = req.body;
+    
+    const declaration = await prisma.paymentDeclaration.findUnique({
+      where: { id: declarationId },
+      include: { payment: { include: { cycle: { include: { group: true } } } } },
+    });
+    
+    if (!declaration) {
+      res.status(404).json({ error: 'Declaration not found' });
+      return;
+    }
+    
+    const { cycle } = declaration.payment;
+    if (!(await canConfirmPayments(userId, cycle))) {
+      res.status(403).json({ error: 'Only group admins or the cycle recipient can review payments' });
+      return;
+    }
+    
+    if (declaration.declaredById === userId) {
+      res.status(403).json({ error: 'Someone else has to review your own payment' });
+      return;
+    }
+    
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      res.status(400).json({ error: 'note must be text' });
+      return;
+    }
+    
+    if (decision === 'dispute' && (!note || !note.trim())) {
+      res.status(400).json({ error: 'Please say why this payment is being disputed' });
+      return;
+    }
+    
+    if (decision === 'confirm' && !OPEN_CYCLE_STATUSES.includes(cycle.status as CycleStatus)) {
+      res.status(400).json({ error: `Payments can't be recorded on a ${cycle.status} cycle` });
+      return;
+    }
+    
+    const result = decision === 'confirm'
+      ? await PaymentService.confirmDeclaration(declarationId, userId, note)
+      : await PaymentService.disputeDeclaration(declarationId, userId, note);
+    
+    if (!result) {
+      res.status(409).json({ error: 'This payment has already been reviewed' });
+      return;
+    }
+    
+    if (decision === 'confirm') {
+      await CycleService.advanceIfFullyPaid(cycle.id);
+      publishIfPaid(declaration.payment, result as Payment, cycle.groupId, userId);
+    }
+    
+    await NotificationService.notifyUser(declaration.declaredById, {
+      type: decision === 'confirm' ? 'payment_confirmed' : 'payment_disputed',
+      title: decision === 'confirm' ? 'Payment Confirmed' : 'Payment Disputed',
+      body: decision === 'confirm'
+        ? `Your payment of ${CurrencyService.format(declaration.amount, cycle.group.currency)} for ${cycle.group.name} (Cycle #${cycle.cycleIndex}) was confirmed.`
+        : `Your payment of ${CurrencyService.format(declaration.amount, cycle.group.currency)} for ${cycle.group.name} (Cycle #${cycle.cycleIndex}) was disputed: ${note.trim()}`,
+      data: { cycleId: cycle.id, groupId: cycle.groupId },
+    });
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error reviewing payment declaration:', error);
+    res.status(500).json({ error: 'Failed to review payment declaration' });
+  }
+};
+
+app.put('/payment-declarations/:declarationId/confirm', authMiddleware, reviewDeclaration('confirm'));
+
+app.put('/payment-declarations/:declarationId/dispute', authMiddleware, reviewDeclaration('dispute'));
+
+// List the late fees charged on a payment
+app.get('/payments/:paymentId/penalties', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const paymentId = parseInt(req.params.paymentId, 10);
+    const userId = (req as any).user.userId;
+    
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { cycle: { select: { groupId: true } } },
+    });
+    
+    if (!payment) {
+      res.status(404).json({ error: 'Payment not found' });
+      return;
+    }
+    
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: payment.cycle.groupId,
+        },
+      },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    const penalties = await PenaltyService.listPenalties(paymentId);
+    
+    res.json(penalties);
+  } catch (error) {
+    console.error('Error fetching penalties:', error);
+    res.status(500).json({ error: 'Failed to fetch penalties' });
+  }
+});
+
+// Waive a late fee (admin only)
+app.put('/payment-penalties/:penaltyId/waive', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const penaltyId = parseInt(req.params.penaltyId, 10);
+    const userId = (req as any).user.userId;
+    const { reason } = req.body;
+    
+    const penalty = await prisma.paymentPenalty.findUnique({
+      where: { id: penaltyId },
+      include: { payment: { include: { cycle: { select: { groupId: true } } } } },
+    });
+    
+    if (!penalty) {
+      res.status(404).json({ error: 'Penalty not found' });
+      return;
+    }
+    
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: penalty.payment.cycle.groupId,
+        },
+      },
+    });
+    
+    if (!membership || membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can waive penalties' });
+      return;
+    }
+    
+    if (typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'A reason is required to waive a penalty' });
+      return;
+    }
+    
+    const updatedPayment = await PenaltyService.waivePenalty(penaltyId, userId, reason);
+    if (!updatedPayment) {
+      res.status(409).json({ error: 'This penalty has already been waived' });
+      return;
+    }
+    
+    // Waiving the last of what was owed can complete the cycle
+    await CycleService.advanceIfFullyPaid(updatedPayment.cycleId);
+    
+    res.json(updatedPayment);
+  } catch (error) {
+    console.error('Error waiving penalty:', error);
+    res.status(500).json({ error: 'Failed to waive penalty' });
+  }
+});
+
+// List the transactions recorded against a payment
+app.get('/payments/:paymentId/transactions', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const paymentId = parseInt(req.params.paymentId, 10);
+    const userId = (req as any).user.userId;
+    
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { cycle: { select: { groupId: true } } },
+    });
+    
+    if (!payment) {
+      res.status(404).json({ error: 'Payment not found' });
+      return;
+    }
+    
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: payment.cycle.groupId,
+        },
+      },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    const transactions = await PaymentService.listTransactions(paymentId);
+    
+    res.json(transactions);
+  } catch (error) {
+    console.error('Error fetching payment transactions:', error);
+    res.status(500).json({ error: 'Failed to fetch payment transactions' });
+  }
+});
+
+// Record money received against a payment (admin only). Installments add up
+// until the payment is covered.
+app.post('/payments/:paymentId/transactions', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const paymentId = parseInt(req.params.paymentId, 10);
+    const userId = (req as any).user.userId;
+    
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { cycle: { include: { group: true } } },
+    });
+    
+    if (!payment) {
+      res.status(404).json({ error: 'Payment not found' });
+      return;
+    }
+    
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: payment.cycle.groupId,
+        },
+      },
+    });
+    
+    if (!membership || membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can record payments' });
+      return;
+    }
+    
+    if (!OPEN_CYCLE_STATUSES.includes(payment.cycle.status as CycleStatus)) {
+      res.status(400).json({ error: `Payments can't be recorded on a ${payment.cycle.status} cycle` });
+      return;
+    }
+    
+    const parsed = PaymentService.parseBody(req.body, payment.cycle.group.currency);
+    if (typeof parsed === 'string') {
+      res.status(400).json({ error: parsed });
+      return;
+    }
+    
+    const { cycle, ...paymentRecord } = payment;
+    const updatedPayment = await PaymentService.addTransaction(paymentRecord, {
+      amount: parsed.amount,
+      method: parsed.method,
+      reference: req.body.reference,
+      recordedById: userId,
+    });
+    
+    await CycleService.advanceIfFullyPaid(payment.cycleId);
+    publishIfPaid(paymentRecord, updatedPayment, cycle.groupId, userId);
+    
+    res.status(201).json(updatedPayment);
+  } catch (error) {
+    console.error('Error recording payment transaction:', error);
+    res.status(500).json({ error: 'Failed to record payment transaction' });
+  }
+});
+
+// Void a transaction recorded in error (admin only). It stays in the ledger
+// but no longer counts towards the payment.
+app.put('/payment-transactions/:transactionId/void', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const transactionId = parseInt(req.params.transactionId, 10);
+    const userId = (req as any).user.userId;
+    const { reason } = req.body;
+    
+    const transaction = await prisma.paymentTransaction.findUnique({
+      where: { id: transactionId },
+      include: { payment: { include: { cycle: { select: { groupId: true } } } } },
+    });
+    
+    if (!transaction) {
+      res.status(404).json({ error: 'Transaction not found' });
+      return;
+    }
+    
+    const membership = await prisma.membership.findUnique({
+      where: {
+        userId_groupId: {
+          userId,
+          groupId: transaction.payment.cycle.groupId,
+        },
+      },
+    });
+    
+    if (!membership || membership.role !== 'admin') {
+      res.status(403).json({ error: 'Only group admins can void payments' });
+      return;
+    }
+    
+    if (typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'A reason is required to void a transaction' });
+      return;
+    }
+    
+    const updatedPayment = await PaymentService.voidTransaction(transactionId, userId, reason);
+    if (!updatedPayment) {
+      res.status(409).json({ error: 'This transaction has already been voided' });
+      return;
+    }
+    
+    res.json(updatedPayment);
+  } catch (error) {
+    console.error('Error voiding payment transaction:', error);
+    res.status(500).json({ error: 'Failed to void payment transaction' });
+  }
+});
+
+// Get all payments for a cycle
+app.get(
+  '/cycles/:cycleId/payments',
+  authMiddleware,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const cycleIdNum = parseInt(req.params.cycleId, 10);
+
+      // Get the cycle to check the group
+      const cycle = await prisma.cycle.findUnique({
+        where: { id: cycleIdNum },
+        select: { groupId: true },
+      });
+
+      if (!cycle) {
+        res.status(404).json({ error: 'Cycle not found' });
+        return;
+      }
+
+      // Check if the user is a member of this group
+      const userId = (req as any).user.userId;
+      const membership = await prisma.membership.findUnique({
+        where: {
+          userId_groupId: {
+            userId,
+            groupId: cycle.groupId,
+          },
+        },
+      });
+
+      if (!membership) {
+        res.status(403).json({ error: 'You are not a member of this group' });
+        return;
+      }
+
+      const payments = await prisma.payment.findMany({
+        where: { cycleId: cycleIdNum },
+        include: {
+          user: true,  // fetch user info
+          cycle: true, // fetch cycle info
+          declarations: { orderBy: { createdAt: 'desc' }, take: 1 }, // latest declaration
+        },
+      });
+
+      res.json(payments);
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+      res.status(500).json({ error: 'Failed to fetch payments' });
+    }
+  }
+);
+
+// =============================================
+// CHAT RELATED ENDPOINTS
+// =============================================
+
+// Cycles, payments and membership changes show up in the group's chat
+GroupEventService.subscribe(ChatService.postSystemMessage);
+
+// Turn the response into a server-sent events stream of a chat channel. The
+// stream ends after an event endsStream returns true for.
+const streamChatChannel = <M>(res: Response, channel: string, endsStream: (event: ChatEvent<M>) => boolean = () => false) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+  
+  // Heroku drops connections that stay silent for 55 seconds
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 25000);
+  
+  const unsubscribe = ChatService.subscribe<M>(channel, (event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    
+    if (endsStream(event)) {
+      res.end();
+    }
+  });
+  
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
+
+// A page of the group's messages, newest first. Pass ?before=<id> for older
+// messages or ?after=<id> for ones missed while disconnected.
+app.get('/groups/:groupId/messages', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    const userId = (req as any).user.userId;
+    
+    const membership = await prisma.membership.findUnique({
+      where: { userId_groupId: { userId, groupId } },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    const page = ChatService.parsePage(req.query);
+    if (typeof page === 'string') {
+      res.status(400).json({ error: page });
+      return;
+    }
+    
+    res.json(await ChatService.listMessages(groupId, page));
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    res.status(500).json({ error: 'Failed to fetch messages' });
+  }
+});
+
+// Post a message to the group chat
+app.post('/groups/:groupId/messages', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    const userId = (req as any).user.userId;
+    const { body } = req.body;
+    
+    const membership = await prisma.membership.findUnique({
+      where: { userId_groupId: { userId, groupId } },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    const invalidReason = ChatService.getInvalidMessageReason(body);
+    if (invalidReason) {
+      res.status(400).json({ error: invalidReason });
+      return;
+    }
+    
+    const message = await ChatService.postMessage(membership, body);
+    
+    res.status(201).json(message);
+  } catch (error) {
+    console.error('Error posting message:', error);
+    res.status(500).json({ error: 'Failed to post message' });
+  }
+});
+
+// Mark the group's messages as read up to and including messageId
+app.put('/groups/:groupId/messages/read', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    const userId = (req as any).user.userId;
+    const messageId = parseInt(req.body.messageId, 10);
+    
+    if (isNaN(messageId)) {
+      res.status(400).json({ error: 'messageId is required' });
+      return;
+    }
+    
+    const membership = await prisma.membership.findUnique({
+      where: { userId_groupId: { userId, groupId } },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    const read = await ChatService.markRead(membership, messageId);
+    
+    // Reading an older message than the last one read is not an error
+    res.json(read || { lastReadMessageId: membership.lastReadMessageId, lastReadAt: membership.lastReadAt });
+  } catch (error) {
+    console.error('Error marking messages as read:', error);
+    res.status(500).json({ error: 'Failed to mark messages as read' });
+  }
+});
+
+// How far each member has read the group's chat
+app.get('/groups/:groupId/messages/reads', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    const userId = (req as any).user.userId;
+    
+    const membership = await prisma.membership.findUnique({
+      where: { userId_groupId: { userId, groupId } },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    res.json(await ChatService.getReadReceipts(groupId));
+  } catch (error) {
+    console.error('Error fetching read receipts:', error);
+    res.status(500).json({ error: 'Failed to fetch read receipts' });
+  }
+});
+
+// Live chat as server-sent events, authenticated like every other request.
+// Sends "message" for new messages, "read" when a member's read position moves
+// and "member_removed" when someone leaves; the stream ends if that is you.
+app.get('/groups/:groupId/messages/stream', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupId = parseInt(req.params.groupId, 10);
+    const userId = (req as any).user.userId;
+    
+    const membership = await prisma.membership.findUnique({
+      where: { userId_groupId: { userId, groupId } },
+    });
+    
+    if (!membership) {
+      res.status(403).json({ error: 'You are not a member of this group' });
+      return;
+    }
+    
+    streamChatChannel(res, ChatService.getGroupChannel(groupId), (event) => (
+      event.type === 'member_removed' && event.userId === userId
+    ));
+  } catch (error) {
+    console.error('Error opening chat stream:', error);
+    res.status(500).json({ error: 'Failed to open chat stream' });
+  }
+});
+
+// =============================================
+// DIRECT MESSAGE RELATED ENDPOINTS
+// =============================================
+
+// The current user's conversations, most recent first
+app.get('/conversations', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    
+    res.json(await DirectMessageService.listConversations(userId));
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    res.status(500).json({ error: 'Failed to fetch conversations' });
+  }
+});
+
+// Open the conversation with another member, starting it if needed. Only
+// members who share a group and haven't blocked each other can talk.
+app.post('/conversations', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const otherUserId = parseInt(req.body.userId, 10);
+    
+    if (isNaN(otherUserId)) {
+      res.status(400).json({ error: 'userId is required' });
+      return;
+    }
+    
+    const unavailableReason = await DirectMessageService.getUnavailableReason(userId, otherUserId);
+    if (unavailableReason) {
+      res.status(403).json({ error: unavailableReason });
+      return;
+    }
+    
+    const conversation = await DirectMessageService.findOrCreateConversation(userId, otherUserId);
+    const [summary] = await DirectMessageService.listConversations(userId, conversation.id);
+    
+    res.json(summary);
+  } catch (error) {
+    console.error('Error starting conversation:', error);
+    res.status(500).json({ error: 'Failed to start conversation' });
+  }
+});
+
+// One conversation as the list shows it
+app.get('/conversations/:conversationId', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const conversationId = parseInt(req.params.conversationId, 10);
+    const userId = (req as any).user.userId;
+    
+    const [summary] = await DirectMessageService.listConversations(userId, conversationId);
+    if (!summary) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+    
+    res.json(summary);
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    res.status(500).json({ error: 'Failed to fetch conversation' });
+  }
+});
+
+// A page of the conversation's messages, paged like group chats
+app.get('/conversations/:conversationId/messages', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const conversationId = parseInt(req.params.conversationId, 10);
+    const userId = (req as any).user.userId;
+    
+    const conversation = await DirectMessageService.getParticipant(conversationId, userId);
+    if (!conversation) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+    
+    const page = ChatService.parsePage(req.query);
+    if (typeof page === 'string') {
+      res.status(400).json({ error: page });
+      return;
+    }
+    
+    res.json(await DirectMessageService.listMessages(conversationId, page));
+  } catch (error) {
+    console.error('Error fetching direct messages:', error);
+    res.status(500).json({ error: 'Failed to fetch messages' });
+  }
+});
+
+// Push the message to the recipient unless they muted the conversation
+const notifyDirectMessage = async (
+  conversationId: number,
+  recipientUserId: number,
+  message: { body: string; sender: { name: string | null } | null }
+) => {
+  const recipient = await prisma.conversationParticipant.findUnique({
+    where: { conversationId_userId: { conversationId, userId: recipientUserId } },
+  });
+  if (!recipient || recipient.muted) {
+    return;
+  }
+
+  await NotificationService.notifyUser(recipient.userId, {
+    type: 'direct_message',
+    title: message.sender?.name || 'New message',
+    body: message.body,
+    data: { conversationId },
+    // Conversations keep their own unread counts
+    inApp: false,
+  });
+};
+
+// Send a direct message. The other member is notified unless they muted the conversation.
+app.post('/conversations/:conversationId/messages', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const conversationId = parseInt(req.params.conversationId, 10);
+    const userId = (req as any).user.userId;
+    const { body } = req.body;
+    
+    const conversation = await DirectMessageService.getParticipant(conversationId, userId);
+    if (!conversation) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+    
+    // Checked on every message: members can leave their shared groups or block each other later
+    const unavailableReason = await DirectMessageService.getUnavailableReason(userId, conversation.otherUserId);
+    if (unavailableReason) {
+      res.status(403).json({ error: unavailableReason });
+      return;
+    }
+    
+    const invalidReason = ChatService.getInvalidMessageReason(body);
+    if (invalidReason) {
+      res.status(400).json({ error: invalidReason });
+      return;
+    }
+    
+    const message = await DirectMessageService.postMessage(conversation.participant, body);
+    
+    res.status(201).json(message);
+    
+    // Notify after responding: a slow push must not hold up sending, or the
+    // client could time out and send the message again
+    notifyDirectMessage(conversationId, conversation.otherUserId, message).catch((error) => {
+      console.error('Error notifying about direct message:', error);
+    });
+  } catch (error) {
+    console.error('Error sending direct message:', error);
+    res.status(500).json({ error: 'Failed to send message' });
+  }
+});
+
+// Mark the conversation as read up to and including messageId
+app.put('/conversations/:conversationId/read', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const conversationId = parseInt(req.params.conversationId, 10);
+    const userId = (req as any).user.userId;
+    const messageId = parseInt(req.body.messageId, 10);
+    
+    if (isNaN(messageId)) {
+      res.status(400).json({ error: 'messageId is required' });
+      return;
+    }
+    
+    const conversation = await DirectMessageService.getParticipant(conversationId, userId);
+    if (!conversation) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+    
+    const { participant } = conversation;
+    const read = await DirectMessageService.markRead(participant, messageId);
+    
+    res.json(read || { lastReadMessageId: participant.lastReadMessageId, lastReadAt: participant.lastReadAt });
+  } catch (error) {
+    console.error('Error marking direct messages as read:', error);
+    res.status(500).json({ error: 'Failed to mark messages as read' });
+  }
+});
+
+// How far both participants have read
+app.get('/conversations/:conversationId/reads', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const conversationId = parseInt(req.params.conversationId, 10);
+    const userId = (req as any).user.userId;
+    
+    const conversation = await DirectMessageService.getParticipant(conversationId, userId);
+    if (!conversation) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+    
+    const participants = await prisma.conversationParticipant.findMany({
+      where: { conversationId },
+      select: { userId: true, lastReadMessageId: true, lastReadAt: true },
+    });
+    
+    res.json(participants);
+  } catch (error) {
+    console.error('Error fetching direct message reads:', error);
+    res.status(500).json({ error: 'Failed to fetch read receipts' });
+  }
+});
+
+// Mute or unmute push notifications for a conversation
+app.put('/conversations/:conversationId/mute', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const conversationId = parseInt(req.params.conversationId, 10);
+    const userId = (req as any).user.userId;
+    const { muted } = req.body;
+    
+    if (typeof muted !== 'boolean') {
+      res.status(400).json({ error: 'muted must be true or false' });
+      return;
+    }
+    
+    const conversation = await DirectMessageService.getParticipant(conversationId, userId);
+    if (!conversation) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+    
+    const participant = await DirectMessageService.setMuted(conversation.participant, muted);
+    
+    res.json({ muted: participant.muted });
+  } catch (error) {
+    console.error('Error muting conversation:', error);
+    res.status(500).json({ error: 'Failed to update conversation' });
+  }
+});
+
+// Live conversation as server-sent events, the same events group chats send
+app.get('/conversations/:conversationId/stream', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const conversationId = parseInt(req.params.conversationId, 10);
+    const userId = (req as any).user.userId;
+    
+    const conversation = await DirectMessageService.getParticipant(conversationId, userId);
+    if (!conversation) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+    
+    streamChatChannel(res, ChatService.getConversationChannel(conversationId));
+  } catch (error) {
+    console.error('Error opening conversation stream:', error);
+    res.status(500).json({ error: 'Failed to open conversation stream' });
+  }
+});
+
+// Members the current user has blocked
+app.get('/users/me/blocks', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    
+    res.json(await DirectMessageService.listBlocks(userId));
+  } catch (error) {
+    console.error('Error fetching blocked users:', error);
+    res.status(500).json({ error: 'Failed to fetch blocked users' });
+  }
+});
+
+// Block a user: neither of you can message the other until you unblock them
+app.put('/users/:userId/block', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const blockedId = parseInt(req.params.userId, 10);
+    const userId = (req as any).user.userId;
+    
+    if (blockedId === userId) {
+      res.status(400).json({ error: "You can't block yourself" });
+      return;
+    }
+    
+    const blockedUser = await prisma.user.findUnique({ where: { id: blockedId } });
+    if (!blockedUser) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    
+    res.json(await DirectMessageService.block(userId, blockedId));
+  } catch (error) {
+    console.error('Error blocking user:', error);
+    res.status(500).json({ error: 'Failed to block user' });
+  }
+});
+
+app.delete('/users/:userId/block', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const blockedId = parseInt(req.params.userId, 10);
+    const userId = (req as any).user.userId;
+    
+    if (!(await DirectMessageService.unblock(userId, blockedId))) {
+      res.status(404).json({ error: 'This user is not blocked' });
+      return;
+    }
+    
+    res.json({ message: 'User unblocked successfully' });
+  } catch (error) {
+    console.error('Error unblocking user:', error);
+    res.status(500).json({ error: 'Failed to unblock user' });
+  }
+});
+
+// =============================================
+// NOTIFICATION RELATED ENDPOINTS
+// =============================================
+
+// Cycle status changes also land in the members' notification lists
+GroupEventService.subscribe(NotificationService.notifyGroupEvent);
+
+// The user's in-app notifications, newest first, with their unread count
+app.get('/notifications', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    
+    const page = ChatService.parsePage(req.query);
+    if (typeof page === 'string') {
+      res.status(400).json({ error: page });
+      return;
+    }
+    
+    res.json(await NotificationService.listForUser(userId, page));
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+});
+
+// Mark all of the user's notifications as read
+app.put('/notifications/read-all', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const updated = await NotificationService.markAllRead(userId);
+    
+    res.json({ updated });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+// Mark one notification as read
+app.put('/notifications/:notificationId/read', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const notificationId = parseInt(req.params.notificationId, 10);
+    const userId = (req as any).user.userId;
+    
+    const notification = isNaN(notificationId) ? null : await NotificationService.markRead(userId, notificationId);
+    if (!notification) {
+      res.status(404).json({ error: 'Notification not found' });
+      return;
+    }
+    
+    res.json(notification);
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    res.status(500).json({ error: 'Failed to mark notification as read' });
+  }
+});
+
+// =============================================
+// DEVELOPMENT ENDPOINTS
+// =============================================
+
+// Only mounted when ENABLE_DEV_ENDPOINTS=true, never in a deploy. They need no
+// login so that the emails of an account that can't log in yet can be read.
+if (process.env.ENABLE_DEV_ENDPOINTS === 'true') {
+  // Recent emails, newest first, optionally only those sent to ?to=
+  app.get('/dev/outbox', async (req: Request, res: Response): Promise<void> => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit?.toString() || '20', 10) || 20, 100);
+      const to = req.query.to ? req.query.to.toString() : undefined;
+      
+      const messages = await prisma.emailMessage.findMany({
+        where: to ? { to: { equals: to, mode: 'insensitive' } } : undefined,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      });
+      
+      res.json({ transport: EmailService.getTransportName(), messages });
+    } catch (error) {
+      console.error('Error fetching outbox:', error);
+      res.status(500).json({ error: 'Failed to fetch outbox' });
+    }
+  });
+}
+
 // Error handler for Sentry
 app.use((err: Error, req: Request, res: Response, next: Function) => {
   Sentry.captureException(err);
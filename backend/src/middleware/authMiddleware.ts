@@ -1,13 +1,9 @@
 // src/middleware/authMiddleware.ts
 import { Request, Response, NextFunction, RequestHandler } from 'express';
 import jwt from 'jsonwebtoken';
+import { AccessTokenPayload, SessionService } from '../services/sessionService';
 
-interface JwtPayload {
-  userId: number;
-  email: string;
-}
-
-export const authMiddleware: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+export const authMiddleware: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
   if (!authHeader) {
     // Send a 401 response...
@@ -22,16 +18,37 @@ export const authMiddleware: RequestHandler = (req: Request, res: Response, next
     return;
   }
 
+  let decoded: AccessTokenPayload;
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as JwtPayload;
-    (req as any).user = {
-      userId: decoded.userId,
-      email: decoded.email
-    };
-    // If everything is okay, just call next() (no return needed).
-    next();
+    decoded = jwt.verify(token, process.env.JWT_SECRET as string) as AccessTokenPayload;
   } catch (error) {
     res.status(401).json({ error: 'Invalid token' });
     return;
   }
+
+  // Tokens issued before sessions existed carry no session id and cannot be revoked
+  if (!decoded.sessionId) {
+    res.status(401).json({ error: 'Session expired' });
+    return;
+  }
+
+  try {
+    const active = await SessionService.touchSession(decoded.sessionId, decoded.userId);
+    if (!active) {
+      res.status(401).json({ error: 'Session revoked' });
+      return;
+    }
+  } catch (error) {
+    console.error('Error checking session:', error);
+    res.status(500).json({ error: 'Failed to verify session' });
+    return;
+  }
+
+  (req as any).user = {
+    userId: decoded.userId,
+    email: decoded.email,
+    sessionId: decoded.sessionId
+  };
+  // If everything is okay, just call next() (no return needed).
+  next();
 };
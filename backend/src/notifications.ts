@@ -1,6 +0,0 @@
-// src/notifications.ts
-export async function sendPushNotification(token: string, title: string, body: string) {
-  // For now, just log the notification request
-  console.log(`NOTIFICATION REQUEST: To: ${token}, Title: ${title}, Body: ${body}`);
-  return true; // Always return success
-}
\ No newline at end of file
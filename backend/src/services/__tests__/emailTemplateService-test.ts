@@ -0,0 +1,44 @@
+import { Group, Prisma } from '@prisma/client';
+import { EmailTemplateService, EMAIL_TEMPLATES } from '../emailTemplateService';
+import { LANGUAGES } from '../../emails/types';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const group = {
+  name: 'Family Savings',
+  currency: 'XOF',
+  contribution: new Prisma.Decimal(5000),
+  timeZone: 'Africa/Dakar',
+} as Group;
+
+describe('EmailTemplateService.render', () => {
+  for (const language of LANGUAGES) {
+    for (const template of EMAIL_TEMPLATES) {
+      it(`renders ${template} in ${language}`, () => {
+        const data = EmailTemplateService.getSampleData(template, group, 'Amina', NOW);
+        expect(EmailTemplateService.render(template, language, data)).toMatchSnapshot();
+      });
+    }
+  }
+
+  it('escapes what users wrote in the HTML but not the text', () => {
+    const email = EmailTemplateService.render('join_request_decision', 'en', {
+      name: 'Amina',
+      groupName: 'Family <Savings>',
+      approved: false,
+      reason: '<script>alert("hi")</script>',
+    });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).toContain('&lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt;');
+    expect(email.text).toContain('<script>alert("hi")</script>');
+  });
+
+  it('falls back to English for languages without a translation', () => {
+    const data = EmailTemplateService.getSampleData('password_reset', group, 'Amina', NOW);
+
+    expect(EmailTemplateService.render('password_reset', 'de', data)).toEqual(
+      EmailTemplateService.render('password_reset', 'en', data)
+    );
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Just enough of PrismaClient, kept in memory, for NotificationService to
+ * send and retry push notifications without a database. Tests mock
+ * @prisma/client to hand this out instead of a real client.
+ */
+
+type Row = Record<string, any>;
+
+// Supports the parts of a where clause the services use: plain values,
+// { lte }, { not } and { in }
+const matches = (row: Row, where: Row = {}): boolean => {
+  return Object.entries(where).every(([field, condition]) => {
+    const value = row[field];
+    if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('lte' in condition && !(value !== null && value <= condition.lte)) return false;
+      if ('not' in condition && value === condition.not) return false;
+      if ('in' in condition && !condition.in.includes(value)) return false;
+      return true;
+    }
+    return value instanceof Date ? value.getTime() === condition.getTime() : value === condition;
+  });
+};
+
+// Applies data to row, including { increment } on numbers
+const apply = (row: Row, data: Row) => {
+  for (const [field, value] of Object.entries(data)) {
+    row[field] = value !== null && typeof value === 'object' && 'increment' in value
+      ? row[field] + value.increment
+      : value;
+  }
+};
+
+const createTable = (defaults: () => Row) => {
+  let rows: Row[] = [];
+  let nextId = 1;
+
+  return {
+    rows: () => rows,
+    reset: () => {
+      rows = [];
+      nextId = 1;
+    },
+    create: async ({ data }: { data: Row }) => {
+      const row = { id: nextId++, ...defaults(), ...data };
+      rows.push(row);
+      return { ...row };
+    },
+    findUnique: async ({ where }: { where: Row }) => {
+      const row = rows.find((r) => matches(r, where));
+      return row ? { ...row } : null;
+    },
+    findMany: async ({ where, take }: { where?: Row; take?: number }) => {
+      return rows.filter((r) => matches(r, where)).slice(0, take).map((r) => ({ ...r }));
+    },
+    update: async ({ where, data }: { where: Row; data: Row }) => {
+      const row = rows.find((r) => matches(r, where));
+      if (!row) {
+        throw new Error('Record to update not found');
+      }
+      apply(row, data);
+      return { ...row };
+    },
+    updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+      const matched = rows.filter((r) => matches(r, where));
+      matched.forEach((row) => apply(row, data));
+      return { count: matched.length };
+    },
+  };
+};
+
+export const fakePrisma = {
+  user: createTable(() => ({
+    pushToken: null,
+    pushRemindersEnabled: true,
+    emailRemindersEnabled: true,
+    notificationPreferences: {},
+  })),
+  membership: createTable(() => ({ notificationsMuted: false, notificationPreferences: {} })),
+  notification: createTable(() => ({ readAt: null, createdAt: new Date() })),
+  notificationLog: createTable(() => ({
+    attempts: 0,
+    ticketId: null,
+    sentAt: null,
+    receiptCheckedAt: null,
+    nextAttemptAt: null,
+    lastError: null,
+    createdAt: new Date(),
+  })),
+
+  reset: () => {
+    fakePrisma.user.reset();
+    fakePrisma.membership.reset();
+    fakePrisma.notification.reset();
+    fakePrisma.notificationLog.reset();
+  },
+};
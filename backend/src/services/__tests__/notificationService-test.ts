@@ -0,0 +1,171 @@
+jest.mock('@prisma/client', () => {
+  const { fakePrisma } = jest.requireActual('./fakePrisma');
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => fakePrisma) };
+});
+
+import { fakePrisma } from './fakePrisma';
+import { NotificationService, Notification } from '../notificationService';
+import { createFakePushTransport, FakePushTransport } from '../pushTransport';
+
+const MINUTE_MS = 60 * 1000;
+const NOW = new Date('2025-06-01T12:00:00Z');
+const TOKEN = 'ExponentPushToken[test-device]';
+
+const reminder: Notification = {
+  type: 'payment_reminder',
+  title: 'Tontine Payment Reminder',
+  body: 'You owe $100.00 for cycle #1 in Family Savings.',
+  data: { groupId: 1, cycleId: 2 },
+};
+
+const getLog = () => fakePrisma.notificationLog.rows()[0];
+
+const minutesFromNow = (date: Date) => (date.getTime() - Date.now()) / MINUTE_MS;
+
+describe('NotificationService push delivery', () => {
+  let push: FakePushTransport;
+  let userId: number;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    fakePrisma.reset();
+    push = createFakePushTransport();
+    NotificationService.setPushTransport(push);
+    userId = (await fakePrisma.user.create({ data: { email: 'amina@example.com', pushToken: TOKEN } })).id;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('sends through the transport and logs the ticket', async () => {
+    const result = await NotificationService.notifyUser(userId, reminder);
+
+    expect(result.push).toBe('sent');
+    expect(push.sent).toEqual([
+      expect.objectContaining({ to: TOKEN, title: reminder.title, body: reminder.body }),
+    ]);
+    expect(getLog()).toMatchObject({ channel: 'push', status: 'sent', attempts: 1, ticketId: 'fake-ticket-1' });
+  });
+
+  it('skips users who turned push off without calling the transport', async () => {
+    await fakePrisma.user.update({ where: { id: userId }, data: { pushRemindersEnabled: false } });
+
+    const result = await NotificationService.notifyUser(userId, reminder);
+
+    expect(result.push).toBe('skipped');
+    expect(push.sent).toHaveLength(0);
+  });
+
+  it('counts the in-app notification as a channel used', async () => {
+    await fakePrisma.user.update({ where: { id: userId }, data: { pushRemindersEnabled: false } });
+
+    const result = await NotificationService.notifyUser(userId, reminder);
+
+    expect(result.inApp).toBe(true);
+    expect(fakePrisma.notification.rows()).toHaveLength(1);
+    expect(NotificationService.getChannelsUsed(result)).toEqual(['inApp']);
+  });
+
+  it('backs off 2, 4, 8 and 16 minutes after network failures, then gives up', async () => {
+    push.failNextSend = new Error('socket hang up');
+    expect((await NotificationService.notifyUser(userId, reminder)).push).toBe('retrying');
+
+    for (const delay of [2, 4, 8, 16]) {
+      expect(minutesFromNow(getLog().nextAttemptAt)).toBe(delay);
+
+      // Nothing is due before the delay is up
+      expect(await NotificationService.retryDue(new Date(Date.now() + (delay - 1) * MINUTE_MS))).toBe(0);
+
+      jest.setSystemTime(getLog().nextAttemptAt);
+      push.failNextSend = new Error('socket hang up');
+      expect(await NotificationService.retryDue()).toBe(1);
+    }
+
+    expect(getLog()).toMatchObject({ status: 'failed', attempts: 5, nextAttemptAt: null, lastError: 'socket hang up' });
+    expect(push.sent).toHaveLength(0);
+  });
+
+  it('sends on a retry once the failure clears', async () => {
+    push.failNextSend = new Error('socket hang up');
+    await NotificationService.notifyUser(userId, reminder);
+
+    jest.setSystemTime(getLog().nextAttemptAt);
+    await NotificationService.retryDue();
+
+    expect(getLog()).toMatchObject({ status: 'sent', attempts: 2, lastError: null, nextAttemptAt: null });
+    expect(push.sent).toHaveLength(1);
+  });
+
+  it('retries when Expo is rate limiting but not on other ticket errors', async () => {
+    push.tickets.push({
+      status: 'error',
+      message: 'Too many messages',
+      details: { error: 'MessageRateExceeded' },
+    });
+    expect((await NotificationService.notifyUser(userId, reminder)).push).toBe('retrying');
+
+    push.tickets.push({
+      status: 'error',
+      message: 'Bad credentials',
+      details: { error: 'InvalidCredentials' },
+    });
+    expect((await NotificationService.notifyUser(userId, reminder)).push).toBe('failed');
+  });
+
+  it('clears the token when the ticket says the device is no longer registered', async () => {
+    push.tickets.push({
+      status: 'error',
+      message: 'Not registered',
+      details: { error: 'DeviceNotRegistered' },
+    });
+
+    const result = await NotificationService.notifyUser(userId, reminder);
+
+    expect(result.push).toBe('failed');
+    expect((await fakePrisma.user.findUnique({ where: { id: userId } }))!.pushToken).toBeNull();
+  });
+
+  it('clears the token when a receipt says the device is no longer registered', async () => {
+    await NotificationService.notifyUser(userId, reminder);
+    push.receipts['fake-ticket-1'] = {
+      status: 'error',
+      message: 'Not registered',
+      details: { error: 'DeviceNotRegistered' },
+    };
+
+    jest.setSystemTime(new Date(NOW.getTime() + 15 * MINUTE_MS));
+    expect(await NotificationService.checkReceipts()).toBe(1);
+
+    expect(getLog()).toMatchObject({ status: 'failed', lastError: 'DeviceNotRegistered' });
+    expect((await fakePrisma.user.findUnique({ where: { id: userId } }))!.pushToken).toBeNull();
+  });
+
+  it('keeps a token the user registered after the failed one', async () => {
+    await NotificationService.notifyUser(userId, reminder);
+    await fakePrisma.user.update({ where: { id: userId }, data: { pushToken: 'ExponentPushToken[new-device]' } });
+    push.receipts['fake-ticket-1'] = {
+      status: 'error',
+      message: 'Not registered',
+      details: { error: 'DeviceNotRegistered' },
+    };
+
+    jest.setSystemTime(new Date(NOW.getTime() + 15 * MINUTE_MS));
+    await NotificationService.checkReceipts();
+
+    expect((await fakePrisma.user.findUnique({ where: { id: userId } }))!.pushToken).toBe('ExponentPushToken[new-device]');
+  });
+
+  it('marks notifications delivered when their receipt is ok', async () => {
+    await NotificationService.notifyUser(userId, reminder);
+    push.receipts['fake-ticket-1'] = { status: 'ok' };
+
+    jest.setSystemTime(new Date(NOW.getTime() + 15 * MINUTE_MS));
+    await NotificationService.checkReceipts();
+
+    expect(getLog()).toMatchObject({ status: 'delivered' });
+  });
+});
@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+// How long each kind of link stays valid, in minutes
+const TOKEN_TTL_MINUTES: Record<AccountTokenPurpose, number> = {
+  password_reset: 60,
+  email_verification: 60 * 24 * 3,
+};
+
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+export const AccountTokenService = {
+  /**
+   * Issue a single-use token for the given purpose.
+   * Any earlier unused token of the same purpose is invalidated.
+   */
+  issueToken: async (userId: number, purpose: AccountTokenPurpose): Promise<string> => {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    await prisma.accountToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    await prisma.accountToken.create({
+      data: {
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + TOKEN_TTL_MINUTES[purpose] * 60 * 1000),
+      },
+    });
+
+    return token;
+  },
+
+  /**
+   * Mark a token as used and return its owner, or null if it is unknown, expired or already used
+   */
+  consumeToken: async (token: string, purpose: AccountTokenPurpose): Promise<number | null> => {
+    const tokenHash = hashToken(token);
+
+    // Conditional update so two concurrent requests cannot both consume the token
+    const result = await prisma.accountToken.updateMany({
+      where: {
+        tokenHash,
+        purpose,
+        usedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      data: { usedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    const record = await prisma.accountToken.findUnique({
+      where: { tokenHash },
+      select: { userId: true },
+    });
+
+    return record ? record.userId : null;
+  },
+};
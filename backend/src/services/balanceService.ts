@@ -0,0 +1,167 @@
+import { PrismaClient, Prisma, Cycle, Payment } from '@prisma/client';
+import { CurrencyService } from './currencyService';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cycles whose payments are owed right now. Scheduled cycles haven't started
+// and cancelled ones never will.
+const OWED_CYCLE_STATUSES = ['collecting', 'ready_for_payout', 'paid_out', 'closed'];
+
+export interface MemberBalance {
+  userId: number;
+  // All amounts are in the group's currency
+  currency: string;
+  totalDue: Prisma.Decimal;
+  totalPaid: Prisma.Decimal;
+  totalReceived: Prisma.Decimal;
+  outstanding: Prisma.Decimal;
+  penalties: Prisma.Decimal;
+  // 0-100 from how promptly past-due payments were made, null with no history
+  reliabilityScore: number | null;
+  paymentsOnTime: number;
+  paymentsLate: number;
+  paymentsMissed: number;
+}
+
+type PaymentWithCycle = Payment & { cycle: Cycle };
+
+const ZERO = new Prisma.Decimal(0);
+
+// Payments are on time if they were covered by the end of the due day
+const getDeadline = (cycle: Cycle): Date | null => {
+  const due = cycle.dueDate || cycle.endDate;
+  return due ? new Date(due.getTime() + DAY_MS) : null;
+};
+
+const summarize = (
+  userId: number,
+  currency: string,
+  payments: PaymentWithCycle[],
+  received: Prisma.Decimal,
+  now: Date
+): MemberBalance => {
+  const balance: MemberBalance = {
+    userId,
+    currency,
+    totalDue: ZERO,
+    totalPaid: ZERO,
+    totalReceived: received,
+    outstanding: ZERO,
+    penalties: ZERO,
+    reliabilityScore: null,
+    paymentsOnTime: 0,
+    paymentsLate: 0,
+    paymentsMissed: 0,
+  };
+
+  for (const payment of payments) {
+    if (!OWED_CYCLE_STATUSES.includes(payment.cycle.status)) {
+      continue;
+    }
+
+    const due = payment.amount.plus(payment.penaltyTotal);
+    balance.totalDue = balance.totalDue.plus(due);
+    balance.totalPaid = balance.totalPaid.plus(payment.amountPaid);
+    balance.penalties = balance.penalties.plus(payment.penaltyTotal);
+    balance.outstanding = balance.outstanding.plus(Prisma.Decimal.max(ZERO, due.minus(payment.amountPaid)));
+
+    // Only payments whose deadline has passed say anything about reliability
+    const deadline = getDeadline(payment.cycle);
+    if (!deadline || deadline > now) {
+      continue;
+    }
+
+    if (payment.paidAt && payment.paidAt <= deadline) {
+      balance.paymentsOnTime++;
+    } else if (payment.paidAt) {
+      balance.paymentsLate++;
+    } else {
+      balance.paymentsMissed++;
+    }
+  }
+
+  // A late payment counts for half an on-time one, a missed one for nothing
+  const rated = balance.paymentsOnTime + balance.paymentsLate + balance.paymentsMissed;
+  if (rated > 0) {
+    balance.reliabilityScore = Math.round(((balance.paymentsOnTime + balance.paymentsLate / 2) / rated) * 100);
+  }
+
+  return balance;
+};
+
+export const BalanceService = {
+  /**
+   * Totals for every member of a group across all its cycles
+   */
+  getGroupBalances: async (groupId: number, now: Date = new Date()) => {
+    const [group, memberships, payments, payouts] = await Promise.all([
+      prisma.group.findUniqueOrThrow({
+        where: { id: groupId },
+        select: { currency: true },
+      }),
+      prisma.membership.findMany({
+        where: { groupId },
+        include: { user: { select: { id: true, name: true } } },
+        orderBy: { joinedAt: 'asc' },
+      }),
+      prisma.payment.findMany({
+        where: { cycle: { groupId } },
+        include: { cycle: true },
+      }),
+      prisma.payout.findMany({
+        where: { cycle: { groupId } },
+      }),
+    ]);
+
+    return memberships.map((membership) => ({
+      user: membership.user,
+      role: membership.role,
+      ...summarize(
+        membership.userId,
+        group.currency,
+        payments.filter((payment) => payment.userId === membership.userId),
+        CurrencyService.sum(
+          payouts.filter((payout) => payout.recipientId === membership.userId).map((payout) => payout.amount)
+        ),
+        now
+      ),
+    }));
+  },
+
+  /**
+   * One user's totals in each group they belong to, each in that group's
+   * currency. They are never added together across groups.
+   */
+  getUserBalances: async (userId: number, now: Date = new Date()) => {
+    const [memberships, payments, payouts] = await Promise.all([
+      prisma.membership.findMany({
+        where: { userId },
+        include: { group: { select: { id: true, name: true, currency: true } } },
+        orderBy: { joinedAt: 'asc' },
+      }),
+      prisma.payment.findMany({
+        where: { userId },
+        include: { cycle: true },
+      }),
+      prisma.payout.findMany({
+        where: { recipientId: userId },
+        include: { cycle: { select: { groupId: true } } },
+      }),
+    ]);
+
+    return memberships.map((membership) => ({
+      group: membership.group,
+      ...summarize(
+        userId,
+        membership.group.currency,
+        payments.filter((payment) => payment.cycle.groupId === membership.groupId),
+        CurrencyService.sum(
+          payouts.filter((payout) => payout.cycle.groupId === membership.groupId).map((payout) => payout.amount)
+        ),
+        now
+      ),
+    }));
+  },
+};
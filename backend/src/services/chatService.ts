@@ -0,0 +1,244 @@
+import { EventEmitter } from 'events';
+import { PrismaClient, Prisma, Membership } from '@prisma/client';
+import { GroupEvent, GroupEventService } from './groupEventService';
+
+const prisma = new PrismaClient();
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+const messageInclude = {
+  sender: { select: { id: true, name: true } },
+} satisfies Prisma.MessageInclude;
+
+// kind is 'text' for what members write and 'system' for group events, which
+// have no sender
+export type ChatMessage = Prisma.MessageGetPayload<{ include: typeof messageInclude }>;
+
+// What a chat channel's listeners hear. Group chats and direct messages send
+// the same events with their own kind of message.
+export type ChatEvent<M = ChatMessage> =
+  | { type: 'message'; message: M }
+  | { type: 'read'; userId: number; lastReadMessageId: number; lastReadAt: Date }
+  | { type: 'member_removed'; userId: number };
+
+// Arguments for the findMany that fetches one page
+export interface PageQuery {
+  where: { id?: { gt: number } | { lt: number } };
+  orderBy: { id: 'asc' | 'desc' };
+  take: number;
+}
+
+export interface MessagePage {
+  // Return messages older than this id, for scrolling back
+  before?: number;
+  // Return messages newer than this id, for catching up after a reconnect
+  after?: number;
+  limit: number;
+}
+
+// Live listeners for each chat channel. They only hear events published by
+// this process, which is fine while the API runs as a single instance.
+const channels = new EventEmitter();
+channels.setMaxListeners(0);
+
+const parseCursor = (value: unknown): number | undefined | null => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const cursor = Number(value);
+  return Number.isInteger(cursor) && cursor > 0 ? cursor : null;
+};
+
+export const ChatService = {
+  /**
+   * Return why the text can't be posted, or null if it can
+   */
+  getInvalidMessageReason: (body: unknown): string | null => {
+    if (typeof body !== 'string' || !body.trim()) {
+      return 'Message cannot be empty';
+    }
+    if (body.length > MAX_MESSAGE_LENGTH) {
+      return `Messages can be at most ${MAX_MESSAGE_LENGTH} characters`;
+    }
+    return null;
+  },
+
+  /**
+   * Read the cursor and page size from a query string. Returns an error
+   * message if they don't make sense.
+   */
+  parsePage: (query: any): MessagePage | string => {
+    const before = parseCursor(query.before);
+    const after = parseCursor(query.after);
+    if (before === null || after === null) {
+      return 'before and after must be message ids';
+    }
+    if (before !== undefined && after !== undefined) {
+      return 'Use either before or after, not both';
+    }
+
+    const limit = query.limit !== undefined ? Number(query.limit) : DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return `limit must be between 1 and ${MAX_PAGE_SIZE}`;
+    }
+
+    return { before, after, limit };
+  },
+
+  /**
+   * A page of a group's messages, newest first. nextCursor is the id to pass
+   * as before for the page after this one, or null when there are no older
+   * messages.
+   */
+  listMessages: async (groupId: number, page: MessagePage) => {
+    return await ChatService.paginate(page, (query) => prisma.message.findMany({
+      ...query,
+      where: { groupId, ...query.where },
+      include: messageInclude,
+    }));
+  },
+
+  /**
+   * Fetch one page of any chat's messages with fetchPage, which adds its own
+   * filter to the query it is given. Newest first, as listMessages describes.
+   */
+  paginate: async <M extends { id: number }>(page: MessagePage, fetchPage: (query: PageQuery) => Promise<M[]>) => {
+    if (page.after !== undefined) {
+      // Oldest first so a long gap is filled from where the client left off
+      const newer = await fetchPage({ where: { id: { gt: page.after } }, orderBy: { id: 'asc' }, take: page.limit });
+      return { messages: newer.reverse(), nextCursor: null };
+    }
+
+    const messages = await fetchPage({
+      where: page.before !== undefined ? { id: { lt: page.before } } : {},
+      orderBy: { id: 'desc' },
+      take: page.limit + 1,
+    });
+
+    const hasMore = messages.length > page.limit;
+    const pageMessages = hasMore ? messages.slice(0, page.limit) : messages;
+
+    return {
+      messages: pageMessages,
+      nextCursor: hasMore ? pageMessages[pageMessages.length - 1].id : null,
+    };
+  },
+
+  /**
+   * Save a member's message and send it to everyone listening
+   */
+  postMessage: async (membership: Membership, body: string): Promise<ChatMessage> => {
+    const message = await prisma.message.create({
+      data: {
+        groupId: membership.groupId,
+        senderId: membership.userId,
+        membershipId: membership.id,
+        body: body.trim(),
+      },
+      include: messageInclude,
+    });
+
+    ChatService.publish(ChatService.getGroupChannel(membership.groupId), { type: 'message', message });
+
+    return message;
+  },
+
+  /**
+   * Post a group event into its chat as a system message, linking to the cycle
+   * it concerns. Does nothing if what the event refers to is already gone.
+   */
+  postSystemMessage: async (event: GroupEvent): Promise<ChatMessage | null> => {
+    const description = await GroupEventService.describe(event);
+    if (!description) {
+      return null;
+    }
+
+    const message = await prisma.message.create({
+      data: {
+        groupId: event.groupId,
+        kind: 'system',
+        event: event.type,
+        cycleId: 'cycleId' in event ? event.cycleId : null,
+        body: description.body,
+        deepLink: description.deepLink,
+      },
+      include: messageInclude,
+    });
+
+    ChatService.publish(ChatService.getGroupChannel(event.groupId), { type: 'message', message });
+
+    return message;
+  },
+
+  /**
+   * Move the member's read position up to messageId. It never moves back.
+   * Returns null if the message isn't in the group or was already read.
+   */
+  markRead: async (membership: Membership, messageId: number) => {
+    const message = await prisma.message.findFirst({
+      where: { id: messageId, groupId: membership.groupId },
+    });
+    if (!message) {
+      return null;
+    }
+
+    const lastReadAt = new Date();
+    const updated = await prisma.membership.updateMany({
+      where: {
+        id: membership.id,
+        OR: [{ lastReadMessageId: null }, { lastReadMessageId: { lt: messageId } }],
+      },
+      data: { lastReadMessageId: messageId, lastReadAt },
+    });
+
+    if (updated.count === 0) {
+      return null;
+    }
+
+    ChatService.publish(ChatService.getGroupChannel(membership.groupId), {
+      type: 'read',
+      userId: membership.userId,
+      lastReadMessageId: messageId,
+      lastReadAt,
+    });
+
+    return { lastReadMessageId: messageId, lastReadAt };
+  },
+
+  /**
+   * How far each member has read. A message has been seen by every member
+   * whose lastReadMessageId is at least its id.
+   */
+  getReadReceipts: async (groupId: number) => {
+    return await prisma.membership.findMany({
+      where: { groupId },
+      select: {
+        userId: true,
+        lastReadMessageId: true,
+        lastReadAt: true,
+        user: { select: { id: true, name: true } },
+      },
+    });
+  },
+
+  getGroupChannel: (groupId: number): string => `group:${groupId}`,
+
+  getConversationChannel: (conversationId: number): string => `conversation:${conversationId}`,
+
+  /**
+   * Listen to a chat channel's events. Returns a function that stops listening.
+   */
+  subscribe: <M = ChatMessage>(channel: string, listener: (event: ChatEvent<M>) => void): (() => void) => {
+    channels.on(channel, listener);
+    return () => {
+      channels.off(channel, listener);
+    };
+  },
+
+  publish: <M = ChatMessage>(channel: string, event: ChatEvent<M>) => {
+    channels.emit(channel, event);
+  },
+};
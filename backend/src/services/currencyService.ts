@@ -0,0 +1,102 @@
+import { Prisma } from '@prisma/client';
+
+export type CurrencyCode = 'MAD' | 'XOF' | 'EUR' | 'USD';
+
+interface CurrencyInfo {
+  // Digits after the decimal point the currency is counted in
+  minorDigits: number;
+  // Locale amounts are formatted in unless the reader has their own
+  locale: string;
+}
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  MAD: { minorDigits: 2, locale: 'fr-MA' },
+  XOF: { minorDigits: 0, locale: 'fr-SN' },
+  EUR: { minorDigits: 2, locale: 'fr-FR' },
+  USD: { minorDigits: 2, locale: 'en-US' },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+const ZERO = new Prisma.Decimal(0);
+
+export const CurrencyService = {
+  isCurrencyCode: (value: unknown): value is CurrencyCode => {
+    return typeof value === 'string' && value in CURRENCIES;
+  },
+
+  /**
+   * Read a number from a request with at most places decimals. Returns an
+   * error message if it isn't one.
+   */
+  parseDecimal: (value: unknown, places: number, field: string): Prisma.Decimal | string => {
+    if (typeof value !== 'number' && typeof value !== 'string') {
+      return `${field} must be a number`;
+    }
+
+    let parsed: Prisma.Decimal;
+    try {
+      parsed = new Prisma.Decimal(value);
+    } catch {
+      return `${field} must be a number`;
+    }
+    if (!parsed.isFinite()) {
+      return `${field} must be a number`;
+    }
+
+    if (parsed.decimalPlaces() > places) {
+      return places === 0
+        ? `${field} must be a whole number`
+        : `${field} can have at most ${places} decimal places`;
+    }
+
+    return parsed;
+  },
+
+  /**
+   * Read an amount of money from a request. Returns an error message if it
+   * isn't a number or is more precise than the currency's smallest unit.
+   */
+  parseAmount: (value: unknown, currency: string, field: string = 'amount'): Prisma.Decimal | string => {
+    const { minorDigits } = CURRENCIES[currency as CurrencyCode] || CURRENCIES.USD;
+    const parsed = CurrencyService.parseDecimal(value, minorDigits, field);
+
+    return typeof parsed === 'string' ? `${parsed} in ${currency}` : parsed;
+  },
+
+  /**
+   * Round to the smallest unit the currency is counted in, half up
+   */
+  round: (value: Prisma.Decimal.Value, currency: string): Prisma.Decimal => {
+    const { minorDigits } = CURRENCIES[currency as CurrencyCode] || CURRENCIES.USD;
+    return new Prisma.Decimal(value).toDecimalPlaces(minorDigits, Prisma.Decimal.ROUND_HALF_UP);
+  },
+
+  sum: (values: Prisma.Decimal.Value[]): Prisma.Decimal => {
+    return values.reduce<Prisma.Decimal>((total, value) => total.plus(value), ZERO);
+  },
+
+  /**
+   * The amount with its currency symbol, as a reader in locale writes it
+   */
+  format: (value: Prisma.Decimal.Value, currency: string, locale?: string): string => {
+    const info = CURRENCIES[currency as CurrencyCode] || CURRENCIES.USD;
+    return new Intl.NumberFormat(locale || info.locale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: info.minorDigits,
+      maximumFractionDigits: info.minorDigits,
+    }).format(new Prisma.Decimal(value).toNumber());
+  },
+
+  /**
+   * Amounts may say which currency they are in. Return an error message if
+   * that isn't the group's currency, or null if it matches or wasn't given.
+   */
+  getMismatchReason: (groupCurrency: string, given: unknown): string | null => {
+    if (given === undefined || given === null || given === '' || given === groupCurrency) {
+      return null;
+    }
+    return `This group works in ${groupCurrency}; amounts in ${given} can't be mixed in`;
+  },
+};
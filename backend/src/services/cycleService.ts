@@ -0,0 +1,181 @@
+import { PrismaClient, Prisma, Cycle } from '@prisma/client';
+import { OUTSTANDING_PAYMENT_STATUSES } from './paymentService';
+import { GroupEventService } from './groupEventService';
+
+const prisma = new PrismaClient();
+
+export type CycleStatus = 'scheduled' | 'collecting' | 'ready_for_payout' | 'paid_out' | 'closed' | 'cancelled';
+
+// Legal moves out of each status. closed and cancelled are final.
+export const CYCLE_TRANSITIONS: Record<CycleStatus, CycleStatus[]> = {
+  scheduled: ['collecting', 'cancelled'],
+  collecting: ['ready_for_payout', 'cancelled'],
+  // Back to collecting if a payment turns out not to have arrived
+  ready_for_payout: ['paid_out', 'collecting', 'cancelled'],
+  paid_out: ['closed'],
+  closed: [],
+  cancelled: [],
+};
+
+// Statuses of a cycle that still has work left to do
+export const OPEN_CYCLE_STATUSES: CycleStatus[] = ['scheduled', 'collecting', 'ready_for_payout', 'paid_out'];
+
+// Moving into one of these while payments are outstanding needs an override reason
+const SETTLED_STATUSES: CycleStatus[] = ['ready_for_payout', 'paid_out', 'closed'];
+
+const countUnpaidPayments = async (cycleId: number): Promise<number> => {
+  return await prisma.payment.count({
+    where: { cycleId, status: { in: OUTSTANDING_PAYMENT_STATUSES } },
+  });
+};
+
+// Only succeeds if the cycle is still in the status it was read with
+const applyTransition = async (
+  tx: Prisma.TransactionClient,
+  cycle: Cycle,
+  to: CycleStatus,
+  actorId: number | null,
+  reason?: string | null
+) => {
+  const updated = await tx.cycle.updateMany({
+    where: { id: cycle.id, status: cycle.status },
+    data: { status: to },
+  });
+
+  if (updated.count === 0) {
+    return null;
+  }
+
+  await tx.cycleTransition.create({
+    data: {
+      cycleId: cycle.id,
+      fromStatus: cycle.status,
+      toStatus: to,
+      actorId,
+      reason: reason?.trim() || null,
+    },
+  });
+
+  return await tx.cycle.findUnique({ where: { id: cycle.id } });
+};
+
+export const CycleService = {
+  isCycleStatus: (value: unknown): value is CycleStatus => {
+    return typeof value === 'string' && value in CYCLE_TRANSITIONS;
+  },
+
+  /**
+   * Status a new cycle starts in: collecting once its start date has arrived
+   */
+  initialStatus: (startDate: Date | null, now: Date = new Date()): CycleStatus => {
+    return startDate && startDate > now ? 'scheduled' : 'collecting';
+  },
+
+  /**
+   * Return why the cycle can't move to the given status, or null if it can
+   */
+  getInvalidReason: async (cycle: Cycle, to: unknown, reason?: string | null): Promise<string | null> => {
+    if (!CycleService.isCycleStatus(to)) {
+      return `Status must be one of: ${Object.keys(CYCLE_TRANSITIONS).join(', ')}`;
+    }
+
+    const from = cycle.status as CycleStatus;
+    if (!(CYCLE_TRANSITIONS[from] || []).includes(to)) {
+      return `A cycle can't move from ${from} to ${to}`;
+    }
+
+    if (SETTLED_STATUSES.includes(to) && !reason?.trim()) {
+      const unpaid = await countUnpaidPayments(cycle.id);
+      if (unpaid > 0) {
+        return `${unpaid} payment(s) are still unpaid. Give a reason to override`;
+      }
+    }
+
+    return null;
+  },
+
+  /**
+   * Move a cycle to a new status and record who did it and why. actorId is
+   * null for automatic transitions. Returns null if the cycle's status
+   * changed since it was read.
+   */
+  transition: async (cycle: Cycle, to: CycleStatus, actorId: number | null, reason?: string | null) => {
+    const updated = await prisma.$transaction((tx) => applyTransition(tx, cycle, to, actorId, reason));
+
+    if (updated) {
+      GroupEventService.publish({
+        type: 'cycle_status_changed',
+        groupId: cycle.groupId,
+        cycleId: cycle.id,
+        from: cycle.status as CycleStatus,
+        to,
+        actorId,
+      });
+    }
+
+    return updated;
+  },
+
+  /**
+   * Same as transition, inside a transaction the caller already opened. No
+   * event is published, since the transaction may still roll back.
+   */
+  transitionWithin: applyTransition,
+
+  /**
+   * Move a collecting cycle to ready_for_payout once every payment is in
+   */
+  advanceIfFullyPaid: async (cycleId: number): Promise<boolean> => {
+    const cycle = await prisma.cycle.findUnique({ where: { id: cycleId } });
+    if (!cycle || cycle.status !== 'collecting') {
+      return false;
+    }
+
+    const [total, unpaid] = await Promise.all([
+      prisma.payment.count({ where: { cycleId } }),
+      countUnpaidPayments(cycleId),
+    ]);
+    if (total === 0 || unpaid > 0) {
+      return false;
+    }
+
+    return (await CycleService.transition(cycle, 'ready_for_payout', null, 'All payments received')) !== null;
+  },
+
+  /**
+   * Apply every automatic transition that is due. Returns how many cycles moved.
+   */
+  advanceDueCycles: async (now: Date = new Date()): Promise<number> => {
+    let advanced = 0;
+
+    const starting = await prisma.cycle.findMany({
+      where: { status: 'scheduled', startDate: { lte: now } },
+    });
+    for (const cycle of starting) {
+      if (await CycleService.transition(cycle, 'collecting', null, 'Start date reached')) {
+        advanced++;
+      }
+    }
+
+    const collecting = await prisma.cycle.findMany({
+      where: { status: 'collecting' },
+      select: { id: true },
+    });
+    for (const cycle of collecting) {
+      if (await CycleService.advanceIfFullyPaid(cycle.id)) {
+        advanced++;
+      }
+    }
+
+    const ended = await prisma.cycle.findMany({
+      where: { status: 'paid_out', endDate: { lt: now } },
+    });
+    for (const cycle of ended) {
+      if (await CycleService.transition(cycle, 'closed', null, 'End date passed')) {
+        advanced++;
+      }
+    }
+
+    return advanced;
+  },
+};
@@ -0,0 +1,256 @@
+import { PrismaClient, Prisma, ConversationParticipant } from '@prisma/client';
+import { ChatService, MessagePage } from './chatService';
+
+const prisma = new PrismaClient();
+
+const directMessageInclude = {
+  sender: { select: { id: true, name: true } },
+} satisfies Prisma.DirectMessageInclude;
+
+export type DirectChatMessage = Prisma.DirectMessageGetPayload<{ include: typeof directMessageInclude }>;
+
+const getPairKey = (userId: number, otherUserId: number): string => {
+  return [userId, otherUserId].sort((a, b) => a - b).join(':');
+};
+
+export const DirectMessageService = {
+  /**
+   * Whether the two users are members of at least one group together
+   */
+  sharesGroup: async (userId: number, otherUserId: number): Promise<boolean> => {
+    const shared = await prisma.membership.findFirst({
+      where: { userId, group: { memberships: { some: { userId: otherUserId } } } },
+    });
+    return shared !== null;
+  },
+
+  /**
+   * Return why userId can't message otherUserId, or null if they can
+   */
+  getUnavailableReason: async (userId: number, otherUserId: number): Promise<string | null> => {
+    if (userId === otherUserId) {
+      return "You can't message yourself";
+    }
+
+    const blocks = await prisma.userBlock.findMany({
+      where: {
+        OR: [
+          { blockerId: userId, blockedId: otherUserId },
+          { blockerId: otherUserId, blockedId: userId },
+        ],
+      },
+    });
+    if (blocks.some((block) => block.blockerId === userId)) {
+      return 'Unblock this member to message them';
+    }
+    if (blocks.length > 0) {
+      return 'This member is not accepting messages from you';
+    }
+
+    if (!(await DirectMessageService.sharesGroup(userId, otherUserId))) {
+      return 'You can only message members of your groups';
+    }
+
+    return null;
+  },
+
+  /**
+   * The two users' conversation, started if they haven't talked before
+   */
+  findOrCreateConversation: async (userId: number, otherUserId: number) => {
+    const pairKey = getPairKey(userId, otherUserId);
+
+    return await prisma.conversation.upsert({
+      where: { pairKey },
+      update: {},
+      create: {
+        pairKey,
+        participants: { create: [{ userId }, { userId: otherUserId }] },
+      },
+    });
+  },
+
+  /**
+   * The user's side of a conversation, with the other participant. Null if
+   * they aren't in it.
+   */
+  getParticipant: async (conversationId: number, userId: number) => {
+    const participant = await prisma.conversationParticipant.findUnique({
+      where: { conversationId_userId: { conversationId, userId } },
+    });
+    if (!participant) {
+      return null;
+    }
+
+    const other = await prisma.conversationParticipant.findFirst({
+      where: { conversationId, userId: { not: userId } },
+    });
+
+    return { participant, otherUserId: other!.userId };
+  },
+
+  /**
+   * The user's conversations, most recent first, with the other user, the
+   * last message and how many messages they haven't read yet. Pass
+   * conversationId to get just that one.
+   */
+  listConversations: async (userId: number, conversationId?: number) => {
+    const participants = await prisma.conversationParticipant.findMany({
+      where: { userId, ...(conversationId !== undefined ? { conversationId } : {}) },
+      include: {
+        conversation: {
+          include: {
+            participants: {
+              where: { userId: { not: userId } },
+              include: { user: { select: { id: true, name: true } } },
+            },
+            messages: { orderBy: { id: 'desc' }, take: 1, include: directMessageInclude },
+          },
+        },
+      },
+    });
+
+    const blocked = await prisma.userBlock.findMany({
+      where: { blockerId: userId },
+      select: { blockedId: true },
+    });
+    const blockedIds = new Set(blocked.map((block) => block.blockedId));
+
+    const conversations = await Promise.all(participants.map(async (participant) => {
+      const { conversation } = participant;
+      const otherUser = conversation.participants[0].user;
+
+      const unreadCount = await prisma.directMessage.count({
+        where: {
+          conversationId: conversation.id,
+          senderId: { not: userId },
+          ...(participant.lastReadMessageId ? { id: { gt: participant.lastReadMessageId } } : {}),
+        },
+      });
+
+      return {
+        id: conversation.id,
+        otherUser,
+        lastMessage: conversation.messages[0] || null,
+        lastMessageAt: conversation.lastMessageAt,
+        unreadCount,
+        muted: participant.muted,
+        blocked: blockedIds.has(otherUser.id),
+      };
+    }));
+
+    // Conversations nobody has written in yet go last
+    return conversations.sort((a, b) => (
+      (b.lastMessageAt?.getTime() || 0) - (a.lastMessageAt?.getTime() || 0)
+    ));
+  },
+
+  /**
+   * A page of a conversation's messages, paged like group chats
+   */
+  listMessages: async (conversationId: number, page: MessagePage) => {
+    return await ChatService.paginate(page, (query) => prisma.directMessage.findMany({
+      ...query,
+      where: { conversationId, ...query.where },
+      include: directMessageInclude,
+    }));
+  },
+
+  /**
+   * Save a message and send it to both participants' open streams
+   */
+  postMessage: async (participant: ConversationParticipant, body: string): Promise<DirectChatMessage> => {
+    const message = await prisma.$transaction(async (tx) => {
+      const created = await tx.directMessage.create({
+        data: {
+          conversationId: participant.conversationId,
+          senderId: participant.userId,
+          body: body.trim(),
+        },
+        include: directMessageInclude,
+      });
+
+      await tx.conversation.update({
+        where: { id: participant.conversationId },
+        data: { lastMessageAt: created.createdAt },
+      });
+
+      return created;
+    });
+
+    ChatService.publish(ChatService.getConversationChannel(participant.conversationId), { type: 'message', message });
+
+    return message;
+  },
+
+  /**
+   * Move the participant's read position up to messageId, like in group chats.
+   * Returns null if the message isn't in the conversation or was already read.
+   */
+  markRead: async (participant: ConversationParticipant, messageId: number) => {
+    const message = await prisma.directMessage.findFirst({
+      where: { id: messageId, conversationId: participant.conversationId },
+    });
+    if (!message) {
+      return null;
+    }
+
+    const lastReadAt = new Date();
+    const updated = await prisma.conversationParticipant.updateMany({
+      where: {
+        id: participant.id,
+        OR: [{ lastReadMessageId: null }, { lastReadMessageId: { lt: messageId } }],
+      },
+      data: { lastReadMessageId: messageId, lastReadAt },
+    });
+
+    if (updated.count === 0) {
+      return null;
+    }
+
+    ChatService.publish(ChatService.getConversationChannel(participant.conversationId), {
+      type: 'read',
+      userId: participant.userId,
+      lastReadMessageId: messageId,
+      lastReadAt,
+    });
+
+    return { lastReadMessageId: messageId, lastReadAt };
+  },
+
+  /**
+   * Muted conversations still receive messages, just without push notifications
+   */
+  setMuted: async (participant: ConversationParticipant, muted: boolean) => {
+    return await prisma.conversationParticipant.update({
+      where: { id: participant.id },
+      data: { muted },
+    });
+  },
+
+  block: async (blockerId: number, blockedId: number) => {
+    return await prisma.userBlock.upsert({
+      where: { blockerId_blockedId: { blockerId, blockedId } },
+      update: {},
+      create: { blockerId, blockedId },
+    });
+  },
+
+  /**
+   * Returns false if the user wasn't blocked
+   */
+  unblock: async (blockerId: number, blockedId: number): Promise<boolean> => {
+    const deleted = await prisma.userBlock.deleteMany({
+      where: { blockerId, blockedId },
+    });
+    return deleted.count > 0;
+  },
+
+  listBlocks: async (userId: number) => {
+    return await prisma.userBlock.findMany({
+      where: { blockerId: userId },
+      include: { blocked: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+};
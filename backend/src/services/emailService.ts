@@ -1,18 +1,27 @@
-import nodemailer from 'nodemailer';
 import dotenv from 'dotenv';
+import { PrismaClient, EmailMessage } from '@prisma/client';
+import { EmailTemplateService } from './emailTemplateService';
+import { EmailTransport, createEmailTransportFromEnv } from './emailTransport';
 
 dotenv.config();
 
-// Configure email transporter
-let transporter = nodemailer.createTransport({
-  host: process.env.EMAIL_HOST || 'smtp.gmail.com',
-  port: parseInt(process.env.EMAIL_PORT || '587', 10),
-  secure: process.env.EMAIL_SECURE === 'true',
-  auth: {
-    user: process.env.EMAIL_USER,
-    pass: process.env.EMAIL_PASSWORD
-  }
-});
+const prisma = new PrismaClient();
+
+const MINUTE_MS = 60 * 1000;
+
+// A failed send is tried again after 2, 4, 8 and 16 minutes before giving up.
+// Messages also start out due, so one the server died before sending isn't lost.
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 2 * MINUTE_MS;
+
+// How long one attempt may hold a message. A send still unfinished by then
+// is taken to have died with the server and retryDue tries it again.
+const SEND_TIMEOUT_MS = 5 * MINUTE_MS;
+
+const BATCH_SIZE = 100;
+
+// Base URL for links that the mobile app opens as deep links
+const APP_LINK_PREFIX = process.env.APP_LINK_PREFIX || 'https://tontine-app.com';
 
 interface EmailOptions {
   to: string;
@@ -21,78 +30,150 @@ interface EmailOptions {
   html?: string;
 }
 
+// Who an account email goes to and which language it's written in
+interface EmailRecipient {
+  email: string;
+  name: string | null;
+  language: string;
+}
+
+// queued: waiting for nextAttemptAt. sending: claimed by one attempt until
+// nextAttemptAt. failed: gave up after MAX_ATTEMPTS.
+export type EmailStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+let transport: EmailTransport = createEmailTransportFromEnv();
+
+/**
+ * Make one attempt at a queued message, or one whose last attempt timed out.
+ * Returns the message as it ends up, or null if another attempt holds it.
+ */
+const deliver = async (queued: EmailMessage): Promise<EmailMessage | null> => {
+  const now = new Date();
+  const claimed = await prisma.emailMessage.updateMany({
+    where: {
+      id: queued.id,
+      OR: [{ status: 'queued' }, { status: 'sending', nextAttemptAt: { lte: now } }],
+    },
+    data: {
+      status: 'sending',
+      transport: transport.name,
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + SEND_TIMEOUT_MS),
+    },
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const attempts = queued.attempts + 1;
+  try {
+    const messageId = await transport.send(queued);
+
+    return await prisma.emailMessage.update({
+      where: { id: queued.id },
+      data: { status: 'sent', messageId, sentAt: new Date(), lastError: null, nextAttemptAt: null },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retry = attempts < MAX_ATTEMPTS;
+    console.error(`Error sending email ${queued.id}:`, message);
+
+    return await prisma.emailMessage.update({
+      where: { id: queued.id },
+      data: {
+        status: retry ? 'queued' : 'failed',
+        lastError: message,
+        nextAttemptAt: retry ? new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)) : null,
+      },
+    });
+  }
+};
+
 export const EmailService = {
+  useTransport: (next: EmailTransport) => {
+    transport = next;
+  },
+
+  getTransportName: () => transport.name,
+
   /**
-   * Send an email
+   * Save an email to the queue and make the first attempt at it. Returns the
+   * message; when it is still queued, retryDue keeps trying.
    */
-  sendEmail: async (options: EmailOptions): Promise<boolean> => {
-    try {
-      const mailOptions = {
+  queue: async (options: EmailOptions): Promise<EmailMessage> => {
+    const message = await prisma.emailMessage.create({
+      data: {
         from: process.env.EMAIL_FROM || 'noreply@tontine-app.com',
         to: options.to,
         subject: options.subject,
         text: options.text,
-        html: options.html
-      };
-      
-      await transporter.sendMail(mailOptions);
-      return true;
+        html: options.html,
+        transport: transport.name,
+        nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS),
+      },
+    });
+
+    return (await deliver(message)) || message;
+  },
+
+  /**
+   * Send an email. Returns false if it didn't go out right away, in which case
+   * it stays queued for a retry unless it failed for good.
+   */
+  sendEmail: async (options: EmailOptions): Promise<boolean> => {
+    try {
+      const message = await EmailService.queue(options);
+      return message.status === 'sent';
     } catch (error) {
       console.error('Error sending email:', error);
       return false;
     }
   },
-  
+
   /**
-   * Send a payment reminder email
+   * Try queued messages again once their backoff is over, and messages whose
+   * attempt never finished
    */
-  sendPaymentReminder: async (
-    userEmail: string, 
-    userName: string, 
-    groupName: string, 
-    amount: number, 
-    dueDate: string,
-    cycleIndex: number
-  ): Promise<boolean> => {
-    const subject = `Payment Reminder: ${groupName} Cycle #${cycleIndex}`;
-    
-    const text = `
-Hello ${userName},
-
-This is a reminder that your payment of $${amount.toFixed(2)} for ${groupName} (Cycle #${cycleIndex}) is due by ${dueDate}.
-
-Please log in to the Tontine App to make your payment.
-
-Thank you,
-The Tontine App Team
-    `;
-    
-    const html = `
-<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-  <h2 style="color: #4CAF50;">Payment Reminder</h2>
-  <p>Hello ${userName},</p>
-  <p>This is a reminder that your payment for the following group is due:</p>
-  <div style="background-color: #f8f9fa; padding: 15px; border-radius: 8px; margin: 15px 0;">
-    <p><strong>Group:</strong> ${groupName}</p>
-    <p><strong>Cycle:</strong> #${cycleIndex}</p>
-    <p><strong>Amount Due:</strong> $${amount.toFixed(2)}</p>
-    <p><strong>Due By:</strong> ${dueDate}</p>
-  </div>
-  <p>Please log in to the Tontine App to make your payment.</p>
-  <div style="margin-top: 30px; text-align: center;">
-    <a href="https://tontine-app.com" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 4px; font-weight: bold;">Open Tontine App</a>
-  </div>
-  <p style="margin-top: 30px; font-size: 12px; color: #666; text-align: center;">
-    If you've already made this payment, please disregard this message.
-  </p>
-</div>
-    `;
-    
-    return await EmailService.sendEmail({
-      to: userEmail,
-      subject,
-      text,
-      html
+  retryDue: async (now: Date = new Date()): Promise<number> => {
+    const due = await prisma.emailMessage.findMany({
+      where: { status: { in: ['queued', 'sending'] }, nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: BATCH_SIZE,
     });
+
+    let retried = 0;
+    for (const message of due) {
+      if (await deliver(message)) {
+        retried++;
+      }
+    }
+
+    return retried;
+  },
+
+  /**
+   * Send a password reset link
+   */
+  sendPasswordReset: async (user: EmailRecipient, token: string): Promise<boolean> => {
+    const resetLink = `${APP_LINK_PREFIX}/reset-password?token=${encodeURIComponent(token)}`;
+    const content = EmailTemplateService.render('password_reset', user.language, {
+      name: user.name,
+      resetLink,
+    });
+
+    return await EmailService.sendEmail({ to: user.email, ...content });
+  },
+
+  /**
+   * Send an email address verification link
+   */
+  sendEmailVerification: async (user: EmailRecipient, token: string): Promise<boolean> => {
+    const verifyLink = `${APP_LINK_PREFIX}/verify-email?token=${encodeURIComponent(token)}`;
+    const content = EmailTemplateService.render('email_verification', user.language, {
+      name: user.name,
+      verifyLink,
+    });
+
+    return await EmailService.sendEmail({ to: user.email, ...content });
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,183 @@
+import { Prisma, Group } from '@prisma/client';
+import { CurrencyService } from './currencyService';
+import { en } from '../emails/en';
+import { fr } from '../emails/fr';
+import { ar } from '../emails/ar';
+import {
+  Language,
+  LANGUAGES,
+  EmailContent,
+  EmailTemplateData,
+  EmailTemplateName,
+  EmailBody,
+  Formatters,
+  Translation,
+} from '../emails/types';
+
+// Base URL for links that the mobile app opens as deep links
+const APP_LINK_PREFIX = process.env.APP_LINK_PREFIX || 'https://tontine-app.com';
+
+const TRANSLATIONS: Record<Language, Translation> = { en, fr, ar };
+
+export const EMAIL_TEMPLATES = Object.keys(en.templates) as EmailTemplateName[];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const getFormatters = (translation: Translation): Formatters => ({
+  money: (amount, currency) => CurrencyService.format(amount, currency, translation.locale),
+  date: (date, timeZone) => new Intl.DateTimeFormat(translation.locale, { dateStyle: 'long', timeZone }).format(date),
+});
+
+const renderText = (translation: Translation, name: string | null, body: EmailBody): string => {
+  const sections = [translation.greeting(name), ...body.paragraphs];
+
+  if (body.details) {
+    sections.push(body.details.map(([label, value]) => `${label}${translation.labelSeparator}${value}`).join('\n'));
+  }
+  if (body.action) {
+    sections.push(`${body.action.label}${translation.labelSeparator}${body.action.url}`);
+  }
+  if (body.note) {
+    sections.push(body.note);
+  }
+  sections.push(translation.signOff.join('\n'));
+
+  return `${sections.join('\n\n')}\n`;
+};
+
+const renderHtml = (translation: Translation, language: Language, name: string | null, body: EmailBody): string => {
+  const escape = EmailTemplateService.escapeHtml;
+  const align = translation.dir === 'rtl' ? 'right' : 'left';
+  const lines = [
+    `<div dir="${translation.dir}" lang="${language}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; text-align: ${align};">`,
+    `  <h2 style="color: ${body.bad ? '#FF5252' : '#4CAF50'};">${escape(body.heading)}</h2>`,
+    `  <p>${escape(translation.greeting(name))}</p>`,
+    ...body.paragraphs.map((paragraph) => `  <p>${escape(paragraph)}</p>`),
+  ];
+
+  if (body.details) {
+    lines.push('  <div style="background-color: #f8f9fa; padding: 15px; border-radius: 8px; margin: 15px 0;">');
+    for (const [label, value] of body.details) {
+      lines.push(`    <p><strong>${escape(label)}${escape(translation.labelSeparator.trimEnd())}</strong> ${escape(value)}</p>`);
+    }
+    lines.push('  </div>');
+  }
+  if (body.action) {
+    lines.push(
+      '  <div style="margin-top: 30px; text-align: center;">',
+      `    <a href="${escape(body.action.url)}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 4px; font-weight: bold;">${escape(body.action.label)}</a>`,
+      '  </div>'
+    );
+  }
+  if (body.note) {
+    lines.push(`  <p style="margin-top: 30px; font-size: 12px; color: #666; text-align: center;">${escape(body.note)}</p>`);
+  }
+  lines.push(`  <p>${translation.signOff.map(escape).join('<br>')}</p>`, '</div>');
+
+  return `${lines.join('\n')}\n`;
+};
+
+export const EmailTemplateService = {
+  isLanguage: (value: unknown): value is Language => {
+    return LANGUAGES.includes(value as Language);
+  },
+
+  isTemplateName: (value: unknown): value is EmailTemplateName => {
+    return EMAIL_TEMPLATES.includes(value as EmailTemplateName);
+  },
+
+  escapeHtml: (value: string): string => {
+    return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+  },
+
+  /**
+   * Render a template in a language, English if it isn't one we have. The
+   * result only depends on the arguments, so it can be snapshot tested.
+   */
+  render: <T extends EmailTemplateName>(template: T, language: string, data: EmailTemplateData[T]): EmailContent => {
+    const lang: Language = EmailTemplateService.isLanguage(language) ? language : 'en';
+    const translation = TRANSLATIONS[lang];
+    const build = translation.templates[template] as (
+      data: EmailTemplateData[T],
+      format: Formatters,
+      appUrl: string
+    ) => EmailBody;
+    const body = build(data, getFormatters(translation), APP_LINK_PREFIX);
+    const name = 'name' in data ? (data as { name: string | null }).name : null;
+
+    return {
+      subject: body.subject,
+      text: renderText(translation, name, body),
+      html: renderHtml(translation, lang, name, body),
+    };
+  },
+
+  /**
+   * Made up data for previewing a template with a group's name, currency and
+   * contribution
+   */
+  getSampleData: <T extends EmailTemplateName>(template: T, group: Group, userName: string, now: Date = new Date()) => {
+    const amount = new Prisma.Decimal(group.contribution || 100);
+    const samples: EmailTemplateData = {
+      payment_reminder: {
+        name: userName,
+        groupName: group.name,
+        cycleIndex: 1,
+        amount,
+        currency: group.currency,
+        dueDate: new Date(now.getTime() + 3 * DAY_MS),
+        timeZone: group.timeZone,
+        overdue: false,
+      },
+      invite: {
+        inviterName: userName,
+        groupName: group.name,
+        inviteUrl: `${APP_LINK_PREFIX}/invite?token=preview`,
+        expiresAt: new Date(now.getTime() + 7 * DAY_MS),
+        timeZone: group.timeZone,
+      },
+      payout_notice: {
+        name: userName,
+        groupName: group.name,
+        cycleIndex: 1,
+        amount: amount.times(5),
+        currency: group.currency,
+      },
+      password_reset: {
+        name: userName,
+        resetLink: `${APP_LINK_PREFIX}/reset-password?token=preview`,
+      },
+      email_verification: {
+        name: userName,
+        verifyLink: `${APP_LINK_PREFIX}/verify-email?token=preview`,
+      },
+      join_request_decision: {
+        name: userName,
+        groupName: group.name,
+        approved: true,
+        reason: null,
+      },
+      cycle_summary: {
+        name: userName,
+        groupName: group.name,
+        cycleIndex: 1,
+        currency: group.currency,
+        collected: amount.times(4),
+        expected: amount.times(5),
+        paidCount: 4,
+        memberCount: 5,
+        recipientName: userName,
+      },
+    };
+
+    return samples[template];
+  },
+};
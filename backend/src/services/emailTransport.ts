@@ -0,0 +1,102 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface OutgoingEmail {
+  // The EmailMessage row it was queued as
+  id: number;
+  from: string;
+  to: string;
+  subject: string;
+  text: string | null;
+  html: string | null;
+}
+
+/**
+ * How email leaves the server. send throws when the message didn't go out and
+ * otherwise returns an id to find it by, if the transport gives one.
+ */
+export interface EmailTransport {
+  name: EmailTransportName;
+  send: (email: OutgoingEmail) => Promise<string | null>;
+}
+
+export type EmailTransportName = 'smtp' | 'outbox' | 'file';
+
+export const EMAIL_TRANSPORTS: EmailTransportName[] = ['smtp', 'outbox', 'file'];
+
+const toMailOptions = (email: OutgoingEmail) => ({
+  from: email.from,
+  to: email.to,
+  subject: email.subject,
+  text: email.text || undefined,
+  html: email.html || undefined,
+});
+
+export const createSmtpEmailTransport = (): EmailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.EMAIL_HOST || 'smtp.gmail.com',
+    port: parseInt(process.env.EMAIL_PORT || '587', 10),
+    secure: process.env.EMAIL_SECURE === 'true',
+    auth: {
+      user: process.env.EMAIL_USER,
+      pass: process.env.EMAIL_PASSWORD,
+    },
+  });
+
+  return {
+    name: 'smtp',
+    send: async (email) => {
+      const info = await transporter.sendMail(toMailOptions(email));
+      return info.messageId || null;
+    },
+  };
+};
+
+/**
+ * Sends nothing. The message stays in the EmailMessage table, where the dev
+ * outbox endpoint shows it.
+ */
+export const createOutboxEmailTransport = (): EmailTransport => ({
+  name: 'outbox',
+  send: async () => null,
+});
+
+/**
+ * Writes each message as an .eml file under dir, which mail clients can open.
+ * Returns the file's path.
+ */
+export const createFileEmailTransport = (dir: string): EmailTransport => {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  return {
+    name: 'file',
+    send: async (email) => {
+      const info = await transporter.sendMail(toMailOptions(email));
+      const filePath = path.join(dir, `${String(email.id).padStart(6, '0')}.eml`);
+
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(filePath, info.message as Buffer);
+      return filePath;
+    },
+  };
+};
+
+/**
+ * The transport EMAIL_TRANSPORT names, SMTP if it isn't set. Set it to outbox
+ * or file in development so nobody real gets mailed.
+ */
+export const createEmailTransportFromEnv = (): EmailTransport => {
+  const name = process.env.EMAIL_TRANSPORT || 'smtp';
+
+  switch (name) {
+    case 'smtp':
+      return createSmtpEmailTransport();
+    case 'file':
+      return createFileEmailTransport(process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox'));
+    case 'outbox':
+      return createOutboxEmailTransport();
+    default:
+      throw new Error(`EMAIL_TRANSPORT must be one of: ${EMAIL_TRANSPORTS.join(', ')}`);
+  }
+};
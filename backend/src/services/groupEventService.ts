@@ -0,0 +1,171 @@
+import { EventEmitter } from 'events';
+import { PrismaClient } from '@prisma/client';
+import { CurrencyService } from './currencyService';
+import { CycleStatus } from './cycleService';
+
+const prisma = new PrismaClient();
+
+const APP_LINK_PREFIX = process.env.APP_LINK_PREFIX || 'https://tontine-app.com';
+
+// Things that happen in a group that its members should hear about.
+// actorId is whoever made it happen.
+export type GroupEvent =
+  | { type: 'cycle_created'; groupId: number; cycleId: number; actorId: number }
+  | { type: 'rotation_created'; groupId: number; cycleId: number; cycleCount: number; actorId: number }
+  | { type: 'recipient_assigned'; groupId: number; cycleId: number; recipientUserId: number; actorId: number }
+  | { type: 'cycle_status_changed'; groupId: number; cycleId: number; from: CycleStatus; to: CycleStatus; actorId: number | null }
+  | { type: 'payment_paid'; groupId: number; cycleId: number; paymentId: number; actorId: number }
+  | { type: 'member_joined'; groupId: number; userId: number }
+  | { type: 'member_removed'; groupId: number; userId: number; actorId: number };
+
+export type GroupEventType = GroupEvent['type'];
+
+export interface EventDescription {
+  body: string;
+  // Where tapping the message should take the member, if anywhere
+  deepLink: string | null;
+}
+
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+const getName = async (userId: number): Promise<string> => {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+  return user?.name || 'A former member';
+};
+
+const getCycle = async (cycleId: number) => {
+  return await prisma.cycle.findUnique({
+    where: { id: cycleId },
+    select: { id: true, groupId: true, cycleIndex: true },
+  });
+};
+
+const describeCycleStatus = (cycleIndex: number, from: CycleStatus, to: CycleStatus): string => {
+  switch (to) {
+    case 'collecting':
+      return from === 'ready_for_payout'
+        ? `Cycle #${cycleIndex} is collecting payments again`
+        : `Cycle #${cycleIndex} started collecting payments`;
+    case 'ready_for_payout':
+      return `Cycle #${cycleIndex} is ready for payout`;
+    case 'paid_out':
+      return `Cycle #${cycleIndex} has been paid out`;
+    case 'closed':
+      return `Cycle #${cycleIndex} is closed`;
+    case 'cancelled':
+      return `Cycle #${cycleIndex} was cancelled`;
+    default:
+      return `Cycle #${cycleIndex} is now ${to}`;
+  }
+};
+
+export const GroupEventService = {
+  /**
+   * Tell every listener that something happened in a group. Listeners run in
+   * the background, so a failing one never fails the request that published.
+   */
+  publish: (event: GroupEvent) => {
+    bus.emit('event', event);
+  },
+
+  /**
+   * Run listener for every published event. Returns a function that stops listening.
+   */
+  subscribe: (listener: (event: GroupEvent) => Promise<unknown> | void): (() => void) => {
+    const handle = async (event: GroupEvent) => {
+      try {
+        await listener(event);
+      } catch (error) {
+        console.error(`Error handling ${event.type} event:`, error);
+      }
+    };
+
+    bus.on('event', handle);
+    return () => {
+      bus.off('event', handle);
+    };
+  },
+
+  /**
+   * Link that opens a group in the app
+   */
+  getGroupLink: (groupId: number): string => {
+    return `${APP_LINK_PREFIX}/group?groupId=${groupId}`;
+  },
+
+  /**
+   * Link that opens a cycle in the app
+   */
+  getCycleLink: (groupId: number, cycleId: number): string => {
+    return `${APP_LINK_PREFIX}/cycle?groupId=${groupId}&cycleId=${cycleId}`;
+  },
+
+  /**
+   * One line for the group's members about what happened. Returns null if what
+   * it refers to is already gone.
+   */
+  describe: async (event: GroupEvent): Promise<EventDescription | null> => {
+    switch (event.type) {
+      case 'cycle_created': {
+        const cycle = await getCycle(event.cycleId);
+        if (!cycle) return null;
+        return {
+          body: `${await getName(event.actorId)} created cycle #${cycle.cycleIndex}`,
+          deepLink: GroupEventService.getCycleLink(cycle.groupId, cycle.id),
+        };
+      }
+
+      case 'rotation_created': {
+        const cycle = await getCycle(event.cycleId);
+        if (!cycle) return null;
+        return {
+          body: `${await getName(event.actorId)} generated a rotation of ${event.cycleCount} cycles, starting with cycle #${cycle.cycleIndex}`,
+          deepLink: GroupEventService.getCycleLink(cycle.groupId, cycle.id),
+        };
+      }
+
+      case 'recipient_assigned': {
+        const cycle = await getCycle(event.cycleId);
+        if (!cycle) return null;
+        return {
+          body: `${await getName(event.recipientUserId)} will receive the payout of cycle #${cycle.cycleIndex}`,
+          deepLink: GroupEventService.getCycleLink(cycle.groupId, cycle.id),
+        };
+      }
+
+      case 'cycle_status_changed': {
+        const cycle = await getCycle(event.cycleId);
+        if (!cycle) return null;
+        return {
+          body: describeCycleStatus(cycle.cycleIndex, event.from, event.to),
+          deepLink: GroupEventService.getCycleLink(cycle.groupId, cycle.id),
+        };
+      }
+
+      case 'payment_paid': {
+        const payment = await prisma.payment.findUnique({
+          where: { id: event.paymentId },
+          include: { cycle: { include: { group: true } } },
+        });
+        if (!payment) return null;
+        const { cycle } = payment;
+        return {
+          body: `${await getName(payment.userId)} paid ${CurrencyService.format(payment.amountPaid, cycle.group.currency)} for cycle #${cycle.cycleIndex}`,
+          deepLink: GroupEventService.getCycleLink(cycle.groupId, cycle.id),
+        };
+      }
+
+      case 'member_joined':
+        return { body: `${await getName(event.userId)} joined the group`, deepLink: null };
+
+      case 'member_removed': {
+        const name = await getName(event.userId);
+        if (event.actorId === event.userId) {
+          return { body: `${name} left the group`, deepLink: null };
+        }
+        return { body: `${await getName(event.actorId)} removed ${name} from the group`, deepLink: null };
+      }
+    }
+  },
+};
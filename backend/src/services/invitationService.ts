@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma, Invitation } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Base URL for links that the mobile app opens as deep links
+const APP_LINK_PREFIX = process.env.APP_LINK_PREFIX || 'https://tontine-app.com';
+
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 30;
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+interface CreateInvitationOptions {
+  groupId: number;
+  invitedById: number;
+  phone?: string;
+  email?: string;
+  maxUses?: number;
+  expiresInDays?: number;
+}
+
+// Only succeeds if a use is left. The increment happens in the database, so
+// concurrent joiners each take their own use until there are none.
+const consumeUse = async (tx: Prisma.TransactionClient, invitation: Invitation): Promise<boolean> => {
+  const updated = await tx.invitation.updateMany({
+    where: {
+      id: invitation.id,
+      status: 'pending',
+      useCount: { lt: invitation.maxUses },
+    },
+    data: {
+      useCount: { increment: 1 },
+    },
+  });
+
+  if (updated.count === 0) {
+    return false;
+  }
+
+  // The update above holds the row lock, so this sees our use and everyone's before it
+  await tx.invitation.updateMany({
+    where: {
+      id: invitation.id,
+      useCount: { gte: invitation.maxUses },
+    },
+    data: { status: 'accepted' },
+  });
+
+  return true;
+};
+
+export const InvitationService = {
+  /**
+   * Create a new invitation with a random, unguessable token
+   */
+  createInvitation: async (options: CreateInvitationOptions): Promise<Invitation> => {
+    const expiresInDays = Math.min(Math.max(options.expiresInDays || DEFAULT_EXPIRY_DAYS, 1), MAX_EXPIRY_DAYS);
+
+    return await prisma.invitation.create({
+      data: {
+        groupId: options.groupId,
+        invitedById: options.invitedById,
+        token: crypto.randomBytes(24).toString('base64url'),
+        targetPhone: options.phone ? options.phone.replace(/\s+/g, '') : null,
+        targetEmail: options.email ? options.email.toLowerCase() : null,
+        maxUses: Math.max(options.maxUses || 1, 1),
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      },
+    });
+  },
+
+  /**
+   * Build the link the invitee opens on their phone
+   */
+  buildInviteUrl: (token: string): string => {
+    return `${APP_LINK_PREFIX}/invite?token=${encodeURIComponent(token)}`;
+  },
+
+  /**
+   * Return why an invitation can't be used right now, or null if it can
+   */
+  getInvalidReason: (invitation: Invitation, userEmail?: string): string | null => {
+    if (invitation.status === 'revoked') {
+      return 'This invitation has been revoked';
+    }
+    if (invitation.status === 'accepted' || invitation.useCount >= invitation.maxUses) {
+      return 'This invitation has already been used';
+    }
+    if (invitation.expiresAt < new Date()) {
+      return 'This invitation has expired';
+    }
+    if (userEmail && invitation.targetEmail && invitation.targetEmail !== userEmail.toLowerCase()) {
+      return 'This invitation was sent to a different email address';
+    }
+    return null;
+  },
+
+  /**
+   * Consume one use of the invitation and add the user to its group.
+   * Returns null if another request used the last slot first.
+   */
+  acceptInvitation: async (invitation: Invitation, userId: number) => {
+    return await prisma.$transaction(async (tx) => {
+      if (!(await consumeUse(tx, invitation))) {
+        return null;
+      }
+
+      return await tx.membership.create({
+        data: {
+          userId,
+          groupId: invitation.groupId,
+          role: 'member',
+        },
+      });
+    });
+  },
+
+  /**
+   * Consume one use of the invitation and file a join request for admins to review.
+   * Returns null if another request used the last slot first.
+   */
+  requestToJoin: async (invitation: Invitation, userId: number) => {
+    return await prisma.$transaction(async (tx) => {
+      if (!(await consumeUse(tx, invitation))) {
+        return null;
+      }
+
+      return await tx.joinRequest.create({
+        data: {
+          userId,
+          groupId: invitation.groupId,
+          invitationId: invitation.id,
+        },
+      });
+    });
+  },
+};
@@ -0,0 +1,155 @@
+import { Prisma } from '@prisma/client';
+
+// What users choose notifications by. Each covers a few notification types.
+export type NotificationEvent = 'reminders' | 'payments' | 'payouts' | 'cycles' | 'membership' | 'messages';
+
+export type PreferenceChannel = 'push' | 'email' | 'inApp';
+
+const EVENT_TYPES = {
+  reminders: ['payment_reminder', 'payment_overdue'],
+  payments: ['payment_declared', 'payment_confirmed', 'payment_disputed'],
+  payouts: ['payout_recorded', 'cycle_summary'],
+  cycles: ['cycle_status_changed'],
+  membership: ['join_request_received', 'join_request_approved', 'join_request_rejected', 'role_changed'],
+  messages: ['direct_message'],
+} as const satisfies Record<NotificationEvent, readonly string[]>;
+
+// Types that go out whatever the user chose. Only list a type here on
+// purpose: every other one has to belong to an event above.
+const UNFILTERED_TYPES = [] as const;
+
+// Every type a notification can have, so a sender can't make up one that
+// preferences don't know about
+export type NotificationType = (typeof EVENT_TYPES)[NotificationEvent][number] | (typeof UNFILTERED_TYPES)[number];
+
+export const NOTIFICATION_EVENTS = Object.keys(EVENT_TYPES) as NotificationEvent[];
+
+export const PREFERENCE_CHANNELS: PreferenceChannel[] = ['push', 'email', 'inApp'];
+
+// Choices by event and channel. Anything left out is on.
+export type NotificationPreferences = Partial<Record<NotificationEvent, Partial<Record<PreferenceChannel, boolean>>>>;
+
+// A member's settings for one group, which win over their own preferences
+export interface GroupNotificationSettings {
+  notificationsMuted: boolean;
+  notificationPreferences: Prisma.JsonValue;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const getChoice = (preferences: Prisma.JsonValue, event: NotificationEvent, channel: PreferenceChannel): boolean | undefined => {
+  const choices = isObject(preferences) ? preferences[event] : undefined;
+  const choice = isObject(choices) ? choices[channel] : undefined;
+  return typeof choice === 'boolean' ? choice : undefined;
+};
+
+export const NotificationPreferenceService = {
+  /**
+   * The event a notification type belongs to, or null for types nobody can
+   * turn off
+   */
+  getEvent: (type: NotificationType): NotificationEvent | null => {
+    return NOTIFICATION_EVENTS.find((event) => (EVENT_TYPES[event] as readonly string[]).includes(type)) || null;
+  },
+
+  /**
+   * Apply the choices in value, e.g. { reminders: { email: false } }, on top
+   * of current. null puts a choice back to its default. Returns an error
+   * message if value isn't made of known events, channels and booleans.
+   */
+  parsePreferences: (value: unknown, current: Prisma.JsonValue): NotificationPreferences | string => {
+    if (!isObject(value)) {
+      return 'preferences must be an object of events';
+    }
+
+    const result: NotificationPreferences = {};
+    for (const event of NOTIFICATION_EVENTS) {
+      for (const channel of PREFERENCE_CHANNELS) {
+        const choice = getChoice(current, event, channel);
+        if (choice !== undefined) {
+          result[event] = { ...result[event], [channel]: choice };
+        }
+      }
+    }
+
+    for (const [event, choices] of Object.entries(value)) {
+      if (!NOTIFICATION_EVENTS.includes(event as NotificationEvent)) {
+        return `Unknown event ${event}. Events are: ${NOTIFICATION_EVENTS.join(', ')}`;
+      }
+      if (!isObject(choices)) {
+        return `preferences.${event} must be an object of channels`;
+      }
+
+      for (const [channel, choice] of Object.entries(choices)) {
+        if (!PREFERENCE_CHANNELS.includes(channel as PreferenceChannel)) {
+          return `Unknown channel ${channel}. Channels are: ${PREFERENCE_CHANNELS.join(', ')}`;
+        }
+        if (choice !== null && typeof choice !== 'boolean') {
+          return `preferences.${event}.${channel} must be true, false or null`;
+        }
+
+        const eventChoices = { ...result[event as NotificationEvent] };
+        if (choice === null) {
+          delete eventChoices[channel as PreferenceChannel];
+        } else {
+          eventChoices[channel as PreferenceChannel] = choice;
+        }
+        result[event as NotificationEvent] = eventChoices;
+      }
+    }
+
+    // Leave out events with no choices left, so defaults stay implicit
+    for (const event of NOTIFICATION_EVENTS) {
+      if (result[event] && Object.keys(result[event]!).length === 0) {
+        delete result[event];
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * Every event and channel with whether it's on, defaults filled in
+   */
+  resolve: (preferences: Prisma.JsonValue): Record<NotificationEvent, Record<PreferenceChannel, boolean>> => {
+    return Object.fromEntries(
+      NOTIFICATION_EVENTS.map((event) => [
+        event,
+        Object.fromEntries(
+          PREFERENCE_CHANNELS.map((channel) => [channel, getChoice(preferences, event, channel) ?? true])
+        ),
+      ])
+    ) as Record<NotificationEvent, Record<PreferenceChannel, boolean>>;
+  },
+
+  /**
+   * Why a notification of this type shouldn't go out on channel, or null if
+   * it should. group is the user's membership of the group it is about, if
+   * any: muting the group silences push and email but keeps the in-app list,
+   * and its choices win over the user's own.
+   */
+  getSkipReason: (
+    preferences: Prisma.JsonValue,
+    group: GroupNotificationSettings | null,
+    type: NotificationType,
+    channel: PreferenceChannel
+  ): string | null => {
+    if (group?.notificationsMuted && channel !== 'inApp') {
+      return 'The group is muted';
+    }
+
+    const event = NotificationPreferenceService.getEvent(type);
+    if (!event) {
+      return null;
+    }
+
+    const groupChoice = group ? getChoice(group.notificationPreferences, event, channel) : undefined;
+    if (groupChoice !== undefined) {
+      return groupChoice ? null : `Turned off for ${event} in this group`;
+    }
+
+    return getChoice(preferences, event, channel) === false ? `Turned off for ${event}` : null;
+  },
+};
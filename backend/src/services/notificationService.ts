@@ -0,0 +1,514 @@
+import { PrismaClient, Prisma, NotificationLog, Payment, Cycle, Group, User } from '@prisma/client';
+import { ExpoPushTicket, ExpoPushReceipt } from 'expo-server-sdk';
+import { EmailService } from './emailService';
+import { EmailTemplateService } from './emailTemplateService';
+import { EmailContent } from '../emails/types';
+import { PaymentService } from './paymentService';
+import { CurrencyService } from './currencyService';
+import { PushTransport, createExpoPushTransport } from './pushTransport';
+import { GroupEvent, GroupEventService } from './groupEventService';
+import { MessagePage, ChatService } from './chatService';
+import { NotificationPreferenceService, NotificationType, PreferenceChannel } from './notificationPreferenceService';
+
+const prisma = new PrismaClient();
+
+const MINUTE_MS = 60 * 1000;
+
+// A failed send is tried again after 2, 4, 8 and 16 minutes before giving up
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 2 * MINUTE_MS;
+
+// Expo has receipts ready about 15 minutes after sending and keeps them for a day
+const RECEIPT_DELAY_MS = 15 * MINUTE_MS;
+const RECEIPT_TTL_MS = 24 * 60 * MINUTE_MS;
+
+const BATCH_SIZE = 100;
+
+export type NotificationChannel = 'push' | 'email';
+
+// pending: being sent. sent: accepted by Expo or the mail server. delivered:
+// Expo's receipt confirmed it. retrying: waiting for nextAttemptAt. skipped:
+// the user turned the channel off or has nowhere to receive it.
+export type NotificationStatus = 'pending' | 'sent' | 'delivered' | 'retrying' | 'failed' | 'skipped';
+
+export interface Notification {
+  // What the notification is about, e.g. 'payment_reminder'
+  type: NotificationType;
+  title: string;
+  body: string;
+  // Passed to the app with the push notification
+  data?: Record<string, unknown>;
+  // Also send this email, if the user takes email reminders
+  email?: EmailContent;
+  // Set to false to leave it out of the user's notification list
+  inApp?: boolean;
+}
+
+// The status each channel ended up in, or null if it wasn't used, and
+// whether the notification was added to the user's in-app list
+export interface NotificationResult {
+  push: NotificationStatus | null;
+  email: NotificationStatus | null;
+  inApp: boolean;
+}
+
+type ReminderPayment = Payment & { user: User; cycle: Cycle & { group: Group } };
+
+interface PushPayload {
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+}
+
+// A send failed in a way that may not happen next time
+class TransientError extends Error {}
+
+let pushTransport: PushTransport = createExpoPushTransport();
+
+const getRetryDelay = (attempts: number): number => {
+  return RETRY_BASE_MS * 2 ** (attempts - 1);
+};
+
+const getTicketError = (ticket: ExpoPushTicket | ExpoPushReceipt): string => {
+  return ticket.status === 'error' ? ticket.details?.error || ticket.message : '';
+};
+
+/**
+ * The device uninstalled the app or turned notifications off, so its token
+ * won't work again. Only clear it if the user hasn't registered a new one.
+ */
+const clearPushToken = async (log: NotificationLog) => {
+  if (log.userId && log.recipient) {
+    await prisma.user.updateMany({
+      where: { id: log.userId, pushToken: log.recipient },
+      data: { pushToken: null },
+    });
+  }
+};
+
+const recordFailure = async (log: NotificationLog, error: string, transient: boolean): Promise<NotificationStatus> => {
+  const retry = transient && log.attempts < MAX_ATTEMPTS;
+  const status: NotificationStatus = retry ? 'retrying' : 'failed';
+
+  await prisma.notificationLog.update({
+    where: { id: log.id },
+    data: {
+      status,
+      lastError: error,
+      nextAttemptAt: retry ? new Date(Date.now() + getRetryDelay(log.attempts)) : null,
+    },
+  });
+
+  return status;
+};
+
+const sendPush = async (log: NotificationLog): Promise<string> => {
+  const { title, body, data } = log.payload as unknown as PushPayload;
+  let ticket: ExpoPushTicket;
+  try {
+    [ticket] = await pushTransport.send([{ to: log.recipient!, sound: 'default', title, body, data }]);
+  } catch (error) {
+    throw new TransientError(error instanceof Error ? error.message : String(error));
+  }
+
+  if (ticket.status === 'error') {
+    const ticketError = getTicketError(ticket);
+    if (ticketError === 'DeviceNotRegistered') {
+      await clearPushToken(log);
+    }
+    throw ticketError === 'MessageRateExceeded' ? new TransientError(ticketError) : new Error(ticketError);
+  }
+
+  return ticket.id;
+};
+
+const sendEmail = async (log: NotificationLog) => {
+  const content = log.payload as unknown as EmailContent;
+  // The mail queue retries failed sends itself, so it's only a failure here once it gives up
+  const message = await EmailService.queue({ to: log.recipient!, ...content });
+  if (message.status === 'failed') {
+    throw new Error(message.lastError || 'Email could not be sent');
+  }
+};
+
+/**
+ * Make one attempt at a pending log entry and record how it went
+ */
+const deliver = async (pending: NotificationLog): Promise<NotificationStatus> => {
+  const log = await prisma.notificationLog.update({
+    where: { id: pending.id },
+    data: { attempts: { increment: 1 } },
+  });
+
+  try {
+    let ticketId: string | null = null;
+    if (log.channel === 'push') {
+      ticketId = await sendPush(log);
+    } else {
+      await sendEmail(log);
+    }
+
+    await prisma.notificationLog.update({
+      where: { id: log.id },
+      data: {
+        status: 'sent',
+        ticketId,
+        sentAt: new Date(),
+        receiptCheckedAt: null,
+        lastError: null,
+        nextAttemptAt: null,
+      },
+    });
+    return 'sent';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error sending ${log.channel} notification ${log.id}:`, message);
+    return await recordFailure(log, message, error instanceof TransientError);
+  }
+};
+
+/**
+ * Where tapping the notification takes the user: the cycle or group its data
+ * points at
+ */
+const getDeepLink = (data: Record<string, unknown> = {}): string | null => {
+  const groupId = Number(data.groupId);
+  const cycleId = Number(data.cycleId);
+  if (groupId && cycleId) {
+    return GroupEventService.getCycleLink(groupId, cycleId);
+  }
+  return groupId ? GroupEventService.getGroupLink(groupId) : null;
+};
+
+// The group a notification is about, if its data names one
+const getGroupId = (notification: Notification): number | null => {
+  return Number(notification.data?.groupId) || null;
+};
+
+const toInAppNotification = (userId: number, notification: Notification) => ({
+  userId,
+  type: notification.type,
+  title: notification.title,
+  body: notification.body,
+  data: (notification.data || {}) as Prisma.InputJsonObject,
+  deepLink: getDeepLink(notification.data),
+});
+
+const createLog = async (
+  userId: number,
+  channel: NotificationChannel,
+  type: string,
+  recipient: string | null,
+  payload: PushPayload | EmailContent,
+  skipReason: string | null
+) => {
+  return await prisma.notificationLog.create({
+    data: {
+      userId,
+      channel,
+      type,
+      recipient,
+      payload: payload as unknown as Prisma.InputJsonObject,
+      status: skipReason ? 'skipped' : 'pending',
+      lastError: skipReason,
+    },
+  });
+};
+
+export const NotificationService = {
+  /**
+   * The reminder a member gets about a payment they still owe, by push and
+   * email in their language
+   */
+  buildPaymentReminder: (payment: ReminderPayment, overdue = false): Notification => {
+    const { cycle, user } = payment;
+    const outstanding = PaymentService.getOutstanding(payment);
+
+    return {
+      type: overdue ? 'payment_overdue' : 'payment_reminder',
+      title: overdue ? 'Overdue Payment Reminder' : 'Tontine Payment Reminder',
+      body: `You owe ${CurrencyService.format(outstanding, cycle.group.currency)} for cycle #${cycle.cycleIndex} in ${cycle.group.name}.`,
+      data: { cycleId: cycle.id, groupId: cycle.groupId, paymentId: payment.id },
+      email: EmailTemplateService.render('payment_reminder', user.language, {
+        name: user.name,
+        groupName: cycle.group.name,
+        cycleIndex: cycle.cycleIndex,
+        amount: outstanding,
+        currency: cycle.group.currency,
+        dueDate: cycle.dueDate || cycle.endDate,
+        timeZone: cycle.group.timeZone,
+        overdue,
+      }),
+    };
+  },
+
+  /**
+   * The channels a notification went out on or will be retried on, the
+   * in-app list included
+   */
+  getChannelsUsed: (result: NotificationResult): PreferenceChannel[] => {
+    const channels: NotificationChannel[] = ['push', 'email'];
+    const used: PreferenceChannel[] = channels.filter(
+      (channel) => result[channel] === 'sent' || result[channel] === 'retrying'
+    );
+    return result.inApp ? [...used, 'inApp'] : used;
+  },
+
+  /**
+   * Replace how push notifications are sent, e.g. with createFakePushTransport
+   * in tests
+   */
+  setPushTransport: (transport: PushTransport) => {
+    pushTransport = transport;
+  },
+
+  /**
+   * Add a notification to the user's in-app list and send it by push and,
+   * when it has email content, by email, as far as the user's preferences for
+   * its event and group allow. Channels that are off are logged as skipped.
+   * Never throws: failures are logged and retried by retryDue.
+   */
+  notifyUser: async (userId: number, notification: Notification): Promise<NotificationResult> => {
+    const result: NotificationResult = { push: null, email: null, inApp: false };
+
+    try {
+      const groupId = getGroupId(notification);
+      const [user, membership] = await Promise.all([
+        prisma.user.findUnique({
+          where: { id: userId },
+          select: {
+            email: true,
+            pushToken: true,
+            pushRemindersEnabled: true,
+            emailRemindersEnabled: true,
+            notificationPreferences: true,
+          },
+        }),
+        groupId ? prisma.membership.findUnique({ where: { userId_groupId: { userId, groupId } } }) : null,
+      ]);
+      if (!user) {
+        return result;
+      }
+
+      const getSkipReason = (channel: PreferenceChannel) => {
+        return NotificationPreferenceService.getSkipReason(user.notificationPreferences, membership, notification.type, channel);
+      };
+
+      if (notification.inApp !== false && !getSkipReason('inApp')) {
+        await prisma.notification.create({ data: toInAppNotification(userId, notification) });
+        result.inApp = true;
+      }
+
+      const deepLink = getDeepLink(notification.data);
+      const pushPayload: PushPayload = {
+        title: notification.title,
+        body: notification.body,
+        data: { type: notification.type, ...notification.data, ...(deepLink ? { deepLink } : {}) },
+      };
+      const pushSkipReason = !user.pushRemindersEnabled
+        ? 'Push notifications are turned off'
+        : getSkipReason('push') ||
+          (!user.pushToken || !pushTransport.isValidToken(user.pushToken) ? 'No valid push token' : null);
+
+      const pushLog = await createLog(userId, 'push', notification.type, user.pushToken, pushPayload, pushSkipReason);
+      result.push = pushSkipReason ? 'skipped' : await deliver(pushLog);
+
+      if (notification.email) {
+        const emailSkipReason = user.emailRemindersEnabled ? getSkipReason('email') : 'Email notifications are turned off';
+        const emailLog = await createLog(userId, 'email', notification.type, user.email, notification.email, emailSkipReason);
+        result.email = emailSkipReason ? 'skipped' : await deliver(emailLog);
+      }
+    } catch (error) {
+      console.error(`Error notifying user ${userId}:`, error);
+    }
+
+    return result;
+  },
+
+  /**
+   * Add a notification to each user's in-app list without pushing or emailing
+   * it, for news that isn't worth interrupting anyone for. Users who turned
+   * the event off in-app are left out.
+   */
+  notifyInApp: async (userIds: number[], notification: Notification): Promise<number> => {
+    if (userIds.length === 0) {
+      return 0;
+    }
+
+    const groupId = getGroupId(notification);
+    const [users, memberships] = await Promise.all([
+      prisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true, notificationPreferences: true } }),
+      groupId ? prisma.membership.findMany({ where: { groupId, userId: { in: userIds } } }) : [],
+    ]);
+
+    const recipients = users.filter((user) => !NotificationPreferenceService.getSkipReason(
+      user.notificationPreferences,
+      memberships.find((membership) => membership.userId === user.id) || null,
+      notification.type,
+      'inApp'
+    ));
+    if (recipients.length === 0) {
+      return 0;
+    }
+
+    const created = await prisma.notification.createMany({
+      data: recipients.map((user) => toInAppNotification(user.id, notification)),
+    });
+    return created.count;
+  },
+
+  /**
+   * Tell a group's members, apart from whoever did it, that one of its cycles
+   * changed status. Other group events only go to the group chat.
+   */
+  notifyGroupEvent: async (event: GroupEvent): Promise<number> => {
+    if (event.type !== 'cycle_status_changed') {
+      return 0;
+    }
+
+    const [description, group] = await Promise.all([
+      GroupEventService.describe(event),
+      prisma.group.findUnique({ where: { id: event.groupId }, include: { memberships: true } }),
+    ]);
+    if (!description || !group) {
+      return 0;
+    }
+
+    return await NotificationService.notifyInApp(
+      group.memberships.map((membership) => membership.userId).filter((userId) => userId !== event.actorId),
+      {
+        type: event.type,
+        title: group.name,
+        body: description.body,
+        data: { groupId: event.groupId, cycleId: event.cycleId, status: event.to },
+      }
+    );
+  },
+
+  /**
+   * A page of the user's in-app notifications, newest first, with how many
+   * they haven't read
+   */
+  listForUser: async (userId: number, page: MessagePage) => {
+    const [{ messages, nextCursor }, unreadCount] = await Promise.all([
+      ChatService.paginate(page, (query) => prisma.notification.findMany({
+        ...query,
+        where: { userId, ...query.where },
+      })),
+      prisma.notification.count({ where: { userId, readAt: null } }),
+    ]);
+
+    return { notifications: messages, unreadCount, nextCursor };
+  },
+
+  /**
+   * Mark one of the user's notifications read. Returns null if it isn't theirs.
+   */
+  markRead: async (userId: number, notificationId: number) => {
+    const notification = await prisma.notification.findFirst({ where: { id: notificationId, userId } });
+    if (!notification || notification.readAt) {
+      return notification;
+    }
+
+    return await prisma.notification.update({
+      where: { id: notificationId },
+      data: { readAt: new Date() },
+    });
+  },
+
+  /**
+   * Mark every unread notification of the user read. Returns how many there were.
+   */
+  markAllRead: async (userId: number): Promise<number> => {
+    const updated = await prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return updated.count;
+  },
+
+  /**
+   * Try again the notifications whose retry time has come. Returns how many
+   * were attempted.
+   */
+  retryDue: async (now: Date = new Date()): Promise<number> => {
+    const due = await prisma.notificationLog.findMany({
+      where: { status: 'retrying', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    let attempted = 0;
+    for (const log of due) {
+      // Another run may have picked it up already
+      const claimed = await prisma.notificationLog.updateMany({
+        where: { id: log.id, status: 'retrying', attempts: log.attempts },
+        data: { status: 'pending' },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      await deliver(log);
+      attempted++;
+    }
+
+    return attempted;
+  },
+
+  /**
+   * Look up Expo's receipts for sent push notifications. Marks them delivered
+   * or failed, clears tokens of devices that are no longer registered and
+   * schedules a retry when Expo was rate limiting. Returns how many receipts
+   * were found.
+   */
+  checkReceipts: async (now: Date = new Date()): Promise<number> => {
+    const sent = await prisma.notificationLog.findMany({
+      where: {
+        channel: 'push',
+        status: 'sent',
+        ticketId: { not: null },
+        receiptCheckedAt: null,
+        sentAt: { lte: new Date(now.getTime() - RECEIPT_DELAY_MS) },
+      },
+      orderBy: { sentAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+    if (sent.length === 0) {
+      return 0;
+    }
+
+    const receipts = await pushTransport.getReceipts(sent.map((log) => log.ticketId!));
+
+    let found = 0;
+    for (const log of sent) {
+      const receipt = receipts[log.ticketId!];
+
+      if (!receipt) {
+        // Expo no longer has it, so we won't learn more than that it was sent
+        if (log.sentAt! < new Date(now.getTime() - RECEIPT_TTL_MS)) {
+          await prisma.notificationLog.update({ where: { id: log.id }, data: { receiptCheckedAt: now } });
+        }
+        continue;
+      }
+
+      found++;
+      if (receipt.status === 'ok') {
+        await prisma.notificationLog.update({
+          where: { id: log.id },
+          data: { status: 'delivered', receiptCheckedAt: now },
+        });
+        continue;
+      }
+
+      const receiptError = getTicketError(receipt);
+      if (receiptError === 'DeviceNotRegistered') {
+        await clearPushToken(log);
+      }
+      await prisma.notificationLog.update({ where: { id: log.id }, data: { receiptCheckedAt: now } });
+      await recordFailure(log, receiptError, receiptError === 'MessageRateExceeded');
+    }
+
+    return found;
+  },
+};
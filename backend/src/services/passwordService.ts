@@ -0,0 +1,57 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+
+const SALT_ROUNDS = parseInt(process.env.BCRYPT_SALT_ROUNDS || '12', 10);
+
+// Matches the modular crypt format produced by bcrypt ($2a$, $2b$ or $2y$)
+const BCRYPT_HASH_PATTERN = /^\$2[aby]\$(\d{2})\$[./A-Za-z0-9]{53}$/;
+
+// Hash compared against when no user matches, so unknown emails take as long as wrong passwords
+const DUMMY_HASH = bcrypt.hashSync('tontine-dummy-password', SALT_ROUNDS);
+
+export interface PasswordCheckResult {
+  valid: boolean;
+  // True when the stored value should be replaced with a fresh hash
+  needsRehash: boolean;
+}
+
+export const PasswordService = {
+  /**
+   * Hash a plain-text password for storage
+   */
+  hashPassword: async (password: string): Promise<string> => {
+    return await bcrypt.hash(password, SALT_ROUNDS);
+  },
+
+  /**
+   * Whether a stored credential is a bcrypt hash (as opposed to a legacy plain-text row)
+   */
+  isHashed: (stored: string): boolean => {
+    return BCRYPT_HASH_PATTERN.test(stored);
+  },
+
+  /**
+   * Verify a password against the stored credential.
+   * Legacy plain-text rows are compared in constant time and flagged for rehashing.
+   */
+  verifyPassword: async (password: string, stored: string | null | undefined): Promise<PasswordCheckResult> => {
+    if (!stored) {
+      await bcrypt.compare(password, DUMMY_HASH);
+      return { valid: false, needsRehash: false };
+    }
+
+    const match = BCRYPT_HASH_PATTERN.exec(stored);
+    if (match) {
+      const valid = await bcrypt.compare(password, stored);
+      const rounds = parseInt(match[1], 10);
+      return { valid, needsRehash: valid && rounds < SALT_ROUNDS };
+    }
+
+    // Legacy plain-text credential: compare digests so the comparison time
+    // does not depend on where the strings first differ
+    const inputDigest = crypto.createHash('sha256').update(password).digest();
+    const storedDigest = crypto.createHash('sha256').update(stored).digest();
+    const valid = crypto.timingSafeEqual(inputDigest, storedDigest);
+    return { valid, needsRehash: valid };
+  },
+};
@@ -0,0 +1,355 @@
+import { PrismaClient, Prisma, Payment } from '@prisma/client';
+import { CurrencyService } from './currencyService';
+
+const prisma = new PrismaClient();
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid' | 'overpaid';
+
+// Payments that still have money owing on them
+export const OUTSTANDING_PAYMENT_STATUSES: PaymentStatus[] = ['unpaid', 'partial'];
+
+// Admins can remind a member about the same payment once a day at most
+const REMINDER_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+export type PaymentMethod = 'cash' | 'bank_transfer' | 'mobile_money' | 'other';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'bank_transfer', 'mobile_money', 'other'];
+
+// Pending until an admin or the cycle's recipient reviews it
+export type DeclarationStatus = 'pending' | 'confirmed' | 'disputed';
+
+interface TransactionInput {
+  amount: Prisma.Decimal.Value;
+  method: PaymentMethod;
+  reference?: string | null;
+  recordedById: number | null;
+}
+
+interface DeclarationInput {
+  amount: Prisma.Decimal.Value;
+  method: PaymentMethod;
+  reference?: string | null;
+  note?: string | null;
+  receiptKey?: string | null;
+  receiptContentType?: string | null;
+}
+
+export interface PaymentBody {
+  amount: Prisma.Decimal;
+  method: PaymentMethod;
+}
+
+// Hold the payment's row until the transaction ends, so concurrent changes to
+// its ledger take turns. Returns the payment as it is now.
+const lockPayment = async (tx: Prisma.TransactionClient, paymentId: number): Promise<Payment> => {
+  await tx.$queryRaw`SELECT id FROM "Payment" WHERE id = ${paymentId} FOR UPDATE`;
+  return await tx.payment.findUniqueOrThrow({ where: { id: paymentId } });
+};
+
+// Re-add the payment's live transactions and penalties and store the totals
+// and status they give. Locks the payment first: without it two transactions
+// would each miss the other's rows and the last to write would win.
+const recalculate = async (tx: Prisma.TransactionClient, { id }: Payment) => {
+  const payment = await lockPayment(tx, id);
+
+  const live = await tx.paymentTransaction.findMany({
+    where: { paymentId: payment.id, voidedAt: null },
+    orderBy: { createdAt: 'asc' },
+  });
+  const penalties = await tx.paymentPenalty.aggregate({
+    where: { paymentId: payment.id, waivedAt: null },
+    _sum: { amount: true },
+  });
+
+  const amountPaid = CurrencyService.sum(live.map((t) => t.amount));
+  const penaltyTotal = penalties._sum.amount || new Prisma.Decimal(0);
+  const amountDue = payment.amount.plus(penaltyTotal);
+  const status = PaymentService.deriveStatus(amountDue, amountPaid);
+
+  // paidAt is when the running total first covered the amount due
+  let paidAt: Date | null = null;
+  if (status === 'paid' || status === 'overpaid') {
+    let running = new Prisma.Decimal(0);
+    for (const t of live) {
+      running = running.plus(t.amount);
+      if (running.gte(amountDue)) {
+        paidAt = t.createdAt;
+        break;
+      }
+    }
+  }
+
+  // Owing again, e.g. after a void, so its reminders have to be planned again
+  const outstanding = (value: string) => OUTSTANDING_PAYMENT_STATUSES.includes(value as PaymentStatus);
+  if (outstanding(status) && !outstanding(payment.status)) {
+    await tx.cycle.update({ where: { id: payment.cycleId }, data: { remindersPlannedAt: null } });
+  }
+
+  return await tx.payment.update({
+    where: { id: payment.id },
+    data: { amountPaid, penaltyTotal, status, paidAt },
+  });
+};
+
+const createTransaction = async (tx: Prisma.TransactionClient, payment: Payment, input: TransactionInput) => {
+  return await tx.paymentTransaction.create({
+    data: {
+      paymentId: payment.id,
+      amount: input.amount,
+      method: input.method,
+      reference: input.reference?.trim() || null,
+      recordedById: input.recordedById,
+    },
+  });
+};
+
+export const PaymentService = {
+  /**
+   * What the member still owes, late fees included
+   */
+  getOutstanding: (payment: Payment): Prisma.Decimal => {
+    return payment.amount.plus(payment.penaltyTotal).minus(payment.amountPaid);
+  },
+
+  /**
+   * When an admin may next remind the member about the payment, or null if
+   * they can right away
+   */
+  getNextReminderAt: (payment: Payment, now: Date = new Date()): Date | null => {
+    if (!payment.lastReminderAt) {
+      return null;
+    }
+    const nextReminderAt = new Date(payment.lastReminderAt.getTime() + REMINDER_COOLDOWN_MS);
+    return nextReminderAt > now ? nextReminderAt : null;
+  },
+
+  /**
+   * Start the payment's reminder cooldown. Returns false if another reminder
+   * was sent in the meantime.
+   */
+  claimReminder: async (payment: Payment, now: Date = new Date()): Promise<boolean> => {
+    const claimed = await prisma.payment.updateMany({
+      where: {
+        id: payment.id,
+        OR: [
+          { lastReminderAt: null },
+          { lastReminderAt: { lte: new Date(now.getTime() - REMINDER_COOLDOWN_MS) } },
+        ],
+      },
+      data: { lastReminderAt: now },
+    });
+    return claimed.count > 0;
+  },
+
+  /**
+   * Undo claimReminder when the reminder couldn't be sent, so the admin can
+   * try again once the member can be reached
+   */
+  releaseReminder: async (payment: Payment, claimedAt: Date) => {
+    await prisma.payment.updateMany({
+      where: { id: payment.id, lastReminderAt: claimedAt },
+      data: { lastReminderAt: payment.lastReminderAt },
+    });
+  },
+
+  deriveStatus: (amountDue: Prisma.Decimal.Value, amountPaid: Prisma.Decimal.Value): PaymentStatus => {
+    const paid = new Prisma.Decimal(amountPaid);
+
+    if (paid.lte(0)) {
+      return 'unpaid';
+    }
+    if (paid.lt(amountDue)) {
+      return 'partial';
+    }
+    return paid.eq(amountDue) ? 'paid' : 'overpaid';
+  },
+
+  /**
+   * Read a transaction or declaration body in the group's currency. Returns an
+   * error message if it isn't valid or is in another currency.
+   */
+  parseBody: (body: any, currency: string): PaymentBody | string => {
+    const mismatch = CurrencyService.getMismatchReason(currency, body.currency);
+    if (mismatch) {
+      return mismatch;
+    }
+
+    const amount = CurrencyService.parseAmount(body.amount, currency);
+    if (typeof amount === 'string') {
+      return amount;
+    }
+    if (amount.lte(0)) {
+      return 'amount must be greater than zero';
+    }
+
+    if (!PAYMENT_METHODS.includes(body.method)) {
+      return `method must be one of: ${PAYMENT_METHODS.join(', ')}`;
+    }
+
+    if (body.reference !== undefined && body.reference !== null && typeof body.reference !== 'string') {
+      return 'reference must be text';
+    }
+
+    return { amount, method: body.method };
+  },
+
+  /**
+   * Record money received against a payment. Returns the payment with its new total.
+   */
+  addTransaction: async (payment: Payment, input: TransactionInput) => {
+    return await prisma.$transaction(async (tx) => {
+      const locked = await lockPayment(tx, payment.id);
+      await createTransaction(tx, locked, input);
+
+      return await recalculate(tx, locked);
+    });
+  },
+
+  /**
+   * Record whatever is still owed on a payment as one transaction. Returns null
+   * if nothing is owed, e.g. because someone else just recorded it.
+   */
+  payOutstanding: async (payment: Payment, input: Omit<TransactionInput, 'amount'>) => {
+    return await prisma.$transaction(async (tx) => {
+      const locked = await lockPayment(tx, payment.id);
+      const outstanding = PaymentService.getOutstanding(locked);
+      if (outstanding.lte(0)) {
+        return null;
+      }
+
+      await createTransaction(tx, locked, { ...input, amount: outstanding });
+      return await recalculate(tx, locked);
+    });
+  },
+
+  /**
+   * Void a transaction recorded in error. It stays in the ledger but no longer
+   * counts. Returns null if it was already voided.
+   */
+  voidTransaction: async (transactionId: number, voidedById: number, reason: string) => {
+    return await prisma.$transaction(async (tx) => {
+      const transaction = await tx.paymentTransaction.findUnique({ where: { id: transactionId } });
+      if (!transaction) {
+        return null;
+      }
+      const payment = await lockPayment(tx, transaction.paymentId);
+
+      const updated = await tx.paymentTransaction.updateMany({
+        where: { id: transactionId, voidedAt: null },
+        data: { voidedAt: new Date(), voidedById, voidReason: reason.trim() },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      return await recalculate(tx, payment);
+    });
+  },
+
+  /**
+   * Same recalculation the ledger does, inside a transaction the caller already
+   * opened. Use after changing a payment's penalties.
+   */
+  recalculateWithin: recalculate,
+
+  /**
+   * Every transaction on a payment, voided ones included, oldest first
+   */
+  listTransactions: async (paymentId: number) => {
+    return await prisma.paymentTransaction.findMany({
+      where: { paymentId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        recordedBy: { select: { id: true, name: true } },
+        voidedBy: { select: { id: true, name: true } },
+      },
+    });
+  },
+
+  /**
+   * A member's own account of a payment. Nothing is added to the ledger until
+   * it is confirmed.
+   */
+  declarePayment: async (payment: Payment, declaredById: number, input: DeclarationInput) => {
+    return await prisma.paymentDeclaration.create({
+      data: {
+        paymentId: payment.id,
+        declaredById,
+        amount: input.amount,
+        method: input.method,
+        reference: input.reference?.trim() || null,
+        note: input.note?.trim() || null,
+        receiptKey: input.receiptKey || null,
+        receiptContentType: input.receiptContentType || null,
+      },
+    });
+  },
+
+  /**
+   * Accept a pending declaration: record its transaction and link the two.
+   * Returns the updated payment, or null if the declaration was already reviewed.
+   */
+  confirmDeclaration: async (declarationId: number, reviewedById: number, note?: string | null) => {
+    return await prisma.$transaction(async (tx) => {
+      const reviewed = await tx.paymentDeclaration.updateMany({
+        where: { id: declarationId, status: 'pending' },
+        data: { status: 'confirmed', reviewedById, reviewedAt: new Date(), reviewNote: note?.trim() || null },
+      });
+
+      if (reviewed.count === 0) {
+        return null;
+      }
+
+      const declaration = await tx.paymentDeclaration.findUnique({
+        where: { id: declarationId },
+        include: { payment: true },
+      });
+
+      const transaction = await createTransaction(tx, declaration!.payment, {
+        amount: declaration!.amount,
+        method: declaration!.method as PaymentMethod,
+        reference: declaration!.reference,
+        recordedById: reviewedById,
+      });
+
+      await tx.paymentDeclaration.update({
+        where: { id: declarationId },
+        data: { transactionId: transaction.id },
+      });
+
+      return await recalculate(tx, declaration!.payment);
+    });
+  },
+
+  /**
+   * Reject a pending declaration with the reviewer's reason. Returns null if it
+   * was already reviewed.
+   */
+  disputeDeclaration: async (declarationId: number, reviewedById: number, note: string) => {
+    const reviewed = await prisma.paymentDeclaration.updateMany({
+      where: { id: declarationId, status: 'pending' },
+      data: { status: 'disputed', reviewedById, reviewedAt: new Date(), reviewNote: note.trim() },
+    });
+
+    if (reviewed.count === 0) {
+      return null;
+    }
+
+    return await prisma.paymentDeclaration.findUnique({ where: { id: declarationId } });
+  },
+
+  /**
+   * Declarations on a payment, newest first
+   */
+  listDeclarations: async (paymentId: number) => {
+    return await prisma.paymentDeclaration.findMany({
+      where: { paymentId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        declaredBy: { select: { id: true, name: true } },
+        reviewedBy: { select: { id: true, name: true } },
+      },
+    });
+  },
+};
@@ -0,0 +1,119 @@
+import { PrismaClient, Prisma, Cycle, Group } from '@prisma/client';
+import { CycleService } from './cycleService';
+import { CurrencyService } from './currencyService';
+
+const prisma = new PrismaClient();
+
+export type PayoutMethod = 'cash' | 'bank_transfer' | 'mobile_money' | 'other';
+
+export const PAYOUT_METHODS: PayoutMethod[] = ['cash', 'bank_transfer', 'mobile_money', 'other'];
+
+export interface PayoutSplit {
+  userId: number;
+  amount: Prisma.Decimal;
+}
+
+export interface ExpectedPayout {
+  collected: Prisma.Decimal;
+  fee: Prisma.Decimal;
+  amount: Prisma.Decimal;
+  // How the amount is divided when part-share members share the slot
+  split: PayoutSplit[];
+}
+
+interface RecordPayoutOptions {
+  amount: Prisma.Decimal;
+  method: PayoutMethod;
+  reference?: string | null;
+  disbursedById: number;
+  reason?: string | null;
+}
+
+export const PayoutService = {
+  /**
+   * What the recipient should receive: everything collected for the cycle
+   * minus the group's payout fee (a percentage plus a fixed amount). A shared
+   * payout is split in proportion to what each member pays toward the slot.
+   */
+  getExpectedPayout: async (cycle: Cycle, group: Group): Promise<ExpectedPayout> => {
+    const paid = await prisma.payment.aggregate({
+      where: { cycleId: cycle.id },
+      _sum: { amountPaid: true },
+    });
+
+    const collected = paid._sum.amountPaid || new Prisma.Decimal(0);
+    const fee = collected.gt(0)
+      ? Prisma.Decimal.min(
+          collected,
+          CurrencyService.round(collected.times(group.payoutFeePercent).dividedBy(100).plus(group.payoutFeeFixed), group.currency)
+        )
+      : new Prisma.Decimal(0);
+
+    const amount = collected.minus(fee);
+    const shares = await prisma.payoutShare.findMany({
+      where: { cycleId: cycle.id },
+      orderBy: { id: 'asc' },
+    });
+
+    // The last member gets whatever rounding leaves over
+    const total = shares.reduce((sum, share) => sum.plus(share.amount), new Prisma.Decimal(0));
+    let remaining = amount;
+    const split = shares.map((share, i) => {
+      const slice = i === shares.length - 1
+        ? remaining
+        : CurrencyService.round(amount.times(share.amount).dividedBy(total), group.currency);
+      remaining = remaining.minus(slice);
+      return { userId: share.userId, amount: slice };
+    });
+
+    return { collected, fee, amount, split };
+  },
+
+  /**
+   * Record the payout to the cycle's recipient and move the cycle to paid_out,
+   * in one transaction. Returns null if the cycle changed status meanwhile.
+   */
+  recordPayout: async (cycle: Cycle, expected: ExpectedPayout, options: RecordPayoutOptions) => {
+    return await prisma.$transaction(async (tx) => {
+      const moved = await CycleService.transitionWithin(
+        tx,
+        cycle,
+        'paid_out',
+        options.disbursedById,
+        options.reason || 'Payout recorded'
+      );
+
+      if (!moved) {
+        return null;
+      }
+
+      return await tx.payout.create({
+        data: {
+          cycleId: cycle.id,
+          recipientId: cycle.recipientUserId!,
+          amount: options.amount,
+          fee: expected.fee,
+          method: options.method,
+          reference: options.reference?.trim() || null,
+          disbursedById: options.disbursedById,
+        },
+      });
+    });
+  },
+
+  /**
+   * Recipient acknowledges the money arrived. Returns null if it was already confirmed.
+   */
+  confirmPayout: async (payoutId: number) => {
+    const updated = await prisma.payout.updateMany({
+      where: { id: payoutId, confirmedAt: null },
+      data: { confirmedAt: new Date() },
+    });
+
+    if (updated.count === 0) {
+      return null;
+    }
+
+    return await prisma.payout.findUnique({ where: { id: payoutId } });
+  },
+};
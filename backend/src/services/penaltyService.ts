@@ -0,0 +1,243 @@
+import { PrismaClient, Prisma, Group } from '@prisma/client';
+import { PaymentService, OUTSTANDING_PAYMENT_STATUSES } from './paymentService';
+import { CurrencyService } from './currencyService';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// flat charges penaltyRate per late day, percent charges penaltyRate% of the
+// contribution per late day
+export type PenaltyType = 'none' | 'flat' | 'percent';
+
+export const PENALTY_TYPES: PenaltyType[] = ['none', 'flat', 'percent'];
+
+export interface PenaltyRules {
+  penaltyType: PenaltyType;
+  penaltyRate: Prisma.Decimal;
+  penaltyGraceDays: number;
+  // Most a single payment can be charged in total, or null for no limit
+  penaltyCap: Prisma.Decimal | null;
+}
+
+// Cycles whose payments can still be charged late fees
+const PENALTY_CYCLE_STATUSES = ['collecting', 'ready_for_payout', 'paid_out'];
+
+const isBlank = (value: unknown): boolean => {
+  return value === undefined || value === null || value === '';
+};
+
+export const PenaltyService = {
+  /**
+   * Read penalty rules from a create/update body, keeping whatever the body
+   * leaves out from current. Amounts are in the group's currency. Returns an
+   * error message if they don't make sense.
+   */
+  parseRules: (body: any, currency: string, current?: PenaltyRules): PenaltyRules | string => {
+    const rules: PenaltyRules = current
+      ? { ...current }
+      : { penaltyType: 'none', penaltyRate: new Prisma.Decimal(0), penaltyGraceDays: 0, penaltyCap: null };
+
+    if (!isBlank(body.penaltyType)) {
+      if (!PENALTY_TYPES.includes(body.penaltyType)) {
+        return `penaltyType must be one of: ${PENALTY_TYPES.join(', ')}`;
+      }
+      rules.penaltyType = body.penaltyType;
+    }
+
+    if (!isBlank(body.penaltyRate)) {
+      const rate = CurrencyService.parseDecimal(body.penaltyRate, 2, 'penaltyRate');
+      if (typeof rate === 'string') {
+        return rate;
+      }
+      if (rate.lt(0)) {
+        return 'penaltyRate must be zero or more';
+      }
+      rules.penaltyRate = rate;
+    }
+
+    if (!isBlank(body.penaltyGraceDays)) {
+      rules.penaltyGraceDays = Number(body.penaltyGraceDays);
+      if (!Number.isInteger(rules.penaltyGraceDays) || rules.penaltyGraceDays < 0) {
+        return 'penaltyGraceDays must be a whole number of days';
+      }
+    }
+
+    if (body.penaltyCap !== undefined) {
+      if (isBlank(body.penaltyCap)) {
+        rules.penaltyCap = null;
+      } else {
+        const cap = CurrencyService.parseAmount(body.penaltyCap, currency, 'penaltyCap');
+        if (typeof cap === 'string') {
+          return cap;
+        }
+        if (cap.lte(0)) {
+          return 'penaltyCap must be greater than zero';
+        }
+        rules.penaltyCap = cap;
+      }
+    }
+
+    if (rules.penaltyType === 'none') {
+      return { ...rules, penaltyRate: new Prisma.Decimal(0) };
+    }
+
+    if (rules.penaltyRate.lte(0)) {
+      return 'penaltyRate must be greater than zero when penalties are on';
+    }
+    if (rules.penaltyType === 'percent' && rules.penaltyRate.gt(100)) {
+      return 'penaltyRate must be 100 or less for a percentage penalty';
+    }
+    // A flat fee is money, so it can't be finer than the currency allows
+    if (rules.penaltyType === 'flat') {
+      const rate = CurrencyService.parseAmount(rules.penaltyRate.toString(), currency, 'penaltyRate');
+      if (typeof rate === 'string') {
+        return rate;
+      }
+    }
+
+    return rules;
+  },
+
+  fromGroup: (group: Group): PenaltyRules => {
+    return {
+      penaltyType: group.penaltyType as PenaltyType,
+      penaltyRate: group.penaltyRate,
+      penaltyGraceDays: group.penaltyGraceDays,
+      penaltyCap: group.penaltyCap,
+    };
+  },
+
+  /**
+   * Whole days a payment is late once the grace period is over. The deadline
+   * is the end of the due day.
+   */
+  getDaysLate: (rules: PenaltyRules, dueDate: Date, now: Date): number => {
+    const lateFrom = dueDate.getTime() + (1 + rules.penaltyGraceDays) * DAY_MS;
+    if (now.getTime() < lateFrom) {
+      return 0;
+    }
+    return Math.floor((now.getTime() - lateFrom) / DAY_MS) + 1;
+  },
+
+  /**
+   * Total late fees a payment should have been charged after daysLate days,
+   * rounded to the currency's smallest unit
+   */
+  getAccruedPenalty: (
+    rules: PenaltyRules,
+    contribution: Prisma.Decimal.Value,
+    currency: string,
+    daysLate: number
+  ): Prisma.Decimal => {
+    if (rules.penaltyType === 'none' || daysLate <= 0) {
+      return new Prisma.Decimal(0);
+    }
+
+    const daily = rules.penaltyType === 'percent'
+      ? new Prisma.Decimal(contribution).times(rules.penaltyRate).dividedBy(100)
+      : rules.penaltyRate;
+    const accrued = daily.times(daysLate);
+
+    return CurrencyService.round(
+      rules.penaltyCap !== null ? Prisma.Decimal.min(accrued, rules.penaltyCap) : accrued,
+      currency
+    );
+  },
+
+  /**
+   * Charge every late, outstanding payment what it has accrued since the last
+   * run. Waived fees still count as charged so they aren't charged again.
+   * Returns how many penalties were added.
+   */
+  assessDuePenalties: async (now: Date = new Date()): Promise<number> => {
+    const assessedOn = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    let assessed = 0;
+
+    const payments = await prisma.payment.findMany({
+      where: {
+        status: { in: OUTSTANDING_PAYMENT_STATUSES },
+        cycle: {
+          status: { in: PENALTY_CYCLE_STATUSES },
+          group: { penaltyType: { not: 'none' } },
+        },
+      },
+      include: {
+        cycle: { include: { group: true } },
+        penalties: true,
+      },
+    });
+
+    for (const { cycle, penalties, ...payment } of payments) {
+      const dueDate = cycle.dueDate || cycle.endDate;
+      if (!dueDate) {
+        continue;
+      }
+
+      const rules = PenaltyService.fromGroup(cycle.group);
+      const daysLate = PenaltyService.getDaysLate(rules, dueDate, now);
+      const accrued = PenaltyService.getAccruedPenalty(rules, payment.amount, cycle.group.currency, daysLate);
+      const charged = CurrencyService.sum(penalties.map((penalty) => penalty.amount));
+      const amount = accrued.minus(charged);
+
+      if (amount.lte(0)) {
+        continue;
+      }
+
+      try {
+        await prisma.$transaction(async (tx) => {
+          await tx.paymentPenalty.create({
+            data: { paymentId: payment.id, amount, daysLate, assessedOn },
+          });
+          await PaymentService.recalculateWithin(tx, payment);
+        });
+        assessed++;
+      } catch (error) {
+        // Already assessed today, e.g. the job ran twice
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return assessed;
+  },
+
+  /**
+   * Cancel a late fee. It stays on record but no longer counts towards what the
+   * member owes. Returns null if it was already waived.
+   */
+  waivePenalty: async (penaltyId: number, waivedById: number, reason: string) => {
+    return await prisma.$transaction(async (tx) => {
+      const updated = await tx.paymentPenalty.updateMany({
+        where: { id: penaltyId, waivedAt: null },
+        data: { waivedAt: new Date(), waivedById, waiveReason: reason.trim() },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      const penalty = await tx.paymentPenalty.findUnique({
+        where: { id: penaltyId },
+        include: { payment: true },
+      });
+
+      return await PaymentService.recalculateWithin(tx, penalty!.payment);
+    });
+  },
+
+  /**
+   * Every penalty on a payment, waived ones included, oldest first
+   */
+  listPenalties: async (paymentId: number) => {
+    return await prisma.paymentPenalty.findMany({
+      where: { paymentId },
+      orderBy: { assessedOn: 'asc' },
+      include: {
+        waivedBy: { select: { id: true, name: true } },
+      },
+    });
+  },
+};
@@ -0,0 +1,84 @@
+import { Expo, ExpoPushMessage, ExpoPushTicket, ExpoPushReceipt } from 'expo-server-sdk';
+
+/**
+ * How push notifications leave the server. The real one talks to Expo; tests
+ * swap in the fake below so nothing is sent.
+ */
+export interface PushTransport {
+  isValidToken: (token: string) => boolean;
+  // One ticket per message, in the same order
+  send: (messages: ExpoPushMessage[]) => Promise<ExpoPushTicket[]>;
+  // Receipts by ticket id. Expo leaves out receipts that aren't ready yet.
+  getReceipts: (ticketIds: string[]) => Promise<Record<string, ExpoPushReceipt>>;
+}
+
+export const createExpoPushTransport = (accessToken = process.env.EXPO_ACCESS_TOKEN): PushTransport => {
+  const expo = new Expo({ accessToken });
+
+  return {
+    isValidToken: (token) => Expo.isExpoPushToken(token),
+
+    send: async (messages) => {
+      const tickets: ExpoPushTicket[] = [];
+      for (const chunk of expo.chunkPushNotifications(messages)) {
+        tickets.push(...(await expo.sendPushNotificationsAsync(chunk)));
+      }
+      return tickets;
+    },
+
+    getReceipts: async (ticketIds) => {
+      let receipts: Record<string, ExpoPushReceipt> = {};
+      for (const chunk of expo.chunkPushNotificationReceiptIds(ticketIds)) {
+        receipts = { ...receipts, ...(await expo.getPushNotificationReceiptsAsync(chunk)) };
+      }
+      return receipts;
+    },
+  };
+};
+
+export interface FakePushTransport extends PushTransport {
+  // Every message handed to send
+  sent: ExpoPushMessage[];
+  // Tickets to answer the next messages with; ok tickets are made up when empty
+  tickets: ExpoPushTicket[];
+  // Receipts getReceipts will find, by ticket id
+  receipts: Record<string, ExpoPushReceipt>;
+  // Make the next send throw, like a network failure would
+  failNextSend: Error | null;
+}
+
+/**
+ * A transport that records what it is asked to send. Script its answers
+ * through tickets, receipts and failNextSend.
+ */
+export const createFakePushTransport = (): FakePushTransport => {
+  let nextTicketId = 1;
+
+  const fake: FakePushTransport = {
+    sent: [],
+    tickets: [],
+    receipts: {},
+    failNextSend: null,
+
+    isValidToken: (token) => Expo.isExpoPushToken(token),
+
+    send: async (messages) => {
+      if (fake.failNextSend) {
+        const error = fake.failNextSend;
+        fake.failNextSend = null;
+        throw error;
+      }
+
+      fake.sent.push(...messages);
+      return messages.map(() => fake.tickets.shift() || { status: 'ok', id: `fake-ticket-${nextTicketId++}` });
+    },
+
+    getReceipts: async (ticketIds) => {
+      return Object.fromEntries(
+        ticketIds.filter((id) => fake.receipts[id]).map((id) => [id, fake.receipts[id]])
+      );
+    },
+  };
+
+  return fake;
+};
@@ -0,0 +1,330 @@
+import { PrismaClient, Group, User } from '@prisma/client';
+import { OPEN_CYCLE_STATUSES } from './cycleService';
+import { OUTSTANDING_PAYMENT_STATUSES, PaymentStatus } from './paymentService';
+import { NotificationService } from './notificationService';
+import { ScheduleService } from './scheduleService';
+
+const prisma = new PrismaClient();
+
+export interface ReminderPolicy {
+  // Days before the due date to remind on, latest first; 0 is the due date
+  reminderDaysBefore: number[];
+  // Days between reminders once the payment is overdue, or 0 for none
+  reminderOverdueEvery: number;
+  // Most reminders a member gets about one payment
+  reminderMaxCount: number;
+  // Hour of the day, in the group's time zone, reminders go out
+  reminderHour: number;
+}
+
+export interface QuietHours {
+  // The group's time zone is used when null
+  timeZone: string | null;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+}
+
+export type ReminderStatus = 'scheduled' | 'sent' | 'cancelled';
+
+const DEFAULT_POLICY: ReminderPolicy = {
+  reminderDaysBefore: [3, 0],
+  reminderOverdueEvery: 2,
+  reminderMaxCount: 5,
+  reminderHour: 9,
+};
+
+const MAX_DAYS_BEFORE = 30;
+const MAX_OVERDUE_EVERY = 30;
+const MAX_REMINDER_COUNT = 20;
+
+// Cycles whose unpaid members are still chased. Scheduled cycles are planned
+// ahead, but their reminders only go out once collection starts.
+const REMINDER_CYCLE_STATUSES = ['collecting', 'ready_for_payout', 'paid_out'];
+
+const BATCH_SIZE = 100;
+
+const isBlank = (value: unknown): boolean => {
+  return value === undefined || value === null || value === '';
+};
+
+const isWholeNumber = (value: number, min: number, max: number): boolean => {
+  return Number.isInteger(value) && value >= min && value <= max;
+};
+
+const parseHour = (value: unknown, field: string): number | null | string => {
+  if (isBlank(value)) {
+    return null;
+  }
+  const hour = Number(value);
+  return isWholeNumber(hour, 0, 23) ? hour : `${field} must be an hour from 0 to 23`;
+};
+
+export const ReminderService = {
+  /**
+   * Read a reminder policy from a group create/update body, keeping whatever
+   * the body leaves out from current. Returns an error message if it isn't
+   * valid.
+   */
+  parsePolicy: (body: any, current: ReminderPolicy = DEFAULT_POLICY): ReminderPolicy | string => {
+    const policy: ReminderPolicy = { ...current, reminderDaysBefore: [...current.reminderDaysBefore] };
+
+    if (body.reminderDaysBefore !== undefined) {
+      if (!Array.isArray(body.reminderDaysBefore)) {
+        return 'reminderDaysBefore must be a list of days';
+      }
+      const days = body.reminderDaysBefore.map(Number);
+      if (days.some((day: number) => !isWholeNumber(day, 0, MAX_DAYS_BEFORE))) {
+        return `reminderDaysBefore must be whole numbers of days from 0 to ${MAX_DAYS_BEFORE}`;
+      }
+      policy.reminderDaysBefore = Array.from(new Set<number>(days)).sort((a, b) => b - a);
+    }
+
+    if (!isBlank(body.reminderOverdueEvery)) {
+      policy.reminderOverdueEvery = Number(body.reminderOverdueEvery);
+      if (!isWholeNumber(policy.reminderOverdueEvery, 0, MAX_OVERDUE_EVERY)) {
+        return `reminderOverdueEvery must be a whole number of days from 0 to ${MAX_OVERDUE_EVERY}`;
+      }
+    }
+
+    if (!isBlank(body.reminderMaxCount)) {
+      policy.reminderMaxCount = Number(body.reminderMaxCount);
+      if (!isWholeNumber(policy.reminderMaxCount, 0, MAX_REMINDER_COUNT)) {
+        return `reminderMaxCount must be a whole number from 0 to ${MAX_REMINDER_COUNT}`;
+      }
+    }
+
+    if (!isBlank(body.reminderHour)) {
+      const hour = parseHour(body.reminderHour, 'reminderHour');
+      if (typeof hour === 'string') {
+        return hour;
+      }
+      policy.reminderHour = hour!;
+    }
+
+    return policy;
+  },
+
+  fromGroup: (group: Group): ReminderPolicy => {
+    return {
+      reminderDaysBefore: group.reminderDaysBefore,
+      reminderOverdueEvery: group.reminderOverdueEvery,
+      reminderMaxCount: group.reminderMaxCount,
+      reminderHour: group.reminderHour,
+    };
+  },
+
+  /**
+   * Read a member's time zone and quiet hours from a settings body, keeping
+   * whatever the body leaves out from current. Null clears them.
+   */
+  parseQuietHours: (body: any, current: QuietHours): QuietHours | string => {
+    const quietHours: QuietHours = {
+      timeZone: current.timeZone,
+      quietHoursStart: current.quietHoursStart,
+      quietHoursEnd: current.quietHoursEnd,
+    };
+
+    if (body.timeZone !== undefined) {
+      quietHours.timeZone = isBlank(body.timeZone) ? null : String(body.timeZone);
+      if (quietHours.timeZone && !ScheduleService.isValidTimeZone(quietHours.timeZone)) {
+        return `Unknown time zone "${quietHours.timeZone}"`;
+      }
+    }
+
+    for (const field of ['quietHoursStart', 'quietHoursEnd'] as const) {
+      if (body[field] !== undefined) {
+        const hour = parseHour(body[field], field);
+        if (typeof hour === 'string') {
+          return hour;
+        }
+        quietHours[field] = hour;
+      }
+    }
+
+    if ((quietHours.quietHoursStart === null) !== (quietHours.quietHoursEnd === null)) {
+      return 'quietHoursStart and quietHoursEnd must be set together';
+    }
+    if (quietHours.quietHoursStart !== null && quietHours.quietHoursStart === quietHours.quietHoursEnd) {
+      return 'Quiet hours must start and end at different hours';
+    }
+
+    return quietHours;
+  },
+
+  /**
+   * The days, counted from the due date, a payment's reminders fall on,
+   * earliest first and no more than the policy allows
+   */
+  getDayOffsets: (policy: ReminderPolicy): number[] => {
+    const offsets = policy.reminderDaysBefore.map((days) => 0 - days).sort((a, b) => a - b);
+
+    if (policy.reminderOverdueEvery > 0) {
+      for (let overdue = policy.reminderOverdueEvery; offsets.length < policy.reminderMaxCount; overdue += policy.reminderOverdueEvery) {
+        offsets.push(overdue);
+      }
+    }
+
+    return offsets.slice(0, policy.reminderMaxCount);
+  },
+
+  /**
+   * When the member's quiet hours end if it is currently quiet for them, or
+   * null if reminders can go out now
+   */
+  getQuietUntil: (
+    user: Pick<User, 'timeZone' | 'quietHoursStart' | 'quietHoursEnd'>,
+    groupTimeZone: string,
+    now: Date = new Date()
+  ): Date | null => {
+    const { quietHoursStart: start, quietHoursEnd: end } = user;
+    if (start === null || end === null) {
+      return null;
+    }
+
+    const timeZone = user.timeZone || groupTimeZone;
+    const hour = ScheduleService.getLocalHour(now, timeZone);
+    const quiet = start < end ? hour >= start && hour < end : hour >= start || hour < end;
+    if (!quiet) {
+      return null;
+    }
+
+    // Quiet hours that run past midnight end tomorrow if they started today
+    return ScheduleService.atLocalHour(now, timeZone, start > end && hour >= start ? 1 : 0, end);
+  },
+
+  /**
+   * Plan the reminders of cycles that haven't been planned yet: new cycles,
+   * those of groups whose policy changed and those with a payment owing again
+   * after it was settled. Reminders whose time has passed are left out, as
+   * are days a reminder was already sent or is still due for. Returns how
+   * many cycles were planned.
+   */
+  planDue: async (now: Date = new Date()): Promise<number> => {
+    const cycles = await prisma.cycle.findMany({
+      where: { remindersPlannedAt: null, status: { in: OPEN_CYCLE_STATUSES } },
+      include: { group: true },
+      take: BATCH_SIZE,
+    });
+
+    for (const cycle of cycles) {
+      const dueDate = cycle.dueDate || cycle.endDate;
+      const policy = ReminderService.fromGroup(cycle.group);
+      const offsets = dueDate ? ReminderService.getDayOffsets(policy) : [];
+
+      const payments = await prisma.payment.findMany({
+        where: { cycleId: cycle.id, status: { in: OUTSTANDING_PAYMENT_STATUSES } },
+        include: { reminders: { where: { status: { in: ['sent', 'scheduled'] } } } },
+      });
+
+      const reminders = payments.flatMap((payment) => {
+        const takenOffsets = payment.reminders.map((reminder) => reminder.dayOffset);
+        const remaining = policy.reminderMaxCount - takenOffsets.length;
+
+        return offsets
+          .filter((dayOffset) => !takenOffsets.includes(dayOffset))
+          .map((dayOffset) => ({
+            paymentId: payment.id,
+            dayOffset,
+            scheduledFor: ScheduleService.atLocalHour(dueDate!, cycle.group.timeZone, dayOffset, policy.reminderHour),
+          }))
+          .filter((reminder) => reminder.scheduledFor > now)
+          .slice(0, Math.max(remaining, 0));
+      });
+
+      await prisma.$transaction([
+        prisma.reminderSchedule.createMany({ data: reminders, skipDuplicates: true }),
+        prisma.cycle.update({ where: { id: cycle.id }, data: { remindersPlannedAt: now } }),
+      ]);
+    }
+
+    return cycles.length;
+  },
+
+  /**
+   * Whether a group update changed anything its reminders are planned from
+   */
+  needsReplan: (before: Group, after: Group): boolean => {
+    const policyChanged =
+      JSON.stringify(ReminderService.fromGroup(before)) !== JSON.stringify(ReminderService.fromGroup(after));
+    return policyChanged || before.timeZone !== after.timeZone;
+  },
+
+  /**
+   * Drop the group's upcoming reminders so planDue plans them again from its
+   * current policy, time zone and due dates. Reminders that are already due
+   * stay, so sendDue still sends them.
+   */
+  replanGroup: async (groupId: number, now: Date = new Date()) => {
+    const cycleWhere = { groupId, status: { in: OPEN_CYCLE_STATUSES } };
+
+    await prisma.$transaction([
+      prisma.reminderSchedule.deleteMany({
+        where: { status: 'scheduled', scheduledFor: { gt: now }, payment: { cycle: cycleWhere } },
+      }),
+      prisma.cycle.updateMany({ where: cycleWhere, data: { remindersPlannedAt: null } }),
+    ]);
+  },
+
+  /**
+   * Send the reminders whose time has come. Reminders for payments that were
+   * settled or cycles that ended are cancelled, and those falling in the
+   * member's quiet hours wait for them to end. After downtime only the latest
+   * due reminder of a payment goes out. Returns how many were sent.
+   */
+  sendDue: async (now: Date = new Date()): Promise<number> => {
+    const due = await prisma.reminderSchedule.findMany({
+      where: { status: 'scheduled', scheduledFor: { lte: now } },
+      include: { payment: { include: { user: true, cycle: { include: { group: true } } } } },
+      orderBy: { scheduledFor: 'desc' },
+      take: BATCH_SIZE,
+    });
+
+    let sent = 0;
+    for (const reminder of due) {
+      const { payment } = reminder;
+      const { cycle } = payment;
+
+      if (
+        !OUTSTANDING_PAYMENT_STATUSES.includes(payment.status as PaymentStatus) ||
+        !REMINDER_CYCLE_STATUSES.includes(cycle.status)
+      ) {
+        await prisma.reminderSchedule.updateMany({
+          where: { id: reminder.id, status: 'scheduled' },
+          data: { status: 'cancelled' },
+        });
+        continue;
+      }
+
+      const quietUntil = ReminderService.getQuietUntil(payment.user, cycle.group.timeZone, now);
+      if (quietUntil) {
+        await prisma.reminderSchedule.updateMany({
+          where: { id: reminder.id, status: 'scheduled' },
+          data: { scheduledFor: quietUntil },
+        });
+        continue;
+      }
+
+      // Another run may have sent it, or a later reminder replaced it
+      const claimed = await prisma.reminderSchedule.updateMany({
+        where: { id: reminder.id, status: 'scheduled' },
+        data: { status: 'sent', sentAt: now },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      await prisma.reminderSchedule.updateMany({
+        where: { paymentId: payment.id, status: 'scheduled', dayOffset: { lt: reminder.dayOffset } },
+        data: { status: 'cancelled' },
+      });
+
+      await NotificationService.notifyUser(
+        payment.userId,
+        NotificationService.buildPaymentReminder(payment, reminder.dayOffset > 0)
+      );
+      sent++;
+    }
+
+    return sent;
+  },
+};
@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+import { PrismaClient, Group, Membership, Rotation } from '@prisma/client';
+import { ScheduleService, GroupSchedule } from './scheduleService';
+import { CycleService } from './cycleService';
+import { ShareService, SlotShare } from './shareService';
+
+const prisma = new PrismaClient();
+
+export type RotationStrategy = 'join_order' | 'random' | 'admin_order' | 'bidding';
+
+export const ROTATION_STRATEGIES: RotationStrategy[] = ['join_order', 'random', 'admin_order', 'bidding'];
+
+export interface RotationBid {
+  userId: number;
+  amount: number;
+}
+
+export interface RotationOptions {
+  strategy: RotationStrategy;
+  startDate: Date;
+  seed?: string;
+  // Recipients in payout order. A shared slot is listed as its members' ids.
+  order?: (number | number[])[];
+  bids?: RotationBid[];
+}
+
+export interface PlannedCycle {
+  cycleIndex: number;
+  startDate: Date;
+  endDate: Date;
+  dueDate: Date;
+  recipientUserId: number;
+  // Who shares the payout, when part shares were paired into this slot
+  shares: SlotShare[];
+  bidAmount: number | null;
+}
+
+// The first member of a shared slot is its recipient
+interface PayoutSlot {
+  recipientUserId: number;
+  shares: SlotShare[];
+}
+
+export interface RotationPlan {
+  strategy: RotationStrategy;
+  seed: string | null;
+  startDate: Date;
+  cycles: PlannedCycle[];
+}
+
+// Fisher-Yates driven by sha256(seed:i) so anyone with the seed and member list can replay the draw
+const seededShuffle = <T>(items: T[], seed: string): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const digest = crypto.createHash('sha256').update(`${seed}:${i}`).digest();
+    const j = digest.readUInt32BE(0) % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const byJoinOrder = (a: Membership, b: Membership): number => {
+  return a.joinedAt.getTime() - b.joinedAt.getTime() || a.id - b.id;
+};
+
+// One entry per payout slot, in passes: everyone's first slot in join order,
+// then the second slot of members who pay two contributions or more, and so
+// on. The slots part shares were paired into come last.
+const toSlots = (memberships: Membership[], group: Group): PayoutSlot[] => {
+  const joined = [...memberships].sort(byJoinOrder);
+  const counts = new Map(joined.map((membership) => [membership.id, ShareService.getPayoutSlots(membership, group)]));
+  const passes = Math.max(0, ...counts.values());
+  const slots: PayoutSlot[] = [];
+
+  for (let pass = 1; pass <= passes; pass++) {
+    joined
+      .filter((membership) => counts.get(membership.id)! >= pass)
+      .forEach((membership) => slots.push({ recipientUserId: membership.userId, shares: [] }));
+  }
+
+  ShareService.pairPartShares(joined, group).forEach((shares) => {
+    slots.push({ recipientUserId: shares[0].userId, shares });
+  });
+
+  return slots;
+};
+
+const getSlotMembers = (slot: PayoutSlot): number[] => {
+  return slot.shares.length > 0 ? slot.shares.map((share) => share.userId) : [slot.recipientUserId];
+};
+
+// Matches an entry of an admin's order to a slot whatever order a shared
+// slot's members are listed in
+const toSlotKey = (entry: number | number[]): string => {
+  return Array.isArray(entry) ? [...entry].sort((a, b) => a - b).join('+') : String(entry);
+};
+
+const getSlotKey = (slot: PayoutSlot): string => {
+  return slot.shares.length > 0 ? toSlotKey(getSlotMembers(slot)) : toSlotKey(slot.recipientUserId);
+};
+
+// A shared slot goes by the highest bid among its members
+const getSlotBid = (slot: PayoutSlot, bids: Map<number, number>): number | null => {
+  const amounts = getSlotMembers(slot)
+    .filter((userId) => bids.has(userId))
+    .map((userId) => bids.get(userId)!);
+  return amounts.length > 0 ? Math.max(...amounts) : null;
+};
+
+export const RotationService = {
+  /**
+   * Return why a rotation can't be generated with these options, or null if it can
+   */
+  getInvalidReason: (options: RotationOptions, memberships: Membership[], group: Group): string | null => {
+    if (!ROTATION_STRATEGIES.includes(options.strategy)) {
+      return `Strategy must be one of: ${ROTATION_STRATEGIES.join(', ')}`;
+    }
+    if (isNaN(options.startDate.getTime())) {
+      return 'A valid start date is required';
+    }
+    if (memberships.length < 2) {
+      return 'A rotation needs at least two members';
+    }
+
+    const unevenSlots = ShareService.getUnevenSlotsReason(memberships, group);
+    if (unevenSlots) {
+      return unevenSlots;
+    }
+
+    const memberIds = new Set(memberships.map((m) => m.userId));
+
+    if (options.strategy === 'admin_order') {
+      const slotKeys = toSlots(memberships, group).map(getSlotKey).sort();
+      const orderKeys = (options.order || []).map(toSlotKey).sort();
+      if (orderKeys.join() !== slotKeys.join()) {
+        return 'The order must list every payout slot once: each member once per whole contribution they pay, and the members sharing a slot together';
+      }
+    }
+
+    if (options.strategy === 'bidding') {
+      const bids = options.bids || [];
+      if (bids.length === 0) {
+        return 'At least one bid is required for the bidding strategy';
+      }
+      const bidders = new Set(bids.map((bid) => bid.userId));
+      if (bidders.size !== bids.length) {
+        return 'Each member may only place one bid';
+      }
+      if (bids.some((bid) => !memberIds.has(bid.userId) || !(bid.amount >= 0))) {
+        return 'Bids must come from group members and be zero or more';
+      }
+    }
+
+    return null;
+  },
+
+  /**
+   * Order the payout slots. Members have a slot per whole contribution they
+   * pay each cycle and share one with others for their part shares.
+   */
+  orderRecipients: (
+    options: RotationOptions,
+    memberships: Membership[],
+    group: Group
+  ): { order: PayoutSlot[]; seed: string | null; bids: Map<number, number> } => {
+    const joined = toSlots(memberships, group);
+    const bids = new Map<number, number>();
+
+    switch (options.strategy) {
+      case 'random': {
+        const seed = options.seed || crypto.randomBytes(16).toString('hex');
+        return { order: seededShuffle(joined, seed), seed, bids };
+      }
+      case 'admin_order': {
+        const unplaced = [...joined];
+        const order = (options.order || []).map((entry) => {
+          const index = unplaced.findIndex((slot) => getSlotKey(slot) === toSlotKey(entry));
+          return unplaced.splice(index, 1)[0];
+        });
+        return { order, seed: null, bids };
+      }
+      case 'bidding': {
+        (options.bids || []).forEach((bid) => bids.set(bid.userId, bid.amount));
+        // Highest bid goes first; ties and members without a bid keep join order
+        const order = [...joined].sort((a, b) => (getSlotBid(b, bids) ?? -1) - (getSlotBid(a, bids) ?? -1));
+        return { order, seed: null, bids };
+      }
+      default:
+        return { order: joined, seed: null, bids };
+    }
+  },
+
+  /**
+   * Build the full schedule without writing anything
+   */
+  planRotation: (
+    options: RotationOptions,
+    memberships: Membership[],
+    group: Group,
+    schedule: GroupSchedule,
+    firstCycleIndex: number
+  ): RotationPlan => {
+    const { order, seed, bids } = RotationService.orderRecipients(options, memberships, group);
+
+    const cycles = order.map((slot, period) => {
+      return {
+        cycleIndex: firstCycleIndex + period,
+        ...ScheduleService.getCycleDates(schedule, options.startDate, period),
+        recipientUserId: slot.recipientUserId,
+        shares: slot.shares,
+        bidAmount: getSlotBid(slot, bids),
+      };
+    });
+
+    return { strategy: options.strategy, seed, startDate: options.startDate, cycles };
+  },
+
+  /**
+   * Persist a planned rotation: the rotation record, one cycle per payout slot
+   * and a payment row for every member in every cycle, all in one transaction.
+   * Each member owes what their shares come to. Shared slots also record who
+   * shares the payout.
+   */
+  createRotation: async (
+    group: Group,
+    createdById: number,
+    plan: RotationPlan,
+    memberships: Membership[]
+  ): Promise<Rotation> => {
+    const groupId = group.id;
+
+    return await prisma.$transaction(
+      async (tx) => {
+        const rotation = await tx.rotation.create({
+          data: {
+            groupId,
+            createdById,
+            strategy: plan.strategy,
+            seed: plan.seed,
+            startDate: plan.startDate,
+          },
+        });
+
+        for (const planned of plan.cycles) {
+          const cycle = await tx.cycle.create({
+            data: {
+              groupId,
+              rotationId: rotation.id,
+              cycleIndex: planned.cycleIndex,
+              startDate: planned.startDate,
+              endDate: planned.endDate,
+              dueDate: planned.dueDate,
+              recipientUserId: planned.recipientUserId,
+              bidAmount: planned.bidAmount,
+              status: CycleService.initialStatus(planned.startDate),
+            },
+          });
+
+          await tx.payment.createMany({
+            data: memberships.map((member) => ({
+              cycleId: cycle.id,
+              userId: member.userId,
+              amount: ShareService.getPaymentAmount(member, group)!,
+            })),
+          });
+
+          if (planned.shares.length > 0) {
+            await tx.payoutShare.createMany({
+              data: planned.shares.map((share) => ({
+                cycleId: cycle.id,
+                userId: share.userId,
+                amount: share.amount,
+              })),
+            });
+          }
+        }
+
+        return rotation;
+      },
+      { timeout: 20000 }
+    );
+  },
+};
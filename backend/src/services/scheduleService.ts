@@ -0,0 +1,386 @@
+export type IntervalUnit = 'day' | 'week' | 'month';
+
+export const INTERVAL_UNITS: IntervalUnit[] = ['day', 'week', 'month'];
+
+// Anchor day value meaning "last day of the month"
+export const LAST_DAY_OF_MONTH = -1;
+
+export interface GroupSchedule {
+  intervalUnit: IntervalUnit;
+  intervalCount: number;
+  // Day of month (1-31, or -1 for the last day) for monthly schedules,
+  // weekday (0 = Sunday .. 6 = Saturday) for weekly ones, unused for daily
+  anchorDay: number | null;
+  scheduleRule: string | null;
+  timeZone: string;
+  // Days after a cycle starts that its payments are due
+  dueOffsetDays: number;
+  // 'YYYY-MM-DD' for a single date or 'MM-DD' for a date that repeats every year
+  holidays: string[];
+}
+
+export interface CycleDates {
+  startDate: Date;
+  endDate: Date;
+  dueDate: Date;
+}
+
+// The frequencies CreateGroupScreen offers, as typed schedules
+const FREQUENCY_PRESETS: Record<string, { intervalUnit: IntervalUnit; intervalCount: number }> = {
+  daily: { intervalUnit: 'day', intervalCount: 1 },
+  weekly: { intervalUnit: 'week', intervalCount: 1 },
+  'bi-weekly': { intervalUnit: 'week', intervalCount: 2 },
+  monthly: { intervalUnit: 'month', intervalCount: 1 },
+  quarterly: { intervalUnit: 'month', intervalCount: 3 },
+};
+
+const RULE_FREQUENCIES: Record<string, IntervalUnit> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+};
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const MAX_INTERVAL_COUNT = 366;
+const MAX_HOLIDAY_SKIP_DAYS = 31;
+
+const DEFAULT_SCHEDULE: GroupSchedule = {
+  intervalUnit: 'month',
+  intervalCount: 1,
+  anchorDay: null,
+  scheduleRule: null,
+  timeZone: 'UTC',
+  dueOffsetDays: 0,
+  holidays: [],
+};
+
+// A calendar date in the group's time zone, with a 0-based month like Date
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const daysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+};
+
+// Calendar arithmetic is done on UTC dates so it is independent of the server's zone
+const addLocalDays = (date: LocalDate, days: number): LocalDate => {
+  const shifted = new Date(Date.UTC(date.year, date.month, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth(), day: shifted.getUTCDate() };
+};
+
+const weekdayOf = (date: LocalDate): number => {
+  return new Date(Date.UTC(date.year, date.month, date.day)).getUTCDay();
+};
+
+const toLocalDate = (instant: Date, timeZone: string): LocalDate => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: string) => parseInt(parts.find((p) => p.type === type)!.value, 10);
+
+  return { year: part('year'), month: part('month') - 1, day: part('day') };
+};
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+const zoneOffset = (instant: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: string) => parseInt(parts.find((p) => p.type === type)!.value, 10);
+
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return asUtc - (instant.getTime() - instant.getUTCMilliseconds());
+};
+
+// The instant at which the local date begins in the given zone
+const startOfLocalDay = (date: LocalDate, timeZone: string): Date => {
+  const guess = Date.UTC(date.year, date.month, date.day);
+  const firstPass = guess - zoneOffset(new Date(guess), timeZone);
+  // Second pass corrects for a DST change between the guess and the real instant
+  return new Date(guess - zoneOffset(new Date(firstPass), timeZone));
+};
+
+const formatLocalDate = (date: LocalDate): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.year}-${pad(date.month + 1)}-${pad(date.day)}`;
+};
+
+const isHoliday = (date: LocalDate, holidays: string[]): boolean => {
+  const full = formatLocalDate(date);
+  return holidays.includes(full) || holidays.includes(full.slice(5));
+};
+
+const parseRule = (rule: string): Partial<GroupSchedule> | string => {
+  const fields: Record<string, string> = {};
+  for (const pair of rule.toUpperCase().split(';').filter(Boolean)) {
+    const [key, value] = pair.split('=');
+    if (!key || !value) {
+      return `Invalid schedule rule segment "${pair}"`;
+    }
+    fields[key.trim()] = value.trim();
+  }
+
+  const intervalUnit = RULE_FREQUENCIES[fields.FREQ];
+  if (!intervalUnit) {
+    return 'Schedule rule FREQ must be DAILY, WEEKLY or MONTHLY';
+  }
+
+  const intervalCount = fields.INTERVAL ? parseInt(fields.INTERVAL, 10) : 1;
+  let anchorDay: number | null = null;
+
+  if (fields.BYMONTHDAY) {
+    if (intervalUnit !== 'month') {
+      return 'BYMONTHDAY is only allowed with FREQ=MONTHLY';
+    }
+    anchorDay = parseInt(fields.BYMONTHDAY, 10);
+  }
+  if (fields.BYDAY) {
+    if (intervalUnit !== 'week') {
+      return 'BYDAY is only allowed with FREQ=WEEKLY';
+    }
+    anchorDay = WEEKDAYS.indexOf(fields.BYDAY);
+    if (anchorDay < 0) {
+      return `BYDAY must be one of ${WEEKDAYS.join(', ')}`;
+    }
+  }
+
+  return { intervalUnit, intervalCount, anchorDay };
+};
+
+// Move a date forward until it is the anchor day of its period
+const alignToAnchor = (date: LocalDate, schedule: GroupSchedule): LocalDate => {
+  if (schedule.anchorDay === null) {
+    return date;
+  }
+  if (schedule.intervalUnit === 'week') {
+    return addLocalDays(date, (schedule.anchorDay - weekdayOf(date) + 7) % 7);
+  }
+  if (schedule.intervalUnit === 'month') {
+    const anchored = ScheduleService.clampToMonth(date.year, date.month, schedule.anchorDay);
+    if (anchored.day >= date.day) {
+      return anchored;
+    }
+    const next = new Date(Date.UTC(date.year, date.month + 1, 1));
+    return ScheduleService.clampToMonth(next.getUTCFullYear(), next.getUTCMonth(), schedule.anchorDay);
+  }
+  return date;
+};
+
+const advance = (start: LocalDate, schedule: GroupSchedule, periods: number): LocalDate => {
+  const count = schedule.intervalCount * periods;
+
+  if (schedule.intervalUnit === 'day') {
+    return addLocalDays(start, count);
+  }
+  if (schedule.intervalUnit === 'week') {
+    return addLocalDays(start, count * 7);
+  }
+
+  // Months always count from the anchor (or the first start day), so a cycle
+  // starting Jan 31 runs Feb 28/29, Mar 31 rather than drifting to the 28th
+  const target = new Date(Date.UTC(start.year, start.month + count, 1));
+  const anchor = schedule.anchorDay ?? start.day;
+  return ScheduleService.clampToMonth(target.getUTCFullYear(), target.getUTCMonth(), anchor);
+};
+
+export const ScheduleService = {
+  /**
+   * Build and validate a schedule from a request body, starting from the
+   * group's current schedule for partial updates. Returns an error message
+   * instead when the input is invalid.
+   */
+  parseSchedule: (body: any, current: GroupSchedule = DEFAULT_SCHEDULE): GroupSchedule | string => {
+    const schedule: GroupSchedule = { ...current, holidays: [...current.holidays] };
+
+    const frequency = typeof body.frequency === 'string' ? body.frequency.trim().toLowerCase() : '';
+    if (FREQUENCY_PRESETS[frequency]) {
+      Object.assign(schedule, FREQUENCY_PRESETS[frequency], { scheduleRule: null });
+    }
+
+    if (body.intervalUnit !== undefined) {
+      if (!INTERVAL_UNITS.includes(body.intervalUnit)) {
+        return `intervalUnit must be one of: ${INTERVAL_UNITS.join(', ')}`;
+      }
+      schedule.intervalUnit = body.intervalUnit;
+      schedule.scheduleRule = null;
+    }
+    if (body.intervalCount !== undefined) {
+      schedule.intervalCount = parseInt(body.intervalCount, 10);
+      schedule.scheduleRule = null;
+    }
+    if (body.anchorDay !== undefined) {
+      schedule.anchorDay = body.anchorDay === null ? null : parseInt(body.anchorDay, 10);
+    }
+
+    if (body.scheduleRule) {
+      const parsed = parseRule(String(body.scheduleRule));
+      if (typeof parsed === 'string') {
+        return parsed;
+      }
+      Object.assign(schedule, parsed, { scheduleRule: String(body.scheduleRule).toUpperCase() });
+    }
+
+    if (body.timeZone !== undefined) {
+      schedule.timeZone = String(body.timeZone);
+    }
+    if (body.dueOffsetDays !== undefined) {
+      schedule.dueOffsetDays = parseInt(body.dueOffsetDays, 10);
+    }
+    if (body.holidays !== undefined) {
+      if (!Array.isArray(body.holidays)) {
+        return 'holidays must be a list of dates';
+      }
+      schedule.holidays = body.holidays.map((h: any) => String(h).trim());
+    }
+
+    if (frequency === 'custom' && !body.scheduleRule && body.intervalUnit === undefined) {
+      return 'A custom frequency needs an intervalUnit and intervalCount, or a scheduleRule';
+    }
+    if (!(schedule.intervalCount >= 1 && schedule.intervalCount <= MAX_INTERVAL_COUNT)) {
+      return `intervalCount must be between 1 and ${MAX_INTERVAL_COUNT}`;
+    }
+    if (schedule.anchorDay !== null) {
+      const valid =
+        schedule.intervalUnit === 'month'
+          ? schedule.anchorDay === LAST_DAY_OF_MONTH || (schedule.anchorDay >= 1 && schedule.anchorDay <= 31)
+          : schedule.intervalUnit === 'week' && schedule.anchorDay >= 0 && schedule.anchorDay <= 6;
+      if (!valid) {
+        return schedule.intervalUnit === 'week'
+          ? 'anchorDay must be a weekday from 0 (Sunday) to 6 (Saturday)'
+          : schedule.intervalUnit === 'month'
+            ? 'anchorDay must be a day of the month from 1 to 31, or -1 for the last day'
+            : 'anchorDay is not used for daily schedules';
+      }
+    }
+    if (!isValidTimeZone(schedule.timeZone)) {
+      return `Unknown time zone "${schedule.timeZone}"`;
+    }
+    if (!(schedule.dueOffsetDays >= 0)) {
+      return 'dueOffsetDays must be zero or more';
+    }
+    if (schedule.holidays.some((h) => !/^(\d{4}-)?\d{2}-\d{2}$/.test(h))) {
+      return 'Holidays must be formatted YYYY-MM-DD, or MM-DD for yearly holidays';
+    }
+
+    return schedule;
+  },
+
+  /**
+   * Read the schedule stored on a group. Groups created before schedules were
+   * typed fall back to their frequency string, then to monthly.
+   */
+  fromGroup: (group: {
+    frequency: string | null;
+    intervalUnit: string | null;
+    intervalCount: number | null;
+    anchorDay: number | null;
+    scheduleRule: string | null;
+    timeZone: string;
+    dueOffsetDays: number;
+    holidays: string[];
+  }): GroupSchedule => {
+    const preset = FREQUENCY_PRESETS[(group.frequency || '').toLowerCase()] || FREQUENCY_PRESETS.monthly;
+
+    return {
+      intervalUnit: (group.intervalUnit as IntervalUnit) || preset.intervalUnit,
+      intervalCount: group.intervalCount || preset.intervalCount,
+      anchorDay: group.anchorDay,
+      scheduleRule: group.scheduleRule,
+      timeZone: group.timeZone,
+      dueOffsetDays: group.dueOffsetDays,
+      holidays: group.holidays,
+    };
+  },
+
+  /**
+   * Human readable label stored in Group.frequency for display
+   */
+  describe: (schedule: GroupSchedule): string => {
+    const preset = Object.keys(FREQUENCY_PRESETS).find(
+      (key) =>
+        FREQUENCY_PRESETS[key].intervalUnit === schedule.intervalUnit &&
+        FREQUENCY_PRESETS[key].intervalCount === schedule.intervalCount
+    );
+    if (preset) {
+      return preset;
+    }
+    return `every ${schedule.intervalCount} ${schedule.intervalUnit}s`;
+  },
+
+  /**
+   * The given day of a month, clamped to the month's length (-1 = last day)
+   */
+  clampToMonth: (year: number, month: number, day: number): LocalDate => {
+    const lastDay = daysInMonth(year, month);
+    return { year, month, day: day === LAST_DAY_OF_MONTH ? lastDay : Math.min(day, lastDay) };
+  },
+
+  /**
+   * Whether the time zone is an IANA name the runtime knows, e.g. "Africa/Dakar"
+   */
+  isValidTimeZone,
+
+  /**
+   * The hour of the day it is at the instant in the time zone, from 0 to 23
+   */
+  getLocalHour: (instant: Date, timeZone: string): number => {
+    const hour = new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', hour: 'numeric' }).format(instant);
+    return parseInt(hour, 10);
+  },
+
+  /**
+   * The given hour, in the time zone, of the local day that is days after the
+   * instant's. Hours are counted from midnight, so on the day clocks change
+   * the result can be an hour off the wall clock.
+   */
+  atLocalHour: (instant: Date, timeZone: string, days: number, hour: number): Date => {
+    const day = addLocalDays(toLocalDate(instant, timeZone), days);
+    return new Date(startOfLocalDay(day, timeZone).getTime() + hour * 60 * 60 * 1000);
+  },
+
+  /**
+   * Start, end and due dates of a period (0-based) of a schedule that begins
+   * on or after firstStart. All dates are the start of a day in the group's
+   * time zone; endDate is the last day of the cycle. Due dates that land on
+   * a holiday move to the next working day.
+   */
+  getCycleDates: (schedule: GroupSchedule, firstStart: Date, period: number = 0): CycleDates => {
+    const anchored = alignToAnchor(toLocalDate(firstStart, schedule.timeZone), schedule);
+    const start = advance(anchored, schedule, period);
+    const nextStart = advance(anchored, schedule, period + 1);
+
+    let due = addLocalDays(start, schedule.dueOffsetDays);
+    for (let skipped = 0; skipped < MAX_HOLIDAY_SKIP_DAYS && isHoliday(due, schedule.holidays); skipped++) {
+      due = addLocalDays(due, 1);
+    }
+
+    return {
+      startDate: startOfLocalDay(start, schedule.timeZone),
+      endDate: startOfLocalDay(addLocalDays(nextStart, -1), schedule.timeZone),
+      dueDate: startOfLocalDay(due, schedule.timeZone),
+    };
+  },
+};
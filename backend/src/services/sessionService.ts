@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const ACCESS_TOKEN_TTL = (process.env.ACCESS_TOKEN_TTL || '15m') as SignOptions['expiresIn'];
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+
+// Avoid a database write on every request: lastSeenAt only moves in 5 minute steps
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+export interface AccessTokenPayload {
+  userId: number;
+  email: string;
+  sessionId: number;
+}
+
+interface SessionContext {
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+  sessionId: number;
+}
+
+const hashSecret = (secret: string): string => {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+};
+
+const generateSecret = (): string => {
+  return crypto.randomBytes(48).toString('base64url');
+};
+
+const refreshExpiry = (): Date => {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+};
+
+const signAccessToken = (payload: AccessTokenPayload): string => {
+  return jwt.sign(payload, process.env.JWT_SECRET as string, { expiresIn: ACCESS_TOKEN_TTL });
+};
+
+export const SessionService = {
+  /**
+   * Open a new session for a user and issue its first token pair
+   */
+  createSession: async (user: { id: number; email: string }, context: SessionContext): Promise<IssuedTokens> => {
+    const secret = generateSecret();
+
+    const session = await prisma.session.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: hashSecret(secret),
+        deviceName: context.deviceName,
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt: refreshExpiry(),
+      },
+    });
+
+    return {
+      token: signAccessToken({ userId: user.id, email: user.email, sessionId: session.id }),
+      refreshToken: `${session.id}.${secret}`,
+      expiresIn: String(ACCESS_TOKEN_TTL),
+      sessionId: session.id,
+    };
+  },
+
+  /**
+   * Exchange a refresh token for a new token pair.
+   * Each refresh token is single-use: presenting an already rotated token
+   * is treated as theft and revokes the whole session.
+   */
+  rotateRefreshToken: async (refreshToken: string): Promise<IssuedTokens | null> => {
+    const [rawSessionId, secret] = refreshToken.split('.');
+    const sessionId = parseInt(rawSessionId, 10);
+    if (!sessionId || !secret) {
+      return null;
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { user: { select: { id: true, email: true } } },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      return null;
+    }
+
+    const presented = Buffer.from(hashSecret(secret));
+    const stored = Buffer.from(session.refreshTokenHash);
+    if (presented.length !== stored.length || !crypto.timingSafeEqual(presented, stored)) {
+      console.warn(`Refresh token reuse detected for session ${session.id}, revoking`);
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { revokedAt: new Date() },
+      });
+      return null;
+    }
+
+    // Only rotate if the token is still the one we just checked. A concurrent
+    // refresh with the same token (a retry, a second tab) that got there first
+    // wins; this one just fails instead of looking like reuse.
+    const nextSecret = generateSecret();
+    const rotated = await prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: session.refreshTokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashSecret(nextSecret),
+        lastSeenAt: new Date(),
+        expiresAt: refreshExpiry(),
+      },
+    });
+    if (rotated.count === 0) {
+      return null;
+    }
+
+    return {
+      token: signAccessToken({ userId: session.user.id, email: session.user.email, sessionId: session.id }),
+      refreshToken: `${session.id}.${nextSecret}`,
+      expiresIn: String(ACCESS_TOKEN_TTL),
+      sessionId: session.id,
+    };
+  },
+
+  /**
+   * Check that a session is still active and record activity on it
+   */
+  touchSession: async (sessionId: number, userId: number): Promise<boolean> => {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session || session.userId !== userId || session.revokedAt || session.expiresAt < new Date()) {
+      return false;
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+      await prisma.session.update({
+        where: { id: sessionId },
+        data: { lastSeenAt: new Date() },
+      });
+    }
+
+    return true;
+  },
+
+  /**
+   * List the sessions a user is currently signed in with
+   */
+  listActiveSessions: async (userId: number) => {
+    return await prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        deviceName: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastSeenAt: true,
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+  },
+
+  /**
+   * Revoke a single session belonging to the user
+   */
+  revokeSession: async (userId: number, sessionId: number): Promise<boolean> => {
+    const result = await prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count > 0;
+  },
+
+  /**
+   * Revoke every active session of the user, optionally keeping one
+   */
+  revokeAllSessions: async (userId: number, exceptSessionId?: number): Promise<number> => {
+    const result = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+      },
+      data: { revokedAt: new Date() },
+    });
+    return result.count;
+  },
+};
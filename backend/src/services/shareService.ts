@@ -0,0 +1,164 @@
+import { Prisma, Group, Membership } from '@prisma/client';
+import { CurrencyService } from './currencyService';
+
+// What a member pays toward a payout slot they share with others each cycle
+export interface SlotShare {
+  userId: number;
+  amount: Prisma.Decimal;
+}
+
+export interface MemberShares {
+  shares: Prisma.Decimal;
+  customAmount: Prisma.Decimal | null;
+}
+
+// Nobody holds more hands than this in one group
+const MAX_SHARES = 10;
+
+const isBlank = (value: unknown): boolean => {
+  return value === undefined || value === null || value === '';
+};
+
+export const ShareService = {
+  /**
+   * Read shares and a custom amount from an update body, keeping whatever the
+   * body leaves out from current. Returns an error message if they don't make sense.
+   */
+  parseShares: (body: any, currency: string, current: MemberShares): MemberShares | string => {
+    const result: MemberShares = { ...current };
+
+    if (!isBlank(body.shares)) {
+      const shares = CurrencyService.parseDecimal(body.shares, 2, 'shares');
+      if (typeof shares === 'string') {
+        return shares;
+      }
+      if (shares.lte(0) || shares.gt(MAX_SHARES)) {
+        return `shares must be more than 0 and at most ${MAX_SHARES}`;
+      }
+      result.shares = shares;
+    }
+
+    if (body.customAmount !== undefined) {
+      if (isBlank(body.customAmount)) {
+        result.customAmount = null;
+      } else {
+        const mismatch = CurrencyService.getMismatchReason(currency, body.currency);
+        if (mismatch) {
+          return mismatch;
+        }
+
+        const customAmount = CurrencyService.parseAmount(body.customAmount, currency, 'customAmount');
+        if (typeof customAmount === 'string') {
+          return customAmount;
+        }
+        if (customAmount.lte(0)) {
+          return 'customAmount must be greater than zero';
+        }
+        result.customAmount = customAmount;
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * What the member owes each cycle: their custom amount if they have one,
+   * otherwise the group's contribution times their shares. Null if the group
+   * has no contribution to go by.
+   */
+  getPaymentAmount: (membership: Membership, group: Group): Prisma.Decimal | null => {
+    if (membership.customAmount) {
+      return membership.customAmount;
+    }
+    if (!group.contribution) {
+      return null;
+    }
+    return CurrencyService.round(group.contribution.times(membership.shares), group.currency);
+  },
+
+  /**
+   * Times the member is paid out on their own in one rotation: once per whole
+   * group contribution they pay each cycle. What's left over is their part
+   * share (see getPartAmount).
+   */
+  getPayoutSlots: (membership: Membership, group: Group): number => {
+    const amount = ShareService.getPaymentAmount(membership, group);
+    if (!amount || !group.contribution) {
+      return 0;
+    }
+    return amount.divToInt(group.contribution).toNumber();
+  },
+
+  /**
+   * What the member pays each cycle beyond their whole contributions, e.g.
+   * half the contribution for half a share
+   */
+  getPartAmount: (membership: Membership, group: Group): Prisma.Decimal => {
+    const amount = ShareService.getPaymentAmount(membership, group);
+    if (!amount || !group.contribution) {
+      return new Prisma.Decimal(0);
+    }
+    return amount.mod(group.contribution);
+  },
+
+  /**
+   * Pair part shares up into payout slots worth one contribution each, in the
+   * order given. A member's part can be split across two neighbouring slots.
+   * Assumes the parts add up to whole contributions (see getUnevenSlotsReason).
+   */
+  pairPartShares: (memberships: Membership[], group: Group): SlotShare[][] => {
+    const slots: SlotShare[][] = [];
+    if (!group.contribution) {
+      return slots;
+    }
+
+    let current: SlotShare[] = [];
+    let room = group.contribution;
+
+    for (const membership of memberships) {
+      let part = ShareService.getPartAmount(membership, group);
+      while (part.gt(0)) {
+        const amount = Prisma.Decimal.min(part, room);
+        current.push({ userId: membership.userId, amount });
+        part = part.minus(amount);
+        room = room.minus(amount);
+
+        if (room.isZero()) {
+          slots.push(current);
+          current = [];
+          room = group.contribution;
+        }
+      }
+    }
+
+    return slots;
+  },
+
+  /**
+   * Return why these members can't be put into a rotation, or null if they can
+   */
+  getUnevenSlotsReason: (memberships: Membership[], group: Group): string | null => {
+    if (!group.contribution) {
+      return 'Set a contribution amount for the group before generating a rotation';
+    }
+
+    const parts = memberships.reduce(
+      (total, membership) => total.plus(ShareService.getPartAmount(membership, group)),
+      new Prisma.Decimal(0)
+    );
+    if (!parts.mod(group.contribution).isZero()) {
+      const contribution = CurrencyService.format(group.contribution, group.currency);
+      const total = CurrencyService.format(parts, group.currency);
+      return `Part shares are paid out together, so they must add up to whole contributions (${contribution} each). They come to ${total} now. Change part shares or custom amounts first.`;
+    }
+    return null;
+  },
+
+  /**
+   * Return why payments can't be created for these members, or null if they can
+   */
+  getMissingAmountReason: (memberships: Membership[], group: Group): string | null => {
+    const missing = memberships.some((membership) => !ShareService.getPaymentAmount(membership, group));
+    return missing ? 'Set a contribution amount for the group before creating cycles' : null;
+  },
+};
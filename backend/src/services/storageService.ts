@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Where uploaded files end up. Keys are generated here and are safe to store
+ * in the database; swap the backend with StorageService.useBackend.
+ */
+export interface StorageBackend {
+  save: (key: string, data: Buffer) => Promise<void>;
+  read: (key: string) => Promise<Buffer | null>;
+  remove: (key: string) => Promise<void>;
+}
+
+export interface StoredFile {
+  key: string;
+  contentType: string;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+};
+
+export const IMAGE_CONTENT_TYPES = Object.keys(IMAGE_EXTENSIONS);
+
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Files under a directory on this machine. Fine for a single server; point
+ * UPLOAD_DIR at a persistent volume in production.
+ */
+export const createLocalDiskStorage = (root: string): StorageBackend => {
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Storage key escapes the upload directory: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    save: async (key, data) => {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    read: async (key) => {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    remove: async (key) => {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+  };
+};
+
+let backend: StorageBackend = createLocalDiskStorage(
+  process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads')
+);
+
+export const StorageService = {
+  useBackend: (next: StorageBackend) => {
+    backend = next;
+  },
+
+  /**
+   * Return why the upload can't be stored, or null if it can
+   */
+  getInvalidImageReason: (upload: any): string | null => {
+    if (!upload || typeof upload.data !== 'string') {
+      return 'Attachment data must be a base64 string';
+    }
+
+    if (!IMAGE_CONTENT_TYPES.includes(upload.contentType)) {
+      return `Attachment must be one of: ${IMAGE_CONTENT_TYPES.join(', ')}`;
+    }
+
+    // base64 is 4 characters for every 3 bytes
+    if ((upload.data.length * 3) / 4 > MAX_UPLOAD_BYTES) {
+      return 'Attachment must be 5MB or smaller';
+    }
+
+    return null;
+  },
+
+  /**
+   * Store a base64 image under the given folder and return its key
+   */
+  saveImage: async (folder: string, upload: { data: string; contentType: string }): Promise<StoredFile> => {
+    const key = `${folder}/${crypto.randomBytes(16).toString('hex')}.${IMAGE_EXTENSIONS[upload.contentType]}`;
+    await backend.save(key, Buffer.from(upload.data, 'base64'));
+
+    return { key, contentType: upload.contentType };
+  },
+
+  read: async (key: string): Promise<Buffer | null> => {
+    return await backend.read(key);
+  },
+
+  remove: async (key: string): Promise<void> => {
+    await backend.remove(key);
+  },
+};
@@ -3,7 +3,7 @@ let globalLogin = null;
 import React, { useState, useEffect } from 'react';
 import { Platform, Alert, StatusBar, View, ActivityIndicator, Text, Button } from 'react-native';
 import * as Notifications from 'expo-notifications';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Sentry from '@sentry/react-native';
@@ -22,8 +22,14 @@ import CreateGroupScreen from './screens/CreateGroupScreen';
 import GroupDetailScreen from './screens/GroupDetailScreen';
 import EditGroupScreen from './screens/EditGroupScreen';
 import CreateCycleScreen from './screens/CreateCycleScreen';
+import GenerateRotationScreen from './screens/GenerateRotationScreen';
 import CycleDetailScreen from './screens/CycleDetailScreen';
 import ProfileScreen from './screens/ProfileScreen';
+import ForgotPasswordScreen from './screens/ForgotPasswordScreen';
+import ResetPasswordScreen from './screens/ResetPasswordScreen';
+import ConversationsScreen from './screens/ConversationsScreen';
+import ConversationScreen from './screens/ConversationScreen';
+import NotificationsScreen from './screens/NotificationsScreen';
 
 // Initialize API service
 import api from './services/api';
@@ -81,6 +87,9 @@ async function registerForPushNotificationsAsync() {
 
 const Stack = createStackNavigator();
 
+// Lets services outside the component tree (deep links) navigate
+const navigationRef = createNavigationContainerRef();
+
 export default function App() {
   const [isLoading, setIsLoading] = useState(true);
   const [userToken, setUserToken] = useState(null);
@@ -166,7 +175,7 @@ export default function App() {
         setIsLoading(false);
         
         // Initialize deep link handling
-        DeepLinkService.init(navigation);
+        DeepLinkService.init(navigationRef);
       }
     };
     
@@ -271,7 +280,7 @@ export default function App() {
   console.log('App navigation state:', userToken ? 'Authenticated' : 'Unauthenticated');
 
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef}>
       <StatusBar backgroundColor="#4CAF50" barStyle="light-content" />
       <Stack.Navigator
         initialRouteName={userToken ? 'Groups' : 'Login'}
@@ -285,6 +294,8 @@ export default function App() {
           <>
             <Stack.Screen name="Login" component={LoginScreen} />
             <Stack.Screen name="SignUp" component={SignUpScreen} />
+            <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+            <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
           </>
         ) : (
           // Main App Screens - only accessible when logged in
@@ -294,8 +305,12 @@ export default function App() {
             <Stack.Screen name="GroupDetail" component={GroupDetailScreen} />
             <Stack.Screen name="EditGroup" component={EditGroupScreen} />
             <Stack.Screen name="CreateCycle" component={CreateCycleScreen} />
+            <Stack.Screen name="GenerateRotation" component={GenerateRotationScreen} />
             <Stack.Screen name="CycleDetail" component={CycleDetailScreen} />
             <Stack.Screen name="Profile" component={ProfileScreen} />
+            <Stack.Screen name="Conversations" component={ConversationsScreen} />
+            <Stack.Screen name="Conversation" component={ConversationScreen} />
+            <Stack.Screen name="Notifications" component={NotificationsScreen} />
           </>
         )}
       </Stack.Navigator>
@@ -0,0 +1,413 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ChatService, ChatMessage, ReadReceipt } from '../services/chatService';
+import { DeepLinkService } from '../services/deepLinkService';
+import { formatMessageTime, mergeMessages } from '../constants/Chat';
+
+interface GroupChatProps {
+  groupId: number;
+  userId: number;
+  navigation: any;
+}
+
+const GroupChat: React.FC<GroupChatProps> = ({ groupId, userId, navigation }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [receipts, setReceipts] = useState<ReadReceipt[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [removed, setRemoved] = useState(false);
+
+  // The stream callbacks outlive renders, so they read the newest id from here
+  const newestIdRef = useRef<number | null>(null);
+  const lastMarkedRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    newestIdRef.current = messages.length > 0 ? messages[0].id : null;
+  }, [messages]);
+
+  const markRead = useCallback(async (messageId: number) => {
+    if (lastMarkedRef.current !== null && lastMarkedRef.current >= messageId) {
+      return;
+    }
+    lastMarkedRef.current = messageId;
+
+    try {
+      await ChatService.markRead(groupId, messageId);
+    } catch (error) {
+      console.log('Error marking chat as read:', error);
+    }
+  }, [groupId]);
+
+  const catchUp = useCallback(async () => {
+    try {
+      const after = newestIdRef.current;
+      if (after === null) {
+        return;
+      }
+      const page = await ChatService.getMessages(groupId, { after });
+      if (page.messages.length > 0) {
+        setMessages(current => mergeMessages(current, page.messages));
+        markRead(page.messages[0].id);
+      }
+    } catch (error) {
+      console.log('Error catching up on chat:', error);
+    }
+  }, [groupId, markRead]);
+
+  useEffect(() => {
+    const loadChat = async () => {
+      try {
+        const [page, reads] = await Promise.all([
+          ChatService.getMessages(groupId),
+          ChatService.getReadReceipts(groupId),
+        ]);
+        setMessages(page.messages);
+        setNextCursor(page.nextCursor);
+        setReceipts(reads);
+        if (page.messages.length > 0) {
+          markRead(page.messages[0].id);
+        }
+      } catch (error: any) {
+        console.error('Error loading chat:', error);
+        Alert.alert('Error', error.response?.data?.error || 'Failed to load chat');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadChat();
+
+    const closeStream = ChatService.openStream(groupId, {
+      onOpen: catchUp,
+      onEvent: (event) => {
+        if (event.type === 'message') {
+          setMessages(current => mergeMessages(current, [event.message]));
+          markRead(event.message.id);
+        } else if (event.type === 'read') {
+          setReceipts(current => current.map(receipt => (
+            receipt.userId === event.userId
+              ? { ...receipt, lastReadMessageId: event.lastReadMessageId, lastReadAt: event.lastReadAt }
+              : receipt
+          )));
+        } else if (event.type === 'member_removed') {
+          if (event.userId === userId) {
+            setRemoved(true);
+          } else {
+            setReceipts(current => current.filter(receipt => receipt.userId !== event.userId));
+          }
+        }
+      },
+    });
+
+    return closeStream;
+  }, [groupId, userId, catchUp, markRead]);
+
+  const loadOlder = async () => {
+    if (nextCursor === null || loadingOlder) {
+      return;
+    }
+
+    setLoadingOlder(true);
+    try {
+      const page = await ChatService.getMessages(groupId, { before: nextCursor });
+      setMessages(current => mergeMessages(current, page.messages));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const sendMessage = async () => {
+    if (!draft.trim()) {
+      return;
+    }
+
+    setSending(true);
+    try {
+      const message = await ChatService.sendMessage(groupId, draft);
+      setMessages(current => mergeMessages(current, [message]));
+      setDraft('');
+      markRead(message.id);
+    } catch (error: any) {
+      console.error('Error sending message:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Names of the other members whose read position is exactly this message
+  const getSeenBy = (message: ChatMessage) => {
+    return receipts
+      .filter(receipt => receipt.userId !== userId && receipt.lastReadMessageId === message.id)
+      .map(receipt => receipt.user.name);
+  };
+
+  const renderSystemMessage = (item: ChatMessage) => (
+    <View style={styles.systemRow}>
+      <TouchableOpacity
+        style={styles.systemBubble}
+        disabled={!item.deepLink}
+        onPress={() => item.deepLink && DeepLinkService.handleDeepLink(item.deepLink, navigation)}
+      >
+        <Text style={styles.systemText}>{item.body}</Text>
+        {item.deepLink && (
+          <Ionicons name="chevron-forward" size={14} color="#2196F3" style={styles.systemLinkIcon} />
+        )}
+      </TouchableOpacity>
+      <Text style={styles.systemTime}>{formatMessageTime(item.createdAt)}</Text>
+    </View>
+  );
+
+  const renderMessage = ({ item }: { item: ChatMessage }) => {
+    if (item.kind === 'system') {
+      return renderSystemMessage(item);
+    }
+
+    const isMine = item.senderId === userId;
+    const seenBy = getSeenBy(item);
+
+    return (
+      <View style={[styles.messageRow, isMine && styles.messageRowMine]}>
+        <View style={[styles.bubble, isMine ? styles.bubbleMine : styles.bubbleOther]}>
+          {!isMine && (
+            <Text style={styles.senderName}>{item.sender?.name || 'Former member'}</Text>
+          )}
+          <Text style={[styles.messageText, isMine && styles.messageTextMine]}>{item.body}</Text>
+          <Text style={[styles.messageTime, isMine && styles.messageTimeMine]}>
+            {formatMessageTime(item.createdAt)}
+          </Text>
+        </View>
+        {seenBy.length > 0 && (
+          <Text style={[styles.seenBy, isMine && styles.seenByMine]}>
+            Seen by {seenBy.join(', ')}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#4CAF50" />
+      </View>
+    );
+  }
+
+  if (removed) {
+    return (
+      <View style={styles.centerContainer}>
+        <Ionicons name="chatbubbles-outline" size={48} color="#ccc" />
+        <Text style={styles.emptyText}>You are no longer a member of this group</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 100 : 0}
+    >
+      <FlatList
+        data={messages}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={renderMessage}
+        inverted={messages.length > 0}
+        onEndReached={loadOlder}
+        onEndReachedThreshold={0.3}
+        contentContainerStyle={styles.listContent}
+        ListFooterComponent={loadingOlder ? <ActivityIndicator color="#4CAF50" style={styles.olderLoader} /> : null}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="chatbubbles-outline" size={48} color="#ccc" />
+            <Text style={styles.emptyText}>No messages yet. Say hello to the group!</Text>
+          </View>
+        }
+      />
+
+      <View style={styles.composer}>
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="Write a message..."
+          multiline
+          maxLength={2000}
+        />
+        <TouchableOpacity
+          style={[styles.sendButton, (!draft.trim() || sending) && styles.sendButtonDisabled]}
+          onPress={sendMessage}
+          disabled={!draft.trim() || sending}
+        >
+          {sending ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Ionicons name="send" size={18} color="#fff" />
+          )}
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  listContent: {
+    padding: 12,
+    flexGrow: 1,
+  },
+  olderLoader: {
+    marginVertical: 10,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: 10,
+    textAlign: 'center',
+  },
+  messageRow: {
+    marginVertical: 4,
+    alignItems: 'flex-start',
+  },
+  messageRowMine: {
+    alignItems: 'flex-end',
+  },
+  bubble: {
+    maxWidth: '80%',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  bubbleMine: {
+    backgroundColor: '#4CAF50',
+    borderBottomRightRadius: 2,
+  },
+  bubbleOther: {
+    backgroundColor: '#fff',
+    borderBottomLeftRadius: 2,
+  },
+  senderName: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#2196F3',
+    marginBottom: 2,
+  },
+  messageText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  messageTextMine: {
+    color: '#fff',
+  },
+  messageTime: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+    alignSelf: 'flex-end',
+  },
+  messageTimeMine: {
+    color: '#e8f5e9',
+  },
+  systemRow: {
+    marginVertical: 6,
+    alignItems: 'center',
+  },
+  systemBubble: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: '90%',
+    backgroundColor: '#e3f2fd',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  systemText: {
+    fontSize: 13,
+    color: '#555',
+    textAlign: 'center',
+    flexShrink: 1,
+  },
+  systemLinkIcon: {
+    marginLeft: 4,
+  },
+  systemTime: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  seenBy: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  seenByMine: {
+    textAlign: 'right',
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    padding: 8,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  input: {
+    flex: 1,
+    maxHeight: 100,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    fontSize: 15,
+    backgroundColor: '#fafafa',
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#4CAF50',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  sendButtonDisabled: {
+    backgroundColor: '#a5d6a7',
+  },
+});
+
+export default GroupChat;
@@ -0,0 +1,16 @@
+/**
+ * Helpers shared by group chats and direct messages
+ */
+
+export const formatMessageTime = (date: string) => {
+  return new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * Newest first, without duplicates: live events and catch-up fetches can overlap
+ */
+export const mergeMessages = <M extends { id: number }>(current: M[], incoming: M[]) => {
+  const byId = new Map<number, M>();
+  [...current, ...incoming].forEach(message => byId.set(message.id, message));
+  return Array.from(byId.values()).sort((a, b) => b.id - a.id);
+};
@@ -0,0 +1,43 @@
+/**
+ * Every group works in one currency. Amounts come from the backend as plain
+ * numbers in that currency and are formatted here with its symbol.
+ */
+
+export type CurrencyCode = 'MAD' | 'XOF' | 'EUR' | 'USD';
+
+export const CURRENCY_OPTIONS: { label: string; value: CurrencyCode; minorDigits: number; locale: string }[] = [
+  { label: 'Moroccan Dirham (MAD)', value: 'MAD', minorDigits: 2, locale: 'fr-MA' },
+  { label: 'CFA Franc (XOF)', value: 'XOF', minorDigits: 0, locale: 'fr-SN' },
+  { label: 'Euro (EUR)', value: 'EUR', minorDigits: 2, locale: 'fr-FR' },
+  { label: 'US Dollar (USD)', value: 'USD', minorDigits: 2, locale: 'en-US' },
+];
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'MAD';
+
+const getCurrencyOption = (currency?: string) => {
+  return CURRENCY_OPTIONS.find(option => option.value === currency) || CURRENCY_OPTIONS[3];
+};
+
+/**
+ * Digits after the decimal point, e.g. 0 for XOF
+ */
+export const getMinorDigits = (currency?: string) => {
+  return getCurrencyOption(currency).minorDigits;
+};
+
+export const formatMoney = (amount: number | null | undefined, currency?: string) => {
+  const option = getCurrencyOption(currency);
+  return new Intl.NumberFormat(option.locale, {
+    style: 'currency',
+    currency: option.value,
+    minimumFractionDigits: option.minorDigits,
+    maximumFractionDigits: option.minorDigits,
+  }).format(amount || 0);
+};
+
+/**
+ * An amount as it should be typed into an input, without the symbol
+ */
+export const toAmountInput = (amount: number, currency?: string) => {
+  return amount.toFixed(getMinorDigits(currency));
+};
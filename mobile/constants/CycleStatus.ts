@@ -0,0 +1,52 @@
+/**
+ * Cycle lifecycle as enforced by the backend:
+ * scheduled -> collecting -> ready_for_payout -> paid_out -> closed, or cancelled.
+ */
+
+export type CycleStatus = 'scheduled' | 'collecting' | 'ready_for_payout' | 'paid_out' | 'closed' | 'cancelled';
+
+export const CYCLE_STATUS_LABELS: Record<CycleStatus, string> = {
+  scheduled: 'Scheduled',
+  collecting: 'Collecting',
+  ready_for_payout: 'Ready for Payout',
+  paid_out: 'Paid Out',
+  closed: 'Closed',
+  cancelled: 'Cancelled',
+};
+
+export const CYCLE_STATUS_COLORS: Record<CycleStatus, { text: string; background: string }> = {
+  scheduled: { text: '#F57C00', background: '#FFF8E1' },
+  collecting: { text: '#4CAF50', background: '#E8F5E9' },
+  ready_for_payout: { text: '#2196F3', background: '#E3F2FD' },
+  paid_out: { text: '#2196F3', background: '#E3F2FD' },
+  closed: { text: '#666', background: '#f0f0f0' },
+  cancelled: { text: '#FF5252', background: '#FFEBEE' },
+};
+
+// What an admin can do next from each status, in the order it is offered
+export const CYCLE_STATUS_ACTIONS: Record<CycleStatus, { status: CycleStatus; label: string }[]> = {
+  scheduled: [{ status: 'collecting', label: 'Start Collecting' }],
+  collecting: [{ status: 'ready_for_payout', label: 'Mark Ready for Payout' }],
+  ready_for_payout: [
+    { status: 'paid_out', label: 'Record Payout' },
+    { status: 'collecting', label: 'Reopen Collection' },
+  ],
+  paid_out: [{ status: 'closed', label: 'Close Cycle' }],
+  closed: [],
+  cancelled: [],
+};
+
+// Moving into these while payments are unpaid needs an override reason
+export const SETTLED_STATUSES: CycleStatus[] = ['ready_for_payout', 'paid_out', 'closed'];
+
+export const canCancelCycle = (status: string) => {
+  return status !== 'closed' && status !== 'cancelled' && status !== 'paid_out';
+};
+
+export const getCycleStatusLabel = (status: string) => {
+  return CYCLE_STATUS_LABELS[status as CycleStatus] || status;
+};
+
+export const getCycleStatusColors = (status: string) => {
+  return CYCLE_STATUS_COLORS[status as CycleStatus] || CYCLE_STATUS_COLORS.scheduled;
+};
@@ -0,0 +1,27 @@
+import { Ionicons } from '@expo/vector-icons';
+
+/**
+ * What users choose notifications by, as the backend groups them, and the
+ * channels each can go out on
+ */
+
+export type NotificationEvent = 'reminders' | 'payments' | 'payouts' | 'cycles' | 'membership' | 'messages';
+
+export type PreferenceChannel = 'push' | 'email' | 'inApp';
+
+export type NotificationPreferences = Record<NotificationEvent, Record<PreferenceChannel, boolean>>;
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  reminders: 'Payment Reminders',
+  payments: 'Payment Reviews',
+  payouts: 'Payouts',
+  cycles: 'Cycle Updates',
+  membership: 'Members and Roles',
+  messages: 'Direct Messages',
+};
+
+export const PREFERENCE_CHANNELS: { channel: PreferenceChannel; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { channel: 'push', label: 'Push', icon: 'phone-portrait-outline' },
+  { channel: 'email', label: 'Email', icon: 'mail-outline' },
+  { channel: 'inApp', label: 'In-App', icon: 'notifications-outline' },
+];
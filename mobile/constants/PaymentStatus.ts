@@ -0,0 +1,43 @@
+/**
+ * A payment's status is worked out by the backend from the transactions
+ * recorded against it: unpaid -> partial -> paid, or overpaid.
+ */
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid' | 'overpaid';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: 'Pending',
+  partial: 'Partial',
+  paid: 'Paid',
+  overpaid: 'Overpaid',
+};
+
+export const PAYMENT_STATUS_COLORS: Record<PaymentStatus, { text: string; background: string }> = {
+  unpaid: { text: '#F57C00', background: '#FFF8E1' },
+  partial: { text: '#2196F3', background: '#E3F2FD' },
+  paid: { text: '#4CAF50', background: '#E8F5E9' },
+  overpaid: { text: '#4CAF50', background: '#E8F5E9' },
+};
+
+export const PAYMENT_METHOD_OPTIONS = [
+  { label: 'Cash', value: 'cash' },
+  { label: 'Bank Transfer', value: 'bank_transfer' },
+  { label: 'Mobile Money', value: 'mobile_money' },
+  { label: 'Other', value: 'other' },
+];
+
+export const isPaymentSettled = (status: string) => {
+  return status === 'paid' || status === 'overpaid';
+};
+
+export const getPaymentStatusLabel = (status: string) => {
+  return PAYMENT_STATUS_LABELS[status as PaymentStatus] || status;
+};
+
+export const getPaymentStatusColors = (status: string) => {
+  return PAYMENT_STATUS_COLORS[status as PaymentStatus] || PAYMENT_STATUS_COLORS.unpaid;
+};
+
+export const getPaymentMethodLabel = (method: string) => {
+  return PAYMENT_METHOD_OPTIONS.find(option => option.value === method)?.label || method;
+};
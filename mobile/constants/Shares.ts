@@ -0,0 +1,82 @@
+/**
+ * Members can hold more or less than one "hand" in a group. They pay their
+ * shares times the contribution (or a custom amount) each cycle. In a rotation
+ * they are paid out once per whole contribution they pay, and part shares are
+ * paired up into payout slots the members share.
+ */
+
+interface SlotMember {
+  shares: number;
+  customAmount: number | string | null;
+  user: { id: number };
+}
+
+// A member's id, or the ids of the members sharing the slot
+export type PayoutSlot = number | number[];
+
+// Slot maths is done in cents so it's exact, like the backend's decimals
+const toCents = (amount: number) => Math.round(amount * 100);
+
+const getAmountCents = (member: SlotMember, contribution: number) => {
+  return toCents(member.customAmount !== null ? Number(member.customAmount) : contribution * Number(member.shares));
+};
+
+/**
+ * How many times the member is paid out on their own in one rotation: once
+ * per whole contribution they pay
+ */
+export const getPayoutSlots = (member: SlotMember, contribution: number | null) => {
+  if (!contribution) {
+    return 0;
+  }
+
+  return Math.floor(getAmountCents(member, contribution) / toCents(contribution));
+};
+
+/**
+ * Payout slots in rotation order before anyone reorders them: everyone's first
+ * slot in join order, then the second slot of members who pay two
+ * contributions or more, and so on, then the slots part shares are paired
+ * into. Mirrors the order the backend uses.
+ */
+export const toPayoutSlots = (members: SlotMember[], contribution: number | null) => {
+  const passes = Math.max(0, ...members.map(member => getPayoutSlots(member, contribution)));
+  const slots: PayoutSlot[] = [];
+
+  for (let pass = 1; pass <= passes; pass++) {
+    members
+      .filter(member => getPayoutSlots(member, contribution) >= pass)
+      .forEach(member => slots.push(member.user.id));
+  }
+
+  if (!contribution) {
+    return slots;
+  }
+
+  // Fill slots worth one contribution each; a part can spill into the next slot
+  const size = toCents(contribution);
+  let shared: number[] = [];
+  let room = size;
+
+  members.forEach(member => {
+    let part = getAmountCents(member, contribution) % size;
+    while (part > 0) {
+      const amount = Math.min(part, room);
+      shared.push(member.user.id);
+      part -= amount;
+      room -= amount;
+
+      if (room === 0) {
+        slots.push(shared);
+        shared = [];
+        room = size;
+      }
+    }
+  });
+
+  return slots;
+};
+
+export const formatShares = (shares: number) => {
+  return `${shares} ${shares === 1 ? 'share' : 'shares'}`;
+};
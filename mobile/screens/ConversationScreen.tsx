@@ -0,0 +1,465 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  AlertButton,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DirectMessageService, DirectMessage, Conversation } from '../services/directMessageService';
+import { formatMessageTime, mergeMessages } from '../constants/Chat';
+
+interface ConversationScreenProps {
+  navigation: any;
+  route: {
+    params: {
+      conversationId: number;
+      otherUserName: string;
+    };
+  };
+}
+
+const ConversationScreen: React.FC<ConversationScreenProps> = ({ navigation, route }) => {
+  const { conversationId, otherUserName } = route.params;
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<DirectMessage[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  // How far the other member has read
+  const [otherReadId, setOtherReadId] = useState<number | null>(null);
+  const [userId, setUserId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  // The stream callbacks outlive renders, so they read these from refs
+  const newestIdRef = useRef<number | null>(null);
+  const lastMarkedRef = useRef<number | null>(null);
+  const userIdRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    newestIdRef.current = messages.length > 0 ? messages[0].id : null;
+  }, [messages]);
+
+  const markRead = useCallback(async (messageId: number) => {
+    if (lastMarkedRef.current !== null && lastMarkedRef.current >= messageId) {
+      return;
+    }
+    lastMarkedRef.current = messageId;
+
+    try {
+      await DirectMessageService.markRead(conversationId, messageId);
+    } catch (error) {
+      console.log('Error marking conversation as read:', error);
+    }
+  }, [conversationId]);
+
+  const catchUp = useCallback(async () => {
+    try {
+      const after = newestIdRef.current;
+      if (after === null) {
+        return;
+      }
+      const page = await DirectMessageService.getMessages(conversationId, { after });
+      if (page.messages.length > 0) {
+        setMessages(current => mergeMessages(current, page.messages));
+        markRead(page.messages[0].id);
+      }
+    } catch (error) {
+      console.log('Error catching up on conversation:', error);
+    }
+  }, [conversationId, markRead]);
+
+  useEffect(() => {
+    const loadConversation = async () => {
+      try {
+        const currentUserId = parseInt((await AsyncStorage.getItem('userId')) || '0', 10);
+        userIdRef.current = currentUserId;
+        setUserId(currentUserId);
+
+        const [summary, page, reads] = await Promise.all([
+          DirectMessageService.getConversation(conversationId),
+          DirectMessageService.getMessages(conversationId),
+          DirectMessageService.getReads(conversationId),
+        ]);
+        setConversation(summary);
+        setMessages(page.messages);
+        setNextCursor(page.nextCursor);
+        setOtherReadId(reads.find(read => read.userId !== currentUserId)?.lastReadMessageId ?? null);
+        if (page.messages.length > 0) {
+          markRead(page.messages[0].id);
+        }
+      } catch (error: any) {
+        console.error('Error loading conversation:', error);
+        Alert.alert('Error', error.response?.data?.error || 'Failed to load conversation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadConversation();
+
+    const closeStream = DirectMessageService.openStream(conversationId, {
+      onOpen: catchUp,
+      onEvent: (event) => {
+        if (event.type === 'message') {
+          setMessages(current => mergeMessages(current, [event.message]));
+          markRead(event.message.id);
+        } else if (event.type === 'read' && event.userId !== userIdRef.current) {
+          setOtherReadId(event.lastReadMessageId);
+        }
+      },
+    });
+
+    return closeStream;
+  }, [conversationId, catchUp, markRead]);
+
+  const loadOlder = async () => {
+    if (nextCursor === null || loadingOlder) {
+      return;
+    }
+
+    setLoadingOlder(true);
+    try {
+      const page = await DirectMessageService.getMessages(conversationId, { before: nextCursor });
+      setMessages(current => mergeMessages(current, page.messages));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const sendMessage = async () => {
+    if (!draft.trim()) {
+      return;
+    }
+
+    setSending(true);
+    try {
+      const message = await DirectMessageService.sendMessage(conversationId, draft);
+      setMessages(current => mergeMessages(current, [message]));
+      setDraft('');
+      markRead(message.id);
+    } catch (error: any) {
+      console.error('Error sending direct message:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const toggleMuted = async () => {
+    if (!conversation) return;
+
+    try {
+      await DirectMessageService.setMuted(conversationId, !conversation.muted);
+      setConversation({ ...conversation, muted: !conversation.muted });
+    } catch (error: any) {
+      console.error('Error muting conversation:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to update conversation');
+    }
+  };
+
+  const toggleBlocked = async () => {
+    if (!conversation) return;
+
+    try {
+      if (conversation.blocked) {
+        await DirectMessageService.unblockUser(conversation.otherUser.id);
+      } else {
+        await DirectMessageService.blockUser(conversation.otherUser.id);
+      }
+      setConversation({ ...conversation, blocked: !conversation.blocked });
+    } catch (error: any) {
+      console.error('Error updating block:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to update block');
+    }
+  };
+
+  const handleOptionsPress = () => {
+    if (!conversation) return;
+
+    const options: AlertButton[] = [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: conversation.muted ? 'Unmute Notifications' : 'Mute Notifications',
+        onPress: toggleMuted
+      },
+      conversation.blocked
+        ? { text: `Unblock ${conversation.otherUser.name}`, onPress: toggleBlocked }
+        : {
+            text: `Block ${conversation.otherUser.name}`,
+            style: 'destructive',
+            onPress: () => Alert.alert(
+              'Block Member',
+              `Neither of you will be able to message the other until you unblock ${conversation.otherUser.name}.`,
+              [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Block', style: 'destructive', onPress: toggleBlocked }
+              ]
+            )
+          }
+    ];
+
+    Alert.alert('Conversation Options', 'Choose an action', options);
+  };
+
+  const renderMessage = ({ item }: { item: DirectMessage }) => {
+    const isMine = item.senderId === userId;
+    // Only the newest of my messages the other member has read gets the marker
+    const isLastSeen = isMine && item.id === otherReadId;
+
+    return (
+      <View style={[styles.messageRow, isMine && styles.messageRowMine]}>
+        <View style={[styles.bubble, isMine ? styles.bubbleMine : styles.bubbleOther]}>
+          <Text style={[styles.messageText, isMine && styles.messageTextMine]}>{item.body}</Text>
+          <Text style={[styles.messageTime, isMine && styles.messageTimeMine]}>
+            {formatMessageTime(item.createdAt)}
+          </Text>
+        </View>
+        {isLastSeen && <Text style={styles.seenText}>Seen</Text>}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <View style={styles.headerTitleContainer}>
+          <Text style={styles.headerTitle} numberOfLines={1}>{otherUserName}</Text>
+          {conversation?.muted && <Ionicons name="notifications-off-outline" size={16} color="#999" />}
+        </View>
+        <TouchableOpacity style={styles.headerOptionButton} onPress={handleOptionsPress}>
+          <Ionicons name="ellipsis-vertical" size={20} color="#333" />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#4CAF50" />
+        </View>
+      ) : (
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <FlatList
+            data={messages}
+            keyExtractor={(item) => item.id.toString()}
+            renderItem={renderMessage}
+            inverted={messages.length > 0}
+            onEndReached={loadOlder}
+            onEndReachedThreshold={0.3}
+            contentContainerStyle={styles.listContent}
+            ListFooterComponent={loadingOlder ? <ActivityIndicator color="#4CAF50" style={styles.olderLoader} /> : null}
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Ionicons name="chatbubble-ellipses-outline" size={48} color="#ccc" />
+                <Text style={styles.emptyText}>Start your conversation with {otherUserName}</Text>
+              </View>
+            }
+          />
+
+          {conversation?.blocked ? (
+            <View style={styles.blockedBanner}>
+              <Text style={styles.blockedText}>You blocked {otherUserName}</Text>
+              <TouchableOpacity onPress={toggleBlocked}>
+                <Text style={styles.unblockText}>Unblock</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.composer}>
+              <TextInput
+                style={styles.input}
+                value={draft}
+                onChangeText={setDraft}
+                placeholder="Write a message..."
+                multiline
+                maxLength={2000}
+              />
+              <TouchableOpacity
+                style={[styles.sendButton, (!draft.trim() || sending) && styles.sendButtonDisabled]}
+                onPress={sendMessage}
+                disabled={!draft.trim() || sending}
+              >
+                {sending ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Ionicons name="send" size={18} color="#fff" />
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </KeyboardAvoidingView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  backButton: {
+    padding: 5,
+  },
+  headerTitleContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: 10,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginRight: 6,
+    flexShrink: 1,
+  },
+  headerOptionButton: {
+    padding: 5,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 12,
+    flexGrow: 1,
+  },
+  olderLoader: {
+    marginVertical: 10,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: 10,
+    textAlign: 'center',
+  },
+  messageRow: {
+    marginVertical: 4,
+    alignItems: 'flex-start',
+  },
+  messageRowMine: {
+    alignItems: 'flex-end',
+  },
+  bubble: {
+    maxWidth: '80%',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  bubbleMine: {
+    backgroundColor: '#4CAF50',
+    borderBottomRightRadius: 2,
+  },
+  bubbleOther: {
+    backgroundColor: '#fff',
+    borderBottomLeftRadius: 2,
+  },
+  messageText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  messageTextMine: {
+    color: '#fff',
+  },
+  messageTime: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+    alignSelf: 'flex-end',
+  },
+  messageTimeMine: {
+    color: '#e8f5e9',
+  },
+  seenText: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    padding: 8,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  input: {
+    flex: 1,
+    maxHeight: 100,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    fontSize: 15,
+    backgroundColor: '#fafafa',
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#4CAF50',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  sendButtonDisabled: {
+    backgroundColor: '#a5d6a7',
+  },
+  blockedBanner: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 14,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  blockedText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  unblockText: {
+    fontSize: 14,
+    color: '#2196F3',
+    fontWeight: '500',
+    marginLeft: 10,
+  },
+});
+
+export default ConversationScreen;
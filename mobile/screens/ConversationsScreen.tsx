@@ -0,0 +1,254 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { DirectMessageService, Conversation } from '../services/directMessageService';
+import { formatMessageTime } from '../constants/Chat';
+
+interface ConversationsScreenProps {
+  navigation: any;
+}
+
+// Today's messages show their time, older ones their date
+const formatLastMessageDate = (date: string) => {
+  const sentAt = new Date(date);
+  return sentAt.toDateString() === new Date().toDateString()
+    ? formatMessageTime(date)
+    : sentAt.toLocaleDateString();
+};
+
+const ConversationsScreen: React.FC<ConversationsScreenProps> = ({ navigation }) => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchConversations = async () => {
+    try {
+      setConversations(await DirectMessageService.getConversations());
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  // Refresh unread counts when coming back from a conversation
+  useFocusEffect(
+    useCallback(() => {
+      fetchConversations();
+    }, [])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchConversations();
+  };
+
+  const renderConversation = ({ item }: { item: Conversation }) => (
+    <TouchableOpacity
+      style={styles.conversationItem}
+      onPress={() => navigation.navigate('Conversation', {
+        conversationId: item.id,
+        otherUserName: item.otherUser.name,
+      })}
+    >
+      <View style={styles.avatar}>
+        <Text style={styles.avatarInitial}>{(item.otherUser.name || '?').charAt(0).toUpperCase()}</Text>
+      </View>
+
+      <View style={styles.conversationInfo}>
+        <View style={styles.conversationTopRow}>
+          <Text style={[styles.otherUserName, item.unreadCount > 0 && styles.unreadText]} numberOfLines={1}>
+            {item.otherUser.name}
+          </Text>
+          {item.muted && <Ionicons name="notifications-off-outline" size={14} color="#999" style={styles.mutedIcon} />}
+          {item.lastMessage && (
+            <Text style={styles.lastMessageDate}>{formatLastMessageDate(item.lastMessage.createdAt)}</Text>
+          )}
+        </View>
+
+        <View style={styles.conversationBottomRow}>
+          <Text style={[styles.lastMessage, item.unreadCount > 0 && styles.unreadText]} numberOfLines={1}>
+            {item.blocked
+              ? 'Blocked'
+              : item.lastMessage
+                ? item.lastMessage.body
+                : 'No messages yet'}
+          </Text>
+          {item.unreadCount > 0 && (
+            <View style={styles.unreadBadge}>
+              <Text style={styles.unreadBadgeText}>{item.unreadCount}</Text>
+            </View>
+          )}
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Messages</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#4CAF50" />
+        </View>
+      ) : (
+        <FlatList
+          data={conversations}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={renderConversation}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#4CAF50']} />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="chatbubbles-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>No conversations yet</Text>
+              <Text style={styles.emptySubtext}>
+                Message a member from their group's member list
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  backButton: {
+    padding: 5,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 34,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  conversationItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#4CAF50',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  avatarInitial: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  conversationInfo: {
+    flex: 1,
+  },
+  conversationTopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  otherUserName: {
+    flexShrink: 1,
+    fontSize: 16,
+    color: '#333',
+  },
+  mutedIcon: {
+    marginLeft: 6,
+  },
+  lastMessageDate: {
+    marginLeft: 'auto',
+    fontSize: 12,
+    color: '#999',
+  },
+  conversationBottomRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  lastMessage: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+  },
+  unreadText: {
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  unreadBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: '#4CAF50',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  unreadBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 30,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 10,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+});
+
+export default ConversationsScreen;
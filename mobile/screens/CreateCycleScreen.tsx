@@ -20,6 +20,7 @@ import api from '../services/api';
 type RootStackParamList = {
   GroupDetail: { groupId: number; groupName: string };
   CreateCycle: { groupId: number; groupName: string };
+  GenerateRotation: { groupId: number; groupName: string };
   CycleDetail: { cycleId: number; groupId: number; groupName: string };
 };
 
@@ -43,6 +44,7 @@ interface Member {
   userId: number;
   groupId: number;
   role: string;
+  joinedAt: string;
   user: {
     id: number;
     name: string;
@@ -55,12 +57,14 @@ const CreateCycleScreen: React.FC<Props> = ({ navigation, route }) => {
   
   const [cycleIndex, setCycleIndex] = useState('');
   const [startDate, setStartDate] = useState(new Date());
-  const [endDate, setEndDate] = useState(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)); // Default to 30 days from now
+  const [endDate, setEndDate] = useState(new Date());
+  const [dueDate, setDueDate] = useState<Date | null>(null);
   const [showStartDatePicker, setShowStartDatePicker] = useState(false);
   const [showEndDatePicker, setShowEndDatePicker] = useState(false);
   const [recipientUserId, setRecipientUserId] = useState<number | null>(null);
   const [recipientName, setRecipientName] = useState('');
   const [members, setMembers] = useState<Member[]>([]);
+  const [previousRecipientIds, setPreviousRecipientIds] = useState<number[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [memberPickerVisible, setMemberPickerVisible] = useState(false);
@@ -82,6 +86,9 @@ const CreateCycleScreen: React.FC<Props> = ({ navigation, route }) => {
         // Check if there are any existing cycles
         const cyclesResponse = await api.get(`/groups/${groupId}/cycles`);
         const cycles = cyclesResponse.data;
+        setPreviousRecipientIds(
+          cycles.filter((c: any) => c.recipientUserId).map((c: any) => c.recipientUserId)
+        );
         
         // If we have maxMembers set, check if we've reached the limit
         if (groupDetails.maxMembers && cycles.length >= groupDetails.maxMembers) {
@@ -94,6 +101,13 @@ const CreateCycleScreen: React.FC<Props> = ({ navigation, route }) => {
           return;
         }
         
+        // Prefill the dates from the group's schedule
+        const scheduleResponse = await api.get(`/groups/${groupId}/schedule`);
+        const [nextCycle] = scheduleResponse.data.upcoming;
+        setStartDate(new Date(nextCycle.startDate));
+        setEndDate(new Date(nextCycle.endDate));
+        setDueDate(new Date(nextCycle.dueDate));
+        
         // Set the cycle index based on existing cycles
         if (cycles.length > 0) {
           const maxCycleIndex = Math.max(...cycles.map((c: any) => c.cycleIndex));
@@ -113,17 +127,21 @@ const CreateCycleScreen: React.FC<Props> = ({ navigation, route }) => {
     fetchMembers();
   }, [groupId, navigation]);
 
-  const handleStartDateChange = (event: any, selectedDate?: Date) => {
+  const handleStartDateChange = async (event: any, selectedDate?: Date) => {
     setShowStartDatePicker(Platform.OS === 'ios');
     if (selectedDate) {
       setStartDate(selectedDate);
       
-      // If end date is before start date, update it
-      if (endDate < selectedDate) {
-        // Set end date to 30 days after start date
-        const newEndDate = new Date(selectedDate);
-        newEndDate.setDate(newEndDate.getDate() + 30);
-        setEndDate(newEndDate);
+      // Let the group's schedule decide when a cycle starting on this day ends
+      try {
+        const response = await api.get(`/groups/${groupId}/schedule`, {
+          params: { from: selectedDate.toISOString() }
+        });
+        const [cycleDates] = response.data.upcoming;
+        setEndDate(new Date(cycleDates.endDate));
+        setDueDate(new Date(cycleDates.dueDate));
+      } catch (error) {
+        console.error('Error fetching schedule:', error);
       }
     }
   };
@@ -209,13 +227,11 @@ const handleCreateCycle = async () => {
   };
 
   const determineRecommendedRecipient = () => {
-    // This would normally use a more sophisticated algorithm based on previous cycles
-    // For now, just suggest a random member
-    if (members.length > 0) {
-      const randomIndex = Math.floor(Math.random() * members.length);
-      return members[randomIndex];
-    }
-    return null;
+    // Next in join order among the members who haven't been paid out yet
+    const waiting = members
+      .filter(member => !previousRecipientIds.includes(member.user.id))
+      .sort((a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime());
+    return waiting.length > 0 ? waiting[0] : null;
   };
 
   const handleAutoAssign = () => {
@@ -223,6 +239,8 @@ const handleCreateCycle = async () => {
     if (recommendedMember) {
       setRecipientUserId(recommendedMember.user.id);
       setRecipientName(recommendedMember.user.name);
+    } else if (members.length > 0) {
+      Alert.alert('Notice', 'Every member has already received a payout. Generate a new rotation to start another round.');
     } else {
       Alert.alert('Notice', 'No members available for auto-assignment');
     }
@@ -259,6 +277,21 @@ const handleCreateCycle = async () => {
             <Text style={styles.groupMembers}>{members.length} members</Text>
           </View>
           
+          {/* Full Rotation */}
+          <TouchableOpacity 
+            style={styles.rotationButton}
+            onPress={() => navigation.replace('GenerateRotation', { groupId, groupName })}
+          >
+            <Ionicons name="repeat" size={20} color="#4CAF50" />
+            <View style={styles.rotationButtonContent}>
+              <Text style={styles.rotationButtonTitle}>Generate Full Rotation</Text>
+              <Text style={styles.rotationButtonText}>
+                Create one cycle per member with the payout order decided up front
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#666" />
+          </TouchableOpacity>
+          
           {/* Cycle Number */}
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Cycle Number</Text>
@@ -325,6 +358,12 @@ const handleCreateCycle = async () => {
             </View>
           </View>
           
+          {dueDate && (
+            <Text style={styles.dueDateText}>
+              Payments due {dueDate.toLocaleDateString()}
+            </Text>
+          )}
+          
           {/* Recipient Selection */}
           <Text style={styles.sectionTitle}>Recipient Selection</Text>
           <Text style={styles.sectionDescription}>
@@ -490,6 +529,28 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  rotationButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E8F5E9',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 20,
+  },
+  rotationButtonContent: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  rotationButtonTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 2,
+  },
+  rotationButtonText: {
+    fontSize: 13,
+    color: '#666',
+  },
   inputGroup: {
     marginBottom: 16,
   },
@@ -547,6 +608,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
+  dueDateText: {
+    fontSize: 14,
+    color: '#F57C00',
+    marginTop: 8,
+  },
   recipientContainer: {
     marginBottom: 8,
   },
@@ -10,11 +10,13 @@ import {
   KeyboardAvoidingView,
   Platform,
   ActivityIndicator,
-  Modal
+  Modal,
+  Switch
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { StackNavigationProp } from '@react-navigation/stack';
 import api from '../services/api';
+import { CURRENCY_OPTIONS, DEFAULT_CURRENCY } from '../constants/Currency';
 
 type RootStackParamList = {
   Login: undefined;
@@ -41,13 +43,33 @@ const FREQUENCY_OPTIONS = [
   { label: 'Custom', value: 'custom' }
 ];
 
+const CUSTOM_UNIT_OPTIONS = [
+  { label: 'Days', value: 'day' },
+  { label: 'Weeks', value: 'week' },
+  { label: 'Months', value: 'month' }
+];
+
+const PENALTY_TYPE_OPTIONS = [
+  { label: 'None', value: 'none' },
+  { label: 'Flat Fee', value: 'flat' },
+  { label: 'Percentage', value: 'percent' }
+];
+
 const CreateGroupScreen: React.FC<Props> = ({ navigation }) => {
   const [name, setName] = useState<string>('');
   const [description, setDescription] = useState<string>('');
   const [contribution, setContribution] = useState<string>('');
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [payoutFeePercent, setPayoutFeePercent] = useState<string>('');
+  const [penaltyType, setPenaltyType] = useState<string>('none');
+  const [penaltyRate, setPenaltyRate] = useState<string>('');
+  const [penaltyGraceDays, setPenaltyGraceDays] = useState<string>('');
+  const [penaltyCap, setPenaltyCap] = useState<string>('');
   const [frequency, setFrequency] = useState<string>('');
   const [customFrequency, setCustomFrequency] = useState<string>('');
+  const [customUnit, setCustomUnit] = useState<string>('week');
   const [maxMembers, setMaxMembers] = useState<string>('');
+  const [requiresApproval, setRequiresApproval] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
   const [frequencyModalVisible, setFrequencyModalVisible] = useState<boolean>(false);
@@ -63,12 +85,31 @@ const CreateGroupScreen: React.FC<Props> = ({ navigation }) => {
       newErrors.contribution = 'Contribution must be a valid number';
     }
     
+    if (payoutFeePercent && !(parseFloat(payoutFeePercent) >= 0 && parseFloat(payoutFeePercent) <= 100)) {
+      newErrors.payoutFeePercent = 'Payout fee must be between 0 and 100';
+    }
+    
+    if (penaltyType !== 'none') {
+      const rate = parseFloat(penaltyRate);
+      if (!(rate > 0) || (penaltyType === 'percent' && rate > 100)) {
+        newErrors.penaltyRate = penaltyType === 'percent'
+          ? 'Enter a percentage between 0 and 100'
+          : 'Enter the fee charged per late day';
+      }
+      if (penaltyGraceDays && !(parseInt(penaltyGraceDays, 10) >= 0)) {
+        newErrors.penaltyGraceDays = 'Grace period must be a whole number of days';
+      }
+      if (penaltyCap && !(parseFloat(penaltyCap) > 0)) {
+        newErrors.penaltyCap = 'Maximum must be greater than zero';
+      }
+    }
+    
     if (!frequency) {
       newErrors.frequency = 'Please select a frequency';
     }
     
-    if (frequency === 'custom' && !customFrequency.trim()) {
-      newErrors.customFrequency = 'Please specify the custom frequency';
+    if (frequency === 'custom' && !(parseInt(customFrequency, 10) >= 1)) {
+      newErrors.customFrequency = 'Please enter how often the group pays, e.g. every 10 days';
     }
     
     if (!maxMembers) {
@@ -91,14 +132,25 @@ const CreateGroupScreen: React.FC<Props> = ({ navigation }) => {
     setLoading(true);
     
     try {
-      const effectiveFrequency = frequency === 'custom' ? customFrequency : frequency;
+      // Custom frequencies are sent as a typed interval the server can schedule
+      const schedule = frequency === 'custom'
+        ? { frequency, intervalUnit: customUnit, intervalCount: parseInt(customFrequency, 10) }
+        : { frequency };
       
       const response = await api.post('/groups', {
         name,
         description,
         contribution: contribution ? parseFloat(contribution) : null,
-        frequency: effectiveFrequency,
+        currency,
+        payoutFeePercent: payoutFeePercent ? parseFloat(payoutFeePercent) : 0,
+        penaltyType,
+        penaltyRate: penaltyType !== 'none' ? parseFloat(penaltyRate) : 0,
+        penaltyGraceDays: penaltyGraceDays ? parseInt(penaltyGraceDays, 10) : 0,
+        penaltyCap: penaltyType !== 'none' && penaltyCap ? parseFloat(penaltyCap) : null,
+        ...schedule,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
         maxMembers: maxMembers ? parseInt(maxMembers, 10) : null,
+        requiresApproval,
       });
       
       setLoading(false);
@@ -182,6 +234,27 @@ const CreateGroupScreen: React.FC<Props> = ({ navigation }) => {
           
           <Text style={styles.sectionTitle}>Contribution Settings</Text>
           
+          {/* Currency */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Currency</Text>
+            <View style={styles.customUnitRow}>
+              {CURRENCY_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.customUnitOption, currency === option.value && styles.selectedCustomUnitOption]}
+                  onPress={() => setCurrency(option.value)}
+                >
+                  <Text style={[styles.customUnitText, currency === option.value && styles.selectedCustomUnitText]}>
+                    {option.value}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.helperText}>
+              {CURRENCY_OPTIONS.find(option => option.value === currency)?.label}. Every amount in the group is in this currency.
+            </Text>
+          </View>
+          
           {/* Contribution Amount */}
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Contribution Amount*</Text>
@@ -193,7 +266,7 @@ const CreateGroupScreen: React.FC<Props> = ({ navigation }) => {
                 value={contribution}
                 onChangeText={setContribution}
               />
-              <Text style={styles.currencyLabel}>USD</Text>
+              <Text style={styles.currencyLabel}>{currency}</Text>
             </View>
             {errors.contribution ? (
               <Text style={styles.errorText}>{errors.contribution}</Text>
@@ -204,6 +277,28 @@ const CreateGroupScreen: React.FC<Props> = ({ navigation }) => {
             )}
           </View>
           
+          {/* Payout Fee */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Payout Fee</Text>
+            <View style={[styles.inputContainer, errors.payoutFeePercent ? styles.inputError : null]}>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g., 2"
+                keyboardType="numeric"
+                value={payoutFeePercent}
+                onChangeText={setPayoutFeePercent}
+              />
+              <Text style={styles.currencyLabel}>%</Text>
+            </View>
+            {errors.payoutFeePercent ? (
+              <Text style={styles.errorText}>{errors.payoutFeePercent}</Text>
+            ) : (
+              <Text style={styles.helperText}>
+                Kept from each payout to cover group costs. Leave empty for none
+              </Text>
+            )}
+          </View>
+          
           {/* Frequency */}
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Payment Frequency*</Text>
@@ -213,7 +308,7 @@ const CreateGroupScreen: React.FC<Props> = ({ navigation }) => {
             >
               <Text style={frequency ? styles.dropdownText : styles.dropdownPlaceholder}>
                 {frequency === 'custom' 
-                  ? customFrequency 
+                  ? `Every ${customFrequency || '?'} ${customUnit}s` 
                   : frequency 
                     ? FREQUENCY_OPTIONS.find(option => option.value === frequency)?.label 
                     : 'Select frequency'}
@@ -224,15 +319,32 @@ const CreateGroupScreen: React.FC<Props> = ({ navigation }) => {
             
             {frequency === 'custom' && (
               <View style={styles.customFrequencyContainer}>
-                <TextInput
-                  style={[
-                    styles.customFrequencyInput, 
-                    errors.customFrequency ? styles.inputError : null
-                  ]}
-                  placeholder="Specify custom frequency..."
-                  value={customFrequency}
-                  onChangeText={setCustomFrequency}
-                />
+                <View style={styles.customFrequencyRow}>
+                  <Text style={styles.customFrequencyLabel}>Every</Text>
+                  <TextInput
+                    style={[
+                      styles.customFrequencyInput, 
+                      errors.customFrequency ? styles.inputError : null
+                    ]}
+                    placeholder="e.g., 10"
+                    keyboardType="numeric"
+                    value={customFrequency}
+                    onChangeText={setCustomFrequency}
+                  />
+                </View>
+                <View style={styles.customUnitRow}>
+                  {CUSTOM_UNIT_OPTIONS.map(option => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.customUnitOption, customUnit === option.value && styles.selectedCustomUnitOption]}
+                      onPress={() => setCustomUnit(option.value)}
+                    >
+                      <Text style={[styles.customUnitText, customUnit === option.value && styles.selectedCustomUnitText]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
                 {errors.customFrequency ? (
                   <Text style={styles.errorText}>{errors.customFrequency}</Text>
                 ) : null}
@@ -261,6 +373,115 @@ const CreateGroupScreen: React.FC<Props> = ({ navigation }) => {
             )}
           </View>
           
+          {/* Membership Approval */}
+          <View style={styles.inputGroup}>
+            <View style={styles.switchRow}>
+              <Text style={styles.label}>Require Approval to Join</Text>
+              <Switch
+                value={requiresApproval}
+                onValueChange={setRequiresApproval}
+                trackColor={{ false: '#e0e0e0', true: '#AED581' }}
+                thumbColor={requiresApproval ? '#4CAF50' : '#f4f3f4'}
+              />
+            </View>
+            <Text style={styles.helperText}>
+              When on, people opening an invite link must be approved by an admin before they become members
+            </Text>
+          </View>
+          
+          <Text style={styles.sectionTitle}>Late Payment Penalties</Text>
+          
+          {/* Penalty Type */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Penalty</Text>
+            <View style={styles.customUnitRow}>
+              {PENALTY_TYPE_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.customUnitOption, penaltyType === option.value && styles.selectedCustomUnitOption]}
+                  onPress={() => setPenaltyType(option.value)}
+                >
+                  <Text style={[styles.customUnitText, penaltyType === option.value && styles.selectedCustomUnitText]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.helperText}>
+              Charged for every day a payment is late, once the grace period is over
+            </Text>
+          </View>
+          
+          {penaltyType !== 'none' && (
+            <>
+              {/* Penalty Rate */}
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Fee per Late Day*</Text>
+                <View style={[styles.inputContainer, errors.penaltyRate ? styles.inputError : null]}>
+                  <TextInput
+                    style={styles.input}
+                    placeholder={penaltyType === 'percent' ? 'e.g., 1' : 'e.g., 5'}
+                    keyboardType="numeric"
+                    value={penaltyRate}
+                    onChangeText={setPenaltyRate}
+                  />
+                  <Text style={styles.currencyLabel}>{penaltyType === 'percent' ? '%' : currency}</Text>
+                </View>
+                {errors.penaltyRate ? (
+                  <Text style={styles.errorText}>{errors.penaltyRate}</Text>
+                ) : penaltyType === 'percent' ? (
+                  <Text style={styles.helperText}>
+                    Percentage of the contribution charged each day
+                  </Text>
+                ) : null}
+              </View>
+              
+              {/* Grace Period */}
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Grace Period</Text>
+                <View style={[styles.inputContainer, errors.penaltyGraceDays ? styles.inputError : null]}>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="e.g., 3"
+                    keyboardType="numeric"
+                    value={penaltyGraceDays}
+                    onChangeText={setPenaltyGraceDays}
+                  />
+                  <Text style={styles.currencyLabel}>days</Text>
+                </View>
+                {errors.penaltyGraceDays ? (
+                  <Text style={styles.errorText}>{errors.penaltyGraceDays}</Text>
+                ) : (
+                  <Text style={styles.helperText}>
+                    Days after the due date before penalties start
+                  </Text>
+                )}
+              </View>
+              
+              {/* Penalty Cap */}
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Maximum Penalty</Text>
+                <View style={[styles.inputContainer, errors.penaltyCap ? styles.inputError : null]}>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="No limit"
+                    keyboardType="numeric"
+                    value={penaltyCap}
+                    onChangeText={setPenaltyCap}
+                  />
+                  <Text style={styles.currencyLabel}>{currency}</Text>
+                </View>
+                {errors.penaltyCap ? (
+                  <Text style={styles.errorText}>{errors.penaltyCap}</Text>
+                ) : (
+                  <Text style={styles.helperText}>
+                    The most a single late payment can be charged in total
+                  </Text>
+                )}
+              </View>
+            </>
+          )}
+          
           {/* Create Button */}
           <TouchableOpacity
             style={styles.createButton}
@@ -427,6 +648,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   helperText: {
     color: '#666',
     fontSize: 12,
@@ -435,7 +661,17 @@ const styles = StyleSheet.create({
   customFrequencyContainer: {
     marginTop: 10,
   },
+  customFrequencyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  customFrequencyLabel: {
+    fontSize: 16,
+    color: '#333',
+    marginRight: 10,
+  },
   customFrequencyInput: {
+    flex: 1,
     height: 50,
     borderWidth: 1,
     borderColor: '#ddd',
@@ -443,6 +679,33 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     backgroundColor: '#fff',
   },
+  customUnitRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  customUnitOption: {
+    flex: 1,
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+    backgroundColor: '#fff',
+  },
+  selectedCustomUnitOption: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#E8F5E9',
+  },
+  customUnitText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  selectedCustomUnitText: {
+    color: '#4CAF50',
+    fontWeight: '500',
+  },
   createButton: {
     backgroundColor: '#4CAF50',
     borderRadius: 8,
@@ -9,14 +9,33 @@ import {
   ActivityIndicator,
   RefreshControl,
   Modal,
-  ScrollView
+  ScrollView,
+  TextInput,
+  Image
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
 import { RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useFocusEffect } from '@react-navigation/native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import api from '../services/api';
+import {
+  CYCLE_STATUS_ACTIONS,
+  SETTLED_STATUSES,
+  CycleStatus,
+  canCancelCycle,
+  getCycleStatusColors,
+  getCycleStatusLabel
+} from '../constants/CycleStatus';
+import {
+  PAYMENT_METHOD_OPTIONS,
+  getPaymentMethodLabel,
+  getPaymentStatusColors,
+  getPaymentStatusLabel,
+  isPaymentSettled
+} from '../constants/PaymentStatus';
+import { formatMoney, toAmountInput } from '../constants/Currency';
 
 type RootStackParamList = {
   GroupDetail: { groupId: number; groupName: string };
@@ -44,9 +63,13 @@ interface Cycle {
   cycleIndex: number;
   startDate: string;
   endDate: string;
+  dueDate: string | null;
   recipientUserId: number | null;
   status: string;
   createdAt: string;
+  group?: {
+    currency: string;
+  };
   recipient?: {
     id: number;
     name: string;
@@ -59,15 +82,77 @@ interface Payment {
   cycleId: number;
   userId: number;
   amount: number;
-  paid: boolean;
+  amountPaid: number;
+  penaltyTotal: number;
+  status: string;
   paidAt: string | null;
   user: {
     id: number;
     name: string;
     email: string;
   };
+  declarations?: PaymentDeclaration[]; // latest only
+}
+
+interface PaymentDeclaration {
+  id: number;
+  amount: number;
+  method: string;
+  reference: string | null;
+  note: string | null;
+  receiptKey: string | null;
+  status: 'pending' | 'confirmed' | 'disputed';
+  reviewNote: string | null;
+  createdAt: string;
 }
 
+interface Payout {
+  id: number;
+  recipientId: number;
+  amount: number;
+  fee: number;
+  method: string;
+  reference: string | null;
+  disbursedAt: string;
+  confirmedAt: string | null;
+  disbursedBy?: {
+    id: number;
+    name: string;
+  } | null;
+}
+
+interface ExpectedPayout {
+  collected: number;
+  fee: number;
+  amount: number;
+}
+
+interface PaymentTransaction {
+  id: number;
+  amount: number;
+  method: string;
+  reference: string | null;
+  createdAt: string;
+  voidedAt: string | null;
+  voidReason: string | null;
+  recordedBy?: {
+    id: number;
+    name: string;
+  } | null;
+}
+
+interface PaymentPenalty {
+  id: number;
+  amount: number;
+  daysLate: number;
+  assessedOn: string;
+  waivedAt: string | null;
+  waiveReason: string | null;
+}
+
+// Contribution plus any late fees that haven't been waived
+const getAmountDue = (payment: Payment) => payment.amount + payment.penaltyTotal;
+
 interface Member {
   id: number;
   userId: number;
@@ -84,6 +169,7 @@ const CycleDetailScreen: React.FC<Props> = ({ navigation, route }) => {
   const { cycleId, groupId, groupName } = route.params;
   
   const [cycle, setCycle] = useState<Cycle | null>(null);
+  const currency = cycle?.group?.currency;
   const [payments, setPayments] = useState<Payment[]>([]);
   const [members, setMembers] = useState<Member[]>([]);
   const [loading, setLoading] = useState(true);
@@ -91,8 +177,41 @@ const CycleDetailScreen: React.FC<Props> = ({ navigation, route }) => {
   const [isAdmin, setIsAdmin] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
   const [recipientModalVisible, setRecipientModalVisible] = useState(false);
+  const [overrideStatus, setOverrideStatus] = useState<CycleStatus | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [payout, setPayout] = useState<Payout | null>(null);
+  const [expectedPayout, setExpectedPayout] = useState<ExpectedPayout | null>(null);
+  const [payoutModalVisible, setPayoutModalVisible] = useState(false);
+  const [payoutAmount, setPayoutAmount] = useState('');
+  const [payoutMethod, setPayoutMethod] = useState('cash');
+  const [payoutReference, setPayoutReference] = useState('');
+  const [recordingPayout, setRecordingPayout] = useState(false);
+  const [ledgerPayment, setLedgerPayment] = useState<Payment | null>(null);
+  const [transactions, setTransactions] = useState<PaymentTransaction[]>([]);
+  const [loadingTransactions, setLoadingTransactions] = useState(false);
+  const [transactionAmount, setTransactionAmount] = useState('');
+  const [transactionMethod, setTransactionMethod] = useState('cash');
+  const [transactionReference, setTransactionReference] = useState('');
+  const [savingTransaction, setSavingTransaction] = useState(false);
+  const [voidingTransactionId, setVoidingTransactionId] = useState<number | null>(null);
+  const [penalties, setPenalties] = useState<PaymentPenalty[]>([]);
+  const [waivingPenaltyId, setWaivingPenaltyId] = useState<number | null>(null);
+  const [waiveReason, setWaiveReason] = useState('');
+  const [voidReason, setVoidReason] = useState('');
+  const [declarePayment, setDeclarePayment] = useState<Payment | null>(null);
+  const [declareAmount, setDeclareAmount] = useState('');
+  const [declareMethod, setDeclareMethod] = useState('cash');
+  const [declareReference, setDeclareReference] = useState('');
+  const [declareNote, setDeclareNote] = useState('');
+  const [receipt, setReceipt] = useState<{ uri: string; base64: string; contentType: string } | null>(null);
+  const [declaring, setDeclaring] = useState(false);
+  const [reviewPayment, setReviewPayment] = useState<Payment | null>(null);
+  const [reviewReceipt, setReviewReceipt] = useState<string | null>(null);
+  const [reviewNote, setReviewNote] = useState('');
+  const [reviewing, setReviewing] = useState(false);
   const [paymentStats, setPaymentStats] = useState({
     totalAmount: 0,
+    penaltyAmount: 0,
     paidAmount: 0,
     paidCount: 0,
     totalCount: 0,
@@ -117,20 +236,28 @@ const CycleDetailScreen: React.FC<Props> = ({ navigation, route }) => {
       setPayments(fetchedPayments);
       
       // Calculate payment statistics
-      const totalAmount = fetchedPayments.reduce((sum: number, payment: Payment) => sum + payment.amount, 0);
-      const paidPayments = fetchedPayments.filter((payment: Payment) => payment.paid);
-      const paidAmount = paidPayments.reduce((sum: number, payment: Payment) => sum + payment.amount, 0);
+      // Installments count towards progress as soon as they are recorded
+      const totalAmount = fetchedPayments.reduce((sum: number, payment: Payment) => sum + getAmountDue(payment), 0);
+      const penaltyAmount = fetchedPayments.reduce((sum: number, payment: Payment) => sum + payment.penaltyTotal, 0);
+      const paidAmount = fetchedPayments.reduce((sum: number, payment: Payment) => sum + payment.amountPaid, 0);
+      const paidPayments = fetchedPayments.filter((payment: Payment) => isPaymentSettled(payment.status));
       
       setPaymentStats({
         totalAmount,
+        penaltyAmount,
         paidAmount,
         paidCount: paidPayments.length,
         totalCount: fetchedPayments.length,
-        percentPaid: fetchedPayments.length > 0 
-          ? (paidPayments.length / fetchedPayments.length) * 100 
+        percentPaid: totalAmount > 0 
+          ? Math.min((paidAmount / totalAmount) * 100, 100) 
           : 0
       });
       
+      // Fetch the payout, or what it should come to
+      const payoutResponse = await api.get(`/cycles/${cycleId}/payout`);
+      setPayout(payoutResponse.data.payout);
+      setExpectedPayout(payoutResponse.data.expected);
+      
       // Check if user is admin
       const membersResponse = await api.get('/memberships', {
         params: { groupId }
@@ -164,36 +291,241 @@ const CycleDetailScreen: React.FC<Props> = ({ navigation, route }) => {
     fetchData();
   };
 
-  const handleMarkAsPaid = async (paymentId: number) => {
+  const fetchTransactions = async (paymentId: number) => {
+    setLoadingTransactions(true);
     try {
-      await api.put(`/payments/${paymentId}/pay`);
-      Alert.alert('Success', 'Payment marked as paid');
-      fetchData(); // Refresh data
+      const [transactionsResponse, penaltiesResponse] = await Promise.all([
+        api.get(`/payments/${paymentId}/transactions`),
+        api.get(`/payments/${paymentId}/penalties`)
+      ]);
+      setTransactions(transactionsResponse.data);
+      setPenalties(penaltiesResponse.data);
     } catch (error) {
-      console.error('Error marking payment:', error);
-      Alert.alert('Error', 'Failed to mark payment as paid');
+      console.error('Error fetching transactions:', error);
+      Alert.alert('Error', 'Failed to load payment history');
+    } finally {
+      setLoadingTransactions(false);
+    }
+  };
+
+  const openLedger = (payment: Payment) => {
+    const outstanding = getAmountDue(payment) - payment.amountPaid;
+    
+    setLedgerPayment(payment);
+    setTransactions([]);
+    setPenalties([]);
+    setWaivingPenaltyId(null);
+    setWaiveReason('');
+    setTransactionAmount(outstanding > 0 ? toAmountInput(outstanding, currency) : '');
+    setTransactionMethod('cash');
+    setTransactionReference('');
+    setVoidingTransactionId(null);
+    setVoidReason('');
+    fetchTransactions(payment.id);
+  };
+
+  const handleAddTransaction = async () => {
+    if (!ledgerPayment) return;
+    
+    const amount = parseFloat(transactionAmount);
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Validation Error', 'Please enter the amount received');
+      return;
+    }
+    
+    setSavingTransaction(true);
+    try {
+      const response = await api.post(`/payments/${ledgerPayment.id}/transactions`, {
+        amount,
+        method: transactionMethod,
+        reference: transactionReference.trim() || null
+      });
+      
+      const updated = response.data;
+      const outstanding = updated.amount + updated.penaltyTotal - updated.amountPaid;
+      setLedgerPayment({ ...ledgerPayment, ...updated });
+      setTransactionAmount(outstanding > 0 ? toAmountInput(outstanding, currency) : '');
+      setTransactionReference('');
+      fetchTransactions(ledgerPayment.id);
+      fetchData(); // Refresh data
+    } catch (error: any) {
+      console.error('Error recording transaction:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to record payment');
+    } finally {
+      setSavingTransaction(false);
+    }
+  };
+
+  const handleVoidTransaction = async () => {
+    if (!ledgerPayment || voidingTransactionId === null) return;
+    
+    if (!voidReason.trim()) {
+      Alert.alert('Reason Required', 'Please explain why this transaction is being voided');
+      return;
+    }
+    
+    try {
+      const response = await api.put(`/payment-transactions/${voidingTransactionId}/void`, {
+        reason: voidReason.trim()
+      });
+      
+      setLedgerPayment({ ...ledgerPayment, ...response.data });
+      setVoidingTransactionId(null);
+      setVoidReason('');
+      fetchTransactions(ledgerPayment.id);
+      fetchData(); // Refresh data
+    } catch (error: any) {
+      console.error('Error voiding transaction:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to void transaction');
+    }
+  };
+
+  const handleWaivePenalty = async () => {
+    if (!ledgerPayment || waivingPenaltyId === null) return;
+    
+    if (!waiveReason.trim()) {
+      Alert.alert('Reason Required', 'Please explain why this late fee is being waived');
+      return;
+    }
+    
+    try {
+      const response = await api.put(`/payment-penalties/${waivingPenaltyId}/waive`, {
+        reason: waiveReason.trim()
+      });
+      
+      setLedgerPayment({ ...ledgerPayment, ...response.data });
+      setWaivingPenaltyId(null);
+      setWaiveReason('');
+      fetchTransactions(ledgerPayment.id);
+      fetchData(); // Refresh data
+    } catch (error: any) {
+      console.error('Error waiving penalty:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to waive penalty');
     }
   };
 
   const handlePayNow = (payment: Payment) => {
-    // This would normally open a payment gateway
-    Alert.alert(
-      'Payment',
-      `You are about to pay $${payment.amount} for Cycle #${cycle?.cycleIndex}`,
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { 
-          text: 'Confirm Payment', 
-          onPress: () => {
-            // Simulate payment process
-            Alert.alert('Payment Processing', 'Please wait...');
-            setTimeout(() => {
-              handleMarkAsPaid(payment.id);
-            }, 1500);
-          }
-        }
-      ]
-    );
+    const outstanding = getAmountDue(payment) - payment.amountPaid;
+    
+    setDeclarePayment(payment);
+    setDeclareAmount(outstanding > 0 ? toAmountInput(outstanding, currency) : '');
+    setDeclareMethod('cash');
+    setDeclareReference('');
+    setDeclareNote('');
+    setReceipt(null);
+  };
+
+  const handlePickReceipt = async () => {
+    const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    
+    if (permissionResult.granted === false) {
+      Alert.alert('Permission Required', 'Please allow access to your photo library to attach a receipt.');
+      return;
+    }
+    
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.5,
+      base64: true,
+    });
+    
+    if (!result.canceled && result.assets[0].base64) {
+      setReceipt({
+        uri: result.assets[0].uri,
+        base64: result.assets[0].base64,
+        contentType: result.assets[0].mimeType || 'image/jpeg',
+      });
+    }
+  };
+
+  const handleDeclarePayment = async () => {
+    if (!declarePayment) return;
+    
+    const amount = parseFloat(declareAmount);
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Validation Error', 'Please enter the amount you paid');
+      return;
+    }
+    
+    setDeclaring(true);
+    try {
+      await api.post(`/payments/${declarePayment.id}/declarations`, {
+        amount,
+        method: declareMethod,
+        reference: declareReference.trim() || null,
+        note: declareNote.trim() || null,
+        receipt: receipt ? { data: receipt.base64, contentType: receipt.contentType } : null
+      });
+      
+      setDeclarePayment(null);
+      Alert.alert('Payment Sent for Confirmation', 'A group admin or the recipient will confirm it shortly.');
+      fetchData(); // Refresh data
+    } catch (error: any) {
+      console.error('Error declaring payment:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to declare payment');
+    } finally {
+      setDeclaring(false);
+    }
+  };
+
+  // Admins nudge members who haven't paid; the server limits it to once a day
+  const handleSendReminder = async (payment: Payment) => {
+    try {
+      const response = await api.post(`/payments/${payment.id}/send-reminder`);
+      const channels: string[] = response.data.channels;
+      const labels: Record<string, string> = { push: 'push notification', email: 'email', inApp: 'in-app notification' };
+      Alert.alert(
+        'Reminder Sent',
+        `${payment.user.name} was reminded by ${channels.map(channel => labels[channel]).join(' and ')}.`
+      );
+    } catch (error: any) {
+      console.error('Error sending reminder:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to send reminder');
+    }
+  };
+
+  const openReview = async (payment: Payment) => {
+    const declaration = payment.declarations?.[0];
+    if (!declaration) return;
+    
+    setReviewPayment(payment);
+    setReviewReceipt(null);
+    setReviewNote('');
+    
+    if (declaration.receiptKey) {
+      try {
+        const response = await api.get(`/payment-declarations/${declaration.id}/receipt`);
+        setReviewReceipt(`data:${response.data.contentType};base64,${response.data.data}`);
+      } catch (error) {
+        console.error('Error fetching receipt:', error);
+      }
+    }
+  };
+
+  const handleReview = async (decision: 'confirm' | 'dispute') => {
+    const declaration = reviewPayment?.declarations?.[0];
+    if (!declaration) return;
+    
+    if (decision === 'dispute' && !reviewNote.trim()) {
+      Alert.alert('Reason Required', 'Please say why you are disputing this payment');
+      return;
+    }
+    
+    setReviewing(true);
+    try {
+      await api.put(`/payment-declarations/${declaration.id}/${decision}`, {
+        note: reviewNote.trim() || null
+      });
+      
+      setReviewPayment(null);
+      Alert.alert('Success', decision === 'confirm' ? 'Payment confirmed' : 'Payment disputed');
+      fetchData(); // Refresh data
+    } catch (error: any) {
+      console.error('Error reviewing payment:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to review payment');
+    } finally {
+      setReviewing(false);
+    }
   };
 
   const handleAssignRecipient = async (memberId: number) => {
@@ -211,44 +543,192 @@ const CycleDetailScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
-  const handleCompleteCycle = async () => {
-    if (paymentStats.paidCount < paymentStats.totalCount) {
-      Alert.alert(
-        'Warning',
-        'Not all payments have been received. Are you sure you want to mark this cycle as complete?',
-        [
-          { text: 'Cancel', style: 'cancel' },
-          { 
-            text: 'Complete Anyway', 
-            onPress: async () => {
-              try {
-                await api.put(`/cycles/${cycleId}`, {
-                  status: 'completed'
-                });
-                
-                Alert.alert('Success', 'Cycle marked as completed');
-                fetchData(); // Refresh data
-              } catch (error) {
-                console.error('Error completing cycle:', error);
-                Alert.alert('Error', 'Failed to complete cycle');
-              }
+  const updateStatus = async (status: CycleStatus, reason?: string) => {
+    try {
+      await api.put(`/cycles/${cycleId}`, { status, reason });
+      
+      setOverrideStatus(null);
+      setOverrideReason('');
+      Alert.alert('Success', `Cycle is now ${getCycleStatusLabel(status).toLowerCase()}`);
+      fetchData(); // Refresh data
+    } catch (error: any) {
+      console.error('Error updating cycle status:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to update cycle status');
+    }
+  };
+
+  const openPayoutModal = () => {
+    if (!cycle?.recipientUserId) {
+      Alert.alert('No Recipient', 'Assign a recipient before recording the payout.');
+      return;
+    }
+    
+    setPayoutAmount(expectedPayout ? toAmountInput(expectedPayout.amount, currency) : '');
+    setPayoutMethod('cash');
+    setPayoutReference('');
+    setOverrideReason('');
+    setPayoutModalVisible(true);
+  };
+
+  const handleRecordPayout = async () => {
+    const amount = parseFloat(payoutAmount);
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Validation Error', 'Please enter the amount that was paid out');
+      return;
+    }
+    
+    const hasUnpaid = paymentStats.paidCount < paymentStats.totalCount;
+    if (hasUnpaid && !overrideReason.trim()) {
+      Alert.alert('Reason Required', 'Some payments are unpaid. Explain why the payout is going ahead anyway.');
+      return;
+    }
+    
+    setRecordingPayout(true);
+    try {
+      await api.post(`/cycles/${cycleId}/payout`, {
+        amount,
+        method: payoutMethod,
+        reference: payoutReference.trim() || null,
+        reason: hasUnpaid ? overrideReason.trim() : undefined
+      });
+      
+      setPayoutModalVisible(false);
+      Alert.alert('Success', 'Payout recorded. The recipient will be asked to confirm receipt.');
+      fetchData(); // Refresh data
+    } catch (error: any) {
+      console.error('Error recording payout:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to record payout');
+    } finally {
+      setRecordingPayout(false);
+    }
+  };
+
+  const handleConfirmPayout = () => {
+    if (!payout) return;
+    
+    Alert.alert(
+      'Confirm Receipt',
+      `Confirm that you received ${formatMoney(payout.amount, currency)}?`,
+      [
+        { text: 'Not Yet', style: 'cancel' },
+        {
+          text: 'I Received It',
+          onPress: async () => {
+            try {
+              await api.put(`/payouts/${payout.id}/confirm`);
+              Alert.alert('Thank you', 'Receipt confirmed');
+              fetchData(); // Refresh data
+            } catch (error: any) {
+              console.error('Error confirming payout:', error);
+              Alert.alert('Error', error.response?.data?.error || 'Failed to confirm payout');
             }
           }
+        }
+      ]
+    );
+  };
+
+  const handleStatusChange = (status: CycleStatus) => {
+    // Paying out goes through the payout form so the disbursement is on record
+    if (status === 'paid_out') {
+      openPayoutModal();
+      return;
+    }
+    
+    // Settling a cycle that still has unpaid payments needs a reason on record
+    if (SETTLED_STATUSES.includes(status) && paymentStats.paidCount < paymentStats.totalCount) {
+      setOverrideReason('');
+      setOverrideStatus(status);
+      return;
+    }
+    
+    if (status === 'cancelled') {
+      Alert.alert(
+        'Cancel Cycle',
+        'A cancelled cycle can no longer collect payments or be paid out. Continue?',
+        [
+          { text: 'No', style: 'cancel' },
+          { text: 'Cancel Cycle', style: 'destructive', onPress: () => updateStatus(status) }
         ]
       );
-    } else {
-      try {
-        await api.put(`/cycles/${cycleId}`, {
-          status: 'completed'
-        });
-        
-        Alert.alert('Success', 'Cycle marked as completed');
-        fetchData(); // Refresh data
-      } catch (error) {
-        console.error('Error completing cycle:', error);
-        Alert.alert('Error', 'Failed to complete cycle');
+      return;
+    }
+    
+    updateStatus(status);
+  };
+
+  const currentUserId = parseInt(userId || '0', 10);
+  const canReviewPayments = isAdmin || (!!cycle && cycle.recipientUserId === currentUserId);
+
+  const renderPaymentAction = (item: Payment) => {
+    const declaration = item.declarations?.[0];
+    
+    if (isPaymentSettled(item.status)) {
+      return (
+        <View style={styles.paidBadge}>
+          <Ionicons name="checkmark-circle" size={20} color="#4CAF50" />
+          <Text style={styles.paidText}>{getPaymentStatusLabel(item.status)}</Text>
+        </View>
+      );
+    }
+    
+    // A declared payment waits on someone other than the payer
+    if (declaration?.status === 'pending') {
+      if (canReviewPayments && item.userId !== currentUserId) {
+        return (
+          <TouchableOpacity 
+            style={styles.markPaidButton}
+            onPress={() => openReview(item)}
+          >
+            <Text style={styles.markPaidText}>Review</Text>
+          </TouchableOpacity>
+        );
       }
+      
+      return (
+        <View style={styles.pendingBadge}>
+          <Text style={styles.pendingText}>Awaiting Confirmation</Text>
+        </View>
+      );
     }
+    
+    if (item.userId === currentUserId) {
+      return (
+        <TouchableOpacity 
+          style={styles.payNowButton}
+          onPress={() => handlePayNow(item)}
+        >
+          <Text style={styles.payNowText}>Pay Now</Text>
+        </TouchableOpacity>
+      );
+    }
+    
+    if (isAdmin) {
+      return (
+        <View style={styles.adminPaymentActions}>
+          <TouchableOpacity 
+            style={styles.remindButton}
+            onPress={() => handleSendReminder(item)}
+          >
+            <Ionicons name="notifications-outline" size={18} color="#F57C00" />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.markPaidButton}
+            onPress={() => openLedger(item)}
+          >
+            <Text style={styles.markPaidText}>Record</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    
+    return (
+      <View style={[styles.pendingBadge, { backgroundColor: getPaymentStatusColors(item.status).background }]}>
+        <Text style={[styles.pendingText, { color: getPaymentStatusColors(item.status).text }]}>
+          {getPaymentStatusLabel(item.status)}
+        </Text>
+      </View>
+    );
   };
 
   const formatDate = (dateString: string) => {
@@ -286,11 +766,15 @@ const CycleDetailScreen: React.FC<Props> = ({ navigation, route }) => {
                 'Choose an action',
                 [
                   { text: 'Cancel', style: 'cancel' },
-                  { 
-                    text: 'Complete Cycle', 
-                    onPress: handleCompleteCycle,
-                    style: cycle?.status === 'completed' ? 'default' : 'default' 
-                  },
+                  ...(CYCLE_STATUS_ACTIONS[cycle?.status as CycleStatus] || []).map(action => ({
+                    text: action.label,
+                    onPress: () => handleStatusChange(action.status)
+                  })),
+                  ...(cycle && canCancelCycle(cycle.status) ? [{
+                    text: 'Cancel Cycle',
+                    onPress: () => handleStatusChange('cancelled'),
+                    style: 'destructive' as const
+                  }] : []),
                   { 
                     text: 'Delete Cycle', 
                     onPress: () => {
@@ -335,19 +819,19 @@ const CycleDetailScreen: React.FC<Props> = ({ navigation, route }) => {
             <Text style={styles.cycleStatus}>
               Status: <Text style={[
                 styles.statusText, 
-                cycle?.status === 'completed' ? styles.completedText : styles.activeText
+                { color: getCycleStatusColors(cycle?.status || '').text }
               ]}>
-                {cycle?.status || 'Active'}
+                {getCycleStatusLabel(cycle?.status || '')}
               </Text>
             </Text>
           </View>
           
           <View style={[
             styles.statusBadge, 
-            cycle?.status === 'completed' ? styles.completedBadge : styles.activeBadge
+            { backgroundColor: getCycleStatusColors(cycle?.status || '').background }
           ]}>
             <Text style={styles.statusBadgeText}>
-              {cycle?.status === 'completed' ? 'Completed' : 'Active'}
+              {getCycleStatusLabel(cycle?.status || '')}
             </Text>
           </View>
         </View>
@@ -363,6 +847,11 @@ const CycleDetailScreen: React.FC<Props> = ({ navigation, route }) => {
               <Text style={styles.infoLabel}>End Date</Text>
               <Text style={styles.infoValue}>{formatDate(cycle?.endDate || '')}</Text>
             </View>
+            
+            <View style={styles.infoItem}>
+              <Text style={styles.infoLabel}>Payments Due</Text>
+              <Text style={styles.infoValue}>{formatDate(cycle?.dueDate || '')}</Text>
+            </View>
           </View>
           
           <View style={styles.recipientSection}>
@@ -403,7 +892,7 @@ const CycleDetailScreen: React.FC<Props> = ({ navigation, route }) => {
         
         <View style={styles.progressStats}>
           <View style={styles.statItem}>
-            <Text style={styles.statValue}>${paymentStats.paidAmount.toFixed(2)}</Text>
+            <Text style={styles.statValue}>{formatMoney(paymentStats.paidAmount, currency)}</Text>
             <Text style={styles.statLabel}>Collected</Text>
           </View>
           
@@ -422,7 +911,7 @@ const CycleDetailScreen: React.FC<Props> = ({ navigation, route }) => {
           </View>
           
           <View style={styles.statItem}>
-            <Text style={styles.statValue}>${paymentStats.totalAmount.toFixed(2)}</Text>
+            <Text style={styles.statValue}>{formatMoney(paymentStats.totalAmount, currency)}</Text>
             <Text style={styles.statLabel}>Total</Text>
           </View>
         </View>
@@ -431,16 +920,73 @@ const CycleDetailScreen: React.FC<Props> = ({ navigation, route }) => {
           <Text style={styles.countText}>
             {paymentStats.paidCount} of {paymentStats.totalCount} payments received
           </Text>
+          {paymentStats.penaltyAmount > 0 && (
+            <Text style={styles.penaltyText}>
+              Includes {formatMoney(paymentStats.penaltyAmount, currency)} in late fees
+            </Text>
+          )}
         </View>
       </View>
       
+      {/* Payout Card */}
+      {payout ? (
+        <View style={styles.payoutCard}>
+          <View style={styles.payoutHeader}>
+            <Text style={styles.cardTitle}>Payout</Text>
+            <Text style={styles.payoutAmount}>{formatMoney(payout.amount, currency)}</Text>
+          </View>
+          <Text style={styles.payoutDetail}>
+            {getPaymentMethodLabel(payout.method)}
+            {payout.reference ? ` · Ref ${payout.reference}` : ''}
+          </Text>
+          <Text style={styles.payoutDetail}>
+            Sent {formatDate(payout.disbursedAt)}{payout.disbursedBy ? ` by ${payout.disbursedBy.name}` : ''}
+          </Text>
+          {payout.confirmedAt ? (
+            <View style={styles.payoutConfirmed}>
+              <Ionicons name="checkmark-circle" size={18} color="#4CAF50" />
+              <Text style={styles.payoutConfirmedText}>
+                Received on {formatDate(payout.confirmedAt)}
+              </Text>
+            </View>
+          ) : parseInt(userId || '0', 10) === payout.recipientId ? (
+            <TouchableOpacity style={styles.confirmPayoutButton} onPress={handleConfirmPayout}>
+              <Text style={styles.confirmPayoutText}>Confirm Receipt</Text>
+            </TouchableOpacity>
+          ) : (
+            <Text style={styles.payoutPendingText}>Waiting for the recipient to confirm</Text>
+          )}
+        </View>
+      ) : expectedPayout && cycle?.status !== 'cancelled' ? (
+        <View style={styles.payoutCard}>
+          <View style={styles.payoutHeader}>
+            <Text style={styles.cardTitle}>Expected Payout</Text>
+            <Text style={styles.payoutAmount}>{formatMoney(expectedPayout.amount, currency)}</Text>
+          </View>
+          {expectedPayout.fee > 0 && (
+            <Text style={styles.payoutDetail}>
+              {formatMoney(expectedPayout.collected, currency)} collected - {formatMoney(expectedPayout.fee, currency)} fees
+            </Text>
+          )}
+          {isAdmin && cycle?.status === 'ready_for_payout' && (
+            <TouchableOpacity style={styles.confirmPayoutButton} onPress={openPayoutModal}>
+              <Text style={styles.confirmPayoutText}>Record Payout</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ) : null}
+      
       {/* Payments List */}
       <Text style={styles.sectionTitle}>Member Payments</Text>
       <FlatList
         data={payments}
         keyExtractor={(item) => item.id.toString()}
         renderItem={({ item }) => (
-          <View style={styles.paymentItem}>
+          <TouchableOpacity
+            style={styles.paymentItem}
+            onPress={() => openLedger(item)}
+            disabled={!isAdmin && parseInt(userId || '0', 10) !== item.userId}
+          >
             <View style={styles.paymentUserInfo}>
               <View style={styles.paymentAvatar}>
                 <Text style={styles.paymentInitial}>
@@ -450,50 +996,501 @@ const CycleDetailScreen: React.FC<Props> = ({ navigation, route }) => {
               
               <View style={styles.paymentDetails}>
                 <Text style={styles.paymentUserName}>{item.user.name}</Text>
-                <Text style={styles.paymentAmount}>${item.amount.toFixed(2)}</Text>
-                {item.paid && item.paidAt && (
+                <Text style={styles.paymentAmount}>
+                  {item.status === 'unpaid'
+                    ? formatMoney(getAmountDue(item), currency)
+                    : `${formatMoney(item.amountPaid, currency)} of ${formatMoney(getAmountDue(item), currency)}`}
+                </Text>
+                {item.penaltyTotal > 0 && (
+                  <Text style={styles.penaltyText}>
+                    Includes {formatMoney(item.penaltyTotal, currency)} late fee
+                  </Text>
+                )}
+                {item.status === 'partial' && (
+                  <View style={styles.paymentProgressBar}>
+                    <View 
+                      style={[
+                        styles.paymentProgressFill, 
+                        { width: `${(item.amountPaid / getAmountDue(item)) * 100}%` }
+                      ]} 
+                    />
+                  </View>
+                )}
+                {isPaymentSettled(item.status) && item.paidAt && (
                   <Text style={styles.paymentDate}>
                     Paid on {formatDate(item.paidAt)}
                   </Text>
                 )}
-              </View>
+                {!isPaymentSettled(item.status) && item.declarations?.[0]?.status === 'disputed' && (
+                  <Text style={styles.disputedText}>
+                    Disputed: {item.declarations[0].reviewNote}
+                  </Text>
+                )}
+              </View>
+            </View>
+            
+            {renderPaymentAction(item)}
+          </TouchableOpacity>
+        )}
+        contentContainerStyle={styles.paymentsList}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#4CAF50']} />
+        }
+      />
+      
+      {/* Override Reason Modal */}
+      <Modal
+        visible={overrideStatus !== null}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setOverrideStatus(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Unpaid Payments</Text>
+              <TouchableOpacity onPress={() => setOverrideStatus(null)}>
+                <Ionicons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+            
+            <View style={styles.overrideContent}>
+              <Text style={styles.overrideText}>
+                {paymentStats.totalCount - paymentStats.paidCount} payment(s) have not been received.
+                Explain why this cycle should be marked {getCycleStatusLabel(overrideStatus || '').toLowerCase()} anyway.
+                The reason is kept in the cycle history.
+              </Text>
+              <TextInput
+                style={styles.overrideInput}
+                value={overrideReason}
+                onChangeText={setOverrideReason}
+                placeholder="e.g., Member paid the recipient in cash"
+                multiline
+              />
+              <TouchableOpacity 
+                style={[styles.overrideButton, !overrideReason.trim() && styles.overrideButtonDisabled]}
+                disabled={!overrideReason.trim()}
+                onPress={() => overrideStatus && updateStatus(overrideStatus, overrideReason.trim())}
+              >
+                <Text style={styles.overrideButtonText}>Continue Anyway</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+      
+      {/* Declare Payment Modal */}
+      <Modal
+        visible={declarePayment !== null}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setDeclarePayment(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Declare Payment</Text>
+              <TouchableOpacity onPress={() => setDeclarePayment(null)}>
+                <Ionicons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+            
+            <ScrollView style={styles.overrideContent}>
+              <Text style={styles.overrideText}>
+                Tell the group how you paid for Cycle #{cycle?.cycleIndex}. It counts once an admin or the recipient confirms it.
+              </Text>
+              
+              <Text style={styles.payoutLabel}>Amount</Text>
+              <TextInput
+                style={styles.payoutInput}
+                value={declareAmount}
+                onChangeText={setDeclareAmount}
+                keyboardType="numeric"
+                placeholder="0.00"
+              />
+              
+              <Text style={styles.payoutLabel}>Method</Text>
+              <View style={styles.methodRow}>
+                {PAYMENT_METHOD_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.methodOption, declareMethod === option.value && styles.selectedMethodOption]}
+                    onPress={() => setDeclareMethod(option.value)}
+                  >
+                    <Text style={[styles.methodText, declareMethod === option.value && styles.selectedMethodText]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              <Text style={styles.payoutLabel}>Reference (optional)</Text>
+              <TextInput
+                style={styles.payoutInput}
+                value={declareReference}
+                onChangeText={setDeclareReference}
+                placeholder="Transfer or receipt number"
+              />
+              
+              <Text style={styles.payoutLabel}>Note (optional)</Text>
+              <TextInput
+                style={styles.payoutInput}
+                value={declareNote}
+                onChangeText={setDeclareNote}
+                placeholder="e.g., Handed to Amina at the meeting"
+              />
+              
+              <TouchableOpacity style={styles.receiptButton} onPress={handlePickReceipt}>
+                {receipt ? (
+                  <Image source={{ uri: receipt.uri }} style={styles.receiptPreview} />
+                ) : (
+                  <>
+                    <Ionicons name="camera-outline" size={20} color="#4CAF50" />
+                    <Text style={styles.receiptButtonText}>Attach Receipt</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+              
+              <TouchableOpacity 
+                style={styles.recordPayoutButton}
+                onPress={handleDeclarePayment}
+                disabled={declaring}
+              >
+                {declaring ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <Text style={styles.overrideButtonText}>Send for Confirmation</Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+      
+      {/* Review Declaration Modal */}
+      <Modal
+        visible={reviewPayment !== null}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setReviewPayment(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Review Payment</Text>
+              <TouchableOpacity onPress={() => setReviewPayment(null)}>
+                <Ionicons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+            
+            {reviewPayment?.declarations?.[0] && (
+              <ScrollView style={styles.overrideContent}>
+                <Text style={styles.overrideText}>
+                  {reviewPayment.user.name} says they paid {formatMoney(reviewPayment.declarations[0].amount, currency)} by{' '}
+                  {getPaymentMethodLabel(reviewPayment.declarations[0].method).toLowerCase()} on{' '}
+                  {formatDate(reviewPayment.declarations[0].createdAt)}.
+                </Text>
+                {reviewPayment.declarations[0].reference && (
+                  <Text style={styles.payoutDetail}>Ref {reviewPayment.declarations[0].reference}</Text>
+                )}
+                {reviewPayment.declarations[0].note && (
+                  <Text style={styles.payoutDetail}>"{reviewPayment.declarations[0].note}"</Text>
+                )}
+                
+                {reviewPayment.declarations[0].receiptKey && (
+                  reviewReceipt ? (
+                    <Image source={{ uri: reviewReceipt }} style={styles.receiptImage} resizeMode="contain" />
+                  ) : (
+                    <ActivityIndicator color="#4CAF50" style={styles.ledgerLoading} />
+                  )
+                )}
+                
+                <Text style={[styles.payoutLabel, styles.ledgerFormTitle]}>Note (required to dispute)</Text>
+                <TextInput
+                  style={styles.overrideInput}
+                  value={reviewNote}
+                  onChangeText={setReviewNote}
+                  placeholder="e.g., Nothing arrived in the group account"
+                  multiline
+                />
+                
+                <View style={styles.reviewActions}>
+                  <TouchableOpacity 
+                    style={[styles.reviewButton, styles.disputeButton]}
+                    onPress={() => handleReview('dispute')}
+                    disabled={reviewing}
+                  >
+                    <Text style={styles.overrideButtonText}>Dispute</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity 
+                    style={[styles.reviewButton, styles.confirmButton]}
+                    onPress={() => handleReview('confirm')}
+                    disabled={reviewing}
+                  >
+                    {reviewing ? (
+                      <ActivityIndicator color="#fff" size="small" />
+                    ) : (
+                      <Text style={styles.overrideButtonText}>Confirm</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+      
+      {/* Payment Ledger Modal */}
+      <Modal
+        visible={ledgerPayment !== null}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setLedgerPayment(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{ledgerPayment?.user.name}'s Payment</Text>
+              <TouchableOpacity onPress={() => setLedgerPayment(null)}>
+                <Ionicons name="close" size={24} color="#666" />
+              </TouchableOpacity>
             </View>
             
-            {item.paid ? (
-              <View style={styles.paidBadge}>
-                <Ionicons name="checkmark-circle" size={20} color="#4CAF50" />
-                <Text style={styles.paidText}>Paid</Text>
-              </View>
-            ) : (
-              parseInt(userId || '0', 10) === item.userId ? (
-                <TouchableOpacity 
-                  style={styles.payNowButton}
-                  onPress={() => handlePayNow(item)}
-                >
-                  <Text style={styles.payNowText}>Pay Now</Text>
-                </TouchableOpacity>
+            <ScrollView style={styles.overrideContent}>
+              {ledgerPayment && (
+                <Text style={styles.overrideText}>
+                  {formatMoney(ledgerPayment.amountPaid, currency)} of {formatMoney(getAmountDue(ledgerPayment), currency)} received
+                  {' · '}{getPaymentStatusLabel(ledgerPayment.status)}
+                </Text>
+              )}
+              
+              {loadingTransactions ? (
+                <ActivityIndicator color="#4CAF50" style={styles.ledgerLoading} />
+              ) : transactions.length === 0 ? (
+                <Text style={styles.ledgerEmptyText}>No money recorded yet</Text>
               ) : (
-                isAdmin ? (
+                transactions.map(transaction => (
+                  <View key={transaction.id} style={styles.ledgerItem}>
+                    <View style={styles.ledgerItemInfo}>
+                      <Text style={[styles.ledgerAmount, transaction.voidedAt ? styles.ledgerVoided : null]}>
+                        {formatMoney(transaction.amount, currency)} · {getPaymentMethodLabel(transaction.method)}
+                      </Text>
+                      <Text style={styles.ledgerMeta}>
+                        {formatDate(transaction.createdAt)}
+                        {transaction.recordedBy ? ` by ${transaction.recordedBy.name}` : ''}
+                        {transaction.reference ? ` · Ref ${transaction.reference}` : ''}
+                      </Text>
+                      {transaction.voidedAt && (
+                        <Text style={styles.ledgerVoidReason}>
+                          Voided: {transaction.voidReason}
+                        </Text>
+                      )}
+                    </View>
+                    {isAdmin && !transaction.voidedAt && voidingTransactionId !== transaction.id && (
+                      <TouchableOpacity onPress={() => { setVoidingTransactionId(transaction.id); setVoidReason(''); }}>
+                        <Text style={styles.ledgerVoidText}>Void</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))
+              )}
+              
+              {voidingTransactionId !== null && (
+                <View style={styles.ledgerVoidForm}>
+                  <TextInput
+                    style={styles.payoutInput}
+                    value={voidReason}
+                    onChangeText={setVoidReason}
+                    placeholder="Why is this transaction being voided?"
+                  />
+                  <View style={styles.ledgerVoidActions}>
+                    <TouchableOpacity onPress={() => setVoidingTransactionId(null)}>
+                      <Text style={styles.ledgerCancelText}>Keep</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={handleVoidTransaction}>
+                      <Text style={styles.ledgerVoidText}>Void Transaction</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+              
+              {penalties.length > 0 && (
+                <>
+                  <Text style={[styles.payoutLabel, styles.ledgerFormTitle]}>Late Fees</Text>
+                  {penalties.map(penalty => (
+                    <View key={penalty.id} style={styles.ledgerItem}>
+                      <View style={styles.ledgerItemInfo}>
+                        <Text style={[styles.ledgerAmount, penalty.waivedAt ? styles.ledgerVoided : null]}>
+                          {formatMoney(penalty.amount, currency)} · {penalty.daysLate} day(s) late
+                        </Text>
+                        <Text style={styles.ledgerMeta}>Charged {formatDate(penalty.assessedOn)}</Text>
+                        {penalty.waivedAt && (
+                          <Text style={styles.ledgerVoidReason}>
+                            Waived: {penalty.waiveReason}
+                          </Text>
+                        )}
+                      </View>
+                      {isAdmin && !penalty.waivedAt && waivingPenaltyId !== penalty.id && (
+                        <TouchableOpacity onPress={() => { setWaivingPenaltyId(penalty.id); setWaiveReason(''); }}>
+                          <Text style={styles.ledgerVoidText}>Waive</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  ))}
+                </>
+              )}
+              
+              {waivingPenaltyId !== null && (
+                <View style={styles.ledgerVoidForm}>
+                  <TextInput
+                    style={styles.payoutInput}
+                    value={waiveReason}
+                    onChangeText={setWaiveReason}
+                    placeholder="Why is this late fee being waived?"
+                  />
+                  <View style={styles.ledgerVoidActions}>
+                    <TouchableOpacity onPress={() => setWaivingPenaltyId(null)}>
+                      <Text style={styles.ledgerCancelText}>Keep</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={handleWaivePenalty}>
+                      <Text style={styles.ledgerVoidText}>Waive Fee</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+              
+              {isAdmin && cycle && cycle.status !== 'closed' && cycle.status !== 'cancelled' && (
+                <>
+                  <Text style={[styles.payoutLabel, styles.ledgerFormTitle]}>Record Money Received</Text>
+                  <TextInput
+                    style={styles.payoutInput}
+                    value={transactionAmount}
+                    onChangeText={setTransactionAmount}
+                    keyboardType="numeric"
+                    placeholder="0.00"
+                  />
+                  
+                  <View style={styles.methodRow}>
+                    {PAYMENT_METHOD_OPTIONS.map(option => (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[styles.methodOption, transactionMethod === option.value && styles.selectedMethodOption]}
+                        onPress={() => setTransactionMethod(option.value)}
+                      >
+                        <Text style={[styles.methodText, transactionMethod === option.value && styles.selectedMethodText]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  
+                  <TextInput
+                    style={styles.payoutInput}
+                    value={transactionReference}
+                    onChangeText={setTransactionReference}
+                    placeholder="Reference (optional)"
+                  />
+                  
                   <TouchableOpacity 
-                    style={styles.markPaidButton}
-                    onPress={() => handleMarkAsPaid(item.id)}
+                    style={styles.recordPayoutButton}
+                    onPress={handleAddTransaction}
+                    disabled={savingTransaction}
+                  >
+                    {savingTransaction ? (
+                      <ActivityIndicator color="#fff" size="small" />
+                    ) : (
+                      <Text style={styles.overrideButtonText}>Record Payment</Text>
+                    )}
+                  </TouchableOpacity>
+                </>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+      
+      {/* Record Payout Modal */}
+      <Modal
+        visible={payoutModalVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setPayoutModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Record Payout</Text>
+              <TouchableOpacity onPress={() => setPayoutModalVisible(false)}>
+                <Ionicons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+            
+            <ScrollView style={styles.overrideContent}>
+              <Text style={styles.overrideText}>
+                Paying {cycle?.recipient?.name || 'the recipient'}
+                {expectedPayout ? `. Expected amount: ${formatMoney(expectedPayout.amount, currency)}` : ''}
+              </Text>
+              
+              <Text style={styles.payoutLabel}>Amount</Text>
+              <TextInput
+                style={styles.payoutInput}
+                value={payoutAmount}
+                onChangeText={setPayoutAmount}
+                keyboardType="numeric"
+                placeholder="0.00"
+              />
+              
+              <Text style={styles.payoutLabel}>Method</Text>
+              <View style={styles.methodRow}>
+                {PAYMENT_METHOD_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.methodOption, payoutMethod === option.value && styles.selectedMethodOption]}
+                    onPress={() => setPayoutMethod(option.value)}
                   >
-                    <Text style={styles.markPaidText}>Mark Paid</Text>
+                    <Text style={[styles.methodText, payoutMethod === option.value && styles.selectedMethodText]}>
+                      {option.label}
+                    </Text>
                   </TouchableOpacity>
+                ))}
+              </View>
+              
+              <Text style={styles.payoutLabel}>Reference (optional)</Text>
+              <TextInput
+                style={styles.payoutInput}
+                value={payoutReference}
+                onChangeText={setPayoutReference}
+                placeholder="Transfer or receipt number"
+              />
+              
+              {paymentStats.paidCount < paymentStats.totalCount && (
+                <>
+                  <Text style={styles.payoutLabel}>Reason for paying out with unpaid payments</Text>
+                  <TextInput
+                    style={styles.overrideInput}
+                    value={overrideReason}
+                    onChangeText={setOverrideReason}
+                    placeholder="e.g., Admin advanced the missing contributions"
+                    multiline
+                  />
+                </>
+              )}
+              
+              <TouchableOpacity 
+                style={styles.recordPayoutButton}
+                onPress={handleRecordPayout}
+                disabled={recordingPayout}
+              >
+                {recordingPayout ? (
+                  <ActivityIndicator color="#fff" size="small" />
                 ) : (
-                  <View style={styles.pendingBadge}>
-                    <Text style={styles.pendingText}>Pending</Text>
-                  </View>
-                )
-              )
-            )}
+                  <Text style={styles.overrideButtonText}>Record Payout</Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
           </View>
-        )}
-        contentContainerStyle={styles.paymentsList}
-        refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#4CAF50']} />
-        }
-      />
+        </View>
+      </Modal>
       
       {/* Recipient Selection Modal */}
       <Modal
@@ -614,23 +1611,11 @@ const styles = StyleSheet.create({
   statusText: {
     fontWeight: '500',
   },
-  activeText: {
-    color: '#4CAF50',
-  },
-  completedText: {
-    color: '#2196F3',
-  },
   statusBadge: {
     paddingHorizontal: 12,
     paddingVertical: 6,
     borderRadius: 16,
   },
-  activeBadge: {
-    backgroundColor: '#E8F5E9',
-  },
-  completedBadge: {
-    backgroundColor: '#E3F2FD',
-  },
   statusBadgeText: {
     fontSize: 14,
     fontWeight: '500',
@@ -885,6 +1870,16 @@ const styles = StyleSheet.create({
     color: '#4CAF50',
     fontWeight: '500',
   },
+  adminPaymentActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  remindButton: {
+    backgroundColor: '#FFF3E0',
+    padding: 6,
+    borderRadius: 16,
+    marginRight: 8,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -945,6 +1940,273 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  overrideContent: {
+    padding: 16,
+  },
+  overrideText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  overrideInput: {
+    minHeight: 80,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  overrideButton: {
+    backgroundColor: '#FFA000',
+    borderRadius: 8,
+    height: 50,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  overrideButtonDisabled: {
+    opacity: 0.5,
+  },
+  overrideButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  payoutCard: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 8,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  payoutHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  payoutAmount: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+  payoutDetail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  payoutConfirmed: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  payoutConfirmedText: {
+    fontSize: 14,
+    color: '#4CAF50',
+    fontWeight: '500',
+    marginLeft: 6,
+  },
+  payoutPendingText: {
+    fontSize: 14,
+    color: '#F57C00',
+    marginTop: 8,
+  },
+  confirmPayoutButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 8,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  confirmPayoutText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  payoutLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 6,
+  },
+  payoutInput: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 16,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  methodOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedMethodOption: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#E8F5E9',
+  },
+  methodText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  selectedMethodText: {
+    color: '#4CAF50',
+    fontWeight: '500',
+  },
+  recordPayoutButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 8,
+    height: 50,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 32,
+  },
+  paymentProgressBar: {
+    height: 4,
+    backgroundColor: '#f0f0f0',
+    borderRadius: 2,
+    marginTop: 4,
+    overflow: 'hidden',
+  },
+  paymentProgressFill: {
+    height: '100%',
+    backgroundColor: '#2196F3',
+  },
+  ledgerLoading: {
+    marginVertical: 16,
+  },
+  ledgerEmptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  ledgerItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  ledgerItemInfo: {
+    flex: 1,
+  },
+  ledgerAmount: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  ledgerVoided: {
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  ledgerMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  ledgerVoidReason: {
+    fontSize: 12,
+    color: '#FF5252',
+    marginTop: 2,
+  },
+  ledgerVoidText: {
+    fontSize: 14,
+    color: '#FF5252',
+    fontWeight: '500',
+  },
+  ledgerVoidForm: {
+    marginTop: 12,
+  },
+  ledgerVoidActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: -8,
+    marginBottom: 8,
+  },
+  ledgerCancelText: {
+    fontSize: 14,
+    color: '#666',
+    marginRight: 16,
+  },
+  ledgerFormTitle: {
+    marginTop: 16,
+  },
+  disputedText: {
+    fontSize: 12,
+    color: '#FF5252',
+    marginTop: 2,
+  },
+  receiptButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    minHeight: 50,
+    marginBottom: 16,
+    overflow: 'hidden',
+  },
+  receiptButtonText: {
+    fontSize: 16,
+    color: '#4CAF50',
+    marginLeft: 8,
+  },
+  receiptPreview: {
+    width: '100%',
+    height: 160,
+  },
+  receiptImage: {
+    width: '100%',
+    height: 240,
+    marginVertical: 12,
+    borderRadius: 8,
+  },
+  reviewActions: {
+    flexDirection: 'row',
+    marginBottom: 32,
+  },
+  reviewButton: {
+    flex: 1,
+    borderRadius: 8,
+    height: 50,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disputeButton: {
+    backgroundColor: '#FF5252',
+    marginRight: 8,
+  },
+  confirmButton: {
+    backgroundColor: '#4CAF50',
+    marginLeft: 8,
+  },
+  penaltyText: {
+    fontSize: 12,
+    color: '#F57C00',
+    marginTop: 2,
+  },
 });
 
 export default CycleDetailScreen;
\ No newline at end of file
@@ -10,12 +10,14 @@ import {
   KeyboardAvoidingView,
   Platform,
   ActivityIndicator,
-  Modal
+  Modal,
+  Switch
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import api from '../services/api';
+import { CURRENCY_OPTIONS, DEFAULT_CURRENCY } from '../constants/Currency';
 
 type RootStackParamList = {
   GroupDetail: { groupId: number; groupName: string };
@@ -45,15 +47,46 @@ const FREQUENCY_OPTIONS = [
   { label: 'Custom', value: 'custom' }
 ];
 
+const CUSTOM_UNIT_OPTIONS = [
+  { label: 'Days', value: 'day' },
+  { label: 'Weeks', value: 'week' },
+  { label: 'Months', value: 'month' }
+];
+
+const PENALTY_TYPE_OPTIONS = [
+  { label: 'None', value: 'none' },
+  { label: 'Flat Fee', value: 'flat' },
+  { label: 'Percentage', value: 'percent' }
+];
+
+// "3, 0" -> [3, 0]; blanks are dropped so an empty field means no reminders before the due date
+const parseReminderDays = (value: string) => value
+  .split(',')
+  .map(day => day.trim())
+  .filter(day => day !== '')
+  .map(day => Number(day));
+
 const EditGroupScreen: React.FC<Props> = ({ navigation, route }) => {
   const { groupId } = route.params;
   
   const [name, setName] = useState<string>('');
   const [description, setDescription] = useState<string>('');
   const [contribution, setContribution] = useState<string>('');
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [payoutFeePercent, setPayoutFeePercent] = useState<string>('');
+  const [penaltyType, setPenaltyType] = useState<string>('none');
+  const [penaltyRate, setPenaltyRate] = useState<string>('');
+  const [penaltyGraceDays, setPenaltyGraceDays] = useState<string>('');
+  const [penaltyCap, setPenaltyCap] = useState<string>('');
+  const [reminderDaysBefore, setReminderDaysBefore] = useState<string>('');
+  const [reminderOverdueEvery, setReminderOverdueEvery] = useState<string>('');
+  const [reminderMaxCount, setReminderMaxCount] = useState<string>('');
+  const [reminderHour, setReminderHour] = useState<string>('');
   const [frequency, setFrequency] = useState<string>('');
   const [customFrequency, setCustomFrequency] = useState<string>('');
+  const [customUnit, setCustomUnit] = useState<string>('week');
   const [maxMembers, setMaxMembers] = useState<string>('');
+  const [requiresApproval, setRequiresApproval] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(true);
   const [saving, setSaving] = useState<boolean>(false);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
@@ -69,6 +102,16 @@ const EditGroupScreen: React.FC<Props> = ({ navigation, route }) => {
         setName(group.name || '');
         setDescription(group.description || '');
         setContribution(group.contribution ? group.contribution.toString() : '');
+        setCurrency(group.currency || DEFAULT_CURRENCY);
+        setPayoutFeePercent(group.payoutFeePercent ? group.payoutFeePercent.toString() : '');
+        setPenaltyType(group.penaltyType || 'none');
+        setPenaltyRate(group.penaltyRate ? group.penaltyRate.toString() : '');
+        setPenaltyGraceDays(group.penaltyGraceDays ? group.penaltyGraceDays.toString() : '');
+        setPenaltyCap(group.penaltyCap ? group.penaltyCap.toString() : '');
+        setReminderDaysBefore((group.reminderDaysBefore || []).join(', '));
+        setReminderOverdueEvery(group.reminderOverdueEvery !== undefined ? group.reminderOverdueEvery.toString() : '');
+        setReminderMaxCount(group.reminderMaxCount !== undefined ? group.reminderMaxCount.toString() : '');
+        setReminderHour(group.reminderHour !== undefined ? group.reminderHour.toString() : '');
         
         // Handle frequency setting
         if (group.frequency) {
@@ -80,11 +123,13 @@ const EditGroupScreen: React.FC<Props> = ({ navigation, route }) => {
             setFrequency(group.frequency);
           } else {
             setFrequency('custom');
-            setCustomFrequency(group.frequency);
+            setCustomFrequency(group.intervalCount ? group.intervalCount.toString() : '');
+            setCustomUnit(group.intervalUnit || 'week');
           }
         }
         
         setMaxMembers(group.maxMembers ? group.maxMembers.toString() : '');
+        setRequiresApproval(Boolean(group.requiresApproval));
         setLoading(false);
       } catch (error) {
         console.error('Error fetching group details:', error);
@@ -107,12 +152,44 @@ const EditGroupScreen: React.FC<Props> = ({ navigation, route }) => {
       newErrors.contribution = 'Contribution must be a valid number';
     }
     
+    if (payoutFeePercent && !(parseFloat(payoutFeePercent) >= 0 && parseFloat(payoutFeePercent) <= 100)) {
+      newErrors.payoutFeePercent = 'Payout fee must be between 0 and 100';
+    }
+    
+    if (penaltyType !== 'none') {
+      const rate = parseFloat(penaltyRate);
+      if (!(rate > 0) || (penaltyType === 'percent' && rate > 100)) {
+        newErrors.penaltyRate = penaltyType === 'percent'
+          ? 'Enter a percentage between 0 and 100'
+          : 'Enter the fee charged per late day';
+      }
+      if (penaltyGraceDays && !(parseInt(penaltyGraceDays, 10) >= 0)) {
+        newErrors.penaltyGraceDays = 'Grace period must be a whole number of days';
+      }
+      if (penaltyCap && !(parseFloat(penaltyCap) > 0)) {
+        newErrors.penaltyCap = 'Maximum must be greater than zero';
+      }
+    }
+    
+    if (parseReminderDays(reminderDaysBefore).some(day => !(day >= 0 && day <= 30))) {
+      newErrors.reminderDaysBefore = 'Enter days from 0 to 30, separated by commas';
+    }
+    if (reminderOverdueEvery && !(parseInt(reminderOverdueEvery, 10) >= 0)) {
+      newErrors.reminderOverdueEvery = 'Enter a whole number of days, or 0 for no overdue reminders';
+    }
+    if (reminderMaxCount && !(parseInt(reminderMaxCount, 10) >= 0 && parseInt(reminderMaxCount, 10) <= 20)) {
+      newErrors.reminderMaxCount = 'Enter a number from 0 to 20';
+    }
+    if (reminderHour && !(parseInt(reminderHour, 10) >= 0 && parseInt(reminderHour, 10) <= 23)) {
+      newErrors.reminderHour = 'Enter an hour from 0 to 23';
+    }
+    
     if (!frequency) {
       newErrors.frequency = 'Please select a frequency';
     }
     
-    if (frequency === 'custom' && !customFrequency.trim()) {
-      newErrors.customFrequency = 'Please specify the custom frequency';
+    if (frequency === 'custom' && !(parseInt(customFrequency, 10) >= 1)) {
+      newErrors.customFrequency = 'Please enter how often the group pays, e.g. every 10 days';
     }
     
     // Make maxMembers required
@@ -136,14 +213,28 @@ const EditGroupScreen: React.FC<Props> = ({ navigation, route }) => {
     setSaving(true);
     
     try {
-      const effectiveFrequency = frequency === 'custom' ? customFrequency : frequency;
+      // Custom frequencies are sent as a typed interval the server can schedule
+      const schedule = frequency === 'custom'
+        ? { frequency, intervalUnit: customUnit, intervalCount: parseInt(customFrequency, 10) }
+        : { frequency };
       
       await api.put(`/groups/${groupId}`, {
         name,
         description,
         contribution: contribution ? parseFloat(contribution) : null,
-        frequency: effectiveFrequency,
+        currency,
+        payoutFeePercent: payoutFeePercent ? parseFloat(payoutFeePercent) : 0,
+        penaltyType,
+        penaltyRate: penaltyType !== 'none' ? parseFloat(penaltyRate) : 0,
+        penaltyGraceDays: penaltyGraceDays ? parseInt(penaltyGraceDays, 10) : 0,
+        penaltyCap: penaltyType !== 'none' && penaltyCap ? parseFloat(penaltyCap) : null,
+        reminderDaysBefore: parseReminderDays(reminderDaysBefore),
+        reminderOverdueEvery: reminderOverdueEvery ? parseInt(reminderOverdueEvery, 10) : 0,
+        reminderMaxCount: reminderMaxCount ? parseInt(reminderMaxCount, 10) : 0,
+        reminderHour: reminderHour ? parseInt(reminderHour, 10) : undefined,
+        ...schedule,
         maxMembers: maxMembers ? parseInt(maxMembers, 10) : null,
+        requiresApproval,
       });
       
       setSaving(false);
@@ -152,10 +243,10 @@ const EditGroupScreen: React.FC<Props> = ({ navigation, route }) => {
         'Group updated successfully',
         [{ text: 'OK', onPress: () => navigation.goBack() }]
       );
-    } catch (error) {
+    } catch (error: any) {
       setSaving(false);
       console.error('Error updating group:', error);
-      Alert.alert('Error', 'Failed to update group');
+      Alert.alert('Error', error.response?.data?.error || 'Failed to update group');
     }
   };
 
@@ -225,6 +316,27 @@ const EditGroupScreen: React.FC<Props> = ({ navigation, route }) => {
             
             <Text style={styles.sectionTitle}>Contribution Settings</Text>
             
+            {/* Currency */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Currency</Text>
+              <View style={styles.customUnitRow}>
+                {CURRENCY_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.customUnitOption, currency === option.value && styles.selectedCustomUnitOption]}
+                    onPress={() => setCurrency(option.value)}
+                  >
+                    <Text style={[styles.customUnitText, currency === option.value && styles.selectedCustomUnitText]}>
+                      {option.value}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.helperText}>
+                {CURRENCY_OPTIONS.find(option => option.value === currency)?.label}. It can only be changed before the first cycle.
+              </Text>
+            </View>
+            
             {/* Contribution Amount */}
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Contribution Amount*</Text>
@@ -236,7 +348,7 @@ const EditGroupScreen: React.FC<Props> = ({ navigation, route }) => {
                   value={contribution}
                   onChangeText={setContribution}
                 />
-                <Text style={styles.currencyLabel}>USD</Text>
+                <Text style={styles.currencyLabel}>{currency}</Text>
               </View>
               {errors.contribution ? (
                 <Text style={styles.errorText}>{errors.contribution}</Text>
@@ -247,6 +359,28 @@ const EditGroupScreen: React.FC<Props> = ({ navigation, route }) => {
               )}
             </View>
             
+            {/* Payout Fee */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Payout Fee</Text>
+              <View style={[styles.inputContainer, errors.payoutFeePercent ? styles.inputError : null]}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g., 2"
+                  keyboardType="numeric"
+                  value={payoutFeePercent}
+                  onChangeText={setPayoutFeePercent}
+                />
+                <Text style={styles.currencyLabel}>%</Text>
+              </View>
+              {errors.payoutFeePercent ? (
+                <Text style={styles.errorText}>{errors.payoutFeePercent}</Text>
+              ) : (
+                <Text style={styles.helperText}>
+                  Kept from each payout to cover group costs. Leave empty for none
+                </Text>
+              )}
+            </View>
+            
             {/* Frequency */}
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Payment Frequency*</Text>
@@ -256,7 +390,7 @@ const EditGroupScreen: React.FC<Props> = ({ navigation, route }) => {
               >
                 <Text style={frequency ? styles.dropdownText : styles.dropdownPlaceholder}>
                   {frequency === 'custom' 
-                    ? customFrequency 
+                    ? `Every ${customFrequency || '?'} ${customUnit}s` 
                     : frequency 
                       ? FREQUENCY_OPTIONS.find(option => option.value === frequency)?.label 
                       : 'Select frequency'}
@@ -267,15 +401,32 @@ const EditGroupScreen: React.FC<Props> = ({ navigation, route }) => {
               
               {frequency === 'custom' && (
                 <View style={styles.customFrequencyContainer}>
-                  <TextInput
-                    style={[
-                      styles.customFrequencyInput, 
-                      errors.customFrequency ? styles.inputError : null
-                    ]}
-                    placeholder="Specify custom frequency..."
-                    value={customFrequency}
-                    onChangeText={setCustomFrequency}
-                  />
+                  <View style={styles.customFrequencyRow}>
+                    <Text style={styles.customFrequencyLabel}>Every</Text>
+                    <TextInput
+                      style={[
+                        styles.customFrequencyInput, 
+                        errors.customFrequency ? styles.inputError : null
+                      ]}
+                      placeholder="e.g., 10"
+                      keyboardType="numeric"
+                      value={customFrequency}
+                      onChangeText={setCustomFrequency}
+                    />
+                  </View>
+                  <View style={styles.customUnitRow}>
+                    {CUSTOM_UNIT_OPTIONS.map(option => (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[styles.customUnitOption, customUnit === option.value && styles.selectedCustomUnitOption]}
+                        onPress={() => setCustomUnit(option.value)}
+                      >
+                        <Text style={[styles.customUnitText, customUnit === option.value && styles.selectedCustomUnitText]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
                   {errors.customFrequency ? (
                     <Text style={styles.errorText}>{errors.customFrequency}</Text>
                   ) : null}
@@ -304,6 +455,203 @@ const EditGroupScreen: React.FC<Props> = ({ navigation, route }) => {
               )}
             </View>
             
+            {/* Membership Approval */}
+            <View style={styles.inputGroup}>
+              <View style={styles.switchRow}>
+                <Text style={styles.label}>Require Approval to Join</Text>
+                <Switch
+                  value={requiresApproval}
+                  onValueChange={setRequiresApproval}
+                  trackColor={{ false: '#e0e0e0', true: '#AED581' }}
+                  thumbColor={requiresApproval ? '#4CAF50' : '#f4f3f4'}
+                />
+              </View>
+              <Text style={styles.helperText}>
+                When on, people opening an invite link must be approved by an admin before they become members
+              </Text>
+            </View>
+            
+            <Text style={styles.sectionTitle}>Late Payment Penalties</Text>
+            
+            {/* Penalty Type */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Penalty</Text>
+              <View style={styles.customUnitRow}>
+                {PENALTY_TYPE_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.customUnitOption, penaltyType === option.value && styles.selectedCustomUnitOption]}
+                    onPress={() => setPenaltyType(option.value)}
+                  >
+                    <Text style={[styles.customUnitText, penaltyType === option.value && styles.selectedCustomUnitText]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.helperText}>
+                Charged for every day a payment is late, once the grace period is over
+              </Text>
+            </View>
+            
+            {penaltyType !== 'none' && (
+              <>
+                {/* Penalty Rate */}
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Fee per Late Day*</Text>
+                  <View style={[styles.inputContainer, errors.penaltyRate ? styles.inputError : null]}>
+                    <TextInput
+                      style={styles.input}
+                      placeholder={penaltyType === 'percent' ? 'e.g., 1' : 'e.g., 5'}
+                      keyboardType="numeric"
+                      value={penaltyRate}
+                      onChangeText={setPenaltyRate}
+                    />
+                    <Text style={styles.currencyLabel}>{penaltyType === 'percent' ? '%' : currency}</Text>
+                  </View>
+                  {errors.penaltyRate ? (
+                    <Text style={styles.errorText}>{errors.penaltyRate}</Text>
+                  ) : penaltyType === 'percent' ? (
+                    <Text style={styles.helperText}>
+                      Percentage of the contribution charged each day
+                    </Text>
+                  ) : null}
+                </View>
+                
+                {/* Grace Period */}
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Grace Period</Text>
+                  <View style={[styles.inputContainer, errors.penaltyGraceDays ? styles.inputError : null]}>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="e.g., 3"
+                      keyboardType="numeric"
+                      value={penaltyGraceDays}
+                      onChangeText={setPenaltyGraceDays}
+                    />
+                    <Text style={styles.currencyLabel}>days</Text>
+                  </View>
+                  {errors.penaltyGraceDays ? (
+                    <Text style={styles.errorText}>{errors.penaltyGraceDays}</Text>
+                  ) : (
+                    <Text style={styles.helperText}>
+                      Days after the due date before penalties start
+                    </Text>
+                  )}
+                </View>
+                
+                {/* Penalty Cap */}
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Maximum Penalty</Text>
+                  <View style={[styles.inputContainer, errors.penaltyCap ? styles.inputError : null]}>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="No limit"
+                      keyboardType="numeric"
+                      value={penaltyCap}
+                      onChangeText={setPenaltyCap}
+                    />
+                    <Text style={styles.currencyLabel}>{currency}</Text>
+                  </View>
+                  {errors.penaltyCap ? (
+                    <Text style={styles.errorText}>{errors.penaltyCap}</Text>
+                  ) : (
+                    <Text style={styles.helperText}>
+                      The most a single late payment can be charged in total
+                    </Text>
+                  )}
+                </View>
+              </>
+            )}
+            
+            <Text style={styles.sectionTitle}>Payment Reminders</Text>
+            
+            {/* Days Before Due */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Remind Before Due Date</Text>
+              <View style={[styles.inputContainer, errors.reminderDaysBefore ? styles.inputError : null]}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g., 3, 0"
+                  value={reminderDaysBefore}
+                  onChangeText={setReminderDaysBefore}
+                />
+                <Text style={styles.currencyLabel}>days</Text>
+              </View>
+              {errors.reminderDaysBefore ? (
+                <Text style={styles.errorText}>{errors.reminderDaysBefore}</Text>
+              ) : (
+                <Text style={styles.helperText}>
+                  Days before the due date to remind unpaid members. 0 is the due date itself
+                </Text>
+              )}
+            </View>
+            
+            {/* Overdue Interval */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Once Overdue, Remind Every</Text>
+              <View style={[styles.inputContainer, errors.reminderOverdueEvery ? styles.inputError : null]}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g., 2"
+                  keyboardType="numeric"
+                  value={reminderOverdueEvery}
+                  onChangeText={setReminderOverdueEvery}
+                />
+                <Text style={styles.currencyLabel}>days</Text>
+              </View>
+              {errors.reminderOverdueEvery ? (
+                <Text style={styles.errorText}>{errors.reminderOverdueEvery}</Text>
+              ) : (
+                <Text style={styles.helperText}>
+                  0 stops reminders after the due date
+                </Text>
+              )}
+            </View>
+            
+            {/* Maximum Reminders */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Maximum Reminders</Text>
+              <View style={[styles.inputContainer, errors.reminderMaxCount ? styles.inputError : null]}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g., 5"
+                  keyboardType="numeric"
+                  value={reminderMaxCount}
+                  onChangeText={setReminderMaxCount}
+                />
+              </View>
+              {errors.reminderMaxCount ? (
+                <Text style={styles.errorText}>{errors.reminderMaxCount}</Text>
+              ) : (
+                <Text style={styles.helperText}>
+                  The most reminders a member gets about one payment
+                </Text>
+              )}
+            </View>
+            
+            {/* Reminder Hour */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Send At</Text>
+              <View style={[styles.inputContainer, errors.reminderHour ? styles.inputError : null]}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g., 9"
+                  keyboardType="numeric"
+                  value={reminderHour}
+                  onChangeText={setReminderHour}
+                />
+                <Text style={styles.currencyLabel}>:00</Text>
+              </View>
+              {errors.reminderHour ? (
+                <Text style={styles.errorText}>{errors.reminderHour}</Text>
+              ) : (
+                <Text style={styles.helperText}>
+                  Hour of the day, in the group's time zone. Members' quiet hours are respected
+                </Text>
+              )}
+            </View>
+            
             {/* Warning about existing cycles */}
             <View style={styles.warningBox}>
               <Ionicons name="warning-outline" size={20} color="#FFA000" style={styles.warningIcon} />
@@ -488,6 +836,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   helperText: {
     color: '#666',
     fontSize: 12,
@@ -496,7 +849,17 @@ const styles = StyleSheet.create({
   customFrequencyContainer: {
     marginTop: 10,
   },
+  customFrequencyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  customFrequencyLabel: {
+    fontSize: 16,
+    color: '#333',
+    marginRight: 10,
+  },
   customFrequencyInput: {
+    flex: 1,
     height: 50,
     borderWidth: 1,
     borderColor: '#ddd',
@@ -504,6 +867,33 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     backgroundColor: '#fff',
   },
+  customUnitRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  customUnitOption: {
+    flex: 1,
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+    backgroundColor: '#fff',
+  },
+  selectedCustomUnitOption: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#E8F5E9',
+  },
+  customUnitText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  selectedCustomUnitText: {
+    color: '#4CAF50',
+    fontWeight: '500',
+  },
   warningBox: {
     flexDirection: 'row',
     backgroundColor: '#FFF8E1',
@@ -0,0 +1,594 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Platform
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import api from '../services/api';
+import { formatMoney } from '../constants/Currency';
+import { toPayoutSlots, PayoutSlot } from '../constants/Shares';
+
+type RootStackParamList = {
+  GroupDetail: { groupId: number; groupName: string };
+  GenerateRotation: { groupId: number; groupName: string };
+};
+
+type GenerateRotationScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'GenerateRotation'
+>;
+
+type GenerateRotationScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'GenerateRotation'
+>;
+
+interface Props {
+  navigation: GenerateRotationScreenNavigationProp;
+  route: GenerateRotationScreenRouteProp;
+}
+
+interface Member {
+  id: number;
+  userId: number;
+  joinedAt: string;
+  shares: number;
+  customAmount: number | null;
+  user: {
+    id: number;
+    name: string;
+    email: string;
+  };
+}
+
+interface PlannedCycle {
+  cycleIndex: number;
+  startDate: string;
+  endDate: string;
+  dueDate: string;
+  recipientUserId: number;
+  // Members sharing the payout, for slots paired up from part shares
+  shares: { userId: number; amount: number }[];
+  bidAmount: number | null;
+}
+
+type Strategy = 'join_order' | 'random' | 'admin_order' | 'bidding';
+
+const STRATEGY_OPTIONS: { value: Strategy; label: string; description: string; icon: any }[] = [
+  { value: 'join_order', label: 'Join Order', description: 'Members are paid out in the order they joined', icon: 'people-outline' },
+  { value: 'random', label: 'Random Draw', description: 'A fair draw. The seed is saved so anyone can verify it', icon: 'shuffle' },
+  { value: 'admin_order', label: 'Custom Order', description: 'Arrange the payout order yourself', icon: 'list-outline' },
+  { value: 'bidding', label: 'Bidding', description: 'Highest bids are paid out first', icon: 'pricetag-outline' },
+];
+
+const GenerateRotationScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { groupId, groupName } = route.params;
+
+  const [members, setMembers] = useState<Member[]>([]);
+  const [frequency, setFrequency] = useState<string | null>(null);
+  const [currency, setCurrency] = useState<string | undefined>(undefined);
+  const [strategy, setStrategy] = useState<Strategy>('join_order');
+  const [startDate, setStartDate] = useState(new Date());
+  const [showStartDatePicker, setShowStartDatePicker] = useState(false);
+  const [order, setOrder] = useState<PayoutSlot[]>([]);
+  const [bids, setBids] = useState<Record<number, string>>({});
+  const [seed, setSeed] = useState<string | null>(null);
+  const [plannedCycles, setPlannedCycles] = useState<PlannedCycle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [membersResponse, groupResponse] = await Promise.all([
+          api.get('/memberships', { params: { groupId } }),
+          api.get(`/groups/${groupId}`),
+        ]);
+
+        const sortedMembers: Member[] = [...membersResponse.data].sort(
+          (a: Member, b: Member) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime()
+        );
+        setMembers(sortedMembers);
+        setOrder(toPayoutSlots(sortedMembers, groupResponse.data.contribution ? Number(groupResponse.data.contribution) : null));
+        setFrequency(groupResponse.data.frequency || null);
+        setCurrency(groupResponse.data.currency);
+      } catch (error) {
+        console.error('Error loading rotation data:', error);
+        Alert.alert('Error', 'Failed to load group members');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [groupId]);
+
+  const memberName = (userId: number) => {
+    return members.find(member => member.user.id === userId)?.user.name || 'Unknown';
+  };
+
+  const slotName = (slot: PayoutSlot) => {
+    return Array.isArray(slot) ? slot.map(memberName).join(' & ') : memberName(slot);
+  };
+
+  // Any change to the inputs invalidates the preview (and a previous random draw)
+  const resetPreview = () => {
+    setPlannedCycles([]);
+    setSeed(null);
+  };
+
+  const moveMember = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= order.length) return;
+
+    const nextOrder = [...order];
+    [nextOrder[index], nextOrder[target]] = [nextOrder[target], nextOrder[index]];
+    setOrder(nextOrder);
+    resetPreview();
+  };
+
+  const buildPayload = (preview: boolean) => ({
+    strategy,
+    startDate: startDate.toISOString(),
+    order: strategy === 'admin_order' ? order : undefined,
+    bids: strategy === 'bidding'
+      ? Object.entries(bids)
+          .filter(([, amount]) => amount.trim() !== '')
+          .map(([userId, amount]) => ({ userId: parseInt(userId, 10), amount: parseFloat(amount) }))
+      : undefined,
+    seed: strategy === 'random' && seed ? seed : undefined,
+    preview,
+  });
+
+  const validate = () => {
+    if (members.length < 2) {
+      Alert.alert('Validation Error', 'A rotation needs at least two members');
+      return false;
+    }
+    return true;
+  };
+
+  const handlePreview = async () => {
+    if (!validate()) return;
+
+    setSubmitting(true);
+    try {
+      const response = await api.post(`/groups/${groupId}/rotations`, buildPayload(true));
+      setPlannedCycles(response.data.rotation.cycles);
+      setSeed(response.data.rotation.seed);
+    } catch (error: any) {
+      console.error('Error previewing rotation:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to preview rotation');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!validate()) return;
+
+    setSubmitting(true);
+    try {
+      await api.post(`/groups/${groupId}/rotations`, buildPayload(false));
+      setSubmitting(false);
+      Alert.alert(
+        'Rotation Created',
+        `${members.length} cycles were created with payment records for every member.`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error: any) {
+      console.error('Error generating rotation:', error);
+      setSubmitting(false);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to generate rotation');
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4CAF50" />
+        <Text style={styles.loadingText}>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Generate Rotation</Text>
+        <View style={styles.emptySpace} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.formContainer}>
+          {/* Group Info */}
+          <View style={styles.groupInfoContainer}>
+            <Text style={styles.groupName}>{groupName}</Text>
+            <Text style={styles.groupMembers}>
+              {members.length} members · {frequency || 'monthly'}
+            </Text>
+          </View>
+
+          {/* Strategy */}
+          <Text style={styles.sectionTitle}>Payout Order</Text>
+          {STRATEGY_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.strategyOption, strategy === option.value && styles.selectedStrategyOption]}
+              onPress={() => {
+                setStrategy(option.value);
+                resetPreview();
+              }}
+            >
+              <Ionicons
+                name={option.icon}
+                size={22}
+                color={strategy === option.value ? '#4CAF50' : '#666'}
+              />
+              <View style={styles.strategyContent}>
+                <Text style={styles.strategyLabel}>{option.label}</Text>
+                <Text style={styles.strategyDescription}>{option.description}</Text>
+              </View>
+              {strategy === option.value && (
+                <Ionicons name="checkmark-circle" size={22} color="#4CAF50" />
+              )}
+            </TouchableOpacity>
+          ))}
+
+          {/* Custom order */}
+          {strategy === 'admin_order' && (
+            <View style={styles.card}>
+              {order.map((slot, index) => (
+                <View key={`${slot}-${index}`} style={styles.orderRow}>
+                  <Text style={styles.orderPosition}>{index + 1}</Text>
+                  <Text style={styles.orderName}>{slotName(slot)}</Text>
+                  <TouchableOpacity onPress={() => moveMember(index, -1)} disabled={index === 0}>
+                    <Ionicons name="arrow-up" size={20} color={index === 0 ? '#ccc' : '#4CAF50'} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.orderArrow}
+                    onPress={() => moveMember(index, 1)}
+                    disabled={index === order.length - 1}
+                  >
+                    <Ionicons name="arrow-down" size={20} color={index === order.length - 1 ? '#ccc' : '#4CAF50'} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Bids */}
+          {strategy === 'bidding' && (
+            <View style={styles.card}>
+              <Text style={styles.cardHint}>
+                Enter each member's bid. Members without a bid are paid out last, in join order.
+              </Text>
+              {members.map(member => (
+                <View key={member.user.id} style={styles.orderRow}>
+                  <Text style={styles.orderName}>{member.user.name}</Text>
+                  <TextInput
+                    style={styles.bidInput}
+                    value={bids[member.user.id] || ''}
+                    onChangeText={(value) => {
+                      setBids({ ...bids, [member.user.id]: value });
+                      resetPreview();
+                    }}
+                    keyboardType="numeric"
+                    placeholder={currency ? `No bid (${currency})` : 'No bid'}
+                  />
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Start date */}
+          <Text style={styles.sectionTitle}>First Cycle Starts</Text>
+          <TouchableOpacity
+            style={styles.datePickerButton}
+            onPress={() => setShowStartDatePicker(true)}
+          >
+            <Text style={styles.dateText}>{startDate.toLocaleDateString()}</Text>
+            <Ionicons name="calendar-outline" size={20} color="#4CAF50" />
+          </TouchableOpacity>
+
+          {showStartDatePicker && (
+            <DateTimePicker
+              value={startDate}
+              mode="date"
+              display="default"
+              onChange={(event: any, selectedDate?: Date) => {
+                setShowStartDatePicker(Platform.OS === 'ios');
+                if (selectedDate) {
+                  setStartDate(selectedDate);
+                  resetPreview();
+                }
+              }}
+              minimumDate={new Date()}
+            />
+          )}
+
+          {/* Preview */}
+          {plannedCycles.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.previewTitle}>Schedule Preview</Text>
+              {plannedCycles.map(cycle => (
+                <View key={cycle.cycleIndex} style={styles.previewRow}>
+                  <Text style={styles.orderPosition}>{cycle.cycleIndex}</Text>
+                  <View style={styles.strategyContent}>
+                    <Text style={styles.orderName}>
+                      {cycle.shares.length > 0
+                        ? slotName(cycle.shares.map(share => share.userId))
+                        : memberName(cycle.recipientUserId)}
+                    </Text>
+                    <Text style={styles.strategyDescription}>
+                      {new Date(cycle.startDate).toLocaleDateString()} - {new Date(cycle.endDate).toLocaleDateString()}
+                    </Text>
+                    <Text style={styles.strategyDescription}>
+                      Payments due {new Date(cycle.dueDate).toLocaleDateString()}
+                    </Text>
+                  </View>
+                  {cycle.bidAmount !== null && (
+                    <Text style={styles.bidAmount}>Bid {formatMoney(cycle.bidAmount, currency)}</Text>
+                  )}
+                </View>
+              ))}
+              {seed && (
+                <Text style={styles.seedText}>Draw seed: {seed}</Text>
+              )}
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={styles.previewButton}
+            onPress={handlePreview}
+            disabled={submitting}
+          >
+            <Text style={styles.previewButtonText}>
+              {plannedCycles.length > 0 ? 'Refresh Preview' : 'Preview Schedule'}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.createButton, plannedCycles.length === 0 && styles.disabledButton]}
+            onPress={handleGenerate}
+            disabled={submitting || plannedCycles.length === 0}
+          >
+            {submitting ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <Text style={styles.createButtonText}>Generate {members.length} Cycles</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 10,
+    color: '#666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  backButton: {
+    padding: 5,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  emptySpace: {
+    width: 34,
+  },
+  content: {
+    flex: 1,
+  },
+  formContainer: {
+    padding: 16,
+  },
+  groupInfoContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  groupName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  groupMembers: {
+    fontSize: 14,
+    color: '#666',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  strategyOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  selectedStrategyOption: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#F1F8E9',
+  },
+  strategyContent: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  strategyLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  strategyDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  cardHint: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
+  orderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  orderPosition: {
+    width: 28,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+  orderName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+  },
+  orderArrow: {
+    marginLeft: 16,
+  },
+  bidInput: {
+    width: 100,
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    textAlign: 'right',
+  },
+  datePickerButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    backgroundColor: '#fff',
+  },
+  dateText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  previewTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  bidAmount: {
+    fontSize: 13,
+    color: '#F57C00',
+    fontWeight: '500',
+  },
+  seedText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+  previewButton: {
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    borderRadius: 8,
+    height: 50,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  previewButtonText: {
+    color: '#4CAF50',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  createButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 8,
+    height: 50,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  disabledButton: {
+    backgroundColor: '#A5D6A7',
+  },
+  createButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default GenerateRotationScreen;
@@ -19,9 +19,15 @@ import { RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import api from '../services/api';
+import { getCycleStatusColors, getCycleStatusLabel } from '../constants/CycleStatus';
+import { getPaymentStatusColors, getPaymentStatusLabel, isPaymentSettled } from '../constants/PaymentStatus';
+import { formatMoney } from '../constants/Currency';
+import { formatShares } from '../constants/Shares';
 import { Linking } from 'react-native';
 import InviteModal from '../components/InviteModal';
+import GroupChat from '../components/GroupChat';
 import { SharingService } from '../services/sharingService';
+import { DirectMessageService } from '../services/directMessageService';
 
 type RootStackParamList = {
   Groups: undefined;
@@ -30,6 +36,7 @@ type RootStackParamList = {
   ManageMembers: { groupId: number; groupName: string };
   CycleDetail: { cycleId: number; groupId: number; groupName: string };
   EditGroup: { groupId: number };
+  Conversation: { conversationId: number; otherUserName: string };
 };
 
 type GroupDetailScreenNavigationProp = StackNavigationProp<
@@ -52,6 +59,7 @@ interface GroupDetails {
   name: string;
   description: string;
   contribution: number;
+  currency: string;
   frequency: string;
   maxMembers: number;
   createdAt: string;
@@ -63,6 +71,8 @@ interface Member {
   groupId: number;
   role: string;
   joinedAt: string;
+  shares: number;
+  customAmount: number | null;
   user: {
     id: number;
     name: string;
@@ -70,6 +80,20 @@ interface Member {
   };
 }
 
+interface JoinRequest {
+  id: number;
+  groupId: number;
+  userId: number;
+  status: string;
+  createdAt: string;
+  user: {
+    id: number;
+    name: string;
+    email: string;
+    phone: string | null;
+  };
+}
+
 interface Cycle {
   id: number;
   groupId: number;
@@ -86,12 +110,23 @@ interface Cycle {
   };
 }
 
+interface MemberBalance {
+  userId: number;
+  totalPaid: number;
+  totalReceived: number;
+  outstanding: number;
+  penalties: number;
+  reliabilityScore: number | null;
+}
+
 interface Payment {
   id: number;
   cycleId: number;
   userId: number;
   amount: number;
-  paid: boolean;
+  amountPaid: number;
+  penaltyTotal: number;
+  status: string;
   paidAt: string | null;
   user: {
     id: number;
@@ -100,10 +135,18 @@ interface Payment {
   };
 }
 
+// Green for members who pay on time, amber for some slips, red for a poor record
+const getReliabilityColors = (score: number) => {
+  if (score >= 90) return { text: '#4CAF50', background: '#E8F5E9' };
+  if (score >= 60) return { text: '#F57C00', background: '#FFF8E1' };
+  return { text: '#FF5252', background: '#FFEBEE' };
+};
+
 const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
   const { groupId, groupName } = route.params;
   const [group, setGroup] = useState<GroupDetails | null>(null);
   const [members, setMembers] = useState<Member[]>([]);
+  const [balances, setBalances] = useState<Record<number, MemberBalance>>({});
   const [cycles, setCycles] = useState<Cycle[]>([]);
   const [currentCycle, setCurrentCycle] = useState<Cycle | null>(null);
   const [payments, setPayments] = useState<Payment[]>([]);
@@ -116,6 +159,12 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
   const [inviteModalVisible, setInviteModalVisible] = useState(false);
   const [inviteEmail, setInviteEmail] = useState('');
   const [invitePhone, setInvitePhone] = useState('');
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  const [rejectingRequest, setRejectingRequest] = useState<JoinRequest | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [editingShares, setEditingShares] = useState<Member | null>(null);
+  const [sharesInput, setSharesInput] = useState('');
+  const [customAmountInput, setCustomAmountInput] = useState('');
 
   
   const fetchData = useCallback(async () => {
@@ -137,11 +186,27 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
       const fetchedMembers = membersResponse.data;
       setMembers(fetchedMembers);
       
+      // Fetch what each member has paid, received and still owes
+      const balancesResponse = await api.get(`/groups/${groupId}/balances`);
+      setBalances(
+        balancesResponse.data.reduce((byUser: Record<number, MemberBalance>, balance: MemberBalance) => {
+          byUser[balance.userId] = balance;
+          return byUser;
+        }, {})
+      );
+      
       // Check if current user is admin
       const userMembership = fetchedMembers.find(
         (m: Member) => m.userId === parseInt(currentUserId || '0', 10)
       );
-      setIsAdmin(userMembership?.role === 'admin');
+      const currentUserIsAdmin = userMembership?.role === 'admin';
+      setIsAdmin(currentUserIsAdmin);
+      
+      // Admins review pending join requests from the members tab
+      if (currentUserIsAdmin) {
+        const joinRequestsResponse = await api.get(`/groups/${groupId}/join-requests`);
+        setJoinRequests(joinRequestsResponse.data);
+      }
       
       // Fetch cycles
       const cyclesResponse = await api.get(`/groups/${groupId}/cycles`);
@@ -308,6 +373,10 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
       { 
         text: member.role === 'admin' ? 'Remove Admin Role' : 'Make Admin',
         onPress: () => updateMemberRole(member, member.role === 'admin' ? 'member' : 'admin')
+      },
+      {
+        text: 'Set Shares',
+        onPress: () => openSharesEditor(member)
       }
     ];
     
@@ -323,6 +392,19 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
     Alert.alert('Member Options', 'Choose an action', options);
   };
 
+  const messageMember = async (member: Member) => {
+    try {
+      const conversation = await DirectMessageService.startConversation(member.userId);
+      navigation.navigate('Conversation', {
+        conversationId: conversation.id,
+        otherUserName: conversation.otherUser.name,
+      });
+    } catch (error: any) {
+      console.error('Error starting conversation:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to start conversation');
+    }
+  };
+
   const updateMemberRole = async (member: Member, newRole: string) => {
     try {
       await api.put(`/memberships/${member.id}`, { role: newRole });
@@ -334,6 +416,34 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
+  const openSharesEditor = (member: Member) => {
+    setEditingShares(member);
+    setSharesInput(member.shares.toString());
+    setCustomAmountInput(member.customAmount !== null ? member.customAmount.toString() : '');
+  };
+
+  const saveShares = async () => {
+    if (!editingShares) return;
+    
+    const shares = parseFloat(sharesInput);
+    if (isNaN(shares) || shares <= 0) {
+      Alert.alert('Validation Error', 'Shares must be more than 0');
+      return;
+    }
+    
+    try {
+      await api.put(`/memberships/${editingShares.id}`, {
+        shares,
+        customAmount: customAmountInput.trim() ? parseFloat(customAmountInput) : null,
+      });
+      setEditingShares(null);
+      fetchData(); // Refresh data
+    } catch (error: any) {
+      console.error('Error updating member shares:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to update member shares');
+    }
+  };
+
   const removeMember = async (membershipId: number) => {
     try {
       await api.delete(`/memberships/${membershipId}`);
@@ -345,6 +455,33 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
+  const approveJoinRequest = async (joinRequest: JoinRequest) => {
+    try {
+      await api.put(`/join-requests/${joinRequest.id}/approve`);
+      Alert.alert('Success', `${joinRequest.user.name} has been added to the group`);
+      fetchData(); // Refresh data
+    } catch (error: any) {
+      console.error('Error approving join request:', error);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to approve request');
+    }
+  };
+
+  const rejectJoinRequest = async () => {
+    if (!rejectingRequest) return;
+    
+    try {
+      await api.put(`/join-requests/${rejectingRequest.id}/reject`, {
+        reason: rejectReason.trim() || undefined,
+      });
+      setRejectingRequest(null);
+      setRejectReason('');
+      fetchData(); // Refresh data
+    } catch (error) {
+      console.error('Error rejecting join request:', error);
+      Alert.alert('Error', 'Failed to reject request');
+    }
+  };
+
   const handleMarkPaid = async (paymentId: number) => {
     try {
       await api.put(`/payments/${paymentId}/pay`);
@@ -391,7 +528,7 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
         <View style={styles.groupInfoRow}>
           <View style={styles.infoItem}>
             <Text style={styles.infoLabel}>Contribution</Text>
-            <Text style={styles.infoValue}>${group?.contribution || 0}</Text>
+            <Text style={styles.infoValue}>{formatMoney(group?.contribution, group?.currency)}</Text>
           </View>
           
           <View style={styles.infoItem}>
@@ -438,12 +575,10 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
               <Text style={styles.cycleTitle}>Cycle #{currentCycle.cycleIndex}</Text>
               <View style={[
                 styles.statusBadge, 
-                currentCycle.status === 'active' ? styles.activeStatus : 
-                currentCycle.status === 'completed' ? styles.completedStatus : 
-                styles.pendingStatus
+                { backgroundColor: getCycleStatusColors(currentCycle.status).background }
               ]}>
                 <Text style={styles.statusText}>
-                  {currentCycle.status || 'Active'}
+                  {getCycleStatusLabel(currentCycle.status)}
                 </Text>
               </View>
             </View>
@@ -470,12 +605,12 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
                   <View 
                     style={[
                       styles.progressBar, 
-                      { width: `${(payments.filter(p => p.paid).length / payments.length) * 100}%` }
+                      { width: `${(payments.filter(p => isPaymentSettled(p.status)).length / payments.length) * 100}%` }
                     ]} 
                   />
                 </View>
                 <Text style={styles.progressText}>
-                  {payments.filter(p => p.paid).length} / {payments.length} payments received
+                  {payments.filter(p => isPaymentSettled(p.status)).length} / {payments.length} payments received
                 </Text>
               </View>
             </View>
@@ -507,14 +642,14 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
         
         {/* This would typically be populated with recent events */}
         {payments.length > 0 ? (
-          payments.filter(p => p.paid).slice(0, 3).map(payment => (
+          payments.filter(p => isPaymentSettled(p.status)).slice(0, 3).map(payment => (
             <View key={payment.id} style={styles.activityItem}>
               <View style={styles.activityIcon}>
                 <Ionicons name="checkmark-circle" size={20} color="#4CAF50" />
               </View>
               <View style={styles.activityContent}>
                 <Text style={styles.activityText}>
-                  <Text style={styles.activityName}>{payment.user.name}</Text> made a payment of ${payment.amount}
+                  <Text style={styles.activityName}>{payment.user.name}</Text> made a payment of ${payment.amountPaid}
                 </Text>
                 <Text style={styles.activityDate}>
                   {payment.paidAt ? new Date(payment.paidAt).toLocaleDateString() : 'Recently'}
@@ -572,6 +707,45 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
       <FlatList
         data={members}
         keyExtractor={(item) => item.id.toString()}
+        ListHeaderComponent={
+          isAdmin && joinRequests.length > 0 ? (
+            <View style={styles.joinRequestsSection}>
+              <Text style={styles.joinRequestsTitle}>Pending Requests ({joinRequests.length})</Text>
+              {joinRequests.map(request => (
+                <View key={request.id} style={styles.memberItem}>
+                  <View style={styles.memberAvatarContainer}>
+                    <View style={[styles.memberAvatar, styles.pendingAvatar]}>
+                      <Text style={styles.memberInitial}>
+                        {(request.user.name || '?').charAt(0).toUpperCase()}
+                      </Text>
+                    </View>
+                  </View>
+                  
+                  <View style={styles.memberInfo}>
+                    <Text style={styles.memberName}>{request.user.name}</Text>
+                    <Text style={styles.memberEmail}>{request.user.email}</Text>
+                    <Text style={styles.requestDate}>
+                      Requested {new Date(request.createdAt).toLocaleDateString()}
+                    </Text>
+                  </View>
+                  
+                  <TouchableOpacity 
+                    style={styles.approveButton}
+                    onPress={() => approveJoinRequest(request)}
+                  >
+                    <Ionicons name="checkmark" size={20} color="#4CAF50" />
+                  </TouchableOpacity>
+                  <TouchableOpacity 
+                    style={styles.rejectButton}
+                    onPress={() => setRejectingRequest(request)}
+                  >
+                    <Ionicons name="close" size={20} color="#FF5252" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          ) : null
+        }
         renderItem={({ item }) => (
           <TouchableOpacity 
             style={styles.memberItem}
@@ -588,13 +762,51 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
             <View style={styles.memberInfo}>
               <Text style={styles.memberName}>{item.user.name}</Text>
               <Text style={styles.memberEmail}>{item.user.email}</Text>
-              {item.role === 'admin' && (
-                <View style={styles.adminBadge}>
-                  <Text style={styles.adminText}>Admin</Text>
-                </View>
+              {balances[item.userId] && (
+                <Text style={styles.memberBalanceText}>
+                  Paid {formatMoney(balances[item.userId].totalPaid, group?.currency)}
+                  {' · '}Received {formatMoney(balances[item.userId].totalReceived, group?.currency)}
+                  {balances[item.userId].outstanding > 0 && (
+                    <Text style={styles.memberOwesText}>
+                      {' · '}Owes {formatMoney(balances[item.userId].outstanding, group?.currency)}
+                    </Text>
+                  )}
+                </Text>
               )}
+              <View style={styles.memberBadgeRow}>
+                {item.role === 'admin' && (
+                  <View style={styles.adminBadge}>
+                    <Text style={styles.adminText}>Admin</Text>
+                  </View>
+                )}
+                {(item.shares !== 1 || item.customAmount !== null) && (
+                  <View style={styles.sharesBadge}>
+                    <Text style={styles.sharesText}>
+                      {item.customAmount !== null
+                        ? `${formatMoney(item.customAmount, group?.currency)} per cycle`
+                        : formatShares(item.shares)}
+                    </Text>
+                  </View>
+                )}
+                {balances[item.userId]?.reliabilityScore != null && (
+                  <View style={[styles.reliabilityBadge, { backgroundColor: getReliabilityColors(balances[item.userId].reliabilityScore!).background }]}>
+                    <Text style={[styles.reliabilityText, { color: getReliabilityColors(balances[item.userId].reliabilityScore!).text }]}>
+                      {balances[item.userId].reliabilityScore}% reliable
+                    </Text>
+                  </View>
+                )}
+              </View>
             </View>
             
+            {item.userId !== parseInt(userId || '0', 10) && (
+              <TouchableOpacity 
+                style={styles.memberOptionsButton}
+                onPress={() => messageMember(item)}
+              >
+                <Ionicons name="chatbubble-outline" size={20} color="#2196F3" />
+              </TouchableOpacity>
+            )}
+            
             {isAdmin && (
               <TouchableOpacity 
                 style={styles.memberOptionsButton}
@@ -659,12 +871,10 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
                 <Text style={styles.cycleItemTitle}>Cycle #{item.cycleIndex}</Text>
                 <View style={[
                   styles.statusBadge, 
-                  item.status === 'active' ? styles.activeStatus : 
-                  item.status === 'completed' ? styles.completedStatus : 
-                  styles.pendingStatus
+                  { backgroundColor: getCycleStatusColors(item.status).background }
                 ]}>
                   <Text style={styles.statusText}>
-                    {item.status || 'Active'}
+                    {getCycleStatusLabel(item.status)}
                   </Text>
                 </View>
               </View>
@@ -723,13 +933,13 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
             
             <View style={styles.paymentsSummary}>
               <Text style={styles.paidCount}>
-                {payments.filter(p => p.paid).length} / {payments.length} Paid
+                {payments.filter(p => isPaymentSettled(p.status)).length} / {payments.length} Paid
               </Text>
               <View style={styles.progressBarContainer}>
                 <View 
                   style={[
                     styles.progressBar, 
-                    { width: `${(payments.filter(p => p.paid).length / payments.length) * 100}%` }
+                    { width: `${(payments.filter(p => isPaymentSettled(p.status)).length / payments.length) * 100}%` }
                   ]} 
                 />
               </View>
@@ -750,20 +960,24 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
                   
                   <View>
                     <Text style={styles.paymentName}>{item.user.name}</Text>
-                    <Text style={styles.paymentAmount}>${item.amount}</Text>
+                    <Text style={styles.paymentAmount}>
+                      {item.status === 'partial'
+                        ? `${formatMoney(item.amountPaid, group?.currency)} of ${formatMoney(item.amount + item.penaltyTotal, group?.currency)}`
+                        : formatMoney(item.amount + item.penaltyTotal, group?.currency)}
+                    </Text>
                   </View>
                 </View>
                 
-                {item.paid ? (
+                {isPaymentSettled(item.status) ? (
                   <View style={styles.paidBadge}>
                     <Ionicons name="checkmark-circle" size={20} color="#4CAF50" />
-                    <Text style={styles.paidText}>Paid</Text>
+                    <Text style={styles.paidText}>{getPaymentStatusLabel(item.status)}</Text>
                   </View>
                 ) : (
                   item.userId.toString() === userId ? (
                     <TouchableOpacity 
                       style={styles.payNowButton}
-                      onPress={() => Alert.alert('Pay Now', 'This would open a payment flow')}
+                      onPress={() => handleCyclePress(currentCycle)}
                     >
                       <Text style={styles.payNowText}>Pay Now</Text>
                     </TouchableOpacity>
@@ -775,8 +989,10 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
                       <Text style={styles.markPaidText}>Mark Paid</Text>
                     </TouchableOpacity>
                   ) : (
-                    <View style={styles.pendingBadge}>
-                      <Text style={styles.pendingText}>Pending</Text>
+                    <View style={[styles.pendingBadge, { backgroundColor: getPaymentStatusColors(item.status).background }]}>
+                      <Text style={[styles.pendingText, { color: getPaymentStatusColors(item.status).text }]}>
+                        {getPaymentStatusLabel(item.status)}
+                      </Text>
                     </View>
                   )
                 )}
@@ -890,6 +1106,15 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
             Payments
           </Text>
         </TouchableOpacity>
+
+        <TouchableOpacity 
+          style={[styles.tabButton, activeTab === 'chat' && styles.activeTabButton]}
+          onPress={() => setActiveTab('chat')}
+        >
+          <Text style={[styles.tabButtonText, activeTab === 'chat' && styles.activeTabButtonText]}>
+            Chat
+          </Text>
+        </TouchableOpacity>
       </View>
       
       {/* Tab Content */}
@@ -897,6 +1122,9 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
       {activeTab === 'members' && renderMembersTab()}
       {activeTab === 'cycles' && renderCyclesTab()}
       {activeTab === 'payments' && renderPaymentsTab()}
+      {activeTab === 'chat' && userId && (
+        <GroupChat groupId={groupId} userId={parseInt(userId, 10)} navigation={navigation} />
+      )}
 
       {/* Invite Modal */}
 <InviteModal
@@ -906,6 +1134,103 @@ const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
   groupName={groupName}
 />
       
+      {/* Reject Join Request Modal */}
+      <Modal
+        visible={rejectingRequest !== null}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setRejectingRequest(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Reject Request</Text>
+              <TouchableOpacity onPress={() => setRejectingRequest(null)}>
+                <Ionicons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+            
+            <View style={styles.modalContent}>
+              <Text style={styles.modalLabel}>
+                Reject {rejectingRequest?.user.name}'s request to join? They will be notified.
+              </Text>
+              
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Reason (optional)"
+                  value={rejectReason}
+                  onChangeText={setRejectReason}
+                />
+              </View>
+              
+              <TouchableOpacity 
+                style={[styles.modalButton, styles.rejectModalButton]}
+                onPress={rejectJoinRequest}
+              >
+                <Text style={styles.modalButtonText}>Reject Request</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+      
+      {/* Member Shares Modal */}
+      <Modal
+        visible={editingShares !== null}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setEditingShares(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Shares</Text>
+              <TouchableOpacity onPress={() => setEditingShares(null)}>
+                <Ionicons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+            
+            <View style={styles.modalContent}>
+              <Text style={styles.modalLabel}>
+                How many hands does {editingShares?.user.name} hold?
+              </Text>
+              
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g., 1, 2 or 0.5"
+                  keyboardType="decimal-pad"
+                  value={sharesInput}
+                  onChangeText={setSharesInput}
+                />
+              </View>
+              
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder={`Custom amount per cycle in ${group?.currency || ''} (optional)`}
+                  keyboardType="decimal-pad"
+                  value={customAmountInput}
+                  onChangeText={setCustomAmountInput}
+                />
+              </View>
+              
+              <Text style={styles.modalHelperText}>
+                They pay their shares times the contribution each cycle, unless a custom amount is set, and are paid out once per whole share. Applies to cycles created from now on.
+              </Text>
+              
+              <TouchableOpacity 
+                style={styles.modalButton}
+                onPress={saveShares}
+              >
+                <Text style={styles.modalButtonText}>Save Shares</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+      
       {/* Add Member Modal */}
       <Modal
         visible={modalVisible}
@@ -1120,15 +1445,6 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     backgroundColor: '#E8F5E9',
   },
-  activeStatus: {
-    backgroundColor: '#E8F5E9',
-  },
-  completedStatus: {
-    backgroundColor: '#E3F2FD',
-  },
-  pendingStatus: {
-    backgroundColor: '#FFF8E1',
-  },
   statusText: {
     fontSize: 12,
     fontWeight: '500',
@@ -1319,6 +1635,7 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     alignSelf: 'flex-start',
     marginTop: 4,
+    marginRight: 4,
   },
   adminText: {
     fontSize: 12,
@@ -1328,6 +1645,38 @@ const styles = StyleSheet.create({
   memberOptionsButton: {
     padding: 6,
   },
+  joinRequestsSection: {
+    borderBottomWidth: 8,
+    borderBottomColor: '#f0f0f0',
+  },
+  joinRequestsTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#F57C00',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#FFF8E1',
+  },
+  pendingAvatar: {
+    backgroundColor: '#FFA000',
+  },
+  requestDate: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  approveButton: {
+    padding: 8,
+    marginLeft: 4,
+    borderRadius: 20,
+    backgroundColor: '#E8F5E9',
+  },
+  rejectButton: {
+    padding: 8,
+    marginLeft: 8,
+    borderRadius: 20,
+    backgroundColor: '#FFEBEE',
+  },
   emptyListContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -1629,11 +1978,52 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  rejectModalButton: {
+    backgroundColor: '#FF5252',
+    marginTop: 8,
+  },
   modalButtonText: {
     color: '#fff',
     fontSize: 16,
     fontWeight: 'bold',
   },
+  memberBalanceText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  memberOwesText: {
+    color: '#FF5252',
+  },
+  memberBadgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  reliabilityBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    alignSelf: 'flex-start',
+    marginTop: 4,
+  },
+  reliabilityText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  sharesBadge: {
+    backgroundColor: '#E3F2FD',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    alignSelf: 'flex-start',
+    marginTop: 4,
+    marginRight: 4,
+  },
+  sharesText: {
+    color: '#2196F3',
+    fontSize: 12,
+    fontWeight: '500',
+  },
 });
 
 export default GroupDetailScreen;
\ No newline at end of file
@@ -19,11 +19,14 @@ import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import api from '../services/api';
+import { NotificationService } from '../services/notificationService';
+import { formatMoney } from '../constants/Currency';
 
 interface Group {
   id: number;
   name: string;
   contribution: number;
+  currency: string;
   frequency: string;
   membersCount?: number;
   nextPaymentDue?: string;
@@ -45,6 +48,7 @@ export default function GroupsScreen({ navigation }: GroupsScreenProps) {
   const [filterModalVisible, setFilterModalVisible] = useState(false);
   const [sortBy, setSortBy] = useState('name'); // 'name', 'newest', 'contribution'
   const [sortOrder, setSortOrder] = useState('asc'); // 'asc', 'desc'
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
   
   const scale = new Animated.Value(1);
   const windowWidth = Dimensions.get('window').width;
@@ -53,6 +57,7 @@ export default function GroupsScreen({ navigation }: GroupsScreenProps) {
     useCallback(() => {
       fetchGroups();
       fetchUserName();
+      fetchUnreadNotifications();
       
       return () => {
         // Cleanup if needed
@@ -71,6 +76,15 @@ export default function GroupsScreen({ navigation }: GroupsScreenProps) {
     }
   };
 
+  // Badge on the bell; refreshed whenever the screen comes back into focus
+  const fetchUnreadNotifications = async () => {
+    try {
+      setUnreadNotifications(await NotificationService.getUnreadCount());
+    } catch (error) {
+      console.error('Error fetching unread notifications:', error);
+    }
+  };
+
   const fetchGroups = async () => {
     setLoading(true);
     try {
@@ -178,6 +192,11 @@ export default function GroupsScreen({ navigation }: GroupsScreenProps) {
           ? a.name.localeCompare(b.name)
           : b.name.localeCompare(a.name);
       } else if (sort === 'contribution') {
+        // Amounts in different currencies can't be compared, so keep each
+        // currency together and sort within it
+        if (a.currency !== b.currency) {
+          return (a.currency || '').localeCompare(b.currency || '');
+        }
         return order === 'asc'
           ? (a.contribution || 0) - (b.contribution || 0)
           : (b.contribution || 0) - (a.contribution || 0);
@@ -259,7 +278,7 @@ export default function GroupsScreen({ navigation }: GroupsScreenProps) {
             <View>
               <Text style={styles.groupName}>{item.name}</Text>
               <Text style={styles.groupFrequency}>
-                {item.frequency || 'Monthly'} · {item.contribution || 0} per cycle
+                {item.frequency || 'Monthly'} · {formatMoney(item.contribution, item.currency)} per cycle
               </Text>
             </View>
           </View>
@@ -334,12 +353,33 @@ export default function GroupsScreen({ navigation }: GroupsScreenProps) {
           <Text style={styles.welcomeText}>Welcome back,</Text>
           <Text style={styles.userName}>{userName || 'User'}</Text>
         </View>
-        <TouchableOpacity 
-          style={styles.profileButton}
-          onPress={() => navigation.navigate('Profile')}
-        >
-          <Ionicons name="person-circle-outline" size={32} color="#4CAF50" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity 
+            style={styles.messagesButton}
+            onPress={() => navigation.navigate('Notifications')}
+          >
+            <Ionicons name="notifications-outline" size={28} color="#4CAF50" />
+            {unreadNotifications > 0 && (
+              <View style={styles.notificationBadge}>
+                <Text style={styles.notificationBadgeText}>
+                  {unreadNotifications > 99 ? '99+' : unreadNotifications}
+                </Text>
+              </View>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.messagesButton}
+            onPress={() => navigation.navigate('Conversations')}
+          >
+            <Ionicons name="chatbubbles-outline" size={28} color="#4CAF50" />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.profileButton}
+            onPress={() => navigation.navigate('Profile')}
+          >
+            <Ionicons name="person-circle-outline" size={32} color="#4CAF50" />
+          </TouchableOpacity>
+        </View>
       </View>
       
       {/* Search and Filter */}
@@ -533,9 +573,34 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  messagesButton: {
+    padding: 5,
+    marginRight: 4,
+  },
   profileButton: {
     padding: 5,
   },
+  notificationBadge: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: '#FF5252',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  notificationBadgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
   searchContainer: {
     flexDirection: 'row',
     paddingHorizontal: 16,
@@ -13,6 +13,7 @@ import {
   Image,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import Constants from 'expo-constants';
 import api from '../services/api';
 import { authEvents } from '../events';
 
@@ -72,12 +73,14 @@ export default function LoginScreen({ navigation }: Props) {
       const response = await api.post('/auth/login', {
         email: trimmedEmail,
         password: trimmedPassword,
+        deviceName: Constants.deviceName || Platform.OS,
       });
   
-      const { token, user } = response.data;
+      const { token, refreshToken, user } = response.data;
       
-      // Save token to AsyncStorage
+      // Save tokens to AsyncStorage
       await AsyncStorage.setItem('authToken', token);
+      await AsyncStorage.setItem('refreshToken', refreshToken);
       
       // Save user info
       await AsyncStorage.setItem('userId', user.id.toString());
@@ -104,8 +107,21 @@ export default function LoginScreen({ navigation }: Props) {
           console.log("Login successful - emitted login event");
         }
       }
-    } catch (error) {
+    } catch (error: any) {
       setLoading(false);
+
+      if (error.response?.data?.code === 'EMAIL_NOT_VERIFIED') {
+        Alert.alert(
+          'Verify Your Email',
+          'Please confirm your email address using the link we sent you before logging in.',
+          [
+            { text: 'OK' },
+            { text: 'Resend Email', onPress: () => handleResendVerification(trimmedEmail) },
+          ]
+        );
+        return;
+      }
+
       Alert.alert(
         'Login Error', 
         'Invalid credentials or server error. Please try again.',
@@ -115,13 +131,18 @@ export default function LoginScreen({ navigation }: Props) {
     }
   };
 
+  const handleResendVerification = async (targetEmail: string) => {
+    try {
+      await api.post('/auth/resend-verification', { email: targetEmail });
+      Alert.alert('Email Sent', 'A new verification link has been sent to your email address.');
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      Alert.alert('Error', 'Failed to resend verification email. Please try again.');
+    }
+  };
+
   const handleForgotPassword = () => {
-    // For now, just show an alert
-    Alert.alert(
-      'Reset Password',
-      'This feature will be implemented soon. Please contact support if you need immediate assistance.',
-      [{ text: 'OK' }]
-    );
+    navigation.navigate('ForgotPassword', { email: email.trim() });
   };
 
   if (!initialCheckComplete) {
@@ -0,0 +1,294 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+  Alert
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { NotificationService, AppNotification } from '../services/notificationService';
+import { DeepLinkService } from '../services/deepLinkService';
+import { formatMessageTime } from '../constants/Chat';
+
+interface NotificationsScreenProps {
+  navigation: any;
+}
+
+const NOTIFICATION_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
+  payment_reminder: 'alarm-outline',
+  payment_overdue: 'alert-circle-outline',
+  payout_recorded: 'cash-outline',
+  cycle_summary: 'stats-chart-outline',
+  cycle_status_changed: 'sync-outline',
+  role_changed: 'shield-checkmark-outline',
+  join_request_received: 'person-add-outline',
+  join_request_approved: 'checkmark-circle-outline',
+  join_request_rejected: 'close-circle-outline',
+};
+
+// Today's notifications show their time, older ones their date
+const formatNotificationDate = (date: string) => {
+  const createdAt = new Date(date);
+  return createdAt.toDateString() === new Date().toDateString()
+    ? formatMessageTime(date)
+    : createdAt.toLocaleDateString();
+};
+
+const NotificationsScreen: React.FC<NotificationsScreenProps> = ({ navigation }) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const fetchNotifications = async () => {
+    try {
+      const page = await NotificationService.getNotifications();
+      setNotifications(page.notifications);
+      setUnreadCount(page.unreadCount);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchNotifications();
+    }, [])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchNotifications();
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await NotificationService.getNotifications({ before: nextCursor });
+      setNotifications(current => [...current, ...page.notifications]);
+      setUnreadCount(page.unreadCount);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error fetching older notifications:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await NotificationService.markAllRead();
+      const readAt = new Date().toISOString();
+      setNotifications(current => current.map(item => item.readAt ? item : { ...item, readAt }));
+      setUnreadCount(0);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error || 'Failed to mark notifications as read');
+    }
+  };
+
+  const handlePress = async (item: AppNotification) => {
+    if (!item.readAt) {
+      try {
+        const read = await NotificationService.markRead(item.id);
+        setNotifications(current => current.map(n => n.id === read.id ? read : n));
+        setUnreadCount(count => Math.max(count - 1, 0));
+      } catch (error) {
+        console.error('Error marking notification as read:', error);
+      }
+    }
+
+    if (item.deepLink) {
+      DeepLinkService.handleDeepLink(item.deepLink, navigation);
+    }
+  };
+
+  const renderNotification = ({ item }: { item: AppNotification }) => (
+    <TouchableOpacity
+      style={[styles.notificationItem, !item.readAt && styles.unreadItem]}
+      onPress={() => handlePress(item)}
+    >
+      <View style={styles.iconContainer}>
+        <Ionicons name={NOTIFICATION_ICONS[item.type] || 'notifications-outline'} size={22} color="#4CAF50" />
+      </View>
+
+      <View style={styles.notificationInfo}>
+        <View style={styles.notificationTopRow}>
+          <Text style={[styles.notificationTitle, !item.readAt && styles.unreadText]} numberOfLines={1}>
+            {item.title}
+          </Text>
+          <Text style={styles.notificationDate}>{formatNotificationDate(item.createdAt)}</Text>
+        </View>
+        <Text style={styles.notificationBody} numberOfLines={3}>{item.body}</Text>
+      </View>
+
+      {!item.readAt && <View style={styles.unreadDot} />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Notifications</Text>
+        <TouchableOpacity
+          style={styles.markAllButton}
+          onPress={handleMarkAllRead}
+          disabled={unreadCount === 0}
+        >
+          <Ionicons name="checkmark-done-outline" size={24} color={unreadCount > 0 ? '#4CAF50' : '#ccc'} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#4CAF50" />
+        </View>
+      ) : (
+        <FlatList
+          data={notifications}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={renderNotification}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#4CAF50']} />
+          }
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator style={styles.loadingMore} color="#4CAF50" /> : null
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="notifications-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>No notifications yet</Text>
+              <Text style={styles.emptySubtext}>
+                Reminders, payouts and news from your groups will show up here
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  backButton: {
+    padding: 5,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  markAllButton: {
+    padding: 5,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingMore: {
+    paddingVertical: 16,
+  },
+  notificationItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  unreadItem: {
+    backgroundColor: '#F1F8E9',
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#E8F5E9',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  notificationInfo: {
+    flex: 1,
+  },
+  notificationTopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  notificationTitle: {
+    flexShrink: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  notificationDate: {
+    marginLeft: 'auto',
+    paddingLeft: 8,
+    fontSize: 12,
+    color: '#999',
+  },
+  notificationBody: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  unreadText: {
+    fontWeight: 'bold',
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#4CAF50',
+    marginLeft: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 30,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 10,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+});
+
+export default NotificationsScreen;
@@ -16,8 +16,22 @@ import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as ImagePicker from 'expo-image-picker';
 import api from '../services/api';
+import { NotificationService, NotificationSettings } from '../services/notificationService';
+import {
+  NotificationEvent,
+  PreferenceChannel,
+  NOTIFICATION_EVENT_LABELS,
+  PREFERENCE_CHANNELS,
+} from '../constants/NotificationPreferences';
 import { authEvents } from '../events';
 
+// Languages the server can write emails in
+const EMAIL_LANGUAGES = [
+  { code: 'en', label: 'English' },
+  { code: 'fr', label: 'Français' },
+  { code: 'ar', label: 'العربية' },
+];
+
 interface ProfileScreenProps {
   navigation: any;
 }
@@ -47,6 +61,8 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
   
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [biometricEnabled, setBiometricEnabled] = useState(false);
+  const [language, setLanguage] = useState('en');
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings | null>(null);
   const [passwordModalVisible, setPasswordModalVisible] = useState(false);
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
@@ -84,10 +100,15 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
           phone: userData.phone || '',
         });
         
-        // Get notification settings from AsyncStorage
-        const notificationSetting = await AsyncStorage.getItem('notificationsEnabled');
-        if (notificationSetting !== null) {
-          setNotificationsEnabled(notificationSetting === 'true');
+        setLanguage(userData.language || 'en');
+        
+        // Notification settings live on the server; the profile still works without them
+        try {
+          const settings = await NotificationService.getSettings(userId);
+          setNotificationSettings(settings);
+          setNotificationsEnabled(settings.pushReminders);
+        } catch (error) {
+          console.error('Error fetching notification settings:', error);
         }
         
         // Get biometric settings from AsyncStorage
@@ -117,8 +138,16 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
           text: 'Logout',
           onPress: async () => {
             try {
+              // Revoke the session server-side; local logout proceeds even if this fails
+              try {
+                await api.post('/auth/logout');
+              } catch (error) {
+                console.warn('Failed to revoke session on server:', error);
+              }
+
               // Clear authentication token and user data
               await AsyncStorage.removeItem('authToken');
+              await AsyncStorage.removeItem('refreshToken');
               await AsyncStorage.removeItem('userId');
               await AsyncStorage.removeItem('userName');
               
@@ -178,18 +207,82 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
   
   const toggleNotifications = async (value: boolean) => {
     setNotificationsEnabled(value);
-    await AsyncStorage.setItem('notificationsEnabled', value.toString());
     
-    // In a real app, this would also update the server
     try {
       await api.put(`/users/${user.id}/settings`, {
         notifications_enabled: value,
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating notification settings:', error);
+      setNotificationsEnabled(!value);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to update notification settings');
+    }
+  };
+  
+  const togglePreference = async (event: NotificationEvent, channel: PreferenceChannel) => {
+    if (!notificationSettings) return;
+    
+    const previous = notificationSettings;
+    const enabled = !previous.preferences[event][channel];
+    setNotificationSettings({
+      ...previous,
+      preferences: {
+        ...previous.preferences,
+        [event]: { ...previous.preferences[event], [channel]: enabled },
+      },
+    });
+    
+    try {
+      await NotificationService.setPreference(user.id, event, channel, enabled);
+    } catch (error: any) {
+      console.error('Error updating notification preference:', error);
+      setNotificationSettings(previous);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to update notification preference');
+    }
+  };
+  
+  const toggleGroupMuted = async (groupId: number, muted: boolean) => {
+    if (!notificationSettings) return;
+    
+    const previous = notificationSettings;
+    setNotificationSettings({
+      ...previous,
+      groups: previous.groups.map(group => group.groupId === groupId ? { ...group, muted } : group),
+    });
+    
+    try {
+      await NotificationService.setGroupMuted(groupId, muted);
+    } catch (error: any) {
+      console.error('Error muting group:', error);
+      setNotificationSettings(previous);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to update group notifications');
+    }
+  };
+  
+  const changeLanguage = async (code: string) => {
+    const previous = language;
+    setLanguage(code);
+    
+    try {
+      await api.put(`/users/${user.id}/settings`, { language: code });
+    } catch (error: any) {
+      console.error('Error updating language:', error);
+      setLanguage(previous);
+      Alert.alert('Error', error.response?.data?.error || 'Failed to update language');
     }
   };
   
+  const chooseLanguage = () => {
+    Alert.alert(
+      'Email Language',
+      'Emails from the Tontine App will be written in this language.',
+      [
+        ...EMAIL_LANGUAGES.map(({ code, label }) => ({ text: label, onPress: () => changeLanguage(code) })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+  
   const toggleBiometric = async (value: boolean) => {
     setBiometricEnabled(value);
     await AsyncStorage.setItem('biometricEnabled', value.toString());
@@ -448,6 +541,57 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
                 />
               </View>
               
+              {notificationSettings && (
+                <>
+                  <Text style={styles.subsectionTitle}>Notify Me About</Text>
+                  {notificationSettings.events.map(event => (
+                    <View key={event} style={styles.preferenceRow}>
+                      <Text style={styles.preferenceLabel}>{NOTIFICATION_EVENT_LABELS[event] || event}</Text>
+                      <View style={styles.preferenceChannels}>
+                        {PREFERENCE_CHANNELS.map(({ channel, label, icon }) => {
+                          const enabled = notificationSettings.preferences[event]?.[channel];
+                          return (
+                            <TouchableOpacity
+                              key={channel}
+                              style={[styles.channelChip, enabled && styles.channelChipEnabled]}
+                              onPress={() => togglePreference(event, channel)}
+                              accessibilityLabel={`${label} ${enabled ? 'on' : 'off'}`}
+                            >
+                              <Ionicons name={icon} size={16} color={enabled ? '#fff' : '#999'} />
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    </View>
+                  ))}
+                  
+                  {notificationSettings.groups.length > 0 && (
+                    <>
+                      <Text style={styles.subsectionTitle}>Mute Groups</Text>
+                      {notificationSettings.groups.map(group => (
+                        <View key={group.groupId} style={styles.settingItem}>
+                          <View style={styles.settingInfo}>
+                            <Ionicons
+                              name={group.muted ? 'notifications-off-outline' : 'people-outline'}
+                              size={22}
+                              color="#333"
+                              style={styles.settingIcon}
+                            />
+                            <Text style={styles.settingLabel} numberOfLines={1}>{group.groupName}</Text>
+                          </View>
+                          <Switch
+                            value={group.muted}
+                            onValueChange={(value) => toggleGroupMuted(group.groupId, value)}
+                            trackColor={{ false: '#e0e0e0', true: '#FFCDD2' }}
+                            thumbColor={group.muted ? '#FF5252' : '#f4f3f4'}
+                          />
+                        </View>
+                      ))}
+                    </>
+                  )}
+                </>
+              )}
+              
               <View style={styles.settingItem}>
                 <View style={styles.settingInfo}>
                   <Ionicons name="finger-print" size={22} color="#333" style={styles.settingIcon} />
@@ -461,6 +605,19 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
                 />
               </View>
               
+              <TouchableOpacity style={styles.settingItem} onPress={chooseLanguage}>
+                <View style={styles.settingInfo}>
+                  <Ionicons name="language-outline" size={22} color="#333" style={styles.settingIcon} />
+                  <Text style={styles.settingLabel}>Email Language</Text>
+                </View>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingValue}>
+                    {EMAIL_LANGUAGES.find(({ code }) => code === language)?.label || 'English'}
+                  </Text>
+                  <Ionicons name="chevron-forward" size={20} color="#ccc" />
+                </View>
+              </TouchableOpacity>
+              
               <TouchableOpacity 
                 style={styles.settingItem}
                 onPress={() => setPasswordModalVisible(true)}
@@ -799,6 +956,48 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 16,
+    marginBottom: 4,
+    marginHorizontal: 16,
+  },
+  preferenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  preferenceLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  preferenceChannels: {
+    flexDirection: 'row',
+  },
+  channelChip: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginLeft: 8,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  channelChipEnabled: {
+    backgroundColor: '#4CAF50',
+  },
+  settingValue: {
+    fontSize: 14,
+    color: '#666',
+    marginRight: 4,
+  },
   logoutButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -79,7 +79,7 @@ export default function SignUpScreen({ navigation }: any) {
       setLoading(false);
       Alert.alert(
         'Success', 
-        'Account created successfully! You can now login.', 
+        'Account created! We sent a verification link to your email. Confirm your address, then log in.', 
         [{ text: 'Login Now', onPress: () => navigation.navigate('Login') }]
       );
     } catch (error) {
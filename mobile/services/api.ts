@@ -1,12 +1,49 @@
 // api.ts
 // mobile/services/api.ts
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { authEvents } from '../events';
+
+export const BASE_URL = 'https://my-tontine-backend-1-9f427c4ed62c.herokuapp.com/';
 
 const instance = axios.create({
-  baseURL: 'https://my-tontine-backend-1-9f427c4ed62c.herokuapp.com/',
+  baseURL: BASE_URL,
 });
 
+// Only one refresh may be in flight: refresh tokens are single-use on the server
+let refreshPromise: Promise<string | null> | null = null;
+
+// These answer 401 for bad credentials or tokens, not an expired access token.
+// The other /auth endpoints (logout, sessions) need a valid one like any route.
+const UNAUTHENTICATED_ENDPOINTS = [
+  'auth/login',
+  'auth/refresh',
+  'auth/forgot-password',
+  'auth/reset-password',
+  'auth/verify-email',
+  'auth/resend-verification',
+];
+
+const refreshAccessToken = async (): Promise<string | null> => {
+  const refreshToken = await AsyncStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    return null;
+  }
+
+  try {
+    // Use a bare axios call so this request doesn't go through the interceptors below
+    const response = await axios.post(`${BASE_URL}auth/refresh`, { refreshToken });
+    const { token, refreshToken: nextRefreshToken } = response.data;
+
+    await AsyncStorage.setItem('authToken', token);
+    await AsyncStorage.setItem('refreshToken', nextRefreshToken);
+    return token;
+  } catch (error) {
+    console.log('Token refresh failed:', (error as Error).message);
+    return null;
+  }
+};
+
 instance.interceptors.request.use(
   async (config) => {
     const token = await AsyncStorage.getItem('authToken');
@@ -18,4 +55,36 @@ instance.interceptors.request.use(
   (error) => Promise.reject(error)
 );
 
-export default instance;
\ No newline at end of file
+instance.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const originalRequest = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+
+    const path = originalRequest?.url?.replace(/^\//, '').split('?')[0];
+    const isUnauthenticatedEndpoint = !!path && UNAUTHENTICATED_ENDPOINTS.includes(path);
+
+    if (error.response?.status !== 401 || !originalRequest || originalRequest._retry || isUnauthenticatedEndpoint) {
+      return Promise.reject(error);
+    }
+    originalRequest._retry = true;
+
+    if (!refreshPromise) {
+      refreshPromise = refreshAccessToken().finally(() => {
+        refreshPromise = null;
+      });
+    }
+    const newToken = await refreshPromise;
+
+    if (!newToken) {
+      // The session is gone server-side: clear credentials and send the user to login
+      await AsyncStorage.multiRemove(['authToken', 'refreshToken', 'userId', 'userName']);
+      authEvents.emit('logout');
+      return Promise.reject(error);
+    }
+
+    originalRequest.headers.Authorization = `Bearer ${newToken}`;
+    return instance(originalRequest);
+  }
+);
+
+export default instance;
@@ -0,0 +1,171 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api, { BASE_URL } from './api';
+
+export interface ChatMessage {
+  id: number;
+  groupId: number;
+  senderId: number | null;
+  body: string;
+  // System messages report group events and have no sender
+  kind: 'text' | 'system';
+  event: string | null;
+  cycleId: number | null;
+  deepLink: string | null;
+  createdAt: string;
+  sender: {
+    id: number;
+    name: string;
+  } | null;
+}
+
+export interface ReadReceipt {
+  userId: number;
+  lastReadMessageId: number | null;
+  lastReadAt: string | null;
+  user: {
+    id: number;
+    name: string;
+  };
+}
+
+// Group chats and direct messages send the same events with their own kind of message
+export type ChatEvent<M = ChatMessage> =
+  | { type: 'message'; message: M }
+  | { type: 'read'; userId: number; lastReadMessageId: number; lastReadAt: string }
+  | { type: 'member_removed'; userId: number };
+
+export interface StreamHandlers<M = ChatMessage> {
+  onEvent: (event: ChatEvent<M>) => void;
+  // Called on every (re)connect so missed messages can be fetched
+  onOpen?: () => void;
+}
+
+const RECONNECT_DELAY_MS = 5000;
+
+// Split a server-sent events buffer into complete frames and whatever is left over
+const parseFrames = (buffer: string): { frames: string[]; rest: string } => {
+  const parts = buffer.split('\n\n');
+  return { frames: parts.slice(0, -1), rest: parts[parts.length - 1] };
+};
+
+const parseFrame = <M>(frame: string): ChatEvent<M> | null => {
+  const data = frame
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trim())
+    .join('\n');
+
+  if (!data) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    console.log('Ignoring malformed chat event:', data);
+    return null;
+  }
+};
+
+/**
+ * Listen to the live events of the chat at path, which serves them from
+ * path/stream. React Native has no EventSource, so this reads the server-sent
+ * events through XMLHttpRequest and reconnects when the stream drops. Returns
+ * a function that closes the stream.
+ */
+export const openEventStream = <M>(path: string, handlers: StreamHandlers<M>) => {
+  let xhr: XMLHttpRequest | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const connect = async () => {
+    const token = await AsyncStorage.getItem('authToken');
+    if (closed) return;
+
+    let seen = 0;
+    let buffer = '';
+
+    xhr = new XMLHttpRequest();
+    xhr.open('GET', `${BASE_URL}${path}/stream`);
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+    if (token) {
+      xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    }
+
+    xhr.onreadystatechange = () => {
+      if (xhr?.readyState === XMLHttpRequest.HEADERS_RECEIVED && xhr.status === 200) {
+        handlers.onOpen?.();
+      }
+    };
+
+    xhr.onprogress = () => {
+      if (!xhr) return;
+
+      // responseText keeps growing; only look at what arrived since last time
+      buffer += xhr.responseText.slice(seen);
+      seen = xhr.responseText.length;
+
+      const { frames, rest } = parseFrames(buffer);
+      buffer = rest;
+      frames.forEach(frame => {
+        const event = parseFrame<M>(frame);
+        if (event) {
+          handlers.onEvent(event);
+        }
+      });
+    };
+
+    // Any end of the stream, clean or not: try again shortly, unless the chat
+    // is no longer ours to read
+    xhr.onloadend = async () => {
+      if (closed || xhr?.status === 403 || xhr?.status === 404) return;
+
+      if (xhr?.status === 401) {
+        // The stream bypasses the axios interceptors, so let a regular call
+        // refresh the expired token before reconnecting
+        await api.get(`${path}/reads`).catch(() => null);
+      }
+      reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+
+    xhr.send();
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+    }
+    xhr?.abort();
+  };
+};
+
+export const ChatService = {
+  getMessages: async (groupId: number, params: { before?: number; after?: number } = {}) => {
+    const response = await api.get(`/groups/${groupId}/messages`, { params });
+    return response.data as { messages: ChatMessage[]; nextCursor: number | null };
+  },
+
+  sendMessage: async (groupId: number, body: string) => {
+    const response = await api.post(`/groups/${groupId}/messages`, { body });
+    return response.data as ChatMessage;
+  },
+
+  markRead: async (groupId: number, messageId: number) => {
+    await api.put(`/groups/${groupId}/messages/read`, { messageId });
+  },
+
+  getReadReceipts: async (groupId: number) => {
+    const response = await api.get(`/groups/${groupId}/messages/reads`);
+    return response.data as ReadReceipt[];
+  },
+
+  /**
+   * Listen to a group's live chat. Returns a function that closes the stream.
+   */
+  openStream: (groupId: number, handlers: StreamHandlers) => {
+    return openEventStream(`groups/${groupId}/messages`, handlers);
+  },
+};
@@ -1,5 +1,6 @@
-import { Linking } from 'react-native';
+import { Alert, Linking } from 'react-native';
 import * as Notifications from 'expo-notifications';
+import api from './api';
 
 type DeepLinkHandler = (url: string) => void;
 
@@ -42,31 +43,51 @@ export const DeepLinkService = {
       // Parse the URL to get path and parameters
       const parsedUrl = new URL(url);
       
+      // Password reset links open the reset form with the token prefilled
+      if (parsedUrl.pathname.includes('/reset-password')) {
+        const token = new URLSearchParams(parsedUrl.search).get('token');
+        if (token) {
+          navigation.navigate('ResetPassword', { token });
+        }
+        return;
+      }
+
+      // Email verification links are confirmed straight away
+      if (parsedUrl.pathname.includes('/verify-email')) {
+        const token = new URLSearchParams(parsedUrl.search).get('token');
+        if (token) {
+          DeepLinkService.verifyEmail(token);
+        }
+        return;
+      }
+
+      // Cycle links from group chat and notifications open the cycle
+      if (parsedUrl.pathname.includes('/cycle')) {
+        const cycleId = parseInt(new URLSearchParams(parsedUrl.search).get('cycleId') || '', 10);
+        if (cycleId) {
+          DeepLinkService.openCycle(cycleId, navigation);
+        }
+        return;
+      }
+
+      // Group links from notifications open the group
+      if (parsedUrl.pathname.includes('/group')) {
+        const groupId = parseInt(new URLSearchParams(parsedUrl.search).get('groupId') || '', 10);
+        if (groupId) {
+          DeepLinkService.openGroup(groupId, navigation);
+        }
+        return;
+      }
+
       // Check if it's a group invitation
       if (parsedUrl.pathname.includes('/invite')) {
         const params = new URLSearchParams(parsedUrl.search);
-        const groupId = params.get('group');
+        const token = params.get('token');
         
-        if (groupId) {
+        if (token) {
           // If the user is not logged in, we need to first navigate to Login
           // and pass the deep link data to handle after login
-          const handleAfterAuth = async () => {
-            try {
-              // Get group details
-              const response = await fetch(`https://my-tontine-backend-1-9f427c4ed62c.herokuapp.com/groups/${groupId}`);
-              if (response.ok) {
-                const groupData = await response.json();
-                navigation.navigate('GroupDetail', { 
-                  groupId: parseInt(groupId, 10), 
-                  groupName: groupData.name 
-                });
-              } else {
-                console.error('Failed to get group details');
-              }
-            } catch (error) {
-              console.error('Error handling invite deep link:', error);
-            }
-          };
+          const handleAfterAuth = () => DeepLinkService.acceptInvitation(token, navigation);
 
           // Store the handler for after login if needed
           if ((global as any).isAuthenticated) {
@@ -75,7 +96,7 @@ export const DeepLinkService = {
             // Store the pending action for after login
             (global as any).pendingDeepLink = {
               type: 'GROUP_INVITE',
-              groupId: parseInt(groupId, 10),
+              token,
               handler: handleAfterAuth
             };
             
@@ -87,5 +108,91 @@ export const DeepLinkService = {
     } catch (error) {
       console.error('Error parsing deep link:', error);
     }
+  },
+
+  /**
+   * Show an invitation and join its group once the user confirms
+   */
+  acceptInvitation: async (token: string, navigation: any): Promise<void> => {
+    try {
+      const preview = await api.get(`/invites/${encodeURIComponent(token)}`);
+      const { groupId, group, invitedBy, valid, reason } = preview.data;
+
+      if (!valid) {
+        Alert.alert('Invitation Unavailable', reason || 'This invitation can no longer be used.');
+        return;
+      }
+
+      Alert.alert(
+        'Join Group',
+        `${invitedBy?.name || 'A member'} invited you to join "${group.name}". Do you want to join?`,
+        [
+          { text: 'Not Now', style: 'cancel' },
+          {
+            text: 'Join',
+            onPress: async () => {
+              try {
+                const response = await api.post(`/groups/${groupId}/join`, { token });
+                
+                // Groups that require approval answer with a pending join request
+                if (response.status === 202) {
+                  Alert.alert('Request Sent', `The admins of "${group.name}" will review your request to join.`);
+                  return;
+                }
+                
+                navigation.navigate('GroupDetail', { groupId, groupName: group.name });
+              } catch (error: any) {
+                const message = error.response?.data?.error || 'Failed to join the group.';
+                Alert.alert('Error', message);
+              }
+            }
+          }
+        ]
+      );
+    } catch (error) {
+      console.error('Error handling invite deep link:', error);
+      Alert.alert('Error', 'This invitation could not be found.');
+    }
+  },
+
+  /**
+   * Open a cycle's details. The link only carries ids, so the group's name
+   * comes from the cycle itself.
+   */
+  openCycle: async (cycleId: number, navigation: any): Promise<void> => {
+    try {
+      const response = await api.get(`/cycles/${cycleId}`);
+      const cycle = response.data;
+      navigation.navigate('CycleDetail', { cycleId, groupId: cycle.groupId, groupName: cycle.group.name });
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'This cycle could not be found.';
+      Alert.alert('Error', message);
+    }
+  },
+
+  /**
+   * Open a group's details, fetching its name for the header
+   */
+  openGroup: async (groupId: number, navigation: any): Promise<void> => {
+    try {
+      const response = await api.get(`/groups/${groupId}`);
+      navigation.navigate('GroupDetail', { groupId, groupName: response.data.name });
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'This group could not be found.';
+      Alert.alert('Error', message);
+    }
+  },
+
+  /**
+   * Confirm an email address from a verification link
+   */
+  verifyEmail: async (token: string): Promise<void> => {
+    try {
+      await api.post('/auth/verify-email', { token });
+      Alert.alert('Email Verified', 'Your email address has been confirmed. You can now log in.');
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to verify your email address.';
+      Alert.alert('Verification Failed', message);
+    }
   }
 };
\ No newline at end of file
@@ -0,0 +1,93 @@
+import api from './api';
+import { openEventStream, StreamHandlers } from './chatService';
+
+export interface DirectMessage {
+  id: number;
+  conversationId: number;
+  senderId: number | null;
+  body: string;
+  createdAt: string;
+  sender: {
+    id: number;
+    name: string;
+  } | null;
+}
+
+export interface Conversation {
+  id: number;
+  otherUser: {
+    id: number;
+    name: string;
+  };
+  lastMessage: DirectMessage | null;
+  lastMessageAt: string | null;
+  unreadCount: number;
+  muted: boolean;
+  // Whether the current user blocked the other one
+  blocked: boolean;
+}
+
+export interface ConversationRead {
+  userId: number;
+  lastReadMessageId: number | null;
+  lastReadAt: string | null;
+}
+
+export const DirectMessageService = {
+  getConversations: async () => {
+    const response = await api.get('/conversations');
+    return response.data as Conversation[];
+  },
+
+  /**
+   * Open the conversation with a fellow group member, starting it if needed
+   */
+  startConversation: async (userId: number) => {
+    const response = await api.post('/conversations', { userId });
+    return response.data as Conversation;
+  },
+
+  getConversation: async (conversationId: number) => {
+    const response = await api.get(`/conversations/${conversationId}`);
+    return response.data as Conversation;
+  },
+
+  getMessages: async (conversationId: number, params: { before?: number; after?: number } = {}) => {
+    const response = await api.get(`/conversations/${conversationId}/messages`, { params });
+    return response.data as { messages: DirectMessage[]; nextCursor: number | null };
+  },
+
+  sendMessage: async (conversationId: number, body: string) => {
+    const response = await api.post(`/conversations/${conversationId}/messages`, { body });
+    return response.data as DirectMessage;
+  },
+
+  markRead: async (conversationId: number, messageId: number) => {
+    await api.put(`/conversations/${conversationId}/read`, { messageId });
+  },
+
+  getReads: async (conversationId: number) => {
+    const response = await api.get(`/conversations/${conversationId}/reads`);
+    return response.data as ConversationRead[];
+  },
+
+  setMuted: async (conversationId: number, muted: boolean) => {
+    await api.put(`/conversations/${conversationId}/mute`, { muted });
+  },
+
+  blockUser: async (userId: number) => {
+    await api.put(`/users/${userId}/block`);
+  },
+
+  unblockUser: async (userId: number) => {
+    await api.delete(`/users/${userId}/block`);
+  },
+
+  /**
+   * Listen to a conversation's live messages and read positions. Returns a
+   * function that closes the stream.
+   */
+  openStream: (conversationId: number, handlers: StreamHandlers<DirectMessage>) => {
+    return openEventStream(`conversations/${conversationId}`, handlers);
+  },
+};
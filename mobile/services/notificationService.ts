@@ -0,0 +1,81 @@
+import api from './api';
+import { NotificationEvent, NotificationPreferences, PreferenceChannel } from '../constants/NotificationPreferences';
+
+export interface AppNotification {
+  id: number;
+  type: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown> | null;
+  // Opened with DeepLinkService when the notification is tapped
+  deepLink: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationPage {
+  notifications: AppNotification[];
+  unreadCount: number;
+  nextCursor: number | null;
+}
+
+export interface GroupNotificationSettings {
+  groupId: number;
+  groupName: string;
+  muted: boolean;
+  // Choices that win over the user's own, only where the user made one
+  preferences: Partial<NotificationPreferences>;
+}
+
+export interface NotificationSettings {
+  emailReminders: boolean;
+  pushReminders: boolean;
+  events: NotificationEvent[];
+  preferences: NotificationPreferences;
+  groups: GroupNotificationSettings[];
+}
+
+export const NotificationService = {
+  getNotifications: async (params: { before?: number; limit?: number } = {}) => {
+    const response = await api.get('/notifications', { params });
+    return response.data as NotificationPage;
+  },
+
+  /**
+   * How many notifications the user hasn't read, for the bell's badge
+   */
+  getUnreadCount: async () => {
+    const page = await NotificationService.getNotifications({ limit: 1 });
+    return page.unreadCount;
+  },
+
+  markRead: async (notificationId: number) => {
+    const response = await api.put(`/notifications/${notificationId}/read`);
+    return response.data as AppNotification;
+  },
+
+  markAllRead: async () => {
+    await api.put('/notifications/read-all');
+  },
+
+  getSettings: async (userId: string) => {
+    const response = await api.get(`/users/${userId}/notification-settings`);
+    return response.data as NotificationSettings;
+  },
+
+  /**
+   * Turn one event on or off on one channel
+   */
+  setPreference: async (userId: string, event: NotificationEvent, channel: PreferenceChannel, enabled: boolean) => {
+    await api.put(`/users/${userId}/notification-settings`, {
+      preferences: { [event]: { [channel]: enabled } },
+    });
+  },
+
+  /**
+   * Muted groups send no push or email, but still show up in the notification list
+   */
+  setGroupMuted: async (groupId: number, muted: boolean) => {
+    await api.put(`/groups/${groupId}/notification-settings`, { muted });
+  },
+};
@@ -1,4 +1,5 @@
 import { Linking, Platform, Share } from 'react-native';
+import api from './api';
 
 interface ShareOptions {
   title: string;
@@ -39,10 +40,22 @@ export const SharingService = {
   },
   
   /**
-   * Generate a deep link for group invitation
+   * Create an invitation on the server and return its token
    */
-  generateInviteLink: (groupId: number): string => {
-    return `${APP_LINK_PREFIX}/invite?group=${groupId}`;
+  createInvitation: async (groupId: number, target: { phone?: string; email?: string } = {}): Promise<string> => {
+    const response = await api.post('/invites', {
+      groupId,
+      phone: target.phone,
+      email: target.email,
+    });
+    return response.data.invitation.token;
+  },
+  
+  /**
+   * Generate a deep link for a group invitation token
+   */
+  generateInviteLink: (token: string): string => {
+    return `${APP_LINK_PREFIX}/invite?token=${encodeURIComponent(token)}`;
   },
   
   /**
@@ -56,21 +69,22 @@ export const SharingService = {
         formattedNumber = '+' + formattedNumber;
       }
       
+      // Check WhatsApp is available before creating an invitation for it
+      const canOpen = await Linking.canOpenURL('whatsapp://send');
+      if (!canOpen) {
+        console.log('WhatsApp not installed');
+        return false;
+      }
+      
       // Create invitation message
-      const inviteLink = SharingService.generateInviteLink(options.groupId);
+      const token = await SharingService.createInvitation(options.groupId, { phone: formattedNumber || undefined });
+      const inviteLink = SharingService.generateInviteLink(token);
       const message = `You have been invited to join the "${options.groupName}" tontine group in the Tontine App. Download the app and sign up to participate: ${inviteLink}`;
       
       // Open WhatsApp with the message
       const whatsappUrl = `whatsapp://send?${formattedNumber ? `phone=${formattedNumber}&` : ''}text=${encodeURIComponent(message)}`;
-      
-      const canOpen = await Linking.canOpenURL(whatsappUrl);
-      if (canOpen) {
-        await Linking.openURL(whatsappUrl);
-        return true;
-      } else {
-        console.log('WhatsApp not installed');
-        return false;
-      }
+      await Linking.openURL(whatsappUrl);
+      return true;
     } catch (error) {
       console.error('Error inviting via WhatsApp:', error);
       return false;
@@ -82,7 +96,8 @@ export const SharingService = {
    */
   inviteViaSMS: async (options: InviteOptions): Promise<boolean> => {
     try {
-      const inviteLink = SharingService.generateInviteLink(options.groupId);
+      const token = await SharingService.createInvitation(options.groupId, { phone: options.recipientPhone });
+      const inviteLink = SharingService.generateInviteLink(token);
       const message = `Join my "${options.groupName}" tontine group! Download the app: ${inviteLink}`;
       
       let smsUrl = `sms:${options.recipientPhone || ''}`;
@@ -111,7 +126,8 @@ export const SharingService = {
    */
   inviteViaEmail: async (options: InviteOptions, email?: string): Promise<boolean> => {
     try {
-      const inviteLink = SharingService.generateInviteLink(options.groupId);
+      const token = await SharingService.createInvitation(options.groupId, { email });
+      const inviteLink = SharingService.generateInviteLink(token);
       const subject = `Join my Tontine Group: ${options.groupName}`;
       const body = `I'd like to invite you to join my "${options.groupName}" tontine group in the Tontine App. Download the app and sign up using this link: ${inviteLink}`;
       
@@ -135,7 +151,8 @@ export const SharingService = {
    */
   shareGroupInvite: async (options: InviteOptions): Promise<boolean> => {
     try {
-      const inviteLink = SharingService.generateInviteLink(options.groupId);
+      const token = await SharingService.createInvitation(options.groupId);
+      const inviteLink = SharingService.generateInviteLink(token);
       
       return await SharingService.shareContent({
         title: `Join my Tontine Group: ${options.groupName}`,